@@ -0,0 +1,286 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type CacheInterface } from '../Interface/CacheInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { InMemoryCache } from '../Cache/InMemoryCache';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeCachingOptions } from '../Type/CachingOptions';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * CachingAction caches the responses of an idempotent action by a key derived from the payload and the execution context and coalesces
+ * concurrent calls with the same key into a single execution. Wrap it in ZodSchemaValidatedAction so the key is derived from the validated payload.
+ * Only successful responses are cached unless cacheFailures is set.
+ */
+export class CachingAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly cache: CacheInterface<TypeResponse<TypeObject>>;
+	private readonly ttl: number;
+	private readonly staleWhileRevalidate: number;
+	private readonly keyGenerator: (payload: TypePayload, context?: TypeExecutionContext) => string;
+	private readonly cacheFailures: boolean;
+	private readonly errorMapper: ErrorMapperInterface;
+
+	private readonly pendingExecutions = new Map<string, Promise<TypeResponse<TypeObject>>>();
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to wrap
+	 * @param {TypeCachingOptions<TypePayload, TypeObject>} options - The caching options
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		options: TypeCachingOptions<TypePayload, TypeObject> = {}
+	)
+	{
+		this.cache = options.cache ?? new InMemoryCache();
+		this.ttl = options.ttl ?? 60000;
+		this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+		this.keyGenerator = options.keyGenerator ?? ((payload, context): string => CachingAction.createKey([context?.tenantId, context?.userId, payload]));
+		this.cacheFailures = options.cacheFailures ?? false;
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+	}
+
+	/**
+	 * Creates a cache key from a payload, the JSON of the payload with object keys sorted so that their order does not matter.
+	 * BigInts, Maps and Sets are encoded as objects with a $bigint, $map or $set key, and object keys starting with $ are escaped
+	 * with another $, so that they never collide with other values.
+	 *
+	 * @param {unknown} payload - The payload
+	 * @returns {string} - The key
+	 */
+	public static createKey(payload: unknown): string
+	{
+		return JSON.stringify(payload, (_key, value: unknown) => CachingAction.encodeKeyValue(value)) ?? '';
+	}
+
+	/**
+	 * Encodes a value of a payload for its key, see createKey.
+	 *
+	 * @param {unknown} value - The value
+	 * @returns {unknown} - The value that JSON.stringify can serialize
+	 */
+	private static encodeKeyValue(value: unknown): unknown
+	{
+		if (typeof value === 'bigint')
+		{
+			return { ['$bigint']: value.toString() };
+		}
+
+		if (value instanceof Map)
+		{
+			return {
+				['$map']: [...value.entries()]
+					.map(([entryKey, entryValue]) => [CachingAction.createKey(entryKey), CachingAction.createKey(entryValue)])
+					.sort(([firstKey], [secondKey]) => CachingAction.compare(firstKey, secondKey))
+			};
+		}
+
+		if (value instanceof Set)
+		{
+			return { ['$set']: [...value].map((item) => CachingAction.createKey(item)).sort(CachingAction.compare) };
+		}
+
+		if (typeof value !== 'object' || value === null || Array.isArray(value))
+		{
+			return value;
+		}
+
+		return Object.fromEntries(Object.entries(value)
+			.map(([entryKey, entryValue]) => [entryKey.startsWith('$') ? `$${entryKey}` : entryKey, entryValue])
+			.sort(([firstKey], [secondKey]) => CachingAction.compare(firstKey, secondKey)));
+	}
+
+	/**
+	 * Compares two strings by their code units, unlike localeCompare independent of the locale of the runtime.
+	 *
+	 * @param {string} first - The first string
+	 * @param {string} second - The second string
+	 * @returns {number} - Negative when the first string sorts first, positive when the second one does, otherwise 0
+	 */
+	private static compare(first: string, second: string): number
+	{
+		if (first === second)
+		{
+			return 0;
+		}
+
+		return first < second ? -1 : 1;
+	}
+
+	/**
+	 * Returns the cached response when it is fresh, otherwise executes the action.
+	 * Stale responses within the stale-while-revalidate window are returned right away and refreshed in the background.
+	 * Cached responses are returned as copies, so callers changing them do not change the cache.
+	 * The execution is shared by concurrent calls, so it runs without their signals and deadline, and each call stops waiting
+	 * for it with a TIMEOUT failure as soon as its own signal is aborted.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action without its signal and deadline
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the action wrapped in a TypeResponse
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		let key: string;
+		try
+		{
+			key = this.keyGenerator(payload, context);
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+
+		const entry = await this.cache.get(key).catch(() => undefined);
+		const now = Date.now();
+
+		if (entry && now < entry.freshUntil)
+		{
+			return structuredClone(entry.value);
+		}
+
+		const sharedContext = context ? { ...context, signal: undefined, deadline: undefined } : undefined;
+
+		if (entry && now < entry.staleUntil)
+		{
+			void this.executeOnce(key, payload, sharedContext);
+
+			return structuredClone(entry.value);
+		}
+
+		return CachingAction.waitUnlessAborted(this.executeOnce(key, payload, sharedContext), context?.signal);
+	}
+
+	/**
+	 * Removes the cached response of a payload, such as after a write made it outdated.
+	 * An execution in progress for the payload is not joined by later calls and does not cache its response.
+	 *
+	 * @param {TypePayload} payload - The payload
+	 * @param {TypeExecutionContext} context - The context the payload was executed with, as the key is derived from its tenant and user by default
+	 * @returns {Promise<void>}
+	 */
+	public async invalidate(payload: TypePayload, context?: TypeExecutionContext): Promise<void>
+	{
+		const key = this.keyGenerator(payload, context);
+
+		this.pendingExecutions.delete(key);
+		await this.cache.delete(key);
+	}
+
+	/**
+	 * Waits for a response unless the signal is aborted first, in which case a TIMEOUT failure is returned right away.
+	 *
+	 * @param {Promise<TypeResponse<TypeObject>>} response - The response to wait for
+	 * @param {AbortSignal} signal - The signal of the caller
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response or the TIMEOUT failure
+	 */
+	private static async waitUnlessAborted<TypeObject>(response: Promise<TypeResponse<TypeObject>>, signal?: AbortSignal): Promise<TypeResponse<TypeObject>>
+	{
+		if (!signal)
+		{
+			return response;
+		}
+
+		let abort: () => void = () => undefined;
+		const abortResponse = new Promise<TypeResponse<TypeObject>>((resolve) =>
+		{
+			abort = (): void => resolve(ResponseHelper.createErrorResponse(EnumErrorCode.TIMEOUT, 'Action was aborted'));
+		});
+
+		if (signal.aborted)
+		{
+			abort();
+		}
+		signal.addEventListener('abort', abort);
+
+		try
+		{
+			return await Promise.race([response, abortResponse]);
+		}
+		finally
+		{
+			signal.removeEventListener('abort', abort);
+		}
+	}
+
+	/**
+	 * Executes the action and caches its response, joining the execution already in progress for the same key.
+	 *
+	 * @param {string} key - The cache key
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response
+	 */
+	private executeOnce(key: string, payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		const pendingExecution = this.pendingExecutions.get(key);
+		if (pendingExecution)
+		{
+			return pendingExecution;
+		}
+
+		const isCurrent = (): boolean => this.pendingExecutions.get(key) === execution;
+		const execution: Promise<TypeResponse<TypeObject>> = this.executeAndStore(key, payload, context, isCurrent)
+			.finally(() =>
+			{
+				if (isCurrent())
+				{
+					this.pendingExecutions.delete(key);
+				}
+			});
+
+		this.pendingExecutions.set(key, execution);
+
+		return execution;
+	}
+
+	/**
+	 * Executes the action and caches a copy of its response, errors of the action and of the cache never escape.
+	 *
+	 * @param {string} key - The cache key
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @param {Function} isCurrent - Returns false once the key was invalidated during the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response
+	 */
+	private async executeAndStore(
+		key: string,
+		payload: TypePayload,
+		context: TypeExecutionContext | undefined,
+		isCurrent: () => boolean
+	): Promise<TypeResponse<TypeObject>>
+	{
+		let response: TypeResponse<TypeObject>;
+		try
+		{
+			response = await this.action.execute(payload, context);
+		}
+		catch (error)
+		{
+			response = ResponseHelper.fromError(error, this.errorMapper);
+		}
+
+		if ((response.success || this.cacheFailures) && isCurrent())
+		{
+			const now = Date.now();
+
+			try
+			{
+				await this.cache.set(key, {
+					value: structuredClone(response),
+					freshUntil: now + this.ttl,
+					staleUntil: now + this.ttl + this.staleWhileRevalidate
+				});
+			}
+			catch
+			{
+				// Responses that cannot be copied or stored are returned without caching them
+			}
+		}
+
+		return response;
+	}
+}
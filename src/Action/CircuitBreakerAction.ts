@@ -0,0 +1,127 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { EnumCircuitBreakerState } from '../Type/CircuitBreakerState';
+import { type TypeCircuitBreakerOptions } from '../Type/CircuitBreakerOptions';
+import { EnumErrorCode, transientErrorCodes } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * CircuitBreakerAction stops calling an action that keeps failing and fails fast instead.
+ * After the reset timeout a single trial call is let through, its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreakerAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly failureThreshold: number;
+	private readonly resetTimeout: number;
+	private readonly isFailure: (response: TypeResponse<TypeObject>) => boolean;
+	private readonly errorMapper: ErrorMapperInterface;
+
+	private state = EnumCircuitBreakerState.CLOSED;
+	private failureCount = 0;
+	private openedAt = 0;
+	private isTrialCallPending = false;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to wrap
+	 * @param {TypeCircuitBreakerOptions<TypeObject>} options - The circuit breaker options
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		options: TypeCircuitBreakerOptions<TypeObject> = {}
+	)
+	{
+		this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+		this.resetTimeout = options.resetTimeout ?? 30000;
+		this.isFailure = options.isFailure ?? ((response): boolean => ResponseHelper.hasMessageCode(response, transientErrorCodes));
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+	}
+
+	/**
+	 * Returns the current state of the circuit.
+	 *
+	 * @returns {EnumCircuitBreakerState} - The state
+	 */
+	public getState(): EnumCircuitBreakerState
+	{
+		if (this.state === EnumCircuitBreakerState.OPEN && Date.now() - this.openedAt >= this.resetTimeout)
+		{
+			return EnumCircuitBreakerState.HALF_OPEN;
+		}
+
+		return this.state;
+	}
+
+	/**
+	 * Executes the action unless the circuit is open.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the action wrapped in a TypeResponse
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		this.state = this.getState();
+
+		if (this.state === EnumCircuitBreakerState.OPEN || (this.state === EnumCircuitBreakerState.HALF_OPEN && this.isTrialCallPending))
+		{
+			return ResponseHelper.createErrorResponse(EnumErrorCode.CIRCUIT_OPEN, 'Circuit is open, the call was not made');
+		}
+
+		const isTrialCall = this.state === EnumCircuitBreakerState.HALF_OPEN;
+		this.isTrialCallPending = isTrialCall;
+
+		let response: TypeResponse<TypeObject>;
+		try
+		{
+			response = await this.action.execute(payload, context);
+		}
+		catch (error)
+		{
+			response = {
+				success: false,
+				messages: [this.errorMapper.map(error)]
+			};
+		}
+		finally
+		{
+			if (isTrialCall)
+			{
+				this.isTrialCallPending = false;
+			}
+		}
+
+		if (!response.success && this.isFailure(response))
+		{
+			this.recordFailure(isTrialCall);
+		}
+		else
+		{
+			this.state = EnumCircuitBreakerState.CLOSED;
+			this.failureCount = 0;
+		}
+
+		return response;
+	}
+
+	/**
+	 * Counts a failure and opens the circuit when the trial call failed or the threshold is reached.
+	 *
+	 * @param {boolean} isTrialCall - Whether the failed call was the trial call of a half-open circuit
+	 * @returns {void}
+	 */
+	private recordFailure(isTrialCall: boolean): void
+	{
+		this.failureCount++;
+
+		if (isTrialCall || this.failureCount >= this.failureThreshold)
+		{
+			this.state = EnumCircuitBreakerState.OPEN;
+			this.openedAt = Date.now();
+		}
+	}
+}
@@ -0,0 +1,107 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { Semaphore } from '../RateLimit/Semaphore';
+import { type TypeConcurrencyLimitOptions } from '../Type/ConcurrencyLimitOptions';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * ConcurrencyLimitedAction executes at most maxConcurrency calls of an action at once, further calls wait in a bounded queue.
+ * Calls that find the queue full or wait past the queue timeout or the deadline of the context are rejected with RATE_LIMITED
+ * and a retryAfter hint, calls whose context is aborted while waiting fail with TIMEOUT.
+ */
+export class ConcurrencyLimitedAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly maxConcurrency: number;
+	private readonly maxQueueSize: number;
+	private readonly queueTimeout: number;
+	private readonly retryAfter: number;
+	private readonly keyGenerator: (payload: TypePayload, context?: TypeExecutionContext) => string;
+	private readonly errorMapper: ErrorMapperInterface;
+
+	private readonly semaphores = new Map<string, Semaphore>();
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to wrap
+	 * @param {TypeConcurrencyLimitOptions<TypePayload>} options - The concurrency limit options
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		options: TypeConcurrencyLimitOptions<TypePayload> = {}
+	)
+	{
+		this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 10);
+		this.maxQueueSize = Math.max(0, options.maxQueueSize ?? 100);
+		this.queueTimeout = options.queueTimeout ?? Infinity;
+		this.retryAfter = options.retryAfter ?? 1000;
+		this.keyGenerator = options.keyGenerator ?? ((): string => 'global');
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+	}
+
+	/**
+	 * Executes the action once a slot is free.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the action wrapped in a TypeResponse
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		let key: string;
+		try
+		{
+			key = this.keyGenerator(payload, context);
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+
+		const semaphore = this.semaphores.get(key) ?? new Semaphore(this.maxConcurrency, this.maxQueueSize);
+		this.semaphores.set(key, semaphore);
+
+		const timeout = Math.min(this.queueTimeout, context?.deadline !== undefined ? context.deadline - Date.now() : Infinity);
+		if (!await semaphore.acquire(timeout, context?.signal))
+		{
+			this.forgetIdle(key, semaphore);
+
+			return context?.signal?.aborted
+				? ResponseHelper.createErrorResponse(EnumErrorCode.TIMEOUT, 'Call was aborted while waiting for a free slot')
+				: ResponseHelper.createRateLimitedResponse(this.retryAfter);
+		}
+
+		try
+		{
+			return await this.action.execute(payload, context);
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+		finally
+		{
+			semaphore.release();
+			this.forgetIdle(key, semaphore);
+		}
+	}
+
+	/**
+	 * Forgets the semaphore of a key once it is idle, keeping memory bounded with per caller keys.
+	 *
+	 * @param {string} key - The key
+	 * @param {Semaphore} semaphore - The semaphore of the key
+	 * @returns {void}
+	 */
+	private forgetIdle(key: string, semaphore: Semaphore): void
+	{
+		if (semaphore.isIdle())
+		{
+			this.semaphores.delete(key);
+		}
+	}
+}
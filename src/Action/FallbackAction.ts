@@ -0,0 +1,80 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { EnumMessageSeverity } from '../Type/MessageSeverity';
+import { type TypeMessage, type TypeResponse } from '../Type/Response';
+
+/**
+ * FallbackAction executes actions in order until one succeeds.
+ * Messages of the failed attempts are kept, as warnings when a later attempt succeeds.
+ */
+export class FallbackAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>[]} actions - The alternatives in the order they are tried
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown by the alternatives to messages
+	 */
+	constructor(
+		private readonly actions: ActionInterface<TypePayload, TypeObject>[],
+		private readonly errorMapper: ErrorMapperInterface = new ErrorMapper()
+	) {}
+
+	/**
+	 * Executes the alternatives until one succeeds.
+	 *
+	 * @param {TypePayload} payload - The payload of every alternative
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to every alternative
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The first successful response, or a failure with the messages of all attempts
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		const failureMessages: TypeMessage[] = [];
+
+		for (const action of this.actions)
+		{
+			const response = await this.executeAlternative(action, payload, context);
+
+			if (response.success)
+			{
+				return {
+					...response,
+					messages: [
+						...failureMessages.map((message) => ({ ...message, severity: EnumMessageSeverity.WARNING })),
+						...(response.messages ?? [])
+					]
+				};
+			}
+
+			failureMessages.push(...(response.messages ?? []));
+		}
+
+		return { success: false, messages: failureMessages };
+	}
+
+	/**
+	 * Executes a single alternative, exceptions are returned as failed responses.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The alternative
+	 * @param {TypePayload} payload - The payload of the alternative
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response of the alternative
+	 */
+	private async executeAlternative(
+		action: ActionInterface<TypePayload, TypeObject>,
+		payload: TypePayload,
+		context?: TypeExecutionContext
+	): Promise<TypeResponse<TypeObject>>
+	{
+		try
+		{
+			return await action.execute(payload, context);
+		}
+		catch (error)
+		{
+			return { success: false, messages: [this.errorMapper.map(error)] };
+		}
+	}
+}
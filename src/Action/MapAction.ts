@@ -0,0 +1,53 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * MapAction applies a function to the data of a successful response of an action.
+ */
+export class MapAction<TypePayload, TypeObject, TypeMappedObject> implements ActionInterface<TypePayload, TypeMappedObject>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to wrap
+	 * @param {(data: TypeObject) => TypeMappedObject} mapper - The function applied to the data
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown by the action or the function to messages
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		private readonly mapper: (data: TypeObject) => TypeMappedObject,
+		private readonly errorMapper: ErrorMapperInterface = new ErrorMapper()
+	) {}
+
+	/**
+	 * Executes the action and maps the data of its response.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
+	 * @returns {Promise<TypeResponse<TypeMappedObject>>} - The response with the mapped data
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeMappedObject>>
+	{
+		try
+		{
+			const { data, ...response } = await this.action.execute(payload, context);
+
+			if (!response.success || data === undefined)
+			{
+				return response;
+			}
+
+			return { ...response, data: this.mapper(data) };
+		}
+		catch (error)
+		{
+			return {
+				success: false,
+				messages: [this.errorMapper.map(error)]
+			};
+		}
+	}
+}
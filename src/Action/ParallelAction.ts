@@ -0,0 +1,65 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * ParallelAction executes actions concurrently with the same payload.
+ * It succeeds with the data of all branches when every branch succeeds, messages of all branches are merged.
+ */
+export class ParallelAction<TypePayload, TypeObjects extends unknown[]> implements ActionInterface<TypePayload, TypeObjects>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {{ [TypeKey in keyof TypeObjects]: ActionInterface<TypePayload, TypeObjects[TypeKey]> }} actions - The branches
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown by the branches to messages
+	 */
+	constructor(
+		private readonly actions: { [TypeKey in keyof TypeObjects]: ActionInterface<TypePayload, TypeObjects[TypeKey]> },
+		private readonly errorMapper: ErrorMapperInterface = new ErrorMapper()
+	) {}
+
+	/**
+	 * Executes the branches.
+	 *
+	 * @param {TypePayload} payload - The payload of every branch
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to every branch
+	 * @returns {Promise<TypeResponse<TypeObjects>>} - The data of the branches in their order with the messages of all branches
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObjects>>
+	{
+		const responses: TypeResponse<unknown>[] = await Promise.all(
+			(this.actions as ActionInterface<TypePayload, unknown>[]).map((action) => this.executeBranch(action, payload, context))
+		);
+		const messages = responses.flatMap((response) => response.messages ?? []);
+
+		if (responses.some((response) => !response.success))
+		{
+			return { success: false, messages };
+		}
+
+		return { success: true, messages, data: responses.map((response) => response.data) as TypeObjects };
+	}
+
+	/**
+	 * Executes a single branch, exceptions are returned as failed responses.
+	 *
+	 * @param {ActionInterface<TypePayload, unknown>} action - The branch
+	 * @param {TypePayload} payload - The payload of the branch
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<unknown>>} - The response of the branch
+	 */
+	private async executeBranch(action: ActionInterface<TypePayload, unknown>, payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<unknown>>
+	{
+		try
+		{
+			return await action.execute(payload, context);
+		}
+		catch (error)
+		{
+			return { success: false, messages: [this.errorMapper.map(error)] };
+		}
+	}
+}
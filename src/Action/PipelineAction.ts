@@ -0,0 +1,66 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type MiddlewareInterface } from '../Interface/MiddlewareInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * PipelineAction executes an action through a chain of middleware, the first middleware is the outermost one.
+ */
+export class PipelineAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action at the end of the pipeline
+	 * @param {MiddlewareInterface<TypePayload, TypeObject>[]} middlewares - The middleware in the order they run
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown in the pipeline to messages
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		private readonly middlewares: MiddlewareInterface<TypePayload, TypeObject>[],
+		private readonly errorMapper: ErrorMapperInterface = new ErrorMapper()
+	) {}
+
+	/**
+	 * Executes the middleware chain and the action.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to every middleware and the action
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the pipeline wrapped in a TypeResponse
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		try
+		{
+			return await this.handle(0, payload, context);
+		}
+		catch (error)
+		{
+			return {
+				success: false,
+				messages: [this.errorMapper.map(error)]
+			};
+		}
+	}
+
+	/**
+	 * Runs the middleware at the given index, or the action once all middleware ran.
+	 *
+	 * @param {number} index - The index of the middleware
+	 * @param {TypePayload} payload - The payload passed by the previous middleware
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response
+	 */
+	private async handle(index: number, payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		const middleware = this.middlewares[index];
+		if (!middleware)
+		{
+			return this.action.execute(payload, context);
+		}
+
+		return middleware.handle(payload, (nextPayload) => this.handle(index + 1, nextPayload, context), context);
+	}
+}
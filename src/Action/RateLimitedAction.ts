@@ -0,0 +1,61 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type RateLimiterInterface } from '../Interface/RateLimiterInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeRateLimitOptions } from '../Type/RateLimitOptions';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * RateLimitedAction rejects calls beyond the rate allowed by a limiter, such as TokenBucketRateLimiter or SlidingWindowRateLimiter,
+ * with RATE_LIMITED and a retryAfter hint in milliseconds in the params of the message.
+ * A limiter shared by several decorators enforces a limit across all of them.
+ */
+export class RateLimitedAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly keyGenerator: (payload: TypePayload, context?: TypeExecutionContext) => string;
+	private readonly errorMapper: ErrorMapperInterface;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to wrap
+	 * @param {RateLimiterInterface} limiter - The rate limiter
+	 * @param {TypeRateLimitOptions<TypePayload>} options - The rate limit options
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		private readonly limiter: RateLimiterInterface,
+		options: TypeRateLimitOptions<TypePayload> = {}
+	)
+	{
+		this.keyGenerator = options.keyGenerator ?? ((): string => 'global');
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+	}
+
+	/**
+	 * Executes the action when the limiter allows the call.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the action wrapped in a TypeResponse
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		try
+		{
+			const decision = await this.limiter.tryAcquire(this.keyGenerator(payload, context));
+			if (!decision.isAllowed)
+			{
+				return ResponseHelper.createRateLimitedResponse(decision.retryAfter);
+			}
+
+			return await this.action.execute(payload, context);
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+	}
+}
@@ -0,0 +1,135 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { transientErrorCodes } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+import { type TypeRetryOptions } from '../Type/RetryOptions';
+
+/**
+ * RetryingAction retries failed calls of an action with exponential backoff and jitter.
+ */
+export class RetryingAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly maxAttempts: number;
+	private readonly initialDelay: number;
+	private readonly maxDelay: number;
+	private readonly factor: number;
+	private readonly jitter: number;
+	private readonly shouldRetry: (response: TypeResponse<TypeObject>) => boolean;
+	private readonly errorMapper: ErrorMapperInterface;
+	private readonly random: () => number;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to wrap
+	 * @param {TypeRetryOptions<TypeObject>} options - The retry options
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		options: TypeRetryOptions<TypeObject> = {}
+	)
+	{
+		this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+		this.initialDelay = options.initialDelay ?? 100;
+		this.maxDelay = options.maxDelay ?? 10000;
+		this.factor = options.factor ?? 2;
+		this.jitter = Math.min(1, Math.max(0, options.jitter ?? 0.5));
+		this.shouldRetry = options.shouldRetry ?? ((response): boolean => ResponseHelper.hasMessageCode(response, transientErrorCodes));
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+		this.random = options.random ?? Math.random;
+	}
+
+	/**
+	 * Executes the action, retrying while the response is a retryable failure, attempts are left and the context is not aborted.
+	 * The response of the last attempt is returned, an abort of the context also ends the wait before the next attempt.
+	 * The wait is at least as long as the retry-after hint of the response, see ResponseHelper.getRetryAfter, up to maxDelay.
+	 * The response is returned right away when the wait would end after the deadline of the context.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the action wrapped in a TypeResponse
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		let attempt = 1;
+		let response = await this.executeAttempt(payload, context);
+
+		while (!response.success && attempt < this.maxAttempts && !context?.signal?.aborted && this.shouldRetry(response))
+		{
+			const delay = Math.max(this.getDelay(attempt), Math.min(ResponseHelper.getRetryAfter(response) ?? 0, this.maxDelay));
+			if (context?.deadline !== undefined && Date.now() + delay >= context.deadline)
+			{
+				break;
+			}
+
+			await RetryingAction.wait(delay, context?.signal);
+			if (context?.signal?.aborted)
+			{
+				break;
+			}
+
+			attempt++;
+			response = await this.executeAttempt(payload, context);
+		}
+
+		return response;
+	}
+
+	/**
+	 * Executes a single attempt, exceptions are returned as failed responses.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the attempt
+	 */
+	private async executeAttempt(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		try
+		{
+			return await this.action.execute(payload, context);
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+	}
+
+	/**
+	 * Waits for the given time, or until the signal is aborted.
+	 *
+	 * @param {number} delay - The time in milliseconds
+	 * @param {AbortSignal} signal - The signal ending the wait early
+	 * @returns {Promise<void>}
+	 */
+	private static wait(delay: number, signal?: AbortSignal): Promise<void>
+	{
+		return new Promise((resolve) =>
+		{
+			const done = (): void =>
+			{
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', done);
+				resolve();
+			};
+			const timer = setTimeout(done, delay);
+
+			signal?.addEventListener('abort', done);
+		});
+	}
+
+	/**
+	 * Returns the delay before the next attempt.
+	 *
+	 * @param {number} attempt - The number of the attempt that failed, starting from 1
+	 * @returns {number} - The delay in milliseconds
+	 */
+	private getDelay(attempt: number): number
+	{
+		const delay = Math.min(this.maxDelay, this.initialDelay * Math.pow(this.factor, attempt - 1));
+
+		return Math.round(delay * (1 - this.jitter * this.random()));
+	}
+}
@@ -0,0 +1,72 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeMessage, type TypeResponse } from '../Type/Response';
+
+/**
+ * SequenceAction executes actions one after another, the data of each step is the payload of the next one.
+ * The sequence stops at the first failed step, messages of all executed steps are returned.
+ */
+export class SequenceAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<any, any>[]} actions - The steps in the order they run
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown by the steps to messages
+	 */
+	constructor(
+		private readonly actions: ActionInterface<any, any>[],
+		private readonly errorMapper: ErrorMapperInterface = new ErrorMapper()
+	) {}
+
+	/**
+	 * Executes the steps.
+	 *
+	 * @param {TypePayload} payload - The payload of the first step
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to every step
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response of the last executed step with the messages of all steps
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		const messages: TypeMessage[] = [];
+		let data: unknown = payload;
+
+		for (const action of this.actions)
+		{
+			const response = await this.executeStep(action, data, context);
+
+			messages.push(...(response.messages ?? []));
+
+			if (!response.success)
+			{
+				return { success: false, messages };
+			}
+
+			data = response.data;
+		}
+
+		return { success: true, messages, data: data as TypeObject };
+	}
+
+	/**
+	 * Executes a single step, exceptions are returned as failed responses.
+	 *
+	 * @param {ActionInterface<unknown, unknown>} action - The step
+	 * @param {unknown} payload - The payload of the step
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<unknown>>} - The response of the step
+	 */
+	private async executeStep(action: ActionInterface<unknown, unknown>, payload: unknown, context?: TypeExecutionContext): Promise<TypeResponse<unknown>>
+	{
+		try
+		{
+			return await action.execute(payload, context);
+		}
+		catch (error)
+		{
+			return { success: false, messages: [this.errorMapper.map(error)] };
+		}
+	}
+}
@@ -0,0 +1,101 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ContractHelper } from '../Helper/ContractHelper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeContractDiagnostic } from '../Type/ContractDiagnostic';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+import { type TypeStrictContractOptions } from '../Type/StrictContractOptions';
+
+/**
+ * StrictContractAction checks every response of an action against the TypeResponse contract at runtime and reports
+ * the violations, such as during development or in staging. Thrown exceptions are reported and returned as failed responses.
+ * When the contract is enforced, violating responses are replaced with CONTRACT_VIOLATION failures.
+ */
+export class StrictContractAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly errorMapper: ErrorMapperInterface;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to check
+	 * @param {TypeStrictContractOptions<TypeObject>} options - The options, such as the listener of violations
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		private readonly options: TypeStrictContractOptions<TypeObject> = {}
+	)
+	{
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+	}
+
+	/**
+	 * Executes the action and checks its response.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response of the action, or a CONTRACT_VIOLATION failure when enforced
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		let response: TypeResponse<TypeObject>;
+		try
+		{
+			response = await this.action.execute(payload, context);
+		}
+		catch (error)
+		{
+			this.report([ContractHelper.createThrownExceptionDiagnostic(error)], payload, context);
+
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+
+		const diagnostics = ContractHelper.validateResponse(response, this.options.objectSchema);
+		if (diagnostics.length === 0)
+		{
+			return response;
+		}
+
+		this.report(diagnostics, payload, context);
+
+		if (!this.options.isEnforced)
+		{
+			return response;
+		}
+
+		return {
+			success: false,
+			messages: diagnostics.map((diagnostic) => ({
+				code: EnumErrorCode.CONTRACT_VIOLATION,
+				text: diagnostic.message,
+				params: { violation: diagnostic.violation }
+			}))
+		};
+	}
+
+	/**
+	 * Passes the violations to the listener, exceptions it throws are ignored so that reporting never changes the response.
+	 *
+	 * @param {TypeContractDiagnostic[]} diagnostics - The violations
+	 * @param {TypePayload} payload - The payload of the call
+	 * @param {TypeExecutionContext} context - The context of the call
+	 * @returns {void}
+	 */
+	private report(diagnostics: TypeContractDiagnostic[], payload: TypePayload, context?: TypeExecutionContext): void
+	{
+		diagnostics.forEach((diagnostic) =>
+		{
+			try
+			{
+				this.options.onViolation?.({ ...diagnostic, payload }, context);
+			}
+			catch
+			{
+				// The listener failing must not fail the call
+			}
+		});
+	}
+}
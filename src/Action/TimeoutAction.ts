@@ -0,0 +1,80 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * TimeoutAction fails calls of an action that do not complete in time and aborts them through the signal of their context.
+ */
+export class TimeoutAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to wrap
+	 * @param {number} timeout - The time in milliseconds a call may take
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown by the action to messages
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		private readonly timeout: number,
+		private readonly errorMapper: ErrorMapperInterface = new ErrorMapper()
+	) {}
+
+	/**
+	 * Executes the action, returning a TIMEOUT failure when it does not complete in time or as soon as the signal of the context is aborted.
+	 * The time is shortened to the deadline of the context, and the call is aborted with the signal of the context too.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action with a signal of its own
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the action wrapped in a TypeResponse
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		const controller = new AbortController();
+		const timeout = context?.deadline !== undefined ? Math.max(0, Math.min(this.timeout, context.deadline - Date.now())) : this.timeout;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let abort: () => void = () => undefined;
+
+		const timeoutResponse = new Promise<TypeResponse<TypeObject>>((resolve) =>
+		{
+			abort = (): void =>
+			{
+				controller.abort(context?.signal?.reason);
+				resolve(ResponseHelper.createErrorResponse(EnumErrorCode.TIMEOUT, 'Action was aborted'));
+			};
+
+			timer = setTimeout(() =>
+			{
+				const message = `Action timed out after ${timeout} ms`;
+
+				controller.abort(new DOMException(message, 'TimeoutError'));
+				resolve(ResponseHelper.createErrorResponse(EnumErrorCode.TIMEOUT, message));
+			}, timeout);
+		});
+
+		if (context?.signal?.aborted)
+		{
+			abort();
+		}
+		context?.signal?.addEventListener('abort', abort);
+
+		const actionResponse = this.action.execute(payload, { ...context, signal: controller.signal }).catch((error): TypeResponse<TypeObject> => ({
+			success: false,
+			messages: [this.errorMapper.map(error)]
+		}));
+
+		try
+		{
+			return await Promise.race([actionResponse, timeoutResponse]);
+		}
+		finally
+		{
+			clearTimeout(timer);
+			context?.signal?.removeEventListener('abort', abort);
+		}
+	}
+}
@@ -1,50 +1,112 @@
-import { type ZodSchema, type infer as Infer, ZodObject } from 'zod';
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
 import { type TypeResponse } from '../Type/Response';
 import { type ActionInterface } from '../Interface/ActionInterface';
-import { EnumErrorCode } from '../Type/ErrorCode';
 import { OptionalFieldStripperHelper } from '../Helper/OptionalFieldStripperHelper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+import { Instrumentation } from '../Observability/Instrumentation';
+import { EnumInstrumentationKind } from '../Type/InstrumentationKind';
+import { type TypeInstrumentationTarget } from '../Type/InstrumentationOptions';
+import { type TypeNormalizationOptions } from '../Type/NormalizationOptions';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
 
 export class ZodSchemaValidatedAction<TypePayloadSchema extends ZodSchema, TypeObjectSchema extends ZodSchema>
 implements ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>
 {
+	private readonly errorMapper: ErrorMapperInterface;
+	private readonly normalizationOptions: TypeNormalizationOptions;
+	private readonly messageFormatter?: MessageFormatterInterface;
+	private readonly instrumentation: Instrumentation;
+
 	/**
 	 * Constructor.
 	 *
 	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
 	 * @param {TypeObjectSchema} objectSchema - The Zod schema for the output data
 	 * @param {ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>} action - The action to wrap
+	 * @param {TypeZodSchemaValidatedOptions} options - The options, such as the mapper of thrown exceptions
 	 */
 	constructor(
-		private readonly payloadSchema: TypePayloadSchema,
-		private readonly objectSchema:TypeObjectSchema,
-		private readonly action: ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>
-	) {}
+		public readonly payloadSchema: TypePayloadSchema,
+		public readonly objectSchema: TypeObjectSchema,
+		private readonly action: ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>,
+		options: TypeZodSchemaValidatedOptions = {}
+	)
+	{
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+		this.normalizationOptions = options.normalization ?? {};
+		this.messageFormatter = options.messageFormatter;
+		this.instrumentation = new Instrumentation(options.instrumentation);
+	}
 
 	/**
 	 * Executes the action logic after validating the input payload and the response.
+	 * Exceptions thrown by the action are returned as a failed response, calls are reported to the configured instrumentation.
 	 *
 	 * @param {Infer<TypePayloadSchema>} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
 	 * @returns {Promise<TypeResponse<Infer<TypeObjectSchema>>>} - The result of the action wrapped in a TypeResponse
 	 */
-	public async execute(payload: Infer<TypePayloadSchema>): Promise<TypeResponse<Infer<TypeObjectSchema>>>
+	public async execute(payload: Infer<TypePayloadSchema>, context?: TypeExecutionContext): Promise<TypeResponse<Infer<TypeObjectSchema>>>
+	{
+		return this.instrumentation.run(this.getInstrumentationTarget(), payload, context, () => this.executeValidated(payload, context));
+	}
+
+	/**
+	 * Returns the kind and default name instrumentation events of this action are reported with.
+	 *
+	 * @returns {TypeInstrumentationTarget} - The instrumentation target
+	 */
+	protected getInstrumentationTarget(): TypeInstrumentationTarget
+	{
+		return { kind: EnumInstrumentationKind.ACTION, name: this.action.constructor.name };
+	}
+
+	/**
+	 * Validates the payload, executes the wrapped action and validates its result.
+	 *
+	 * @param {Infer<TypePayloadSchema>} payload - The input payload
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<Infer<TypeObjectSchema>>>} - The result
+	 */
+	private async executeValidated(payload: Infer<TypePayloadSchema>, context?: TypeExecutionContext): Promise<TypeResponse<Infer<TypeObjectSchema>>>
 	{
 		// Validate the input using the input schema
 		const parsedPayload = this.payloadSchema.safeParse(
-			OptionalFieldStripperHelper.stripEmptyStrings(payload, this.payloadSchema as unknown as ZodObject<any>)
+			OptionalFieldStripperHelper.normalize(payload, this.payloadSchema, this.normalizationOptions)
 		);
 		if (!parsedPayload.success)
 		{
 			return {
 				success: false,
-				messages: parsedPayload.error.errors.map((error) => ({
-					code: EnumErrorCode.VALIDATION_ERROR,
-					text: `${error.message} (at ${error.path.join('.')})`
-				}))
+				messages: ValidationMessageHelper.fromZodError(parsedPayload.error, {
+					formatter: this.messageFormatter,
+					schema: this.payloadSchema,
+					locale: context?.locale
+				})
 			};
 		}
 
 		// Execute the wrapped action
-		const response = await this.action.execute(parsedPayload.data);
+		let response: TypeResponse<Infer<TypeObjectSchema>>;
+		try
+		{
+			response = await this.action.execute(parsedPayload.data, context);
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper, { formatter: this.messageFormatter, locale: context?.locale });
+		}
+
+		// Failures without data, such as of rate limits, keep their messages
+		if (!response.success && response.data === undefined)
+		{
+			return response;
+		}
 
 		const validatedResponse = this.objectSchema.safeParse(response.data);
 
@@ -52,10 +114,11 @@ implements ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>
 		{
 			return {
 				success: false,
-				messages: validatedResponse.error.errors.map((error) => ({
-					code: EnumErrorCode.VALIDATION_ERROR,
-					text: `${error.message} (at ${error.path.join('.')})`
-				}))
+				messages: ValidationMessageHelper.fromZodError(validatedResponse.error, {
+					formatter: this.messageFormatter,
+					schema: this.objectSchema,
+					locale: context?.locale
+				})
 			};
 		}
 
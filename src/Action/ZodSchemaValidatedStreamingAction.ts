@@ -0,0 +1,165 @@
+import { type ZodError, type ZodSchema, type infer as Infer } from 'zod';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+import { type StreamingActionInterface } from '../Interface/StreamingActionInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { OptionalFieldStripperHelper } from '../Helper/OptionalFieldStripperHelper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeNormalizationOptions } from '../Type/NormalizationOptions';
+import { type TypeResponse } from '../Type/Response';
+import { EnumStreamEventType, type TypeStreamEvent } from '../Type/StreamEvent';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
+
+/**
+ * ZodSchemaValidatedStreamingAction validates the payload of a streaming action, every chunk it streams and its final response.
+ * The stream always ends with exactly one result event: an invalid payload or chunk, an exception or a stream ending without
+ * a result end it with a failed response instead.
+ */
+export class ZodSchemaValidatedStreamingAction<TypePayloadSchema extends ZodSchema, TypeChunkSchema extends ZodSchema, TypeObjectSchema extends ZodSchema>
+implements StreamingActionInterface<Infer<TypePayloadSchema>, Infer<TypeChunkSchema>, Infer<TypeObjectSchema>>
+{
+	private readonly errorMapper: ErrorMapperInterface;
+	private readonly normalizationOptions: TypeNormalizationOptions;
+	private readonly messageFormatter?: MessageFormatterInterface;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeChunkSchema} chunkSchema - The Zod schema for the partial data
+	 * @param {TypeObjectSchema} objectSchema - The Zod schema for the output data
+	 * @param {StreamingActionInterface<Infer<TypePayloadSchema>, Infer<TypeChunkSchema>, Infer<TypeObjectSchema>>} action - The action to wrap
+	 * @param {Omit<TypeZodSchemaValidatedOptions, 'instrumentation'>} options - The options, such as the mapper of thrown exceptions
+	 */
+	constructor(
+		public readonly payloadSchema: TypePayloadSchema,
+		public readonly chunkSchema: TypeChunkSchema,
+		public readonly objectSchema: TypeObjectSchema,
+		private readonly action: StreamingActionInterface<Infer<TypePayloadSchema>, Infer<TypeChunkSchema>, Infer<TypeObjectSchema>>,
+		options: Omit<TypeZodSchemaValidatedOptions, 'instrumentation'> = {}
+	)
+	{
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+		this.normalizationOptions = options.normalization ?? {};
+		this.messageFormatter = options.messageFormatter;
+	}
+
+	/**
+	 * Executes the action after validating the payload, streaming its validated events.
+	 *
+	 * @param {Infer<TypePayloadSchema>} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
+	 * @returns {AsyncIterable<TypeStreamEvent<Infer<TypeChunkSchema>, Infer<TypeObjectSchema>>>} - The events followed by the result event
+	 */
+	public async *stream(
+		payload: Infer<TypePayloadSchema>,
+		context?: TypeExecutionContext
+	): AsyncIterable<TypeStreamEvent<Infer<TypeChunkSchema>, Infer<TypeObjectSchema>>>
+	{
+		const parsedPayload = this.payloadSchema.safeParse(
+			OptionalFieldStripperHelper.normalize(payload, this.payloadSchema, this.normalizationOptions)
+		);
+		if (!parsedPayload.success)
+		{
+			yield ZodSchemaValidatedStreamingAction.createResultEvent(this.createValidationFailure(parsedPayload.error, this.payloadSchema, context));
+
+			return;
+		}
+
+		try
+		{
+			for await (const event of this.action.stream(parsedPayload.data, context))
+			{
+				if (event.type === EnumStreamEventType.RESULT)
+				{
+					yield ZodSchemaValidatedStreamingAction.createResultEvent(this.validateResponse(event.response, context));
+
+					return;
+				}
+
+				if (event.type === EnumStreamEventType.CHUNK)
+				{
+					const parsedChunk = this.chunkSchema.safeParse(event.data);
+					if (!parsedChunk.success)
+					{
+						yield ZodSchemaValidatedStreamingAction.createResultEvent(this.createValidationFailure(parsedChunk.error, this.chunkSchema, context));
+
+						return;
+					}
+
+					yield { type: EnumStreamEventType.CHUNK, data: parsedChunk.data };
+					continue;
+				}
+
+				yield event;
+			}
+		}
+		catch (error)
+		{
+			yield ZodSchemaValidatedStreamingAction.createResultEvent(
+				ResponseHelper.fromError(error, this.errorMapper, { formatter: this.messageFormatter, locale: context?.locale })
+			);
+
+			return;
+		}
+
+		yield ZodSchemaValidatedStreamingAction.createResultEvent(
+			ResponseHelper.createErrorResponse(EnumErrorCode.EXECUTION_ERROR, 'Stream ended without a result', {
+				formatter: this.messageFormatter,
+				locale: context?.locale
+			})
+		);
+	}
+
+	/**
+	 * Validates the data of a successful final response, failed responses are passed through.
+	 *
+	 * @param {TypeResponse<Infer<TypeObjectSchema>>} response - The final response
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {TypeResponse<Infer<TypeObjectSchema>>} - The validated response
+	 */
+	private validateResponse(response: TypeResponse<Infer<TypeObjectSchema>>, context?: TypeExecutionContext): TypeResponse<Infer<TypeObjectSchema>>
+	{
+		if (!response.success)
+		{
+			return response;
+		}
+
+		const validatedResponse = this.objectSchema.safeParse(response.data);
+		if (!validatedResponse.success)
+		{
+			return this.createValidationFailure(validatedResponse.error, this.objectSchema, context);
+		}
+
+		return { ...response, data: validatedResponse.data };
+	}
+
+	/**
+	 * Creates the failed response of a validation error, with the texts rendered in the locale of the execution.
+	 *
+	 * @param {ZodError} error - The validation error
+	 * @param {ZodSchema} schema - The validated schema
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {TypeResponse<never>} - The failed response
+	 */
+	private createValidationFailure(error: ZodError, schema: ZodSchema, context?: TypeExecutionContext): TypeResponse<never>
+	{
+		return ResponseHelper.createErrorsResponse(
+			ValidationMessageHelper.fromZodError(error, { formatter: this.messageFormatter, schema, locale: context?.locale })
+		);
+	}
+
+	/**
+	 * Creates a result event.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The final response
+	 * @returns {TypeStreamEvent<never, TypeObject>} - The result event
+	 */
+	private static createResultEvent<TypeObject>(response: TypeResponse<TypeObject>): TypeStreamEvent<never, TypeObject>
+	{
+		return { type: EnumStreamEventType.RESULT, response };
+	}
+}
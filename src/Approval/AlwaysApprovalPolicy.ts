@@ -0,0 +1,17 @@
+import { type ApprovalPolicyInterface } from '../Interface/ApprovalPolicyInterface';
+
+/**
+ * AlwaysApprovalPolicy requires approval for every call.
+ */
+export class AlwaysApprovalPolicy implements ApprovalPolicyInterface<unknown>
+{
+	/**
+	 * Requires approval.
+	 *
+	 * @returns {Promise<boolean>} - Always true
+	 */
+	public async requiresApproval(): Promise<boolean>
+	{
+		return true;
+	}
+}
@@ -0,0 +1,40 @@
+import { type ApprovalPolicyInterface } from '../Interface/ApprovalPolicyInterface';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+
+/**
+ * CallerApprovalPolicy requires approval depending on the caller, calls of trusted callers are executed right away
+ * and calls of everyone else are decided by the policy for untrusted callers, which requires approval by default.
+ *
+ * @example
+ * const policy = new CallerApprovalPolicy((context) => context?.attributes?.['role'] === 'admin');
+ */
+export class CallerApprovalPolicy<TypePayload> implements ApprovalPolicyInterface<TypePayload>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {Function} isTrusted - Checks whether the caller of the context is trusted
+	 * @param {ApprovalPolicyInterface<TypePayload>} untrustedPolicy - Decides the calls of untrusted callers
+	 */
+	constructor(
+		private readonly isTrusted: (context?: TypeExecutionContext) => boolean,
+		private readonly untrustedPolicy?: ApprovalPolicyInterface<TypePayload>
+	) {}
+
+	/**
+	 * Requires approval for untrusted callers.
+	 *
+	 * @param {TypePayload} payload - The validated payload of the call
+	 * @param {TypeExecutionContext} context - The context of the call
+	 * @returns {Promise<boolean>} - True when the call has to be approved first
+	 */
+	public async requiresApproval(payload: TypePayload, context?: TypeExecutionContext): Promise<boolean>
+	{
+		if (this.isTrusted(context))
+		{
+			return false;
+		}
+
+		return this.untrustedPolicy ? this.untrustedPolicy.requiresApproval(payload, context) : true;
+	}
+}
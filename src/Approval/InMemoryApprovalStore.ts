@@ -0,0 +1,65 @@
+import { type ApprovalStoreInterface } from '../Interface/ApprovalStoreInterface';
+import { type TypeApprovalTicket } from '../Type/ApprovalTicket';
+
+/**
+ * InMemoryApprovalStore keeps tickets in a Map, expired tickets are removed whenever tickets are listed.
+ */
+export class InMemoryApprovalStore implements ApprovalStoreInterface
+{
+	private readonly tickets = new Map<string, TypeApprovalTicket<unknown>>();
+
+	/**
+	 * Stores a ticket.
+	 *
+	 * @param {TypeApprovalTicket<unknown>} ticket - The ticket
+	 * @returns {Promise<void>}
+	 */
+	public async save(ticket: TypeApprovalTicket<unknown>): Promise<void>
+	{
+		this.tickets.set(ticket.id, ticket);
+	}
+
+	/**
+	 * Returns a ticket without removing it.
+	 *
+	 * @param {string} id - The id of the ticket
+	 * @returns {Promise<TypeApprovalTicket<unknown> | undefined>} - The ticket, undefined when missing
+	 */
+	public async get(id: string): Promise<TypeApprovalTicket<unknown> | undefined>
+	{
+		return this.tickets.get(id);
+	}
+
+	/**
+	 * Removes a ticket and returns it.
+	 *
+	 * @param {string} id - The id of the ticket
+	 * @returns {Promise<TypeApprovalTicket<unknown> | undefined>} - The ticket, undefined when missing
+	 */
+	public async take(id: string): Promise<TypeApprovalTicket<unknown> | undefined>
+	{
+		const ticket = this.tickets.get(id);
+		this.tickets.delete(id);
+
+		return ticket;
+	}
+
+	/**
+	 * Returns the tickets that have not expired.
+	 *
+	 * @returns {Promise<TypeApprovalTicket<unknown>[]>} - The tickets
+	 */
+	public async list(): Promise<TypeApprovalTicket<unknown>[]>
+	{
+		const now = Date.now();
+		this.tickets.forEach((ticket, id) =>
+		{
+			if (ticket.expiresAt !== undefined && ticket.expiresAt <= now)
+			{
+				this.tickets.delete(id);
+			}
+		});
+
+		return [...this.tickets.values()];
+	}
+}
@@ -0,0 +1,32 @@
+import { type ApprovalPolicyInterface } from '../Interface/ApprovalPolicyInterface';
+
+/**
+ * ThresholdApprovalPolicy requires approval for calls whose value, such as the amount of a payment, is above a threshold.
+ *
+ * @example
+ * const policy = new ThresholdApprovalPolicy((payload: TypeTransferPayload) => payload.amount, 1000);
+ */
+export class ThresholdApprovalPolicy<TypePayload> implements ApprovalPolicyInterface<TypePayload>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {Function} selector - Returns the value of a payload compared to the threshold
+	 * @param {number} threshold - The highest value allowed without approval
+	 */
+	constructor(
+		private readonly selector: (payload: TypePayload) => number,
+		private readonly threshold: number
+	) {}
+
+	/**
+	 * Requires approval when the value of the payload is above the threshold.
+	 *
+	 * @param {TypePayload} payload - The validated payload of the call
+	 * @returns {Promise<boolean>} - True when the value is above the threshold
+	 */
+	public async requiresApproval(payload: TypePayload): Promise<boolean>
+	{
+		return this.selector(payload) > this.threshold;
+	}
+}
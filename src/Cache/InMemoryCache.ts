@@ -0,0 +1,81 @@
+import { type CacheInterface } from '../Interface/CacheInterface';
+import { type TypeCacheEntry } from '../Type/CacheEntry';
+
+/**
+ * InMemoryCache keeps entries in a Map bounded by the number of entries, evicting the least recently used entry first.
+ */
+export class InMemoryCache<TypeValue> implements CacheInterface<TypeValue>
+{
+	private readonly entries = new Map<string, TypeCacheEntry<TypeValue>>();
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {number} maxEntries - The maximum number of entries
+	 */
+	constructor(private readonly maxEntries: number = 1000) {}
+
+	/**
+	 * Returns the entry stored under the key and marks it as recently used.
+	 *
+	 * @param {string} key - The key
+	 * @returns {Promise<TypeCacheEntry<TypeValue> | undefined>} - The entry, undefined when missing or past its staleUntil time
+	 */
+	public async get(key: string): Promise<TypeCacheEntry<TypeValue> | undefined>
+	{
+		const entry = this.entries.get(key);
+		if (!entry)
+		{
+			return undefined;
+		}
+
+		this.entries.delete(key);
+		if (Date.now() >= entry.staleUntil)
+		{
+			return undefined;
+		}
+
+		this.entries.set(key, entry);
+
+		return entry;
+	}
+
+	/**
+	 * Stores an entry under the key, evicting the least recently used entries beyond the maximum.
+	 *
+	 * @param {string} key - The key
+	 * @param {TypeCacheEntry<TypeValue>} entry - The entry
+	 * @returns {Promise<void>}
+	 */
+	public async set(key: string, entry: TypeCacheEntry<TypeValue>): Promise<void>
+	{
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+
+		while (this.entries.size > Math.max(1, this.maxEntries))
+		{
+			this.entries.delete(this.entries.keys().next().value as string);
+		}
+	}
+
+	/**
+	 * Removes the entry stored under the key.
+	 *
+	 * @param {string} key - The key
+	 * @returns {Promise<void>}
+	 */
+	public async delete(key: string): Promise<void>
+	{
+		this.entries.delete(key);
+	}
+
+	/**
+	 * Returns the number of stored entries, including entries past their staleUntil time that were not evicted yet.
+	 *
+	 * @returns {number} - The number of entries
+	 */
+	public getSize(): number
+	{
+		return this.entries.size;
+	}
+}
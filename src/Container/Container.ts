@@ -0,0 +1,322 @@
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { ZodSchemaValidatedAction } from '../Action/ZodSchemaValidatedAction';
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ServiceInterface } from '../Interface/ServiceInterface';
+import { ZodSchemaValidatedResponseService } from '../Service/ZodSchemaValidatedResponseService';
+import { ActionTool } from '../Tool/ActionTool';
+import { EnumLifetime } from '../Type/Lifetime';
+import { type TypeProvider, type TypeProviderOptions } from '../Type/Provider';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
+import { type InjectionToken } from './InjectionToken';
+
+/**
+ * Container creates services, actions and tools on first use from factories registered by token and reuses them according
+ * to their lifetime. Scopes created with createScope share the registrations and singletons of their container and keep
+ * their own scoped instances and overrides, which makes them suitable both per request and for replacing dependencies in tests.
+ * Scoped tokens can only be resolved from a scope, and singletons cannot depend on them, since they would keep the instance of the first scope.
+ *
+ * @example
+ * const container = new Container()
+ *     .register(orderRepositoryToken, () => new OrderRepository())
+ *     .registerAction(createOrderToken, payloadSchema, orderSchema, (container) => new CreateOrderAction(container.resolve(orderRepositoryToken)));
+ *
+ * const { data } = await container.resolve(createOrderToken).execute({ productId: 'p1', quantity: 2 });
+ */
+export class Container
+{
+	private readonly providers = new Map<InjectionToken<unknown>, TypeProvider<unknown>>();
+	private readonly instances = new Map<InjectionToken<unknown>, unknown>();
+	private readonly resolvedTokens = new Set<InjectionToken<unknown>>();
+	private readonly resolutionPath: { token: InjectionToken<unknown>; lifetime: EnumLifetime }[];
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {Container} parent - The container of a scope, undefined for the root container
+	 */
+	constructor(private readonly parent?: Container)
+	{
+		this.resolutionPath = parent?.resolutionPath ?? [];
+	}
+
+	/**
+	 * Registers a factory for a token, the factory is called lazily when the token is resolved.
+	 *
+	 * @param {InjectionToken<TypeValue>} token - The token
+	 * @param {Function} factory - Creates the instance, resolving its dependencies from the given container
+	 * @param {TypeProviderOptions} options - The options, such as the lifetime
+	 * @returns {this} - The container
+	 * @throws {Error} - When the token is already registered in this container
+	 */
+	public register<TypeValue>(token: InjectionToken<TypeValue>, factory: (container: Container) => TypeValue, options: TypeProviderOptions = {}): this
+	{
+		if (this.providers.has(token))
+		{
+			throw new Error(`Token "${token.toString()}" is already registered, use override to replace it`);
+		}
+
+		return this.override(token, factory, options);
+	}
+
+	/**
+	 * Registers an existing instance for a token.
+	 *
+	 * @param {InjectionToken<TypeValue>} token - The token
+	 * @param {TypeValue} value - The instance
+	 * @returns {this} - The container
+	 * @throws {Error} - When the token is already registered in this container
+	 */
+	public registerValue<TypeValue>(token: InjectionToken<TypeValue>, value: TypeValue): this
+	{
+		return this.register(token, () => value);
+	}
+
+	/**
+	 * Registers an action with its schemas, it is resolved wrapped in ZodSchemaValidatedAction.
+	 *
+	 * @param {InjectionToken<ZodSchemaValidatedAction<TypePayloadSchema, TypeObjectSchema>>} token - The token
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeObjectSchema} objectSchema - The Zod schema for the output data
+	 * @param {Function} factory - Creates the action, resolving its dependencies from the given container
+	 * @param {TypeZodSchemaValidatedOptions & TypeProviderOptions} options - The options of the wrapper and the lifetime
+	 * @returns {this} - The container
+	 * @throws {Error} - When the token is already registered in this container
+	 */
+	public registerAction<TypePayloadSchema extends ZodSchema, TypeObjectSchema extends ZodSchema>(
+		token: InjectionToken<ZodSchemaValidatedAction<TypePayloadSchema, TypeObjectSchema>>,
+		payloadSchema: TypePayloadSchema,
+		objectSchema: TypeObjectSchema,
+		factory: (container: Container) => ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>,
+		options: TypeZodSchemaValidatedOptions & TypeProviderOptions = {}
+	): this
+	{
+		const { lifetime, ...wrapperOptions } = options;
+
+		return this.register(
+			token,
+			(container) => new ZodSchemaValidatedAction(payloadSchema, objectSchema, factory(container), wrapperOptions),
+			{ lifetime }
+		);
+	}
+
+	/**
+	 * Registers a service with its schemas, it is resolved wrapped in ZodSchemaValidatedResponseService.
+	 *
+	 * @param {InjectionToken<ZodSchemaValidatedResponseService<TypePayloadSchema, TypeResponseSchema>>} token - The token
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeResponseSchema} responseSchema - The Zod schema for the output data
+	 * @param {Function} factory - Creates the service, resolving its dependencies from the given container
+	 * @param {TypeZodSchemaValidatedOptions & TypeProviderOptions} options - The options of the wrapper and the lifetime
+	 * @returns {this} - The container
+	 * @throws {Error} - When the token is already registered in this container
+	 */
+	public registerService<TypePayloadSchema extends ZodSchema, TypeResponseSchema extends ZodSchema>(
+		token: InjectionToken<ZodSchemaValidatedResponseService<TypePayloadSchema, TypeResponseSchema>>,
+		payloadSchema: TypePayloadSchema,
+		responseSchema: TypeResponseSchema,
+		factory: (container: Container) => ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>,
+		options: TypeZodSchemaValidatedOptions & TypeProviderOptions = {}
+	): this
+	{
+		const { lifetime, ...wrapperOptions } = options;
+
+		return this.register(
+			token,
+			(container) => new ZodSchemaValidatedResponseService(payloadSchema, responseSchema, factory(container), wrapperOptions),
+			{ lifetime }
+		);
+	}
+
+	/**
+	 * Registers an action with its schemas, it is resolved as an ActionTool with the given name and description.
+	 *
+	 * @param {InjectionToken<ActionTool<TypePayloadSchema, TypeResponseSchema>>} token - The token
+	 * @param {string} name - The name of the tool
+	 * @param {string} description - The description of the tool
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeResponseSchema} responseSchema - The Zod schema for the output data
+	 * @param {Function} factory - Creates the action, resolving its dependencies from the given container
+	 * @param {TypeZodSchemaValidatedOptions & TypeProviderOptions} options - The options of the wrapper and the lifetime
+	 * @returns {this} - The container
+	 * @throws {Error} - When the token is already registered in this container
+	 */
+	public registerTool<TypePayloadSchema extends ZodSchema, TypeResponseSchema extends ZodSchema>(
+		token: InjectionToken<ActionTool<TypePayloadSchema, TypeResponseSchema>>,
+		name: string,
+		description: string,
+		payloadSchema: TypePayloadSchema,
+		responseSchema: TypeResponseSchema,
+		factory: (container: Container) => ActionInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>,
+		options: TypeZodSchemaValidatedOptions & TypeProviderOptions = {}
+	): this
+	{
+		const { lifetime, ...wrapperOptions } = options;
+
+		return this.register(
+			token,
+			(container) => new ActionTool(name, description, payloadSchema, responseSchema, factory(container), wrapperOptions),
+			{ lifetime }
+		);
+	}
+
+	/**
+	 * Replaces the factory of a token in this container, such as with a mock in tests. Overrides in a scope apply to the scope only.
+	 * Instances created before may already depend on the replaced one, so a token cannot be overridden once this container resolved it
+	 * or once it was resolved from one of its scopes while registered in this container.
+	 *
+	 * @param {InjectionToken<TypeValue>} token - The token
+	 * @param {Function} factory - Creates the instance, resolving its dependencies from the given container
+	 * @param {TypeProviderOptions} options - The options, such as the lifetime
+	 * @returns {this} - The container
+	 * @throws {Error} - When the token was already resolved from this container
+	 */
+	public override<TypeValue>(token: InjectionToken<TypeValue>, factory: (container: Container) => TypeValue, options: TypeProviderOptions = {}): this
+	{
+		if (this.resolvedTokens.has(token))
+		{
+			throw new Error(`Token "${token.toString()}" is already resolved, override it before it is resolved for the first time`);
+		}
+
+		this.providers.set(token, { factory, lifetime: options.lifetime ?? EnumLifetime.SINGLETON });
+
+		return this;
+	}
+
+	/**
+	 * Checks whether a token is registered in this container or one of its parents.
+	 *
+	 * @param {InjectionToken<unknown>} token - The token
+	 * @returns {boolean} - True when the token can be resolved
+	 */
+	public has(token: InjectionToken<unknown>): boolean
+	{
+		return this.findOwner(token) !== undefined;
+	}
+
+	/**
+	 * Resolves the instance of a token.
+	 *
+	 * @param {InjectionToken<TypeValue>} token - The token
+	 * @returns {TypeValue} - The instance
+	 * @throws {Error} - When the token is not registered, its dependencies are circular or it is scoped and resolved from the root container
+	 * or for a singleton
+	 */
+	public resolve<TypeValue>(token: InjectionToken<TypeValue>): TypeValue
+	{
+		if (this.resolutionPath.some((item) => item.token === token))
+		{
+			throw new Error(`Circular dependency: ${[...this.resolutionPath.map((item) => item.token), token].map((item) => item.toString()).join(' -> ')}`);
+		}
+
+		const owner = this.findOwner(token);
+		const provider = owner?.providers.get(token) as TypeProvider<TypeValue> | undefined;
+		if (!owner || !provider)
+		{
+			throw new Error(`Token "${token.toString()}" is not registered`);
+		}
+
+		if (provider.lifetime === EnumLifetime.SCOPED)
+		{
+			const singleton = this.resolutionPath.find((item) => item.lifetime === EnumLifetime.SINGLETON);
+			if (singleton)
+			{
+				throw new Error(`Singleton "${singleton.token.toString()}" cannot depend on scoped token "${token.toString()}"`);
+			}
+
+			if (!this.parent)
+			{
+				throw new Error(`Scoped token "${token.toString()}" cannot be resolved from the root container, resolve it from a scope`);
+			}
+		}
+
+		// Singletons are cached in the container they are registered in, so it cannot override them afterwards either
+		this.resolvedTokens.add(token);
+		owner.resolvedTokens.add(token);
+
+		switch (provider.lifetime)
+		{
+			case EnumLifetime.TRANSIENT:
+				return this.create(token, provider, this);
+			case EnumLifetime.SCOPED:
+				return this.getOrCreate(this, token, provider);
+			default:
+				// Singletons resolve their dependencies from the container they are registered in, not from a scope
+				return this.getOrCreate(owner, token, provider);
+		}
+	}
+
+	/**
+	 * Returns a function resolving the token when called, which defers creating a dependency until it is used
+	 * and lets two services depend on each other.
+	 *
+	 * @param {InjectionToken<TypeValue>} token - The token
+	 * @returns {Function} - Resolves the instance
+	 */
+	public lazy<TypeValue>(token: InjectionToken<TypeValue>): () => TypeValue
+	{
+		return (): TypeValue => this.resolve(token);
+	}
+
+	/**
+	 * Creates a scope, such as for a request, with its own scoped instances and overrides.
+	 *
+	 * @returns {Container} - The scope
+	 */
+	public createScope(): Container
+	{
+		return new Container(this);
+	}
+
+	/**
+	 * Returns the closest container in which the token is registered.
+	 *
+	 * @param {InjectionToken<unknown>} token - The token
+	 * @returns {Container | undefined} - The container, undefined when the token is not registered
+	 */
+	private findOwner(token: InjectionToken<unknown>): Container | undefined
+	{
+		return this.providers.has(token) ? this : this.parent?.findOwner(token);
+	}
+
+	/**
+	 * Returns the instance cached in a container, creating it on first use.
+	 *
+	 * @param {Container} container - The container caching the instance
+	 * @param {InjectionToken<TypeValue>} token - The token
+	 * @param {TypeProvider<TypeValue>} provider - The provider of the token
+	 * @returns {TypeValue} - The instance
+	 */
+	private getOrCreate<TypeValue>(container: Container, token: InjectionToken<TypeValue>, provider: TypeProvider<TypeValue>): TypeValue
+	{
+		if (container.instances.has(token))
+		{
+			return container.instances.get(token) as TypeValue;
+		}
+
+		const instance = this.create(token, provider, container);
+		container.instances.set(token, instance);
+
+		return instance;
+	}
+
+	/**
+	 * Creates an instance, tracking the tokens being resolved to detect circular dependencies.
+	 *
+	 * @param {InjectionToken<TypeValue>} token - The token
+	 * @param {TypeProvider<TypeValue>} provider - The provider of the token
+	 * @param {Container} container - The container dependencies are resolved from
+	 * @returns {TypeValue} - The instance
+	 */
+	private create<TypeValue>(token: InjectionToken<TypeValue>, provider: TypeProvider<TypeValue>, container: Container): TypeValue
+	{
+		this.resolutionPath.push({ token, lifetime: provider.lifetime });
+		try
+		{
+			return provider.factory(container);
+		}
+		finally
+		{
+			this.resolutionPath.pop();
+		}
+	}
+}
@@ -0,0 +1,30 @@
+/**
+ * InjectionToken identifies a dependency in a Container and carries its type, so resolving it is typed.
+ *
+ * @example
+ * const orderRepositoryToken = new InjectionToken<OrderRepositoryInterface>('OrderRepository');
+ */
+export class InjectionToken<TypeValue>
+{
+	/**
+	 * Keeps the type parameter part of the structure of the token.
+	 */
+	declare private readonly type?: TypeValue;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {string} description - The description used in error messages
+	 */
+	constructor(public readonly description: string) {}
+
+	/**
+	 * Returns the description of the token.
+	 *
+	 * @returns {string} - The description
+	 */
+	public toString(): string
+	{
+		return this.description;
+	}
+}
@@ -0,0 +1,116 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { ContractViolationError } from '../Error/ContractViolationError';
+import { ContractHelper } from '../Helper/ContractHelper';
+import { FakeDataGenerator } from '../Testing/FakeDataGenerator';
+import { type TypeContractCheckOptions } from '../Type/ContractCheckOptions';
+import { type TypeContractDiagnostic, type TypeContractReport } from '../Type/ContractDiagnostic';
+
+/**
+ * ContractConformanceChecker calls an action, or a service returning TypeResponse, with payloads generated from its payload
+ * schema and reports every response violating the TypeResponse contract as a structured diagnostic, so it can be run from
+ * any test runner.
+ *
+ * @example
+ * it('should honor the TypeResponse contract', async () =>
+ * {
+ *     await new ContractConformanceChecker(new CreateOrderAction(), { payloadSchema, objectSchema: orderSchema }).assertConformance();
+ * });
+ */
+export class ContractConformanceChecker<TypePayload, TypeObject>
+{
+	private static readonly MALFORMED_PAYLOADS: unknown[] = [undefined, null, {}, [], ''];
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action or the service to check
+	 * @param {TypeContractCheckOptions<TypePayload, TypeObject>} options - The options, such as the schemas and the number of runs
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		private readonly options: TypeContractCheckOptions<TypePayload, TypeObject> = {}
+	) {}
+
+	/**
+	 * Calls the action with the generated, the given and optionally malformed payloads and checks every response.
+	 *
+	 * @returns {Promise<TypeContractReport>} - The report with the violations found
+	 * @throws {Error} - When no payload can be generated from the payload schema
+	 */
+	public async check(): Promise<TypeContractReport>
+	{
+		const payloads = this.getPayloads();
+		const diagnostics: TypeContractDiagnostic[] = [];
+
+		for (const payload of payloads)
+		{
+			diagnostics.push(...(await this.checkCall(payload)).map((diagnostic) => ({ ...diagnostic, payload })));
+		}
+
+		return { isConformant: diagnostics.length === 0, runs: payloads.length, diagnostics };
+	}
+
+	/**
+	 * Runs the check and throws when a violation was found, for test runners failing tests on exceptions.
+	 *
+	 * @returns {Promise<TypeContractReport>} - The report of a conformant action
+	 * @throws {ContractViolationError} - When the contract is violated, with the diagnostics
+	 */
+	public async assertConformance(): Promise<TypeContractReport>
+	{
+		const report = await this.check();
+		if (!report.isConformant)
+		{
+			throw new ContractViolationError(report.diagnostics);
+		}
+
+		return report;
+	}
+
+	/**
+	 * Calls the action and checks its response.
+	 *
+	 * @param {unknown} payload - The payload
+	 * @returns {Promise<TypeContractDiagnostic[]>} - The violations of the call
+	 */
+	private async checkCall(payload: unknown): Promise<TypeContractDiagnostic[]>
+	{
+		let response: unknown;
+		try
+		{
+			response = await this.action.execute(payload as TypePayload, this.options.context);
+		}
+		catch (error)
+		{
+			return [ContractHelper.createThrownExceptionDiagnostic(error)];
+		}
+
+		return ContractHelper.validateResponse(response, this.options.objectSchema);
+	}
+
+	/**
+	 * Returns the payloads to call the action with.
+	 *
+	 * @returns {unknown[]} - The payloads
+	 */
+	private getPayloads(): unknown[]
+	{
+		const payloads: unknown[] = [...(this.options.payloads ?? [])];
+
+		if (this.options.payloadSchema)
+		{
+			const fakeDataGenerator = new FakeDataGenerator(this.options.fakeData);
+			for (let run = 0; run < (this.options.runs ?? 50); run++)
+			{
+				payloads.push(fakeDataGenerator.generate(this.options.payloadSchema));
+			}
+		}
+
+		if (this.options.includeMalformedPayloads)
+		{
+			payloads.push(...ContractConformanceChecker.MALFORMED_PAYLOADS);
+		}
+
+		return payloads;
+	}
+}
@@ -0,0 +1,23 @@
+/**
+ * CodedError is an error carrying the code it should be reported with when it is returned as a TypeResponse message.
+ */
+export class CodedError extends Error
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {string} code - The error code, typically an EnumErrorCode value
+	 * @param {string} message - The error message
+	 * @param {unknown} cause - The underlying error
+	 */
+	constructor(
+		public readonly code: string,
+		message: string,
+		cause?: unknown
+	)
+	{
+		super(message, cause !== undefined ? { cause } : undefined);
+
+		this.name = 'CodedError';
+	}
+}
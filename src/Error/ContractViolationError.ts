@@ -0,0 +1,24 @@
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeContractDiagnostic } from '../Type/ContractDiagnostic';
+import { CodedError } from './CodedError';
+
+/**
+ * ContractViolationError is thrown when an implementation fails a conformance check, it carries the diagnostics.
+ */
+export class ContractViolationError extends CodedError
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeContractDiagnostic[]} diagnostics - The violations found
+	 */
+	constructor(public readonly diagnostics: TypeContractDiagnostic[])
+	{
+		super(
+			EnumErrorCode.CONTRACT_VIOLATION,
+			`TypeResponse contract is violated: ${diagnostics.map((diagnostic) => `${diagnostic.violation} (${diagnostic.message})`).join('; ')}`
+		);
+
+		this.name = 'ContractViolationError';
+	}
+}
@@ -0,0 +1,113 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeErrorMapperRule } from '../Type/ErrorMapperRule';
+import { EnumMessageSeverity } from '../Type/MessageSeverity';
+import { type TypeMessage } from '../Type/Response';
+import { CodedError } from './CodedError';
+
+/**
+ * ErrorMapper maps exceptions to messages using the given rules, falling back to the code of a CodedError,
+ * TIMEOUT for aborted and timed out operations and EXECUTION_ERROR for everything else.
+ * Only the texts of CodedError and of matching rules are passed on, other exceptions get a generic text
+ * since their messages may expose internals to clients.
+ */
+export class ErrorMapper implements ErrorMapperInterface
+{
+	private static readonly TIMEOUT_TEXT = 'The operation timed out or was aborted';
+
+	private static readonly EXECUTION_ERROR_TEXT = 'An unexpected error occurred';
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeErrorMapperRule[]} rules - The rules mapping custom exception classes to codes, the first matching rule wins
+	 * @param {boolean} includeCause - Whether to keep the original exception as the cause of the message for logging, false by default
+	 * since the exception is not serializable
+	 */
+	constructor(
+		private readonly rules: TypeErrorMapperRule[] = [],
+		private readonly includeCause: boolean = false
+	) {}
+
+	/**
+	 * Maps the given exception to a message.
+	 *
+	 * @param {unknown} error - The thrown exception
+	 * @returns {TypeMessage} - The message describing the failure
+	 */
+	public map(error: unknown): TypeMessage
+	{
+		const message: TypeMessage = {
+			code: this.getCode(error),
+			text: this.getText(error),
+			severity: EnumMessageSeverity.ERROR
+		};
+
+		if (this.includeCause)
+		{
+			message.cause = error;
+		}
+
+		return message;
+	}
+
+	/**
+	 * Returns the code for the given exception.
+	 *
+	 * @param {unknown} error - The thrown exception
+	 * @returns {string} - The error code
+	 */
+	private getCode(error: unknown): string
+	{
+		const rule = this.findRule(error);
+		if (rule)
+		{
+			return rule.code;
+		}
+
+		if (error instanceof CodedError)
+		{
+			return error.code;
+		}
+
+		if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError'))
+		{
+			return EnumErrorCode.TIMEOUT;
+		}
+
+		return EnumErrorCode.EXECUTION_ERROR;
+	}
+
+	/**
+	 * Returns the text for the given exception.
+	 *
+	 * @param {unknown} error - The thrown exception
+	 * @returns {string} - The error text
+	 */
+	private getText(error: unknown): string
+	{
+		const rule = this.findRule(error);
+		if (rule && error instanceof Error)
+		{
+			return rule.text ? rule.text(error) : error.message;
+		}
+
+		if (error instanceof CodedError)
+		{
+			return error.message;
+		}
+
+		return this.getCode(error) === EnumErrorCode.TIMEOUT ? ErrorMapper.TIMEOUT_TEXT : ErrorMapper.EXECUTION_ERROR_TEXT;
+	}
+
+	/**
+	 * Finds the first rule matching the given exception.
+	 *
+	 * @param {unknown} error - The thrown exception
+	 * @returns {TypeErrorMapperRule | undefined} - The matching rule
+	 */
+	private findRule(error: unknown): TypeErrorMapperRule | undefined
+	{
+		return this.rules.find((rule) => error instanceof rule.errorClass);
+	}
+}
@@ -0,0 +1,36 @@
+import { type TypeJsonRpcError } from '../Type/JsonRpc';
+
+/**
+ * JsonRpcError is thrown by clients when the server answers a request with a JSON-RPC error.
+ */
+export class JsonRpcError extends Error
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {number} code - The JSON-RPC error code, typically an EnumJsonRpcErrorCode value
+	 * @param {string} message - The error message
+	 * @param {unknown} data - Additional information about the error
+	 */
+	constructor(
+		public readonly code: number,
+		message: string,
+		public readonly data?: unknown
+	)
+	{
+		super(message);
+
+		this.name = 'JsonRpcError';
+	}
+
+	/**
+	 * Creates an error from the error object of a JSON-RPC response.
+	 *
+	 * @param {TypeJsonRpcError} error - The error object
+	 * @returns {JsonRpcError} - The error
+	 */
+	public static fromResponseError(error: TypeJsonRpcError): JsonRpcError
+	{
+		return new JsonRpcError(error.code, error.message, error.data);
+	}
+}
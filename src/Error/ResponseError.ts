@@ -0,0 +1,25 @@
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeMessage } from '../Type/Response';
+import { CodedError } from './CodedError';
+
+/**
+ * ResponseError is thrown when the data of a failed response is unwrapped, it carries the messages of the response
+ * and the code of the first one.
+ */
+export class ResponseError extends CodedError
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeMessage[]} messages - The messages of the failed response
+	 */
+	constructor(public readonly messages: TypeMessage[])
+	{
+		super(
+			messages[0]?.code ?? EnumErrorCode.EXECUTION_ERROR,
+			messages.length > 0 ? messages.map((message) => message.text).join('; ') : 'The response is not successful'
+		);
+
+		this.name = 'ResponseError';
+	}
+}
@@ -0,0 +1,21 @@
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeMessage } from '../Type/Response';
+import { CodedError } from './CodedError';
+
+/**
+ * ValidationError is thrown where validation failures can not be returned as a TypeResponse, it carries the validation messages.
+ */
+export class ValidationError extends CodedError
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeMessage[]} messages - The validation messages
+	 */
+	constructor(public readonly messages: TypeMessage[])
+	{
+		super(EnumErrorCode.VALIDATION_ERROR, messages.map((message) => message.text).join('; '));
+
+		this.name = 'ValidationError';
+	}
+}
@@ -0,0 +1,85 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { FallbackAction } from '../Action/FallbackAction';
+import { MapAction } from '../Action/MapAction';
+import { ParallelAction } from '../Action/ParallelAction';
+import { SequenceAction } from '../Action/SequenceAction';
+
+type TypeAction<TypePayload, TypeObject> = ActionInterface<TypePayload, TypeObject>;
+
+export class ActionWorkflowHelper
+{
+	/**
+	 * Composes actions into one executing them in order, the data of each step is the payload of the next one.
+	 *
+	 * @param {ActionInterface<any, any>[]} actions - The steps in the order they run
+	 * @returns {ActionInterface<any, any>} - The composed action
+	 */
+	public static sequence<TypePayload, TypeStep1>(
+		step1: TypeAction<TypePayload, TypeStep1>
+	): TypeAction<TypePayload, TypeStep1>;
+	public static sequence<TypePayload, TypeStep1, TypeStep2>(
+		step1: TypeAction<TypePayload, TypeStep1>,
+		step2: TypeAction<TypeStep1, TypeStep2>
+	): TypeAction<TypePayload, TypeStep2>;
+	public static sequence<TypePayload, TypeStep1, TypeStep2, TypeStep3>(
+		step1: TypeAction<TypePayload, TypeStep1>,
+		step2: TypeAction<TypeStep1, TypeStep2>,
+		step3: TypeAction<TypeStep2, TypeStep3>
+	): TypeAction<TypePayload, TypeStep3>;
+	public static sequence<TypePayload, TypeStep1, TypeStep2, TypeStep3, TypeStep4>(
+		step1: TypeAction<TypePayload, TypeStep1>,
+		step2: TypeAction<TypeStep1, TypeStep2>,
+		step3: TypeAction<TypeStep2, TypeStep3>,
+		step4: TypeAction<TypeStep3, TypeStep4>
+	): TypeAction<TypePayload, TypeStep4>;
+	public static sequence<TypePayload, TypeStep1, TypeStep2, TypeStep3, TypeStep4, TypeStep5>(
+		step1: TypeAction<TypePayload, TypeStep1>,
+		step2: TypeAction<TypeStep1, TypeStep2>,
+		step3: TypeAction<TypeStep2, TypeStep3>,
+		step4: TypeAction<TypeStep3, TypeStep4>,
+		step5: TypeAction<TypeStep4, TypeStep5>
+	): TypeAction<TypePayload, TypeStep5>;
+	public static sequence(...actions: TypeAction<any, any>[]): TypeAction<any, any>
+	{
+		return new SequenceAction(actions);
+	}
+
+	/**
+	 * Composes actions into one executing them concurrently with the same payload.
+	 *
+	 * @param {ActionInterface<TypePayload, unknown>[]} actions - The branches
+	 * @returns {ActionInterface<TypePayload, TypeObjects>} - The composed action resolving with the data of all branches
+	 */
+	public static parallel<TypePayload, TypeObjects extends unknown[]>(
+		...actions: { [TypeKey in keyof TypeObjects]: TypeAction<TypePayload, TypeObjects[TypeKey]> }
+	): TypeAction<TypePayload, TypeObjects>
+	{
+		return new ParallelAction<TypePayload, TypeObjects>(actions);
+	}
+
+	/**
+	 * Composes actions into one trying them in order until one succeeds.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>[]} actions - The alternatives in the order they are tried
+	 * @returns {ActionInterface<TypePayload, TypeObject>} - The composed action
+	 */
+	public static firstSuccess<TypePayload, TypeObject>(...actions: TypeAction<TypePayload, TypeObject>[]): TypeAction<TypePayload, TypeObject>
+	{
+		return new FallbackAction(actions);
+	}
+
+	/**
+	 * Applies a function to the data of the successful responses of an action.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action
+	 * @param {(data: TypeObject) => TypeMappedObject} mapper - The function applied to the data
+	 * @returns {ActionInterface<TypePayload, TypeMappedObject>} - The composed action
+	 */
+	public static map<TypePayload, TypeObject, TypeMappedObject>(
+		action: TypeAction<TypePayload, TypeObject>,
+		mapper: (data: TypeObject) => TypeMappedObject
+	): TypeAction<TypePayload, TypeMappedObject>
+	{
+		return new MapAction(action, mapper);
+	}
+}
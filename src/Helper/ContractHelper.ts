@@ -0,0 +1,98 @@
+import { z, type ZodSchema } from 'zod';
+import { type TypeContractDiagnostic } from '../Type/ContractDiagnostic';
+import { EnumContractViolation } from '../Type/ContractViolation';
+import { EnumMessageSeverity } from '../Type/MessageSeverity';
+import { createResponseSchema } from '../Type/Response';
+
+export class ContractHelper
+{
+	/**
+	 * Checks a value returned by an action against the TypeResponse contract: it has the shape of a TypeResponse,
+	 * successful responses have no error messages and data matching the object schema, failed responses have
+	 * no data and at least one message. Messages without a severity count as errors.
+	 *
+	 * @param {unknown} response - The value returned by the action.
+	 * @param {ZodSchema} objectSchema - The schema the data of successful responses has to match.
+	 * @returns {TypeContractDiagnostic[]} - The violations found, empty when the response honors the contract.
+	 */
+	public static validateResponse(response: unknown, objectSchema?: ZodSchema): TypeContractDiagnostic[]
+	{
+		const parsedResponse = createResponseSchema(z.unknown()).safeParse(response);
+		if (!parsedResponse.success)
+		{
+			return [ContractHelper.createDiagnostic(
+				EnumContractViolation.INVALID_RESPONSE_SHAPE,
+				`Response is not a TypeResponse: ${parsedResponse.error.issues.map((issue) => `${issue.path.join('.') || 'response'} ${issue.message}`).join(', ')}`,
+				response
+			)];
+		}
+
+		const { success, data, messages = [] } = parsedResponse.data;
+		const diagnostics: TypeContractDiagnostic[] = [];
+
+		if (success)
+		{
+			const errorMessage = messages.find((message) => (message.severity ?? EnumMessageSeverity.ERROR) === EnumMessageSeverity.ERROR);
+			if (errorMessage)
+			{
+				diagnostics.push(ContractHelper.createDiagnostic(
+					EnumContractViolation.SUCCESS_WITH_ERROR_MESSAGE,
+					`Successful response has the error message ${errorMessage.code}`,
+					response
+				));
+			}
+
+			const parsedData = objectSchema?.safeParse(data);
+			if (parsedData && !parsedData.success)
+			{
+				diagnostics.push(ContractHelper.createDiagnostic(
+					EnumContractViolation.INVALID_DATA,
+					`Data does not match the object schema: ${parsedData.error.issues.map((issue) => `${issue.path.join('.') || 'data'} ${issue.message}`).join(', ')}`,
+					response
+				));
+			}
+
+			return diagnostics;
+		}
+
+		if (data !== undefined)
+		{
+			diagnostics.push(ContractHelper.createDiagnostic(EnumContractViolation.FAILURE_WITH_DATA, 'Failed response has data', response));
+		}
+
+		if (messages.length === 0)
+		{
+			diagnostics.push(ContractHelper.createDiagnostic(EnumContractViolation.FAILURE_WITHOUT_MESSAGES, 'Failed response has no messages', response));
+		}
+
+		return diagnostics;
+	}
+
+	/**
+	 * Creates the diagnostic of an exception thrown instead of a failed response being returned.
+	 *
+	 * @param {unknown} error - The exception.
+	 * @returns {TypeContractDiagnostic} - The diagnostic.
+	 */
+	public static createThrownExceptionDiagnostic(error: unknown): TypeContractDiagnostic
+	{
+		return {
+			violation: EnumContractViolation.THROWN_EXCEPTION,
+			message: `Exception thrown instead of a failed response: ${error instanceof Error ? error.message : String(error)}`,
+			error
+		};
+	}
+
+	/**
+	 * Creates a diagnostic.
+	 *
+	 * @param {EnumContractViolation} violation - The violation.
+	 * @param {string} message - The description of the violation.
+	 * @param {unknown} response - The response violating the contract.
+	 * @returns {TypeContractDiagnostic} - The diagnostic.
+	 */
+	private static createDiagnostic(violation: EnumContractViolation, message: string, response: unknown): TypeContractDiagnostic
+	{
+		return { violation, message, response };
+	}
+}
@@ -0,0 +1,40 @@
+import { type ToolInterface } from '../Interface/ToolInterface';
+import { EnumFunctionDefinitionFormat, type TypeFunctionDefinitionByFormat } from '../Type/FunctionDefinition';
+import { EnumJsonSchemaTarget } from '../Type/JsonSchema';
+import { JsonSchemaHelper } from './JsonSchemaHelper';
+
+export class FunctionDefinitionHelper
+{
+	/**
+	 * Creates the definition a model provider expects to register a tool for function calling.
+	 *
+	 * @param {ToolInterface<any, any>} tool - The tool to describe
+	 * @param {TypeFormat} format - The provider format
+	 * @returns {TypeFunctionDefinitionByFormat[TypeFormat]} - The tool definition
+	 */
+	public static toFunctionDefinition<TypeFormat extends EnumFunctionDefinitionFormat>(
+		tool: ToolInterface<any, any>,
+		format: TypeFormat
+	): TypeFunctionDefinitionByFormat[TypeFormat]
+	{
+		const schema = JsonSchemaHelper.fromZodSchema(tool.parameters, EnumJsonSchemaTarget.OPENAPI_3_1);
+		const definitions: TypeFunctionDefinitionByFormat = {
+			[EnumFunctionDefinitionFormat.OPENAI]: {
+				type: 'function',
+				function: { name: tool.name, description: tool.description, parameters: schema }
+			},
+			[EnumFunctionDefinitionFormat.ANTHROPIC]: {
+				name: tool.name,
+				description: tool.description,
+				['input_schema']: schema
+			},
+			[EnumFunctionDefinitionFormat.MCP]: {
+				name: tool.name,
+				description: tool.description,
+				inputSchema: schema
+			}
+		};
+
+		return definitions[format];
+	}
+}
@@ -0,0 +1,403 @@
+import { type ZodTypeAny, ZodFirstPartyTypeKind } from 'zod';
+import { EnumJsonSchemaTarget, type TypeJsonSchema } from '../Type/JsonSchema';
+
+export class JsonSchemaHelper
+{
+	private static readonly DRAFT_2020_12_URI = 'https://json-schema.org/draft/2020-12/schema';
+
+	/**
+	 * Converts a Zod schema into a JSON Schema describing the input it accepts.
+	 * Refinements and transformations can not be expressed in JSON Schema, so the schema of the value they wrap is used instead.
+	 *
+	 * @param {ZodTypeAny} schema - The Zod schema to convert
+	 * @param {EnumJsonSchemaTarget} target - The dialect to produce, OpenAPI 3.1 omits the $schema keyword
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	public static fromZodSchema(schema: ZodTypeAny, target: EnumJsonSchemaTarget = EnumJsonSchemaTarget.DRAFT_2020_12): TypeJsonSchema
+	{
+		const jsonSchema = JsonSchemaHelper.convert(schema, []);
+
+		if (target === EnumJsonSchemaTarget.DRAFT_2020_12)
+		{
+			return { ['$schema']: JsonSchemaHelper.DRAFT_2020_12_URI, ...jsonSchema };
+		}
+
+		return jsonSchema;
+	}
+
+	/**
+	 * Converts a single schema node, adding its description when it has one.
+	 *
+	 * @param {ZodTypeAny} schema - The Zod schema to convert
+	 * @param {ZodTypeAny[]} stack - The lazy schemas being converted, used to stop on recursive schemas
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convert(schema: ZodTypeAny, stack: ZodTypeAny[]): TypeJsonSchema
+	{
+		const jsonSchema = JsonSchemaHelper.convertType(schema, stack);
+
+		if (schema.description !== undefined)
+		{
+			jsonSchema.description = schema.description;
+		}
+
+		return jsonSchema;
+	}
+
+	/**
+	 * Converts a schema node based on its Zod type.
+	 *
+	 * @param {ZodTypeAny} schema - The Zod schema to convert
+	 * @param {ZodTypeAny[]} stack - The lazy schemas being converted
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertType(schema: ZodTypeAny, stack: ZodTypeAny[]): TypeJsonSchema
+	{
+		const def = schema._def;
+
+		switch (def.typeName as ZodFirstPartyTypeKind)
+		{
+			case ZodFirstPartyTypeKind.ZodString:
+				return JsonSchemaHelper.convertString(def.checks);
+			case ZodFirstPartyTypeKind.ZodNumber:
+				return JsonSchemaHelper.convertNumber(def.checks);
+			case ZodFirstPartyTypeKind.ZodBigInt:
+				return { type: 'integer', format: 'int64' };
+			case ZodFirstPartyTypeKind.ZodBoolean:
+				return { type: 'boolean' };
+			case ZodFirstPartyTypeKind.ZodDate:
+				return { type: 'string', format: 'date-time' };
+			case ZodFirstPartyTypeKind.ZodNull:
+				return { type: 'null' };
+			case ZodFirstPartyTypeKind.ZodUndefined:
+			case ZodFirstPartyTypeKind.ZodVoid:
+			case ZodFirstPartyTypeKind.ZodNever:
+				return { not: {} };
+			case ZodFirstPartyTypeKind.ZodLiteral:
+				return JsonSchemaHelper.convertLiteral(def.value);
+			case ZodFirstPartyTypeKind.ZodEnum:
+				return { type: 'string', enum: [...def.values] };
+			case ZodFirstPartyTypeKind.ZodNativeEnum:
+				return JsonSchemaHelper.convertNativeEnum(def.values);
+			case ZodFirstPartyTypeKind.ZodObject:
+				return JsonSchemaHelper.convertObject(schema, stack);
+			case ZodFirstPartyTypeKind.ZodArray:
+				return JsonSchemaHelper.convertArray(def, stack);
+			case ZodFirstPartyTypeKind.ZodSet:
+				return { type: 'array', uniqueItems: true, items: JsonSchemaHelper.convert(def.valueType, stack) };
+			case ZodFirstPartyTypeKind.ZodTuple:
+				return JsonSchemaHelper.convertTuple(def, stack);
+			case ZodFirstPartyTypeKind.ZodRecord:
+				return { type: 'object', additionalProperties: JsonSchemaHelper.convert(def.valueType, stack) };
+			case ZodFirstPartyTypeKind.ZodUnion:
+			case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+				return { anyOf: [...def.options].map((option: ZodTypeAny) => JsonSchemaHelper.convert(option, stack)) };
+			case ZodFirstPartyTypeKind.ZodIntersection:
+				return { allOf: [JsonSchemaHelper.convert(def.left, stack), JsonSchemaHelper.convert(def.right, stack)] };
+			case ZodFirstPartyTypeKind.ZodOptional:
+				return JsonSchemaHelper.convert(def.innerType, stack);
+			case ZodFirstPartyTypeKind.ZodNullable:
+				return JsonSchemaHelper.convertNullable(JsonSchemaHelper.convert(def.innerType, stack));
+			case ZodFirstPartyTypeKind.ZodDefault:
+				return { ...JsonSchemaHelper.convert(def.innerType, stack), default: def.defaultValue() };
+			case ZodFirstPartyTypeKind.ZodEffects:
+				return JsonSchemaHelper.convert(def.schema, stack);
+			case ZodFirstPartyTypeKind.ZodPipeline:
+				return JsonSchemaHelper.convert(def.in, stack);
+			case ZodFirstPartyTypeKind.ZodBranded:
+				return JsonSchemaHelper.convert(def.type, stack);
+			case ZodFirstPartyTypeKind.ZodCatch:
+			case ZodFirstPartyTypeKind.ZodReadonly:
+				return JsonSchemaHelper.convert(def.innerType, stack);
+			case ZodFirstPartyTypeKind.ZodLazy:
+				return JsonSchemaHelper.convertLazy(schema, stack);
+			default:
+				// any, unknown and the types that have no JSON representation accept any value
+				return {};
+		}
+	}
+
+	/**
+	 * Converts a string schema with its checks.
+	 *
+	 * @param {Array<Record<string, any>>} checks - The string checks
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertString(checks: Array<Record<string, any>>): TypeJsonSchema
+	{
+		const jsonSchema: TypeJsonSchema = { type: 'string' };
+		const patterns: string[] = [];
+		const formats: Record<string, string> = {
+			email: 'email',
+			url: 'uri',
+			uuid: 'uuid',
+			datetime: 'date-time',
+			date: 'date',
+			time: 'time',
+			duration: 'duration'
+		};
+
+		checks.forEach((check) =>
+		{
+			switch (check['kind'])
+			{
+				case 'min':
+					jsonSchema['minLength'] = check['value'];
+					break;
+				case 'max':
+					jsonSchema['maxLength'] = check['value'];
+					break;
+				case 'length':
+					jsonSchema['minLength'] = check['value'];
+					jsonSchema['maxLength'] = check['value'];
+					break;
+				case 'ip':
+					jsonSchema.format = check['version'] === 'v6' ? 'ipv6' : 'ipv4';
+					break;
+				case 'regex':
+					patterns.push(check['regex'].source);
+					break;
+				case 'startsWith':
+					patterns.push(`^${JsonSchemaHelper.escapePattern(check['value'])}`);
+					break;
+				case 'endsWith':
+					patterns.push(`${JsonSchemaHelper.escapePattern(check['value'])}$`);
+					break;
+				case 'includes':
+					patterns.push(JsonSchemaHelper.escapePattern(check['value']));
+					break;
+				default:
+					if (formats[check['kind']] !== undefined)
+					{
+						jsonSchema.format = formats[check['kind']];
+					}
+			}
+		});
+
+		if (patterns.length === 1)
+		{
+			jsonSchema.pattern = patterns[0];
+		}
+		else if (patterns.length > 1)
+		{
+			jsonSchema.allOf = patterns.map((pattern) => ({ pattern }));
+		}
+
+		return jsonSchema;
+	}
+
+	/**
+	 * Converts a number schema with its checks.
+	 *
+	 * @param {Array<Record<string, any>>} checks - The number checks
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertNumber(checks: Array<Record<string, any>>): TypeJsonSchema
+	{
+		const jsonSchema: TypeJsonSchema = { type: 'number' };
+
+		checks.forEach((check) =>
+		{
+			switch (check['kind'])
+			{
+				case 'int':
+					jsonSchema.type = 'integer';
+					break;
+				case 'min':
+					jsonSchema[check['inclusive'] ? 'minimum' : 'exclusiveMinimum'] = check['value'];
+					break;
+				case 'max':
+					jsonSchema[check['inclusive'] ? 'maximum' : 'exclusiveMaximum'] = check['value'];
+					break;
+				case 'multipleOf':
+					jsonSchema['multipleOf'] = check['value'];
+					break;
+			}
+		});
+
+		return jsonSchema;
+	}
+
+	/**
+	 * Converts a literal schema.
+	 *
+	 * @param {unknown} value - The literal value
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertLiteral(value: unknown): TypeJsonSchema
+	{
+		if (value === null)
+		{
+			return { type: 'null' };
+		}
+
+		const type = typeof value;
+		if (type === 'string' || type === 'number' || type === 'boolean')
+		{
+			return { type, const: value };
+		}
+
+		return { const: value };
+	}
+
+	/**
+	 * Converts a native enum, skipping the reverse mappings TypeScript adds to numeric enums.
+	 *
+	 * @param {Record<string, string | number>} values - The enum object
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertNativeEnum(values: Record<string, string | number>): TypeJsonSchema
+	{
+		const enumValues = Object.keys(values)
+			.filter((key) => typeof values[values[key] as string] !== 'number')
+			.map((key) => values[key] as string | number);
+		const types = [...new Set(enumValues.map((value) => typeof value))];
+
+		return { type: types.length === 1 ? types[0] : types, enum: enumValues };
+	}
+
+	/**
+	 * Converts an object schema, a property is required unless it accepts undefined.
+	 *
+	 * @param {ZodTypeAny} schema - The object schema
+	 * @param {ZodTypeAny[]} stack - The lazy schemas being converted
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertObject(schema: ZodTypeAny, stack: ZodTypeAny[]): TypeJsonSchema
+	{
+		const shape: Record<string, ZodTypeAny> = schema._def.shape();
+		const properties: Record<string, TypeJsonSchema> = {};
+		const required: string[] = [];
+
+		Object.entries(shape).forEach(([key, field]) =>
+		{
+			properties[key] = JsonSchemaHelper.convert(field, stack);
+
+			if (!field.isOptional())
+			{
+				required.push(key);
+			}
+		});
+
+		const jsonSchema: TypeJsonSchema = { type: 'object', properties };
+		if (required.length > 0)
+		{
+			jsonSchema.required = required;
+		}
+
+		const catchall: ZodTypeAny = schema._def.catchall;
+		if (catchall._def.typeName !== ZodFirstPartyTypeKind.ZodNever)
+		{
+			jsonSchema.additionalProperties = JsonSchemaHelper.convert(catchall, stack);
+		}
+		else if (schema._def.unknownKeys === 'strict')
+		{
+			jsonSchema.additionalProperties = false;
+		}
+
+		return jsonSchema;
+	}
+
+	/**
+	 * Converts an array schema with its length limits.
+	 *
+	 * @param {Record<string, any>} def - The array schema definition
+	 * @param {ZodTypeAny[]} stack - The lazy schemas being converted
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertArray(def: Record<string, any>, stack: ZodTypeAny[]): TypeJsonSchema
+	{
+		const jsonSchema: TypeJsonSchema = { type: 'array', items: JsonSchemaHelper.convert(def['type'], stack) };
+
+		if (def['exactLength'])
+		{
+			jsonSchema['minItems'] = def['exactLength'].value;
+			jsonSchema['maxItems'] = def['exactLength'].value;
+		}
+		if (def['minLength'])
+		{
+			jsonSchema['minItems'] = def['minLength'].value;
+		}
+		if (def['maxLength'])
+		{
+			jsonSchema['maxItems'] = def['maxLength'].value;
+		}
+
+		return jsonSchema;
+	}
+
+	/**
+	 * Converts a tuple schema.
+	 *
+	 * @param {Record<string, any>} def - The tuple schema definition
+	 * @param {ZodTypeAny[]} stack - The lazy schemas being converted
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertTuple(def: Record<string, any>, stack: ZodTypeAny[]): TypeJsonSchema
+	{
+		const items: ZodTypeAny[] = def['items'];
+		const jsonSchema: TypeJsonSchema = {
+			type: 'array',
+			prefixItems: items.map((item) => JsonSchemaHelper.convert(item, stack)),
+			minItems: items.length
+		};
+
+		if (def['rest'])
+		{
+			jsonSchema.items = JsonSchemaHelper.convert(def['rest'], stack);
+		}
+		else
+		{
+			jsonSchema.items = false;
+			jsonSchema['maxItems'] = items.length;
+		}
+
+		return jsonSchema;
+	}
+
+	/**
+	 * Makes a JSON Schema accept null as well.
+	 *
+	 * @param {TypeJsonSchema} jsonSchema - The JSON Schema of the non-null value
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertNullable(jsonSchema: TypeJsonSchema): TypeJsonSchema
+	{
+		const { type, ...rest } = jsonSchema;
+
+		if (typeof type === 'string' && jsonSchema.const === undefined && jsonSchema.enum === undefined)
+		{
+			return { type: [type, 'null'], ...rest };
+		}
+
+		return { anyOf: [jsonSchema, { type: 'null' }] };
+	}
+
+	/**
+	 * Converts a lazy schema, a recursive reference is emitted as a schema accepting any value.
+	 *
+	 * @param {ZodTypeAny} schema - The lazy schema
+	 * @param {ZodTypeAny[]} stack - The lazy schemas being converted
+	 * @returns {TypeJsonSchema} - The JSON Schema
+	 */
+	private static convertLazy(schema: ZodTypeAny, stack: ZodTypeAny[]): TypeJsonSchema
+	{
+		if (stack.includes(schema))
+		{
+			return {};
+		}
+
+		return JsonSchemaHelper.convert(schema._def.getter(), [...stack, schema]);
+	}
+
+	/**
+	 * Escapes regular expression characters of a literal string.
+	 *
+	 * @param {string} value - The literal string
+	 * @returns {string} - The escaped string
+	 */
+	private static escapePattern(value: string): string
+	{
+		return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+}
@@ -1,4 +1,13 @@
-import { ZodOptional, ZodNullable, ZodObject } from 'zod';
+import { type ZodTypeAny, ZodFirstPartyTypeKind, ZodObject } from 'zod';
+import { EnumEmptyStringStrategy } from '../Type/EmptyStringStrategy';
+import { type TypeNormalizationOptions } from '../Type/NormalizationOptions';
+
+interface TypeUnwrappedSchema
+{
+	schema: ZodTypeAny;
+	isOptional: boolean;
+	isNullable: boolean;
+}
 
 export class OptionalFieldStripperHelper
 {
@@ -7,23 +16,230 @@ export class OptionalFieldStripperHelper
 	 * only if the corresponding field is optional in the schema.
 	 *
 	 * @param {Record<string, unknown>} data - The input data
+	 * @param {ZodObject<any>} schema - The schema of the input data
 	 * @returns {Record<string, unknown>} - The cleaned data with empty strings stripped from optional fields
 	 */
 	public static stripEmptyStrings(data: Record<string, unknown>, schema: ZodObject<any>): Record<string, unknown>
 	{
+		return OptionalFieldStripperHelper.normalize(data, schema) as Record<string, unknown>;
+	}
+
+	/**
+	 * Normalizes empty values of the input data by walking the schema recursively, through nested objects, arrays,
+	 * tuples, records, unions and wrapped schemas such as defaults and refinements. The input data is not modified.
+	 *
+	 * @param {unknown} data - The input data
+	 * @param {ZodTypeAny} schema - The schema of the input data
+	 * @param {TypeNormalizationOptions} options - The normalization rules
+	 * @returns {unknown} - The normalized data
+	 */
+	public static normalize(data: unknown, schema: ZodTypeAny, options: TypeNormalizationOptions = {}): unknown
+	{
+		const { schema: innerSchema, isOptional, isNullable } = OptionalFieldStripperHelper.unwrap(schema);
+		const typeName = innerSchema._def.typeName as ZodFirstPartyTypeKind;
+
+		if (typeof data === 'string')
+		{
+			const value = options.trim ? data.trim() : data;
+
+			if (value === '' && (isOptional || isNullable) && options.emptyString !== EnumEmptyStringStrategy.PRESERVE)
+			{
+				return options.emptyString === EnumEmptyStringStrategy.NULL && isNullable ? null : undefined;
+			}
+
+			if (options.coerceNumbers && typeName === ZodFirstPartyTypeKind.ZodNumber && value.trim() !== '' && !isNaN(Number(value)))
+			{
+				return Number(value);
+			}
+
+			if (options.coerceBooleans && typeName === ZodFirstPartyTypeKind.ZodBoolean && (value === 'true' || value === 'false'))
+			{
+				return value === 'true';
+			}
+
+			return value;
+		}
+
+		if (Array.isArray(data) && data.length === 0 && isOptional && options.dropEmptyArrays)
+		{
+			return undefined;
+		}
+
+		switch (typeName)
+		{
+			case ZodFirstPartyTypeKind.ZodObject:
+				return OptionalFieldStripperHelper.normalizeObject(data, innerSchema._def.shape(), options);
+			case ZodFirstPartyTypeKind.ZodArray:
+				return Array.isArray(data)
+					? data.map((item) => OptionalFieldStripperHelper.normalize(item, innerSchema._def.type, options))
+					: data;
+			case ZodFirstPartyTypeKind.ZodTuple:
+				return Array.isArray(data)
+					? data.map((item, index) => OptionalFieldStripperHelper.normalize(item, innerSchema._def.items[index] ?? innerSchema._def.rest, options))
+					: data;
+			case ZodFirstPartyTypeKind.ZodRecord:
+				return OptionalFieldStripperHelper.normalizeRecord(data, innerSchema._def.valueType, options);
+			case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+				return OptionalFieldStripperHelper.normalizeDiscriminatedUnion(data, innerSchema, options);
+			case ZodFirstPartyTypeKind.ZodUnion:
+				return OptionalFieldStripperHelper.normalizeUnion(data, innerSchema._def.options, options);
+			case ZodFirstPartyTypeKind.ZodIntersection:
+				return OptionalFieldStripperHelper.normalize(
+					OptionalFieldStripperHelper.normalize(data, innerSchema._def.left, options),
+					innerSchema._def.right,
+					options
+				);
+			default:
+				return data;
+		}
+	}
+
+	/**
+	 * Removes the wrappers of a schema, remembering whether they accept undefined or null.
+	 *
+	 * @param {ZodTypeAny} schema - The schema
+	 * @returns {TypeUnwrappedSchema} - The innermost schema
+	 */
+	private static unwrap(schema: ZodTypeAny): TypeUnwrappedSchema
+	{
+		const unwrapped: TypeUnwrappedSchema = { schema, isOptional: false, isNullable: false };
+
+		for (;;)
+		{
+			const def = unwrapped.schema?._def;
+
+			switch (def?.typeName as ZodFirstPartyTypeKind)
+			{
+				case ZodFirstPartyTypeKind.ZodOptional:
+				case ZodFirstPartyTypeKind.ZodDefault:
+					unwrapped.isOptional = true;
+					unwrapped.schema = def.innerType;
+					break;
+				case ZodFirstPartyTypeKind.ZodNullable:
+					unwrapped.isNullable = true;
+					unwrapped.schema = def.innerType;
+					break;
+				case ZodFirstPartyTypeKind.ZodCatch:
+				case ZodFirstPartyTypeKind.ZodReadonly:
+					unwrapped.schema = def.innerType;
+					break;
+				case ZodFirstPartyTypeKind.ZodEffects:
+					unwrapped.schema = def.schema;
+					break;
+				case ZodFirstPartyTypeKind.ZodBranded:
+					unwrapped.schema = def.type;
+					break;
+				case ZodFirstPartyTypeKind.ZodPipeline:
+					unwrapped.schema = def.in;
+					break;
+				case ZodFirstPartyTypeKind.ZodLazy:
+					unwrapped.schema = def.getter();
+					break;
+				default:
+					return unwrapped;
+			}
+		}
+	}
+
+	/**
+	 * Normalizes the fields of an object present in its shape.
+	 *
+	 * @param {unknown} data - The input data
+	 * @param {Record<string, ZodTypeAny>} shape - The shape of the object schema
+	 * @param {TypeNormalizationOptions} options - The normalization rules
+	 * @returns {unknown} - The normalized data
+	 */
+	private static normalizeObject(data: unknown, shape: Record<string, ZodTypeAny>, options: TypeNormalizationOptions): unknown
+	{
+		if (!OptionalFieldStripperHelper.isRecord(data))
+		{
+			return data;
+		}
+
 		const cleanedData = { ...data };
 
-		Object.entries(schema.shape).forEach(([key, schemaField]) =>
+		Object.entries(shape).forEach(([key, fieldSchema]) =>
 		{
-			if (schemaField instanceof ZodOptional || schemaField instanceof ZodNullable)
+			if (key in cleanedData)
 			{
-				if (cleanedData[key] === '')
-				{
-					cleanedData[key] = undefined;
-				}
+				cleanedData[key] = OptionalFieldStripperHelper.normalize(cleanedData[key], fieldSchema, options);
 			}
 		});
 
 		return cleanedData;
 	}
+
+	/**
+	 * Normalizes the values of a record.
+	 *
+	 * @param {unknown} data - The input data
+	 * @param {ZodTypeAny} valueSchema - The schema of the values
+	 * @param {TypeNormalizationOptions} options - The normalization rules
+	 * @returns {unknown} - The normalized data
+	 */
+	private static normalizeRecord(data: unknown, valueSchema: ZodTypeAny, options: TypeNormalizationOptions): unknown
+	{
+		if (!OptionalFieldStripperHelper.isRecord(data))
+		{
+			return data;
+		}
+
+		return Object.fromEntries(
+			Object.entries(data).map(([key, value]) => [key, OptionalFieldStripperHelper.normalize(value, valueSchema, options)])
+		);
+	}
+
+	/**
+	 * Normalizes data with the option of a discriminated union selected by its discriminator.
+	 *
+	 * @param {unknown} data - The input data
+	 * @param {ZodTypeAny} schema - The discriminated union schema
+	 * @param {TypeNormalizationOptions} options - The normalization rules
+	 * @returns {unknown} - The normalized data
+	 */
+	private static normalizeDiscriminatedUnion(data: unknown, schema: ZodTypeAny, options: TypeNormalizationOptions): unknown
+	{
+		if (!OptionalFieldStripperHelper.isRecord(data))
+		{
+			return data;
+		}
+
+		const option: ZodTypeAny | undefined = schema._def.optionsMap.get(data[schema._def.discriminator]);
+
+		return option ? OptionalFieldStripperHelper.normalize(data, option, options) : data;
+	}
+
+	/**
+	 * Normalizes data with the first option of a union the normalized data is valid for.
+	 *
+	 * @param {unknown} data - The input data
+	 * @param {ZodTypeAny[]} unionOptions - The options of the union
+	 * @param {TypeNormalizationOptions} options - The normalization rules
+	 * @returns {unknown} - The normalized data, or the input data when it is valid for none of the options
+	 */
+	private static normalizeUnion(data: unknown, unionOptions: ZodTypeAny[], options: TypeNormalizationOptions): unknown
+	{
+		for (const option of unionOptions)
+		{
+			const normalizedData = OptionalFieldStripperHelper.normalize(data, option, options);
+
+			if (option.safeParse(normalizedData).success)
+			{
+				return normalizedData;
+			}
+		}
+
+		return data;
+	}
+
+	/**
+	 * Checks whether data is a plain object.
+	 *
+	 * @param {unknown} data - The data
+	 * @returns {boolean} - True when the data is an object and not an array
+	 */
+	private static isRecord(data: unknown): data is Record<string, unknown>
+	{
+		return typeof data === 'object' && data !== null && !Array.isArray(data);
+	}
 }
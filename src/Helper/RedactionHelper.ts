@@ -0,0 +1,78 @@
+import { type TypeRedactionOptions } from '../Type/RedactionOptions';
+
+export class RedactionHelper
+{
+	private static readonly DEFAULT_KEYS = [
+		'password',
+		'passwd',
+		'secret',
+		'token',
+		'apikey',
+		'authorization',
+		'cookie',
+		'creditcard',
+		'cardnumber',
+		'cvv',
+		'ssn'
+	];
+
+	/**
+	 * Returns a copy of a value with the values of sensitive keys replaced, at any depth.
+	 *
+	 * @param {unknown} value - The value, such as a payload
+	 * @param {TypeRedactionOptions} options - The redaction rules
+	 * @returns {unknown} - The redacted copy
+	 */
+	public static redact(value: unknown, options: TypeRedactionOptions = {}): unknown
+	{
+		return RedactionHelper.redactValue(value, [...RedactionHelper.DEFAULT_KEYS, ...(options.keys ?? [])], options.replacement ?? '[REDACTED]', []);
+	}
+
+	/**
+	 * Redacts a single value.
+	 *
+	 * @param {unknown} value - The value
+	 * @param {(string | RegExp)[]} keys - The sensitive keys
+	 * @param {string} replacement - The replacement of redacted values
+	 * @param {unknown[]} ancestors - The objects being redacted, used to stop on circular references
+	 * @returns {unknown} - The redacted copy
+	 */
+	private static redactValue(value: unknown, keys: (string | RegExp)[], replacement: string, ancestors: unknown[]): unknown
+	{
+		if (typeof value !== 'object' || value === null || value instanceof Date)
+		{
+			return value;
+		}
+
+		if (ancestors.includes(value))
+		{
+			return '[Circular]';
+		}
+
+		if (Array.isArray(value))
+		{
+			return value.map((item) => RedactionHelper.redactValue(item, keys, replacement, [...ancestors, value]));
+		}
+
+		return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+			key,
+			RedactionHelper.isSensitive(key, keys) ? replacement : RedactionHelper.redactValue(item, keys, replacement, [...ancestors, value])
+		]));
+	}
+
+	/**
+	 * Checks whether a key is sensitive.
+	 *
+	 * @param {string} key - The key
+	 * @param {(string | RegExp)[]} keys - The sensitive keys
+	 * @returns {boolean} - True when the value of the key has to be redacted
+	 */
+	private static isSensitive(key: string, keys: (string | RegExp)[]): boolean
+	{
+		const normalizedKey = key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+		return keys.some((sensitiveKey) => typeof sensitiveKey === 'string'
+			? normalizedKey.includes(sensitiveKey.toLowerCase().replace(/[^a-z0-9]/g, ''))
+			: sensitiveKey.test(key));
+	}
+}
@@ -1,19 +1,447 @@
-import type { TypeResponse } from '../Type/Response';
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseError } from '../Error/ResponseError';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { EnumMessageSeverity } from '../Type/MessageSeverity';
+import {
+	createResponseSchema,
+	type TypeFailureResponse,
+	type TypeMessage,
+	type TypeResponse,
+	type TypeSuccessResponse
+} from '../Type/Response';
+import { type TypeValidationMessageOptions } from '../Type/ValidationMessageOptions';
+import { ValidationMessageHelper } from './ValidationMessageHelper';
 
 export class ResponseHelper
 {
+	/**
+	 * Creates a standardized success response.
+	 *
+	 * @param {TypeObject} data - The data of the response.
+	 * @param {TypeMessage[]} messages - The messages of the response, such as warnings.
+	 * @returns {TypeResponse<TypeObject>} - A standardized success response.
+	 */
+	public static createSuccessResponse<TypeObject>(data?: TypeObject, messages: TypeMessage[] = []): TypeResponse<TypeObject>
+	{
+		return {
+			success: true,
+			messages,
+			...(data !== undefined ? { data } : {})
+		};
+	}
+
+	/**
+	 * Creates a success response with a warning message.
+	 *
+	 * @param {TypeObject} data - The data of the response.
+	 * @param {string} code - The warning code.
+	 * @param {string} message - The warning message.
+	 * @returns {TypeResponse<TypeObject>} - A standardized success response with the warning.
+	 */
+	public static createWarningResponse<TypeObject>(data: TypeObject, code: string, message: string): TypeResponse<TypeObject>
+	{
+		return ResponseHelper.createSuccessResponse(data, [{ code, text: message, severity: EnumMessageSeverity.WARNING }]);
+	}
+
 	/**
 	 * Creates a standardized error response.
 	 *
 	 * @param {string} code - The error code.
 	 * @param {string} message - The error message.
+	 * @param {Omit<TypeValidationMessageOptions, 'schema'>} options - The formatter and the locale rendering the message, kept as is when not given.
 	 * @returns {TypeResponse<TypeObject>} - A standardized error response.
 	 */
-	public static createErrorResponse<TypeObject>(code: string, message: string): TypeResponse<TypeObject>
+	public static createErrorResponse<TypeObject>(
+		code: string,
+		message: string,
+		options: Omit<TypeValidationMessageOptions, 'schema'> = {}
+	): TypeResponse<TypeObject>
 	{
-		return {
+		const response: TypeResponse<TypeObject> = {
 			success: false,
 			messages: [{ code, text: message }]
 		};
+
+		return options.formatter ? ResponseHelper.formatMessages(response, options.formatter, options.locale) : response;
+	}
+
+	/**
+	 * Creates an error response with several messages, such as one per invalid field.
+	 *
+	 * @param {TypeMessage[]} messages - The error messages.
+	 * @returns {TypeResponse<TypeObject>} - A standardized error response.
+	 */
+	public static createErrorsResponse<TypeObject>(messages: TypeMessage[]): TypeResponse<TypeObject>
+	{
+		return {
+			success: false,
+			messages
+		};
+	}
+
+	/**
+	 * Creates a RATE_LIMITED error response with a hint of when the call may be retried.
+	 *
+	 * @param {number} retryAfter - The time in milliseconds after which the call may be retried.
+	 * @returns {TypeResponse<TypeObject>} - A standardized error response with the hint in the params of the message.
+	 */
+	public static createRateLimitedResponse<TypeObject>(retryAfter: number): TypeResponse<TypeObject>
+	{
+		return {
+			success: false,
+			messages: [{
+				code: EnumErrorCode.RATE_LIMITED,
+				text: `Rate limit exceeded, retry after ${Math.ceil(retryAfter / 1000)} seconds`,
+				params: { retryAfter }
+			}]
+		};
+	}
+
+	/**
+	 * Returns the retry-after hint of a response, the largest one when several messages have it.
+	 *
+	 * @param {TypeResponse<unknown>} response - The response.
+	 * @returns {number | undefined} - The time in milliseconds after which the call may be retried, undefined without a hint.
+	 */
+	public static getRetryAfter(response: TypeResponse<unknown>): number | undefined
+	{
+		const hints = (response.messages ?? [])
+			.map((message) => message.params?.['retryAfter'])
+			.filter((retryAfter): retryAfter is number => typeof retryAfter === 'number');
+
+		return hints.length > 0 ? Math.max(...hints) : undefined;
+	}
+
+	/**
+	 * Checks whether a response has a message with one of the given codes.
+	 *
+	 * @param {TypeResponse<unknown>} response - The response to check.
+	 * @param {string[]} codes - The codes to look for.
+	 * @returns {boolean} - True when one of the messages has one of the codes.
+	 */
+	public static hasMessageCode(response: TypeResponse<unknown>, codes: string[]): boolean
+	{
+		return (response.messages ?? []).some((message) => codes.includes(message.code));
+	}
+
+	/**
+	 * Parses an untrusted response, such as the body of a remote call, into a typed response.
+	 * Errors never escape, invalid JSON and responses not matching the schema are returned as INVALID_RESPONSE failures.
+	 *
+	 * @param {TypeObjectSchema} dataSchema - The schema of the data.
+	 * @param {unknown} input - The response, either a JSON string or an already decoded value.
+	 * @param {Omit<TypeValidationMessageOptions, 'schema'>} options - How the texts of validation messages are rendered, such as the locale.
+	 * @returns {TypeResponse<Infer<TypeObjectSchema>>} - The parsed response.
+	 */
+	public static parse<TypeObjectSchema extends ZodSchema>(
+		dataSchema: TypeObjectSchema,
+		input: unknown,
+		options: Omit<TypeValidationMessageOptions, 'schema'> = {}
+	): TypeResponse<Infer<TypeObjectSchema>>
+	{
+		let value = input;
+		if (typeof input === 'string')
+		{
+			try
+			{
+				value = JSON.parse(input);
+			}
+			catch (error)
+			{
+				return ResponseHelper.createErrorResponse(
+					EnumErrorCode.INVALID_RESPONSE,
+					`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+				);
+			}
+		}
+
+		const responseSchema = createResponseSchema(dataSchema);
+		const parsedResponse = responseSchema.safeParse(value);
+		if (!parsedResponse.success)
+		{
+			return {
+				success: false,
+				messages: ValidationMessageHelper.fromZodError(parsedResponse.error, { ...options, schema: responseSchema })
+					.map((message) => ({ ...message, code: EnumErrorCode.INVALID_RESPONSE }))
+			};
+		}
+
+		return parsedResponse.data;
+	}
+
+	/**
+	 * Returns the data of a successful response.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @returns {TypeObject} - The data.
+	 * @throws {ResponseError} - When the response is not successful, with its messages, or has no data, with INVALID_RESPONSE.
+	 */
+	public static unwrap<TypeObject>(response: TypeResponse<TypeObject>): TypeObject
+	{
+		if (!response.success)
+		{
+			throw ResponseHelper.toError(response);
+		}
+
+		if (!ResponseHelper.isSuccess(response))
+		{
+			throw new ResponseError([{ code: EnumErrorCode.INVALID_RESPONSE, text: 'Successful response has no data' }]);
+		}
+
+		return response.data;
+	}
+
+	/**
+	 * Checks whether a response is successful and has data, narrowing its data to be present.
+	 * Successful responses without data, such as of actions returning nothing, are not narrowed.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @returns {boolean} - True when the response is successful and its data is not undefined.
+	 */
+	public static isSuccess<TypeObject>(response: TypeResponse<TypeObject>): response is TypeSuccessResponse<TypeObject>
+	{
+		return response.success && response.data !== undefined;
+	}
+
+	/**
+	 * Checks whether a response is not successful.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @returns {boolean} - True when the response is not successful.
+	 */
+	public static isFailure<TypeObject>(response: TypeResponse<TypeObject>): response is TypeFailureResponse<TypeObject>
+	{
+		return !response.success;
+	}
+
+	/**
+	 * Transforms the data of a successful response, failed responses are returned unchanged.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @param {(data: TypeObject) => TypeResult} callback - Transforms the data.
+	 * @returns {TypeResponse<TypeResult>} - The response with the transformed data.
+	 */
+	public static map<TypeObject, TypeResult>(response: TypeResponse<TypeObject>, callback: (data: TypeObject) => TypeResult): TypeResponse<TypeResult>
+	{
+		if (!response.success)
+		{
+			return ResponseHelper.withoutData(response);
+		}
+
+		return { ...response, data: callback(response.data as TypeObject) };
+	}
+
+	/**
+	 * Continues a successful response with another response created from its data, failed responses are returned unchanged.
+	 * The messages of both responses are kept, so warnings are not lost.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @param {(data: TypeObject) => TypeResponse<TypeResult>} callback - Creates the next response from the data.
+	 * @returns {TypeResponse<TypeResult>} - The next response.
+	 */
+	public static flatMap<TypeObject, TypeResult>(
+		response: TypeResponse<TypeObject>,
+		callback: (data: TypeObject) => TypeResponse<TypeResult>
+	): TypeResponse<TypeResult>
+	{
+		if (!response.success)
+		{
+			return ResponseHelper.withoutData(response);
+		}
+
+		return ResponseHelper.prependMessages(callback(response.data as TypeObject), response.messages);
+	}
+
+	/**
+	 * Asynchronous flatMap, continues a successful response with the response of an async step such as another action.
+	 *
+	 * @param {TypeResponse<TypeObject> | Promise<TypeResponse<TypeObject>>} response - The response.
+	 * @param {(data: TypeObject) => TypeResponse<TypeResult> | Promise<TypeResponse<TypeResult>>} callback - Creates the next response from the data.
+	 * @returns {Promise<TypeResponse<TypeResult>>} - The next response.
+	 */
+	public static async andThen<TypeObject, TypeResult>(
+		response: TypeResponse<TypeObject> | Promise<TypeResponse<TypeObject>>,
+		callback: (data: TypeObject) => TypeResponse<TypeResult> | Promise<TypeResponse<TypeResult>>
+	): Promise<TypeResponse<TypeResult>>
+	{
+		const resolvedResponse = await response;
+		if (!resolvedResponse.success)
+		{
+			return ResponseHelper.withoutData(resolvedResponse);
+		}
+
+		return ResponseHelper.prependMessages(await callback(resolvedResponse.data as TypeObject), resolvedResponse.messages);
+	}
+
+	/**
+	 * Transforms the messages of a failed response, such as to translate low level codes to domain codes.
+	 * Successful responses are returned unchanged.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @param {(message: TypeMessage) => TypeMessage} callback - Transforms a message.
+	 * @returns {TypeResponse<TypeObject>} - The response with the transformed messages.
+	 */
+	public static mapError<TypeObject>(response: TypeResponse<TypeObject>, callback: (message: TypeMessage) => TypeMessage): TypeResponse<TypeObject>
+	{
+		if (response.success)
+		{
+			return response;
+		}
+
+		return { ...response, messages: (response.messages ?? []).map(callback) };
+	}
+
+	/**
+	 * Renders the texts of the messages of a response with a formatter, such as in the language of the user.
+	 * Messages the formatter has no template for keep their text.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @param {MessageFormatterInterface} formatter - Renders the texts.
+	 * @param {string} locale - The locale of the texts, the default locale of the formatter when not given.
+	 * @returns {TypeResponse<TypeObject>} - The response with the rendered texts.
+	 */
+	public static formatMessages<TypeObject>(response: TypeResponse<TypeObject>, formatter: MessageFormatterInterface, locale?: string): TypeResponse<TypeObject>
+	{
+		if (!response.messages)
+		{
+			return response;
+		}
+
+		return { ...response, messages: response.messages.map((message) => ({ ...message, text: formatter.format(message, { locale }) })) };
+	}
+
+	/**
+	 * Merges responses into a response with the data of all of them, it is successful only when all of them are.
+	 * The messages of all responses are kept.
+	 *
+	 * @param {TypeResponse<TypeObject>[]} responses - The responses.
+	 * @returns {TypeResponse<TypeObject[]>} - The merged response.
+	 */
+	public static merge<TypeObject>(responses: TypeResponse<TypeObject>[]): TypeResponse<TypeObject[]>
+	{
+		const messages = responses.flatMap((response) => response.messages ?? []);
+
+		if (responses.some((response) => !response.success))
+		{
+			return ResponseHelper.createErrorsResponse(messages);
+		}
+
+		return ResponseHelper.createSuccessResponse(responses.map((response) => response.data as TypeObject), messages);
+	}
+
+	/**
+	 * Combines named responses into a response with an object of their data, it is successful only when all of them are.
+	 *
+	 * @param {{ [TypeKey in keyof TypeObject]: TypeResponse<TypeObject[TypeKey]> }} responses - The responses by name.
+	 * @returns {TypeResponse<TypeObject>} - The combined response.
+	 */
+	public static combine<TypeObject extends Record<string, unknown>>(
+		responses: { [TypeKey in keyof TypeObject]: TypeResponse<TypeObject[TypeKey]> }
+	): TypeResponse<TypeObject>
+	{
+		const keys = Object.keys(responses) as (keyof TypeObject)[];
+
+		return ResponseHelper.map(
+			ResponseHelper.merge(keys.map((key) => responses[key] as TypeResponse<unknown>)),
+			(data) => Object.fromEntries(keys.map((key, index) => [key, data[index]])) as TypeObject
+		);
+	}
+
+	/**
+	 * Returns the data of a successful response or the fallback for failed responses.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @param {TypeObject} fallback - The value returned for failed responses.
+	 * @returns {TypeObject} - The data or the fallback.
+	 */
+	public static unwrapOr<TypeObject>(response: TypeResponse<TypeObject>, fallback: TypeObject): TypeObject
+	{
+		return response.success ? response.data as TypeObject : fallback;
+	}
+
+	/**
+	 * Converts a promise into a response, rejections are mapped to messages instead of being thrown.
+	 *
+	 * @param {Promise<TypeObject>} promise - The promise.
+	 * @param {ErrorMapperInterface} errorMapper - Maps the rejection to a message.
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response.
+	 */
+	public static async fromPromise<TypeObject>(
+		promise: Promise<TypeObject>,
+		errorMapper: ErrorMapperInterface = new ErrorMapper()
+	): Promise<TypeResponse<TypeObject>>
+	{
+		try
+		{
+			return ResponseHelper.createSuccessResponse(await promise);
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, errorMapper);
+		}
+	}
+
+	/**
+	 * Converts a thrown exception into a failed response, the messages of a ResponseError are restored.
+	 *
+	 * @param {unknown} error - The exception.
+	 * @param {ErrorMapperInterface} errorMapper - Maps other exceptions to a message.
+	 * @param {Omit<TypeValidationMessageOptions, 'schema'>} options - The formatter and the locale rendering the messages, kept as is when not given.
+	 * @returns {TypeResponse<TypeObject>} - The failed response.
+	 */
+	public static fromError<TypeObject>(
+		error: unknown,
+		errorMapper: ErrorMapperInterface = new ErrorMapper(),
+		options: Omit<TypeValidationMessageOptions, 'schema'> = {}
+	): TypeResponse<TypeObject>
+	{
+		const response = ResponseHelper.createErrorsResponse<TypeObject>(error instanceof ResponseError ? error.messages : [errorMapper.map(error)]);
+
+		return options.formatter ? ResponseHelper.formatMessages(response, options.formatter, options.locale) : response;
+	}
+
+	/**
+	 * Converts a failed response into an exception that can be thrown, ResponseHelper.fromError restores the response.
+	 *
+	 * @param {TypeResponse<unknown>} response - The failed response.
+	 * @returns {ResponseError} - The exception with the messages of the response.
+	 */
+	public static toError(response: TypeResponse<unknown>): ResponseError
+	{
+		return new ResponseError(response.messages ?? []);
+	}
+
+	/**
+	 * Returns a failed response without its data, changing the type of the data.
+	 *
+	 * @param {TypeResponse<unknown>} response - The failed response.
+	 * @returns {TypeResponse<TypeResult>} - The response without data.
+	 */
+	private static withoutData<TypeResult>(response: TypeResponse<unknown>): TypeResponse<TypeResult>
+	{
+		return {
+			success: response.success,
+			...(response.messages !== undefined ? { messages: response.messages } : {})
+		};
+	}
+
+	/**
+	 * Adds messages in front of the messages of a response.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response.
+	 * @param {TypeMessage[]} messages - The messages to add.
+	 * @returns {TypeResponse<TypeObject>} - The response with the messages.
+	 */
+	private static prependMessages<TypeObject>(response: TypeResponse<TypeObject>, messages: TypeMessage[] = []): TypeResponse<TypeObject>
+	{
+		if (messages.length === 0)
+		{
+			return response;
+		}
+
+		return { ...response, messages: [...messages, ...(response.messages ?? [])] };
 	}
 }
@@ -0,0 +1,63 @@
+import { type AsyncTransformerInterface } from '../Interface/AsyncTransformerInterface';
+import { type TransformerInterface } from '../Interface/TransformerInterface';
+import { ArrayAsyncTransformer } from '../Transformer/ArrayAsyncTransformer';
+import { ArrayTransformer } from '../Transformer/ArrayTransformer';
+import { ComposedAsyncTransformer } from '../Transformer/ComposedAsyncTransformer';
+import { ComposedTransformer } from '../Transformer/ComposedTransformer';
+
+export class TransformerHelper
+{
+	/**
+	 * Composes two transformers, the output of the first one is the input of the second one.
+	 *
+	 * @param {TransformerInterface<InputType, IntermediateType>} first - The transformer applied first
+	 * @param {TransformerInterface<IntermediateType, OutputType>} second - The transformer applied next
+	 * @returns {TransformerInterface<InputType, OutputType>} - The composed transformer
+	 */
+	public static compose<InputType, IntermediateType, OutputType>(
+		first: TransformerInterface<InputType, IntermediateType>,
+		second: TransformerInterface<IntermediateType, OutputType>
+	): TransformerInterface<InputType, OutputType>
+	{
+		return new ComposedTransformer(first, second);
+	}
+
+	/**
+	 * Composes two transformers of which either may be async.
+	 *
+	 * @param {TransformerInterface<InputType, IntermediateType> | AsyncTransformerInterface<InputType, IntermediateType>} first - The transformer applied first
+	 * @param {TransformerInterface<IntermediateType, OutputType> | AsyncTransformerInterface<IntermediateType, OutputType>} second - The transformer applied next
+	 * @returns {AsyncTransformerInterface<InputType, OutputType>} - The composed transformer
+	 */
+	public static composeAsync<InputType, IntermediateType, OutputType>(
+		first: TransformerInterface<InputType, IntermediateType> | AsyncTransformerInterface<InputType, IntermediateType>,
+		second: TransformerInterface<IntermediateType, OutputType> | AsyncTransformerInterface<IntermediateType, OutputType>
+	): AsyncTransformerInterface<InputType, OutputType>
+	{
+		return new ComposedAsyncTransformer(first, second);
+	}
+
+	/**
+	 * Lifts a transformer of single items to arrays of them.
+	 *
+	 * @param {TransformerInterface<InputType, OutputType>} transformer - The transformer of single items
+	 * @returns {TransformerInterface<InputType[], OutputType[]>} - The array transformer
+	 */
+	public static array<InputType, OutputType>(transformer: TransformerInterface<InputType, OutputType>): TransformerInterface<InputType[], OutputType[]>
+	{
+		return new ArrayTransformer(transformer);
+	}
+
+	/**
+	 * Lifts an async transformer of single items to arrays of them.
+	 *
+	 * @param {AsyncTransformerInterface<InputType, OutputType>} transformer - The transformer of single items
+	 * @returns {AsyncTransformerInterface<InputType[], OutputType[]>} - The array transformer
+	 */
+	public static arrayAsync<InputType, OutputType>(
+		transformer: AsyncTransformerInterface<InputType, OutputType>
+	): AsyncTransformerInterface<InputType[], OutputType[]>
+	{
+		return new ArrayAsyncTransformer(transformer);
+	}
+}
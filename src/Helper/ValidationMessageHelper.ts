@@ -0,0 +1,162 @@
+import { ZodFirstPartyTypeKind, type ZodError, type ZodIssue, type ZodTypeAny } from 'zod';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { EnumMessageSeverity } from '../Type/MessageSeverity';
+import { type TypeMessage } from '../Type/Response';
+import { type TypeValidationMessageOptions } from '../Type/ValidationMessageOptions';
+
+export class ValidationMessageHelper
+{
+	/**
+	 * Converts the issues of a Zod error into validation messages.
+	 *
+	 * @param {ZodError} error - The Zod error
+	 * @param {TypeValidationMessageOptions} options - How the texts are rendered, such as the formatter and the locale
+	 * @returns {TypeMessage[]} - The validation messages
+	 */
+	public static fromZodError(error: ZodError, options: TypeValidationMessageOptions = {}): TypeMessage[]
+	{
+		return error.issues.map((issue) => ValidationMessageHelper.fromZodIssue(issue, options));
+	}
+
+	/**
+	 * Converts a Zod issue into a validation message, keeping the path, the issue code and its parameters
+	 * next to the human readable text.
+	 *
+	 * @param {ZodIssue} issue - The Zod issue
+	 * @param {TypeValidationMessageOptions} options - How the text is rendered, such as the formatter and the locale
+	 * @returns {TypeMessage} - The validation message
+	 */
+	public static fromZodIssue(issue: ZodIssue, options: TypeValidationMessageOptions = {}): TypeMessage
+	{
+		const validationMessage: TypeMessage = {
+			code: EnumErrorCode.VALIDATION_ERROR,
+			text: `${issue.message} (at ${issue.path.join('.')})`,
+			path: issue.path,
+			issueCode: issue.code,
+			severity: EnumMessageSeverity.ERROR
+		};
+		const params: Record<string, unknown> = {};
+
+		Object.entries(issue).forEach(([key, value]) =>
+		{
+			if (['code', 'message', 'path', 'fatal'].includes(key))
+			{
+				return;
+			}
+
+			if ((key === 'expected' || key === 'received') && typeof value === 'string')
+			{
+				validationMessage[key] = value;
+			}
+			else
+			{
+				params[key] = value;
+			}
+		});
+
+		if (Object.keys(params).length > 0)
+		{
+			validationMessage.params = params;
+		}
+
+		if (options.formatter)
+		{
+			validationMessage.text = options.formatter.format(validationMessage, {
+				locale: options.locale,
+				label: options.schema ? ValidationMessageHelper.getLabel(options.schema, issue.path) : undefined
+			});
+		}
+
+		return validationMessage;
+	}
+
+	/**
+	 * Returns the label of a field, the description of its schema set with describe().
+	 *
+	 * @param {ZodTypeAny} schema - The validated schema
+	 * @param {(string | number)[]} path - The path of the field
+	 * @returns {string | undefined} - The label, undefined when the field has no description
+	 */
+	public static getLabel(schema: ZodTypeAny, path: (string | number)[]): string | undefined
+	{
+		let fieldSchema: ZodTypeAny | undefined = schema;
+		for (const key of path)
+		{
+			fieldSchema = fieldSchema ? ValidationMessageHelper.getFieldSchema(fieldSchema, key) : undefined;
+		}
+
+		for (let current = fieldSchema; current; current = ValidationMessageHelper.getInnerSchema(current))
+		{
+			if (current.description !== undefined)
+			{
+				return current.description;
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Returns the schema of a property or an item of a schema.
+	 *
+	 * @param {ZodTypeAny} schema - The schema
+	 * @param {string | number} key - The property name or the item index
+	 * @returns {ZodTypeAny | undefined} - The schema of the field, undefined when it cannot be determined
+	 */
+	private static getFieldSchema(schema: ZodTypeAny, key: string | number): ZodTypeAny | undefined
+	{
+		let current: ZodTypeAny | undefined = schema;
+		while (current)
+		{
+			const def = current._def;
+
+			switch (def.typeName as ZodFirstPartyTypeKind)
+			{
+				case ZodFirstPartyTypeKind.ZodObject:
+					return def.shape()[key];
+				case ZodFirstPartyTypeKind.ZodArray:
+					return def.type;
+				case ZodFirstPartyTypeKind.ZodTuple:
+					return typeof key === 'number' ? def.items[key] ?? def.rest ?? undefined : undefined;
+				case ZodFirstPartyTypeKind.ZodRecord:
+				case ZodFirstPartyTypeKind.ZodMap:
+					return def.valueType;
+				default:
+					current = ValidationMessageHelper.getInnerSchema(current);
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Returns the schema wrapped by optional, nullable, default, effects and similar schemas.
+	 *
+	 * @param {ZodTypeAny} schema - The schema
+	 * @returns {ZodTypeAny | undefined} - The wrapped schema, undefined for schemas which wrap none
+	 */
+	private static getInnerSchema(schema: ZodTypeAny): ZodTypeAny | undefined
+	{
+		const def = schema._def;
+
+		switch (def.typeName as ZodFirstPartyTypeKind)
+		{
+			case ZodFirstPartyTypeKind.ZodOptional:
+			case ZodFirstPartyTypeKind.ZodNullable:
+			case ZodFirstPartyTypeKind.ZodDefault:
+			case ZodFirstPartyTypeKind.ZodCatch:
+			case ZodFirstPartyTypeKind.ZodReadonly:
+				return def.innerType;
+			case ZodFirstPartyTypeKind.ZodEffects:
+				return def.schema;
+			case ZodFirstPartyTypeKind.ZodBranded:
+				return def.type;
+			case ZodFirstPartyTypeKind.ZodPipeline:
+				return def.in;
+			case ZodFirstPartyTypeKind.ZodLazy:
+				return def.getter();
+			default:
+				return undefined;
+		}
+	}
+}
@@ -0,0 +1,152 @@
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeHttpActionClientOptions } from '../Type/HttpActionClientOptions';
+import { createResponseSchema, type TypeResponse, type TypeResponseSchema } from '../Type/Response';
+
+/**
+ * HttpActionClient calls an endpoint served by HttpActionHandler as an action, using the same schemas on both sides, so
+ * callers get a typed TypeResponse back. The payload is validated before the request is made and the response after.
+ *
+ * @example
+ * const createOrder = new HttpActionClient('/api/orders', payloadSchema, objectSchema);
+ *
+ * const { success, data } = await createOrder.execute({ productId: 'p1', quantity: 2 });
+ */
+export class HttpActionClient<TypePayloadSchema extends ZodSchema, TypeObjectSchema extends ZodSchema>
+implements ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>
+{
+	private readonly responseSchema: TypeResponseSchema<TypeObjectSchema>;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {string} url - The URL of the endpoint
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeObjectSchema} objectSchema - The Zod schema for the output data
+	 * @param {TypeHttpActionClientOptions} options - The options, such as the HTTP method
+	 */
+	constructor(
+		private readonly url: string,
+		private readonly payloadSchema: TypePayloadSchema,
+		objectSchema: TypeObjectSchema,
+		private readonly options: TypeHttpActionClientOptions = {}
+	)
+	{
+		this.responseSchema = createResponseSchema(objectSchema);
+	}
+
+	/**
+	 * Calls the endpoint. Errors never escape, network failures and unexpected responses are returned as EXECUTION_ERROR.
+	 *
+	 * @param {Infer<TypePayloadSchema>} payload - The input data
+	 * @param {TypeExecutionContext} context - The context of the execution, its signal aborts the request
+	 * @returns {Promise<TypeResponse<Infer<TypeObjectSchema>>>} - The response of the endpoint
+	 */
+	public async execute(payload: Infer<TypePayloadSchema>, context?: TypeExecutionContext): Promise<TypeResponse<Infer<TypeObjectSchema>>>
+	{
+		const parsedPayload = this.payloadSchema.safeParse(payload);
+		if (!parsedPayload.success)
+		{
+			return {
+				success: false,
+				messages: ValidationMessageHelper.fromZodError(parsedPayload.error, {
+					formatter: this.options.messageFormatter,
+					schema: this.payloadSchema,
+					locale: context?.locale
+				})
+			};
+		}
+
+		const messageOptions = { formatter: this.options.messageFormatter, locale: context?.locale };
+
+		const method = this.options.method ?? 'POST';
+		const nestedField = method === 'GET' || method === 'DELETE' ? HttpActionClient.findNestedField(parsedPayload.data) : undefined;
+		if (nestedField !== undefined)
+		{
+			return ResponseHelper.createErrorResponse(
+				EnumErrorCode.VALIDATION_ERROR,
+				`Field "${nestedField}" is an object, which cannot be sent as a query parameter with ${method}`,
+				messageOptions
+			);
+		}
+
+		let body: unknown;
+		let status: number;
+		try
+		{
+			const response = await (this.options.fetch ?? fetch)(this.createRequest(parsedPayload.data, context));
+			status = response.status;
+			body = await response.json();
+		}
+		catch (error)
+		{
+			return ResponseHelper.createErrorResponse(
+				EnumErrorCode.EXECUTION_ERROR,
+				`Request to ${this.url} failed: ${error instanceof Error ? error.message : String(error)}`,
+				messageOptions
+			);
+		}
+
+		const parsedResponse = this.responseSchema.safeParse(body);
+		if (!parsedResponse.success)
+		{
+			return ResponseHelper.createErrorResponse(
+				EnumErrorCode.EXECUTION_ERROR,
+				`Unexpected response from ${this.url} with status ${status}`,
+				messageOptions
+			);
+		}
+
+		return parsedResponse.data;
+	}
+
+	/**
+	 * Finds a field of a payload that cannot be sent as a query parameter, an object or an array with objects.
+	 *
+	 * @param {unknown} payload - The validated payload
+	 * @returns {string | undefined} - The name of the field, undefined when the payload can be sent as query parameters
+	 */
+	private static findNestedField(payload: unknown): string | undefined
+	{
+		return Object.entries(payload as Record<string, unknown>)
+			.find(([, value]) => (Array.isArray(value) ? value : [value]).some((item) => typeof item === 'object' && item !== null))?.[0];
+	}
+
+	/**
+	 * Creates the request, the payload is sent as query parameters for GET and DELETE and as a JSON body otherwise.
+	 * Relative URLs are resolved against the location of the page in browsers.
+	 *
+	 * @param {unknown} payload - The validated payload
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Request} - The request
+	 * @throws {TypeError} - When the URL is relative outside of a browser
+	 */
+	private createRequest(payload: unknown, context?: TypeExecutionContext): Request
+	{
+		const method = this.options.method ?? 'POST';
+		const url = new URL(this.url, typeof location !== 'undefined' ? location.href : undefined);
+
+		if (method === 'GET' || method === 'DELETE')
+		{
+			Object.entries(payload as Record<string, unknown>).forEach(([key, value]) =>
+			{
+				(Array.isArray(value) ? value : [value])
+					.filter((item) => item !== undefined)
+					.forEach((item) => url.searchParams.append(Array.isArray(value) ? `${key}[]` : key, String(item)));
+			});
+
+			return new Request(url, { method, headers: this.options.headers, signal: context?.signal });
+		}
+
+		return new Request(url, {
+			method,
+			headers: { ['content-type']: 'application/json', ...this.options.headers },
+			body: JSON.stringify(payload),
+			signal: context?.signal
+		});
+	}
+}
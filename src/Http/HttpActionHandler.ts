@@ -0,0 +1,210 @@
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { ZodSchemaValidatedAction } from '../Action/ZodSchemaValidatedAction';
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeHttpActionHandlerOptions } from '../Type/HttpActionHandlerOptions';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * HttpActionHandler serves an action as an HTTP endpoint on the Fetch API, so it runs on any runtime with Request and Response,
+ * such as Node, Bun, Deno or edge workers. The payload is read from the query and the JSON or form body, validated with the
+ * payload schema and the TypeResponse of the action is returned as JSON with a status derived from its message codes.
+ *
+ * @example
+ * const handler = new HttpActionHandler(payloadSchema, objectSchema, new CreateOrderAction());
+ *
+ * export const POST = (request: Request): Promise<Response> => handler.handle(request);
+ */
+export class HttpActionHandler<TypePayloadSchema extends ZodSchema, TypeObjectSchema extends ZodSchema>
+{
+	private static readonly DEFAULT_STATUS_CODES: Record<string, number> = {
+		[EnumErrorCode.VALIDATION_ERROR]: 422,
+		[EnumErrorCode.INVALID_TOOL_ARGUMENTS]: 422,
+		[EnumErrorCode.UNAUTHORIZED]: 401,
+		[EnumErrorCode.APPROVAL_REQUIRED]: 202,
+		[EnumErrorCode.NOT_FOUND]: 404,
+		[EnumErrorCode.TOOL_NOT_FOUND]: 404,
+		[EnumErrorCode.RATE_LIMITED]: 429,
+		[EnumErrorCode.CIRCUIT_OPEN]: 503,
+		[EnumErrorCode.TIMEOUT]: 504,
+		[EnumErrorCode.EXECUTION_ERROR]: 500
+	};
+
+	private static readonly BODYLESS_METHODS = ['GET', 'HEAD', 'DELETE'];
+
+	private readonly action: ZodSchemaValidatedAction<TypePayloadSchema, TypeObjectSchema>;
+	private readonly statusCodes: Record<string, number>;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeObjectSchema} objectSchema - The Zod schema for the output data
+	 * @param {ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>} action - The action to serve
+	 * @param {TypeHttpActionHandlerOptions} options - The options, such as the status codes of failures
+	 */
+	constructor(
+		payloadSchema: TypePayloadSchema,
+		objectSchema: TypeObjectSchema,
+		action: ActionInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>,
+		private readonly options: TypeHttpActionHandlerOptions = {}
+	)
+	{
+		this.action = new ZodSchemaValidatedAction(payloadSchema, objectSchema, action, {
+			errorMapper: options.errorMapper,
+			messageFormatter: options.messageFormatter,
+			normalization: options.normalization ?? { coerceNumbers: true, coerceBooleans: true }
+		});
+		this.statusCodes = { ...HttpActionHandler.DEFAULT_STATUS_CODES, ...options.statusCodes };
+	}
+
+	/**
+	 * Handles a HTTP request. Errors never escape, malformed bodies are answered with 400 and VALIDATION_ERROR
+	 * and failures of the context factory with 500 and EXECUTION_ERROR. A 429 response carries the Retry-After header in seconds
+	 * when a message has a retry-after hint.
+	 *
+	 * @param {Request} request - The HTTP request
+	 * @returns {Promise<Response>} - The HTTP response with the TypeResponse of the action as JSON
+	 */
+	public async handle(request: Request): Promise<Response>
+	{
+		let payload: unknown;
+		try
+		{
+			payload = await HttpActionHandler.parsePayload(request);
+		}
+		catch
+		{
+			return HttpActionHandler.createJsonResponse(
+				ResponseHelper.createErrorResponse(EnumErrorCode.VALIDATION_ERROR, 'Request body is not valid JSON', { formatter: this.options.messageFormatter }),
+				400
+			);
+		}
+
+		let context: TypeExecutionContext;
+		try
+		{
+			context = { signal: request.signal, ...await this.options.contextFactory?.(request) };
+		}
+		catch
+		{
+			return HttpActionHandler.createJsonResponse(
+				ResponseHelper.createErrorResponse(EnumErrorCode.EXECUTION_ERROR, 'Context of the request could not be created', { formatter: this.options.messageFormatter }),
+				500
+			);
+		}
+
+		const response = await this.action.execute(payload as Infer<TypePayloadSchema>, context);
+		const status = this.getStatus(response);
+		const retryAfter = status === 429 ? ResponseHelper.getRetryAfter(response) : undefined;
+
+		return HttpActionHandler.createJsonResponse(
+			response,
+			status,
+			retryAfter !== undefined ? { ['retry-after']: String(Math.ceil(retryAfter / 1000)) } : {}
+		);
+	}
+
+	/**
+	 * Returns the HTTP status of a response, the first message with a known code decides the status of failures.
+	 *
+	 * @param {TypeResponse<unknown>} response - The response of the action
+	 * @returns {number} - The HTTP status
+	 */
+	private getStatus(response: TypeResponse<unknown>): number
+	{
+		if (response.success)
+		{
+			return this.options.successStatus ?? 200;
+		}
+
+		const message = (response.messages ?? []).find((message) => message.code in this.statusCodes);
+
+		return message ? this.statusCodes[message.code] : 500;
+	}
+
+	/**
+	 * Reads the payload from the query parameters and the JSON or form body, body fields take precedence.
+	 * Query and form fields are collected without a prototype, so names such as constructor or __proto__ are plain fields.
+	 *
+	 * @param {Request} request - The HTTP request
+	 * @returns {Promise<unknown>} - The payload
+	 * @throws {SyntaxError} - When the body is not valid JSON
+	 */
+	private static async parsePayload(request: Request): Promise<unknown>
+	{
+		const payload: Record<string, unknown> = Object.create(null);
+		new URL(request.url).searchParams.forEach((value, key) => HttpActionHandler.appendField(payload, key, value));
+
+		if (HttpActionHandler.BODYLESS_METHODS.includes(request.method.toUpperCase()))
+		{
+			return payload;
+		}
+
+		const contentType = request.headers.get('content-type') ?? '';
+		if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data'))
+		{
+			const body: Record<string, unknown> = Object.create(null);
+			(await request.formData()).forEach((value, key) => HttpActionHandler.appendField(body, key, value));
+
+			return { ...payload, ...body };
+		}
+
+		const text = await request.text();
+		if (text.trim() === '')
+		{
+			return payload;
+		}
+
+		const body: unknown = JSON.parse(text);
+
+		return typeof body === 'object' && body !== null && !Array.isArray(body) ? { ...payload, ...body } : body;
+	}
+
+	/**
+	 * Adds a query or form field to the payload, repeated fields become arrays.
+	 *
+	 * @param {Record<string, unknown>} payload - The payload
+	 * @param {string} key - The field name, a trailing [] is removed
+	 * @param {unknown} value - The field value
+	 * @returns {void}
+	 */
+	private static appendField(payload: Record<string, unknown>, key: string, value: unknown): void
+	{
+		const name = key.endsWith('[]') ? key.slice(0, -2) : key;
+		const current = payload[name];
+
+		if (Array.isArray(current))
+		{
+			current.push(value);
+		}
+		else if (current !== undefined)
+		{
+			payload[name] = [current, value];
+		}
+		else
+		{
+			payload[name] = key.endsWith('[]') ? [value] : value;
+		}
+	}
+
+	/**
+	 * Creates a JSON HTTP response, the causes of messages are left out since they may expose internals.
+	 *
+	 * @param {TypeResponse<unknown>} response - The response of the action
+	 * @param {number} status - The HTTP status
+	 * @param {Record<string, string>} headers - Additional headers
+	 * @returns {Response} - The HTTP response
+	 */
+	private static createJsonResponse(response: TypeResponse<unknown>, status: number, headers: Record<string, string> = {}): Response
+	{
+		const body: TypeResponse<unknown> = {
+			...response,
+			...(response.messages ? { messages: response.messages.map(({ cause: _cause, ...message }) => message) } : {})
+		};
+
+		return new Response(JSON.stringify(body), { status, headers: { ['content-type']: 'application/json', ...headers } });
+	}
+}
@@ -1,3 +1,4 @@
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
 import { type TypeResponse } from '../Type/Response';
 import { type ServiceInterface } from './ServiceInterface';
 
@@ -10,7 +11,8 @@ export interface ActionInterface<TypePayload, TypeObject> extends ServiceInterfa
 	 * Executes the action with the given input
 	 *
 	 * @param {TypePayload} payload - The input data for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, such as the request id or the abort signal
 	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the action wrapped in a TypeResponse
 	 */
-	execute(payload: TypePayload): Promise<TypeResponse<TypeObject>>;
+	execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>;
 }
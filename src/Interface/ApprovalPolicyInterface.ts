@@ -0,0 +1,16 @@
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+
+/**
+ * Approval policy decides whether a call has to be approved before it is executed.
+ */
+export interface ApprovalPolicyInterface<TypePayload>
+{
+	/**
+	 * Checks whether the call requires approval
+	 *
+	 * @param {TypePayload} payload - The validated payload of the call
+	 * @param {TypeExecutionContext} context - The context of the call, such as the caller
+	 * @returns {Promise<boolean>} - True when the call has to be approved first
+	 */
+	requiresApproval(payload: TypePayload, context?: TypeExecutionContext): Promise<boolean>;
+}
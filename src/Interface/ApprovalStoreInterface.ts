@@ -0,0 +1,38 @@
+import { type TypeApprovalTicket } from '../Type/ApprovalTicket';
+
+/**
+ * Approval store keeps the tickets of calls waiting for approval, such as in memory or in a database.
+ */
+export interface ApprovalStoreInterface
+{
+	/**
+	 * Stores a ticket
+	 *
+	 * @param {TypeApprovalTicket<unknown>} ticket - The ticket
+	 * @returns {Promise<void>}
+	 */
+	save(ticket: TypeApprovalTicket<unknown>): Promise<void>;
+
+	/**
+	 * Returns a ticket without removing it
+	 *
+	 * @param {string} id - The id of the ticket
+	 * @returns {Promise<TypeApprovalTicket<unknown> | undefined>} - The ticket, undefined when missing
+	 */
+	get(id: string): Promise<TypeApprovalTicket<unknown> | undefined>;
+
+	/**
+	 * Removes a ticket and returns it, at most one caller may receive a ticket so that it is approved only once
+	 *
+	 * @param {string} id - The id of the ticket
+	 * @returns {Promise<TypeApprovalTicket<unknown> | undefined>} - The ticket, undefined when missing
+	 */
+	take(id: string): Promise<TypeApprovalTicket<unknown> | undefined>;
+
+	/**
+	 * Returns the stored tickets, such as to show them to approvers
+	 *
+	 * @returns {Promise<TypeApprovalTicket<unknown>[]>} - The tickets
+	 */
+	list(): Promise<TypeApprovalTicket<unknown>[]>;
+}
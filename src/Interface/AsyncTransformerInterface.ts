@@ -0,0 +1,13 @@
+/**
+ * Async transformer is a transformer for transformations that require I/O, such as resolving references.
+ */
+export interface AsyncTransformerInterface<InputType, OutputType>
+{
+	/**
+	 * Transforms input of type InputType to output of type OutputType
+	 *
+	 * @param {InputType | undefined} input - input data to be transformed
+	 * @returns {Promise<OutputType | undefined>} - transformed data
+	 */
+	transform(input: InputType | undefined): Promise<OutputType | undefined>;
+}
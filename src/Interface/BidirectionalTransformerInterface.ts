@@ -0,0 +1,15 @@
+import { type TransformerInterface } from './TransformerInterface';
+
+/**
+ * Bidirectional transformer transforms data to another format and back, such as an encoder and decoder pair.
+ */
+export interface BidirectionalTransformerInterface<InputType, OutputType> extends TransformerInterface<InputType, OutputType>
+{
+	/**
+	 * Transforms output of type OutputType back to input of type InputType
+	 *
+	 * @param {OutputType | undefined} output - output data to be transformed back
+	 * @returns {InputType | undefined} - transformed data
+	 */
+	reverseTransform(output: OutputType | undefined): InputType | undefined;
+}
@@ -0,0 +1,32 @@
+import { type TypeCacheEntry } from '../Type/CacheEntry';
+
+/**
+ * Cache stores entries by key, entries are serializable so they can be kept outside the process, such as in Redis.
+ */
+export interface CacheInterface<TypeValue>
+{
+	/**
+	 * Returns the entry stored under the key
+	 *
+	 * @param {string} key - The key
+	 * @returns {Promise<TypeCacheEntry<TypeValue> | undefined>} - The entry, undefined when missing or past its staleUntil time
+	 */
+	get(key: string): Promise<TypeCacheEntry<TypeValue> | undefined>;
+
+	/**
+	 * Stores an entry under the key, it may be evicted once past its staleUntil time
+	 *
+	 * @param {string} key - The key
+	 * @param {TypeCacheEntry<TypeValue>} entry - The entry
+	 * @returns {Promise<void>}
+	 */
+	set(key: string, entry: TypeCacheEntry<TypeValue>): Promise<void>;
+
+	/**
+	 * Removes the entry stored under the key
+	 *
+	 * @param {string} key - The key
+	 * @returns {Promise<void>}
+	 */
+	delete(key: string): Promise<void>;
+}
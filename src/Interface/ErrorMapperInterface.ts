@@ -0,0 +1,15 @@
+import { type TypeMessage } from '../Type/Response';
+
+/**
+ * Error mapper converts an exception thrown by a wrapped implementation into a TypeResponse message.
+ */
+export interface ErrorMapperInterface
+{
+	/**
+	 * Maps the given exception to a message
+	 *
+	 * @param {unknown} error - The thrown exception
+	 * @returns {TypeMessage} - The message describing the failure
+	 */
+	map(error: unknown): TypeMessage;
+}
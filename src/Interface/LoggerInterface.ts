@@ -0,0 +1,41 @@
+/**
+ * Logger writes structured log records, compatible with most logging libraries such as pino or winston through a thin adapter.
+ */
+export interface LoggerInterface
+{
+	/**
+	 * Writes a debug record
+	 *
+	 * @param {string} message - The message
+	 * @param {Record<string, unknown>} attributes - The structured attributes
+	 * @returns {void}
+	 */
+	debug(message: string, attributes?: Record<string, unknown>): void;
+
+	/**
+	 * Writes an info record
+	 *
+	 * @param {string} message - The message
+	 * @param {Record<string, unknown>} attributes - The structured attributes
+	 * @returns {void}
+	 */
+	info(message: string, attributes?: Record<string, unknown>): void;
+
+	/**
+	 * Writes a warning record
+	 *
+	 * @param {string} message - The message
+	 * @param {Record<string, unknown>} attributes - The structured attributes
+	 * @returns {void}
+	 */
+	warn(message: string, attributes?: Record<string, unknown>): void;
+
+	/**
+	 * Writes an error record
+	 *
+	 * @param {string} message - The message
+	 * @param {Record<string, unknown>} attributes - The structured attributes
+	 * @returns {void}
+	 */
+	error(message: string, attributes?: Record<string, unknown>): void;
+}
@@ -0,0 +1,15 @@
+import { type TypeJsonRpcRequest, type TypeJsonRpcResponse } from '../Type/JsonRpc';
+
+/**
+ * MCP client transport delivers JSON-RPC messages to a MCP server.
+ */
+export interface McpClientTransportInterface
+{
+	/**
+	 * Sends a message to the server
+	 *
+	 * @param {TypeJsonRpcRequest} message - The request or notification
+	 * @returns {Promise<TypeJsonRpcResponse | undefined>} - The response, undefined for notifications
+	 */
+	send(message: TypeJsonRpcRequest): Promise<TypeJsonRpcResponse | undefined>;
+}
@@ -0,0 +1,17 @@
+import { type TypeMessageFormatContext } from '../Type/MessageCatalog';
+import { type TypeMessage } from '../Type/Response';
+
+/**
+ * Message formatter renders the text of a TypeMessage, such as in the language of the user.
+ */
+export interface MessageFormatterInterface
+{
+	/**
+	 * Renders the text of the given message, its text is kept when there is nothing to render it with
+	 *
+	 * @param {TypeMessage} message - The message
+	 * @param {TypeMessageFormatContext} context - The locale and the label of the field the message is about
+	 * @returns {string} - The text
+	 */
+	format(message: TypeMessage, context?: TypeMessageFormatContext): string;
+}
@@ -0,0 +1,25 @@
+/**
+ * Metrics records counters and distributions, such as through a StatsD, Prometheus or OpenTelemetry meter adapter.
+ */
+export interface MetricsInterface
+{
+	/**
+	 * Increments a counter
+	 *
+	 * @param {string} name - The metric name
+	 * @param {number} value - The increment
+	 * @param {Record<string, string>} tags - The tags of the measurement
+	 * @returns {void}
+	 */
+	increment(name: string, value: number, tags: Record<string, string>): void;
+
+	/**
+	 * Records a value of a distribution, such as a duration in milliseconds
+	 *
+	 * @param {string} name - The metric name
+	 * @param {number} value - The value
+	 * @param {Record<string, string>} tags - The tags of the measurement
+	 * @returns {void}
+	 */
+	histogram(name: string, value: number, tags: Record<string, string>): void;
+}
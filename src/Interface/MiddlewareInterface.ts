@@ -0,0 +1,19 @@
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeNextHandler } from '../Type/Middleware';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * Middleware adds cross-cutting behavior around the execution of an action, such as logging, auth checks or redaction.
+ */
+export interface MiddlewareInterface<TypePayload, TypeObject>
+{
+	/**
+	 * Handles the payload, either by calling next to continue the pipeline or by returning a response to short-circuit it
+	 *
+	 * @param {TypePayload} payload - The input data
+	 * @param {TypeNextHandler<TypePayload, TypeObject>} next - Continues the pipeline
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response
+	 */
+	handle(payload: TypePayload, next: TypeNextHandler<TypePayload, TypeObject>, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>;
+}
@@ -0,0 +1,15 @@
+import { type TypeRateLimitDecision } from '../Type/RateLimitDecision';
+
+/**
+ * Rate limiter decides whether a call is allowed, limits are tracked separately for every key.
+ */
+export interface RateLimiterInterface
+{
+	/**
+	 * Takes a permit for the key when one is available
+	 *
+	 * @param {string} key - The key the limit is tracked for, such as a tool name or a user id
+	 * @returns {Promise<TypeRateLimitDecision>} - Whether the call is allowed and otherwise when to retry
+	 */
+	tryAcquire(key: string): Promise<TypeRateLimitDecision>;
+}
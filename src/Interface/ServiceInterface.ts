@@ -1,3 +1,5 @@
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+
 /**
  * Service is a class that encapsulates re-usable business logic and provides a method to execute it with a given payload.
  */
@@ -7,7 +9,8 @@ export interface ServiceInterface<TypePayload, TypeResponse>
 	 * Executes business logic of a service with a given payload and settings and returns a response
 	 *
 	 * @param {TypePayload} payload - The input data for the service
+	 * @param {TypeExecutionContext} context - The context of the execution, such as the request id or the abort signal
 	 * @returns {Promise<TypeResponse>} - The result of the service
 	 */
-	execute(payload: TypePayload): Promise<TypeResponse>;
+	execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse>;
 }
@@ -0,0 +1,30 @@
+import { type TypeSpanAttributes, type TypeSpanStatus } from '../Type/Span';
+
+/**
+ * Span is a traced operation, an OpenTelemetry Span satisfies this interface.
+ */
+export interface SpanInterface
+{
+	/**
+	 * Sets attributes of the span
+	 *
+	 * @param {TypeSpanAttributes} attributes - The attributes
+	 * @returns {unknown}
+	 */
+	setAttributes(attributes: TypeSpanAttributes): unknown;
+
+	/**
+	 * Sets the status of the span
+	 *
+	 * @param {TypeSpanStatus} status - The status
+	 * @returns {unknown}
+	 */
+	setStatus(status: TypeSpanStatus): unknown;
+
+	/**
+	 * Ends the span
+	 *
+	 * @returns {void}
+	 */
+	end(): void;
+}
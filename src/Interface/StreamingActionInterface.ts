@@ -0,0 +1,17 @@
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeStreamEvent } from '../Type/StreamEvent';
+
+/**
+ * Streaming action reports progress and partial data while it runs and ends with a result event carrying the final response.
+ */
+export interface StreamingActionInterface<TypePayload, TypeChunk, TypeObject>
+{
+	/**
+	 * Executes the action, streaming its events
+	 *
+	 * @param {TypePayload} payload - The input data for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, such as the request id or the abort signal
+	 * @returns {AsyncIterable<TypeStreamEvent<TypeChunk, TypeObject>>} - The progress and chunk events followed by the result event
+	 */
+	stream(payload: TypePayload, context?: TypeExecutionContext): AsyncIterable<TypeStreamEvent<TypeChunk, TypeObject>>;
+}
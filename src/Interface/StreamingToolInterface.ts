@@ -0,0 +1,23 @@
+import { type ZodSchema } from 'zod';
+import { type StreamingActionInterface } from './StreamingActionInterface';
+
+/**
+ * Streaming tool is a tool that reports progress and partial data while it runs.
+ */
+export interface StreamingToolInterface<TypePayload, TypeChunk, TypeObject> extends StreamingActionInterface<TypePayload, TypeChunk, TypeObject>
+{
+	/**
+	 * The name of the tool.
+	 */
+	readonly name: string;
+
+	/**
+	 * The description of the tool.
+	 */
+	readonly description: string;
+
+	/**
+	 * The schema for the payload data.
+	 */
+	readonly parameters: ZodSchema<TypePayload>;
+}
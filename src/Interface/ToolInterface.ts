@@ -1,4 +1,5 @@
 import { ZodSchema } from 'zod';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
 
 /**
  * Tool is specialized class meant to be used in the context of AI to perform a specific task.
@@ -24,7 +25,8 @@ export interface ToolInterface<TypePayload, TypeResponse>
 	 * Executes the tool with the given input payload.
 	 *
 	 * @param {TypePayload} payload - The input data for the tool
+	 * @param {TypeExecutionContext} context - The context of the execution, such as the request id or the abort signal
 	 * @returns {Promise<TypeResponse>} - The result of the tool
 	 */
-	execute: (payload: TypePayload) => Promise<TypeResponse>;
+	execute: (payload: TypePayload, context?: TypeExecutionContext) => Promise<TypeResponse>;
 }
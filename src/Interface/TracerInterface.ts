@@ -0,0 +1,17 @@
+import { type SpanInterface } from './SpanInterface';
+import { type TypeSpanAttributes } from '../Type/Span';
+
+/**
+ * Tracer starts spans, an OpenTelemetry Tracer such as trace.getTracer('app') satisfies this interface.
+ */
+export interface TracerInterface
+{
+	/**
+	 * Starts a span
+	 *
+	 * @param {string} name - The span name
+	 * @param {{ attributes?: TypeSpanAttributes }} options - The initial attributes
+	 * @returns {SpanInterface} - The started span
+	 */
+	startSpan(name: string, options?: { attributes?: TypeSpanAttributes }): SpanInterface;
+}
@@ -0,0 +1,146 @@
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+import { type TypeMessageCatalog, type TypeMessageFormatContext, type TypeMessageTemplate } from '../Type/MessageCatalog';
+import { type TypeMessageFormatterOptions } from '../Type/MessageFormatterOptions';
+import { type TypeMessage } from '../Type/Response';
+
+/**
+ * MessageFormatter renders message texts from catalogs of templates by locale. Templates are looked up by the Zod issue code
+ * of validation messages, narrowed by its type first, then by the message code. Placeholders are replaced with the params of the message,
+ * its code, issueCode, expected, received and path, and its label. Messages without a template keep their text.
+ *
+ * @example
+ * const formatter = new MessageFormatter({
+ *     catalogs: {
+ *         de: {
+ *             messages: { ['too_small.string']: '{label} muss mindestens {minimum} Zeichen lang sein', ['NOT_FOUND']: 'Nicht gefunden' },
+ *             labels: { ['Name']: 'Name', ['Email address']: 'E-Mail-Adresse' }
+ *         }
+ *     }
+ * });
+ */
+export class MessageFormatter implements MessageFormatterInterface
+{
+	private readonly catalogs: Record<string, TypeMessageCatalog>;
+	private readonly defaultLocale: string;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeMessageFormatterOptions} options - The options, such as the catalogs by locale
+	 */
+	constructor(options: TypeMessageFormatterOptions = {})
+	{
+		this.catalogs = options.catalogs ?? {};
+		this.defaultLocale = options.defaultLocale ?? 'en';
+	}
+
+	/**
+	 * Renders the text of a message from the catalog of the locale.
+	 *
+	 * @param {TypeMessage} message - The message
+	 * @param {TypeMessageFormatContext} context - The locale and the label of the field the message is about
+	 * @returns {string} - The text
+	 */
+	public format(message: TypeMessage, context: TypeMessageFormatContext = {}): string
+	{
+		const catalogs = this.getCatalogs(context.locale ?? this.defaultLocale);
+		const template = MessageFormatter.findTemplate(catalogs, message);
+		if (template === undefined)
+		{
+			return message.text;
+		}
+
+		const path = (message.path ?? []).join('.');
+		const label = MessageFormatter.findLabel(catalogs, context.label, path);
+		const values: Record<string, unknown> = {
+			...message.params,
+			code: message.code,
+			issueCode: message.issueCode,
+			expected: message.expected,
+			received: message.received,
+			path,
+			label
+		};
+
+		return typeof template === 'function'
+			? template(values)
+			: template.replace(/\{(\w+)\}/g, (placeholder, name: string) => MessageFormatter.formatValue(values[name]) ?? placeholder);
+	}
+
+	/**
+	 * Returns the catalogs of a locale, the catalog of the locale first and the one of its language next.
+	 *
+	 * @param {string} locale - The locale, such as de-CH
+	 * @returns {TypeMessageCatalog[]} - The catalogs
+	 */
+	private getCatalogs(locale: string): TypeMessageCatalog[]
+	{
+		return [locale, locale.split('-')[0]]
+			.filter((candidate, index, candidates) => candidates.indexOf(candidate) === index)
+			.map((candidate) => this.catalogs[candidate])
+			.filter((catalog): catalog is TypeMessageCatalog => catalog !== undefined);
+	}
+
+	/**
+	 * Finds the template of a message, by its issue code narrowed by type, its issue code and its code.
+	 *
+	 * @param {TypeMessageCatalog[]} catalogs - The catalogs of the locale
+	 * @param {TypeMessage} message - The message
+	 * @returns {TypeMessageTemplate | undefined} - The template, undefined when there is none
+	 */
+	private static findTemplate(catalogs: TypeMessageCatalog[], message: TypeMessage): TypeMessageTemplate | undefined
+	{
+		const keys = message.issueCode !== undefined
+			? [`${message.issueCode}.${String(message.params?.['type'])}`, message.issueCode, message.code]
+			: [message.code];
+
+		for (const key of keys)
+		{
+			const template = catalogs.find((catalog) => catalog.messages?.[key] !== undefined)?.messages?.[key];
+			if (template !== undefined)
+			{
+				return template;
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Finds the translated label of a field, the label itself or the path when there is no translation.
+	 *
+	 * @param {TypeMessageCatalog[]} catalogs - The catalogs of the locale
+	 * @param {string | undefined} label - The label from the schema description
+	 * @param {string} path - The dot separated path of the field
+	 * @returns {string} - The label
+	 */
+	private static findLabel(catalogs: TypeMessageCatalog[], label: string | undefined, path: string): string
+	{
+		for (const key of [label, path])
+		{
+			const translation = key !== undefined ? catalogs.find((catalog) => catalog.labels?.[key] !== undefined)?.labels?.[key] : undefined;
+			if (translation !== undefined)
+			{
+				return translation;
+			}
+		}
+
+		return label ?? path;
+	}
+
+	/**
+	 * Formats a value for a placeholder, arrays are joined with commas.
+	 *
+	 * @param {unknown} value - The value
+	 * @returns {string | undefined} - The text, undefined for missing values
+	 */
+	private static formatValue(value: unknown): string | undefined
+	{
+		if (value === undefined || value === null)
+		{
+			return undefined;
+		}
+
+		return Array.isArray(value) ? value.map(String).join(', ') : String(value);
+	}
+}
@@ -0,0 +1,97 @@
+import { JsonRpcError } from '../Error/JsonRpcError';
+import { type McpClientTransportInterface } from '../Interface/McpClientTransportInterface';
+import { EnumJsonRpcErrorCode } from '../Type/JsonRpc';
+import {
+	type TypeMcpCallToolResult,
+	type TypeMcpInitializeResult,
+	type TypeMcpListToolsResult,
+	type TypeMcpServerInfo
+} from '../Type/Mcp';
+
+/**
+ * McpClient is a minimal MCP client for calling tools of a MCP server, mainly for testing servers end-to-end.
+ */
+export class McpClient
+{
+	private static readonly PROTOCOL_VERSION = '2025-06-18';
+
+	private nextId = 1;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {McpClientTransportInterface} transport - Delivers the messages to the server
+	 * @param {TypeMcpServerInfo} clientInfo - The name and version reported to the server
+	 */
+	constructor(
+		private readonly transport: McpClientTransportInterface,
+		private readonly clientInfo: TypeMcpServerInfo = { name: 'foundation-core-client', version: '1.0.0' }
+	) {}
+
+	/**
+	 * Initializes the session and notifies the server that the client is ready.
+	 *
+	 * @returns {Promise<TypeMcpInitializeResult>} - The protocol version and capabilities of the server
+	 * @throws {JsonRpcError} - When the server answers with an error
+	 */
+	public async initialize(): Promise<TypeMcpInitializeResult>
+	{
+		const result = await this.request<TypeMcpInitializeResult>('initialize', {
+			protocolVersion: McpClient.PROTOCOL_VERSION,
+			capabilities: {},
+			clientInfo: this.clientInfo
+		});
+
+		await this.transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+		return result;
+	}
+
+	/**
+	 * Lists the tools of the server.
+	 *
+	 * @returns {Promise<TypeMcpListToolsResult>} - The tools
+	 * @throws {JsonRpcError} - When the server answers with an error
+	 */
+	public async listTools(): Promise<TypeMcpListToolsResult>
+	{
+		return this.request<TypeMcpListToolsResult>('tools/list', {});
+	}
+
+	/**
+	 * Calls a tool of the server.
+	 *
+	 * @param {string} name - The tool name
+	 * @param {Record<string, unknown>} args - The tool arguments
+	 * @returns {Promise<TypeMcpCallToolResult>} - The result, failed tool calls have isError set
+	 * @throws {JsonRpcError} - When the server answers with an error, such as for unknown tools
+	 */
+	public async callTool(name: string, args: Record<string, unknown> = {}): Promise<TypeMcpCallToolResult>
+	{
+		return this.request<TypeMcpCallToolResult>('tools/call', { name, arguments: args });
+	}
+
+	/**
+	 * Sends a request and returns its result.
+	 *
+	 * @param {string} method - The method
+	 * @param {Record<string, unknown>} params - The params
+	 * @returns {Promise<TypeResult>} - The result
+	 * @throws {JsonRpcError} - When the server answers with an error or not at all
+	 */
+	private async request<TypeResult>(method: string, params: Record<string, unknown>): Promise<TypeResult>
+	{
+		const response = await this.transport.send({ jsonrpc: '2.0', id: this.nextId++, method, params });
+		if (!response)
+		{
+			throw new JsonRpcError(EnumJsonRpcErrorCode.INTERNAL_ERROR, `No response to "${method}"`);
+		}
+
+		if (response.error)
+		{
+			throw JsonRpcError.fromResponseError(response.error);
+		}
+
+		return response.result as TypeResult;
+	}
+}
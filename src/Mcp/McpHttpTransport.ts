@@ -0,0 +1,116 @@
+import { McpServer } from './McpServer';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { EnumJsonRpcErrorCode, type TypeJsonRpcResponse } from '../Type/JsonRpc';
+import { type TypeMcpHttpTransportOptions } from '../Type/McpHttpTransportOptions';
+
+/**
+ * McpHttpTransport serves a MCP server over the streamable HTTP transport using the Fetch API, so it runs on any runtime
+ * with Request and Response, such as Node, Deno, Bun or edge workers. Every request is answered with a single JSON response,
+ * the server does not open event streams.
+ *
+ * @example
+ * const transport = new McpHttpTransport(server, (request) => ({ userId: authenticate(request) }));
+ *
+ * export default { fetch: (request: Request) => transport.handle(request) };
+ */
+export class McpHttpTransport
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {McpServer} server - The server handling the messages
+	 * @param {Function} contextFactory - Creates the context of the called tools from the request, synchronously or asynchronously
+	 * @param {TypeMcpHttpTransportOptions} options - The options, such as the origins browsers may send requests from
+	 */
+	constructor(
+		private readonly server: McpServer,
+		private readonly contextFactory: (request: Request) => TypeExecutionContext | undefined | Promise<TypeExecutionContext | undefined> = () => undefined,
+		private readonly options: TypeMcpHttpTransportOptions = {}
+	) {}
+
+	/**
+	 * Handles a HTTP request, notifications and responses sent by the client are acknowledged with 202 Accepted.
+	 * Errors never escape, requests from origins which are not allowed are answered with 403.
+	 *
+	 * @param {Request} request - The HTTP request
+	 * @returns {Promise<Response>} - The HTTP response
+	 */
+	public async handle(request: Request): Promise<Response>
+	{
+		if (!this.isAllowedOrigin(request))
+		{
+			return McpHttpTransport.createJsonResponse(
+				McpServer.createErrorResponse(null, EnumJsonRpcErrorCode.INVALID_REQUEST, 'Origin is not allowed'),
+				403
+			);
+		}
+
+		if (request.method !== 'POST')
+		{
+			return new Response(null, { status: 405, headers: { allow: 'POST' } });
+		}
+
+		let message: unknown;
+		try
+		{
+			message = JSON.parse(await request.text());
+		}
+		catch
+		{
+			return McpHttpTransport.createJsonResponse(
+				McpServer.createErrorResponse(null, EnumJsonRpcErrorCode.PARSE_ERROR, 'Message is not valid JSON'),
+				400
+			);
+		}
+
+		let context: TypeExecutionContext | undefined;
+		try
+		{
+			context = await this.contextFactory(request);
+		}
+		catch
+		{
+			return McpHttpTransport.createJsonResponse(
+				McpServer.createErrorResponse(null, EnumJsonRpcErrorCode.INTERNAL_ERROR, 'Context of the request could not be created'),
+				500
+			);
+		}
+
+		const response = await this.server.handle(message, context);
+		if (!response)
+		{
+			return new Response(null, { status: 202 });
+		}
+
+		return McpHttpTransport.createJsonResponse(response, response.error?.code === EnumJsonRpcErrorCode.INVALID_REQUEST ? 400 : 200);
+	}
+
+	/**
+	 * Checks whether the Origin header of a request, when it has one, is an allowed origin.
+	 *
+	 * @param {Request} request - The HTTP request
+	 * @returns {boolean} - True for requests without an Origin header and from allowed origins
+	 */
+	private isAllowedOrigin(request: Request): boolean
+	{
+		const origin = request.headers.get('origin');
+		if (origin === null)
+		{
+			return true;
+		}
+
+		return (this.options.allowedOrigins ?? [new URL(request.url).origin]).includes(origin);
+	}
+
+	/**
+	 * Creates a JSON HTTP response.
+	 *
+	 * @param {TypeJsonRpcResponse} body - The JSON-RPC response
+	 * @param {number} status - The HTTP status
+	 * @returns {Response} - The HTTP response
+	 */
+	private static createJsonResponse(body: TypeJsonRpcResponse, status: number): Response
+	{
+		return new Response(JSON.stringify(body), { status, headers: { ['content-type']: 'application/json' } });
+	}
+}
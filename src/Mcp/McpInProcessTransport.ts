@@ -0,0 +1,35 @@
+import { type McpServer } from './McpServer';
+import { type McpClientTransportInterface } from '../Interface/McpClientTransportInterface';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeJsonRpcRequest, type TypeJsonRpcResponse } from '../Type/JsonRpc';
+
+/**
+ * McpInProcessTransport connects a MCP client directly to a server in the same process, messages are still serialized
+ * to JSON so that tests see exactly what a remote client would.
+ */
+export class McpInProcessTransport implements McpClientTransportInterface
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {McpServer} server - The server
+	 * @param {TypeExecutionContext} context - The context of the called tools
+	 */
+	constructor(
+		private readonly server: McpServer,
+		private readonly context?: TypeExecutionContext
+	) {}
+
+	/**
+	 * Sends a message to the server.
+	 *
+	 * @param {TypeJsonRpcRequest} message - The request or notification
+	 * @returns {Promise<TypeJsonRpcResponse | undefined>} - The response, undefined for notifications
+	 */
+	public async send(message: TypeJsonRpcRequest): Promise<TypeJsonRpcResponse | undefined>
+	{
+		const response = await this.server.handle(JSON.parse(JSON.stringify(message)), this.context);
+
+		return response ? JSON.parse(JSON.stringify(response)) : undefined;
+	}
+}
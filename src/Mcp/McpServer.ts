@@ -0,0 +1,226 @@
+import { type ToolRegistry } from '../Tool/ToolRegistry';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { EnumFunctionDefinitionFormat } from '../Type/FunctionDefinition';
+import { EnumJsonRpcErrorCode, type TypeJsonRpcId, type TypeJsonRpcRequest, type TypeJsonRpcResponse } from '../Type/JsonRpc';
+import {
+	type TypeMcpCallToolResult,
+	type TypeMcpInitializeResult,
+	type TypeMcpListToolsResult,
+	type TypeMcpServerInfo,
+	type TypeMcpTextContent
+} from '../Type/Mcp';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * McpServer exposes the tools of a registry to Model Context Protocol clients through the tools/list and tools/call methods.
+ * It handles decoded JSON-RPC messages only, transports such as McpStdioTransport and McpHttpTransport deliver them.
+ */
+export class McpServer
+{
+	private static readonly PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ToolRegistry} registry - The tools to expose
+	 * @param {TypeMcpServerInfo} serverInfo - The name and version reported to clients
+	 */
+	constructor(
+		private readonly registry: ToolRegistry,
+		private readonly serverInfo: TypeMcpServerInfo = { name: 'foundation-core', version: '1.0.0' }
+	) {}
+
+	/**
+	 * Handles a JSON-RPC message. Errors never escape, they are returned as JSON-RPC error responses instead.
+	 *
+	 * @param {unknown} message - The decoded JSON-RPC message
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the called tools
+	 * @returns {Promise<TypeJsonRpcResponse | undefined>} - The response, undefined for notifications and responses
+	 */
+	public async handle(message: unknown, context?: TypeExecutionContext): Promise<TypeJsonRpcResponse | undefined>
+	{
+		if (!McpServer.isRequest(message))
+		{
+			return McpServer.isResponse(message)
+				? undefined
+				: McpServer.createErrorResponse(null, EnumJsonRpcErrorCode.INVALID_REQUEST, 'Invalid JSON-RPC request');
+		}
+
+		if (message.id === undefined)
+		{
+			return undefined;
+		}
+
+		try
+		{
+			switch (message.method)
+			{
+				case 'initialize':
+					return McpServer.createResultResponse(message.id, this.initialize(message.params ?? {}));
+				case 'ping':
+					return McpServer.createResultResponse(message.id, {});
+				case 'tools/list':
+					return McpServer.createResultResponse(message.id, this.listTools());
+				case 'tools/call':
+					return await this.callTool(message.id, message.params ?? {}, context);
+				default:
+					return McpServer.createErrorResponse(message.id, EnumJsonRpcErrorCode.METHOD_NOT_FOUND, `Method "${message.method}" is not supported`);
+			}
+		}
+		catch (error)
+		{
+			return McpServer.createErrorResponse(
+				message.id,
+				EnumJsonRpcErrorCode.INTERNAL_ERROR,
+				error instanceof Error ? error.message : String(error)
+			);
+		}
+	}
+
+	/**
+	 * Creates a JSON-RPC error response.
+	 *
+	 * @param {TypeJsonRpcId | null} id - The id of the request, null when it could not be determined
+	 * @param {EnumJsonRpcErrorCode} code - The error code
+	 * @param {string} message - The error message
+	 * @returns {TypeJsonRpcResponse} - The error response
+	 */
+	public static createErrorResponse(id: TypeJsonRpcId | null, code: EnumJsonRpcErrorCode, message: string): TypeJsonRpcResponse
+	{
+		return { jsonrpc: '2.0', id, error: { code, message } };
+	}
+
+	/**
+	 * Creates a JSON-RPC result response.
+	 *
+	 * @param {TypeJsonRpcId} id - The id of the request
+	 * @param {unknown} result - The result
+	 * @returns {TypeJsonRpcResponse} - The result response
+	 */
+	private static createResultResponse(id: TypeJsonRpcId, result: unknown): TypeJsonRpcResponse
+	{
+		return { jsonrpc: '2.0', id, result };
+	}
+
+	/**
+	 * Negotiates the protocol version and reports the capabilities of the server.
+	 *
+	 * @param {Record<string, unknown>} params - The initialize params
+	 * @returns {TypeMcpInitializeResult} - The initialize result
+	 */
+	private initialize(params: Record<string, unknown>): TypeMcpInitializeResult
+	{
+		const protocolVersion = typeof params['protocolVersion'] === 'string' && McpServer.PROTOCOL_VERSIONS.includes(params['protocolVersion'])
+			? params['protocolVersion']
+			: McpServer.PROTOCOL_VERSIONS[0];
+
+		return {
+			protocolVersion,
+			capabilities: { tools: { listChanged: false } },
+			serverInfo: this.serverInfo
+		};
+	}
+
+	/**
+	 * Lists the registered tools with their input schemas.
+	 *
+	 * @returns {TypeMcpListToolsResult} - The tools/list result
+	 */
+	private listTools(): TypeMcpListToolsResult
+	{
+		return { tools: this.registry.toFunctionDefinitions(EnumFunctionDefinitionFormat.MCP) };
+	}
+
+	/**
+	 * Dispatches a tool call to the registry, unknown tools are reported as protocol errors and failed responses with isError.
+	 *
+	 * @param {TypeJsonRpcId} id - The id of the request
+	 * @param {Record<string, unknown>} params - The tools/call params
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeJsonRpcResponse>} - The response
+	 */
+	private async callTool(id: TypeJsonRpcId, params: Record<string, unknown>, context?: TypeExecutionContext): Promise<TypeJsonRpcResponse>
+	{
+		const name = params['name'];
+		const args = params['arguments'] ?? {};
+		if (typeof name !== 'string' || typeof args !== 'object' || args === null || Array.isArray(args))
+		{
+			return McpServer.createErrorResponse(id, EnumJsonRpcErrorCode.INVALID_PARAMS, 'Expected a tool name and an arguments object');
+		}
+
+		if (!this.registry.has(name))
+		{
+			return McpServer.createErrorResponse(id, EnumJsonRpcErrorCode.INVALID_PARAMS, `Unknown tool: ${name}`);
+		}
+
+		const response = await this.registry.dispatch({ name, arguments: args as Record<string, unknown> }, context);
+
+		return McpServer.createResultResponse(id, McpServer.toCallToolResult(response));
+	}
+
+	/**
+	 * Converts a TypeResponse into a tools/call result, the data becomes a JSON text block and every message a text block of its own.
+	 *
+	 * @param {TypeResponse<unknown>} response - The response of the tool
+	 * @returns {TypeMcpCallToolResult} - The tools/call result
+	 */
+	private static toCallToolResult(response: TypeResponse<unknown>): TypeMcpCallToolResult
+	{
+		const content: TypeMcpTextContent[] = [];
+		if (response.success && response.data !== undefined)
+		{
+			content.push({ type: 'text', text: JSON.stringify(response.data) });
+		}
+
+		(response.messages ?? []).forEach((message) => content.push({ type: 'text', text: `${message.code}: ${message.text}` }));
+
+		if (!response.success && content.length === 0)
+		{
+			content.push({ type: 'text', text: `${EnumErrorCode.EXECUTION_ERROR}: The tool failed` });
+		}
+
+		const isStructured = response.success && typeof response.data === 'object' && response.data !== null && !Array.isArray(response.data);
+
+		return {
+			content,
+			...(isStructured ? { structuredContent: response.data as Record<string, unknown> } : {}),
+			isError: !response.success
+		};
+	}
+
+	/**
+	 * Checks whether a message is a JSON-RPC request or notification.
+	 *
+	 * @param {unknown} message - The message
+	 * @returns {boolean} - True for requests and notifications
+	 */
+	private static isRequest(message: unknown): message is TypeJsonRpcRequest
+	{
+		if (typeof message !== 'object' || message === null)
+		{
+			return false;
+		}
+
+		const request = message as Partial<TypeJsonRpcRequest>;
+
+		return request.jsonrpc === '2.0'
+			&& typeof request.method === 'string'
+			&& (request.id === undefined || typeof request.id === 'string' || typeof request.id === 'number')
+			&& (request.params === undefined || (typeof request.params === 'object' && request.params !== null));
+	}
+
+	/**
+	 * Checks whether a message is a JSON-RPC response sent by the client, which needs no answer.
+	 *
+	 * @param {unknown} message - The message
+	 * @returns {boolean} - True for responses
+	 */
+	private static isResponse(message: unknown): boolean
+	{
+		return typeof message === 'object'
+			&& message !== null
+			&& (message as TypeJsonRpcResponse).jsonrpc === '2.0'
+			&& ('result' in message || 'error' in message);
+	}
+}
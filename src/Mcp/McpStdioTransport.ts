@@ -0,0 +1,107 @@
+import { McpServer } from './McpServer';
+import { EnumJsonRpcErrorCode, type TypeJsonRpcResponse } from '../Type/JsonRpc';
+import { type TypeMcpStdioOutput } from '../Type/Mcp';
+
+/**
+ * McpStdioTransport serves a MCP server over newline delimited JSON-RPC messages, as MCP clients do when they spawn a server process.
+ *
+ * @example
+ * await new McpStdioTransport(server, process.stdin, process.stdout).listen();
+ */
+export class McpStdioTransport
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {McpServer} server - The server handling the messages
+	 * @param {AsyncIterable<string | Uint8Array>} input - The incoming messages, such as process.stdin
+	 * @param {TypeMcpStdioOutput} output - The outgoing messages, such as process.stdout
+	 */
+	constructor(
+		private readonly server: McpServer,
+		private readonly input: AsyncIterable<string | Uint8Array>,
+		private readonly output: TypeMcpStdioOutput
+	) {}
+
+	/**
+	 * Handles the incoming messages until the input ends, requests are handled concurrently and answered as they complete.
+	 *
+	 * @returns {Promise<void>} - Resolves when the input has ended and all requests have been answered
+	 */
+	public async listen(): Promise<void>
+	{
+		const decoder = new TextDecoder();
+		const pending = new Set<Promise<void>>();
+		let buffer = '';
+
+		for await (const chunk of this.input)
+		{
+			buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+			const lines = buffer.split('\n');
+			buffer = lines.pop() ?? '';
+
+			lines.forEach((line) => McpStdioTransport.track(pending, this.handleLine(line)));
+		}
+
+		McpStdioTransport.track(pending, this.handleLine(buffer + decoder.decode()));
+
+		await Promise.all(pending);
+	}
+
+	/**
+	 * Keeps a request in the pending ones until it settles, so long running sessions do not keep answered requests.
+	 *
+	 * @param {Set<Promise<void>>} pending - The requests not answered yet
+	 * @param {Promise<void>} promise - The request
+	 * @returns {void}
+	 */
+	private static track(pending: Set<Promise<void>>, promise: Promise<void>): void
+	{
+		pending.add(promise);
+		promise.then(() => pending.delete(promise), () => pending.delete(promise));
+	}
+
+	/**
+	 * Handles a single line of input and writes the response, if any.
+	 *
+	 * @param {string} line - The line
+	 * @returns {Promise<void>} - Resolves when the response has been written
+	 */
+	private async handleLine(line: string): Promise<void>
+	{
+		if (line.trim() === '')
+		{
+			return;
+		}
+
+		let message: unknown;
+		try
+		{
+			message = JSON.parse(line);
+		}
+		catch
+		{
+			this.write(McpServer.createErrorResponse(null, EnumJsonRpcErrorCode.PARSE_ERROR, 'Message is not valid JSON'));
+
+			return;
+		}
+
+		const response = await this.server.handle(message);
+		if (response)
+		{
+			this.write(response);
+		}
+	}
+
+	/**
+	 * Writes a response as a single line.
+	 *
+	 * @param {TypeJsonRpcResponse} response - The response
+	 * @returns {void}
+	 */
+	private write(response: TypeJsonRpcResponse): void
+	{
+		this.output.write(`${JSON.stringify(response)}\n`);
+	}
+}
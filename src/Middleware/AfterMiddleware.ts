@@ -0,0 +1,30 @@
+import { type MiddlewareInterface } from '../Interface/MiddlewareInterface';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeAfterHook, type TypeNextHandler } from '../Type/Middleware';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * AfterMiddleware runs a hook on the response of the rest of the pipeline, for example to redact it.
+ */
+export class AfterMiddleware<TypePayload, TypeObject> implements MiddlewareInterface<TypePayload, TypeObject>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeAfterHook<TypePayload, TypeObject>} hook - The hook to run
+	 */
+	constructor(private readonly hook: TypeAfterHook<TypePayload, TypeObject>) {}
+
+	/**
+	 * Continues the pipeline and returns the response returned by the hook.
+	 *
+	 * @param {TypePayload} payload - The input data
+	 * @param {TypeNextHandler<TypePayload, TypeObject>} next - Continues the pipeline
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the hook
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response
+	 */
+	public async handle(payload: TypePayload, next: TypeNextHandler<TypePayload, TypeObject>, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		return this.hook(await next(payload), payload, context);
+	}
+}
@@ -0,0 +1,37 @@
+import { type MiddlewareInterface } from '../Interface/MiddlewareInterface';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeBeforeHook, type TypeNextHandler } from '../Type/Middleware';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * BeforeMiddleware runs a hook before the rest of the pipeline, the hook may replace the payload or short-circuit with a response.
+ */
+export class BeforeMiddleware<TypePayload, TypeObject> implements MiddlewareInterface<TypePayload, TypeObject>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeBeforeHook<TypePayload, TypeObject>} hook - The hook to run
+	 */
+	constructor(private readonly hook: TypeBeforeHook<TypePayload, TypeObject>) {}
+
+	/**
+	 * Runs the hook and continues the pipeline unless it returned a response.
+	 *
+	 * @param {TypePayload} payload - The input data
+	 * @param {TypeNextHandler<TypePayload, TypeObject>} next - Continues the pipeline
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the hook
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response
+	 */
+	public async handle(payload: TypePayload, next: TypeNextHandler<TypePayload, TypeObject>, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		const result = await this.hook(payload, context);
+
+		if (result && 'response' in result)
+		{
+			return result.response;
+		}
+
+		return next(result && 'payload' in result ? result.payload : payload);
+	}
+}
@@ -0,0 +1,95 @@
+import { PipelineAction } from '../Action/PipelineAction';
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type MiddlewareInterface } from '../Interface/MiddlewareInterface';
+import { type ServiceInterface } from '../Interface/ServiceInterface';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeAfterHook, type TypeBeforeHook } from '../Type/Middleware';
+import { AfterMiddleware } from './AfterMiddleware';
+import { BeforeMiddleware } from './BeforeMiddleware';
+
+/**
+ * MiddlewarePipeline builds an action that runs an action or a service through ordered middleware.
+ * Middleware run in the order they are added, so the first one added sees the payload first and the response last.
+ */
+export class MiddlewarePipeline<TypePayload, TypeObject>
+{
+	private readonly middlewares: MiddlewareInterface<TypePayload, TypeObject>[] = [];
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action at the end of the pipeline
+	 */
+	constructor(private readonly action: ActionInterface<TypePayload, TypeObject>) {}
+
+	/**
+	 * Starts a pipeline for an action.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action at the end of the pipeline
+	 * @returns {MiddlewarePipeline<TypePayload, TypeObject>} - The pipeline builder
+	 */
+	public static forAction<TypePayload, TypeObject>(action: ActionInterface<TypePayload, TypeObject>): MiddlewarePipeline<TypePayload, TypeObject>
+	{
+		return new MiddlewarePipeline(action);
+	}
+
+	/**
+	 * Starts a pipeline for a service, its result becomes the data of a successful response.
+	 *
+	 * @param {ServiceInterface<TypePayload, TypeObject>} service - The service at the end of the pipeline
+	 * @returns {MiddlewarePipeline<TypePayload, TypeObject>} - The pipeline builder
+	 */
+	public static forService<TypePayload, TypeObject>(service: ServiceInterface<TypePayload, TypeObject>): MiddlewarePipeline<TypePayload, TypeObject>
+	{
+		return new MiddlewarePipeline({
+			execute: async (payload: TypePayload, context?: TypeExecutionContext) => ({ success: true, data: await service.execute(payload, context) })
+		});
+	}
+
+	/**
+	 * Adds a middleware wrapping the rest of the pipeline.
+	 *
+	 * @param {MiddlewareInterface<TypePayload, TypeObject>} middleware - The middleware
+	 * @returns {this} - The pipeline builder
+	 */
+	public use(middleware: MiddlewareInterface<TypePayload, TypeObject>): this
+	{
+		this.middlewares.push(middleware);
+
+		return this;
+	}
+
+	/**
+	 * Adds a hook running before the rest of the pipeline.
+	 *
+	 * @param {TypeBeforeHook<TypePayload, TypeObject>} hook - The hook, it may replace the payload or short-circuit with a response
+	 * @returns {this} - The pipeline builder
+	 */
+	public before(hook: TypeBeforeHook<TypePayload, TypeObject>): this
+	{
+		return this.use(new BeforeMiddleware(hook));
+	}
+
+	/**
+	 * Adds a hook running on the response of the rest of the pipeline.
+	 *
+	 * @param {TypeAfterHook<TypePayload, TypeObject>} hook - The hook, it returns the response to pass on
+	 * @returns {this} - The pipeline builder
+	 */
+	public after(hook: TypeAfterHook<TypePayload, TypeObject>): this
+	{
+		return this.use(new AfterMiddleware(hook));
+	}
+
+	/**
+	 * Builds the action running the pipeline.
+	 *
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown in the pipeline to messages
+	 * @returns {ActionInterface<TypePayload, TypeObject>} - The action
+	 */
+	public build(errorMapper?: ErrorMapperInterface): ActionInterface<TypePayload, TypeObject>
+	{
+		return new PipelineAction(this.action, [...this.middlewares], errorMapper);
+	}
+}
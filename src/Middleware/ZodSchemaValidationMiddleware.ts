@@ -0,0 +1,90 @@
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { type MiddlewareInterface } from '../Interface/MiddlewareInterface';
+import { OptionalFieldStripperHelper } from '../Helper/OptionalFieldStripperHelper';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeNormalizationOptions } from '../Type/NormalizationOptions';
+import { type TypeNextHandler } from '../Type/Middleware';
+import { type TypeResponse } from '../Type/Response';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
+
+/**
+ * ZodSchemaValidationMiddleware validates the payload and the response data the same way ZodSchemaValidatedAction does.
+ */
+export class ZodSchemaValidationMiddleware<TypePayloadSchema extends ZodSchema, TypeObjectSchema extends ZodSchema>
+implements MiddlewareInterface<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>
+{
+	private readonly normalizationOptions: TypeNormalizationOptions;
+	private readonly messageFormatter?: MessageFormatterInterface;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeObjectSchema} objectSchema - The Zod schema for the output data
+	 * @param {Pick<TypeZodSchemaValidatedOptions, 'normalization' | 'messageFormatter'>} options - The options, such as the formatter of validation messages
+	 */
+	constructor(
+		private readonly payloadSchema: TypePayloadSchema,
+		private readonly objectSchema: TypeObjectSchema,
+		options: Pick<TypeZodSchemaValidatedOptions, 'normalization' | 'messageFormatter'> = {}
+	)
+	{
+		this.normalizationOptions = options.normalization ?? {};
+		this.messageFormatter = options.messageFormatter;
+	}
+
+	/**
+	 * Validates the payload, continues the pipeline with the parsed payload and validates the data of the response.
+	 *
+	 * @param {Infer<TypePayloadSchema>} payload - The input data
+	 * @param {TypeNextHandler<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>} next - Continues the pipeline
+	 * @param {TypeExecutionContext} context - The context of the execution, its locale renders the validation messages
+	 * @returns {Promise<TypeResponse<Infer<TypeObjectSchema>>>} - The response
+	 */
+	public async handle(
+		payload: Infer<TypePayloadSchema>,
+		next: TypeNextHandler<Infer<TypePayloadSchema>, Infer<TypeObjectSchema>>,
+		context?: TypeExecutionContext
+	): Promise<TypeResponse<Infer<TypeObjectSchema>>>
+	{
+		const parsedPayload = this.payloadSchema.safeParse(
+			OptionalFieldStripperHelper.normalize(payload, this.payloadSchema, this.normalizationOptions)
+		);
+		if (!parsedPayload.success)
+		{
+			return {
+				success: false,
+				messages: ValidationMessageHelper.fromZodError(parsedPayload.error, {
+					formatter: this.messageFormatter,
+					schema: this.payloadSchema,
+					locale: context?.locale
+				})
+			};
+		}
+
+		const response = await next(parsedPayload.data);
+
+		// Failures without data, such as of rate limits, keep their messages
+		if (!response.success && response.data === undefined)
+		{
+			return response;
+		}
+
+		const validatedResponse = this.objectSchema.safeParse(response.data);
+		if (!validatedResponse.success)
+		{
+			return {
+				success: false,
+				messages: ValidationMessageHelper.fromZodError(validatedResponse.error, {
+					formatter: this.messageFormatter,
+					schema: this.objectSchema,
+					locale: context?.locale
+				})
+			};
+		}
+
+		return { ...response, data: validatedResponse.data };
+	}
+}
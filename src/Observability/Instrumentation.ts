@@ -0,0 +1,127 @@
+import { RedactionHelper } from '../Helper/RedactionHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeInstrumentationOptions, type TypeInstrumentationTarget } from '../Type/InstrumentationOptions';
+import { type TypeMessage } from '../Type/Response';
+import { EnumSpanStatusCode } from '../Type/Span';
+
+/**
+ * Instrumentation reports the calls of the validated wrappers and tools to a logger, metrics and a tracer.
+ * Every call produces a start and an end record, the foundation.calls and foundation.validation_failures counters,
+ * the foundation.duration histogram in milliseconds and a span.
+ */
+export class Instrumentation
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeInstrumentationOptions} options - Where the events are reported to
+	 */
+	constructor(private readonly options: TypeInstrumentationOptions = {}) {}
+
+	/**
+	 * Runs a call and reports it, the result is returned unchanged.
+	 *
+	 * @param {TypeInstrumentationTarget} target - The kind and default name of the operation
+	 * @param {unknown} payload - The payload, logged after redaction when logPayload is set
+	 * @param {TypeExecutionContext} context - The context of the execution, its request id is reported
+	 * @param {() => Promise<TypeResult>} execute - Makes the call
+	 * @returns {Promise<TypeResult>} - The result of the call
+	 */
+	public async run<TypeResult extends { success: boolean; messages?: TypeMessage[] }>(
+		target: TypeInstrumentationTarget,
+		payload: unknown,
+		context: TypeExecutionContext | undefined,
+		execute: () => Promise<TypeResult>
+	): Promise<TypeResult>
+	{
+		const { logger, metrics, tracer } = this.options;
+		if (!logger && !metrics && !tracer)
+		{
+			return execute();
+		}
+
+		const name = this.options.name ?? target.name;
+		const attributes = { kind: target.kind, name, ...(context?.requestId !== undefined ? { requestId: context.requestId } : {}) };
+		const span = Instrumentation.report(() => tracer?.startSpan(name, {
+			attributes: { ['foundation.kind']: target.kind, ['foundation.name']: name, ['foundation.request_id']: context?.requestId }
+		}));
+		const startedAt = Date.now();
+
+		Instrumentation.report(() => logger?.debug(`${target.kind} started`, {
+			...attributes,
+			...(this.options.logPayload ? { payload: RedactionHelper.redact(payload, this.options.redaction) } : {})
+		}));
+
+		try
+		{
+			let result: TypeResult;
+			try
+			{
+				result = await execute();
+			}
+			catch (error)
+			{
+				const errorMessage = error instanceof Error ? error.message : String(error);
+
+				Instrumentation.report(() => logger?.error(`${target.kind} failed`, { ...attributes, durationMs: Date.now() - startedAt, error: errorMessage }));
+				Instrumentation.report(() => span?.setStatus({ code: EnumSpanStatusCode.ERROR, message: errorMessage }));
+
+				throw error;
+			}
+
+			const durationMs = Date.now() - startedAt;
+			const messageCodes = (result.messages ?? []).map((message) => message.code);
+			const validationErrorCount = messageCodes.filter((code) => code === EnumErrorCode.VALIDATION_ERROR).length;
+			const tags = { kind: target.kind, name, success: String(result.success) };
+
+			Instrumentation.report(() => (result.success ? logger?.info : logger?.warn)?.call(logger, `${target.kind} finished`, {
+				...attributes,
+				durationMs,
+				success: result.success,
+				messageCodes,
+				validationErrorCount
+			}));
+
+			Instrumentation.report(() => metrics?.increment('foundation.calls', 1, tags));
+			Instrumentation.report(() => metrics?.histogram('foundation.duration', durationMs, tags));
+			if (validationErrorCount > 0)
+			{
+				Instrumentation.report(() => metrics?.increment('foundation.validation_failures', validationErrorCount, tags));
+			}
+
+			Instrumentation.report(() => span?.setAttributes({
+				['foundation.success']: result.success,
+				['foundation.message_codes']: messageCodes,
+				['foundation.validation_error_count']: validationErrorCount
+			}));
+			Instrumentation.report(() => span?.setStatus(result.success
+				? { code: EnumSpanStatusCode.OK }
+				: { code: EnumSpanStatusCode.ERROR, message: messageCodes.join(', ') }));
+
+			return result;
+		}
+		finally
+		{
+			Instrumentation.report(() => span?.end());
+		}
+	}
+
+	/**
+	 * Makes a call to the logger, the metrics or the tracer, whose exceptions are ignored so that reporting never fails the reported call.
+	 *
+	 * @param {() => TypeValue} report - Makes the call
+	 * @returns {TypeValue | undefined} - The value returned by the call, undefined when it threw
+	 */
+	private static report<TypeValue>(report: () => TypeValue): TypeValue | undefined
+	{
+		try
+		{
+			return report();
+		}
+		catch
+		{
+			return undefined;
+		}
+	}
+}
@@ -0,0 +1,301 @@
+import { z } from 'zod';
+import { type ZodSchemaValidatedAction } from '../Action/ZodSchemaValidatedAction';
+import { type ZodSchemaValidatedService } from '../Service/ZodSchemaValidatedService';
+import { ZodSchemaValidatedResponseService } from '../Service/ZodSchemaValidatedResponseService';
+import { type ActionTool } from '../Tool/ActionTool';
+import { type ServiceTool } from '../Tool/ServiceTool';
+import { JsonSchemaHelper } from '../Helper/JsonSchemaHelper';
+import { EnumJsonSchemaTarget, type TypeJsonSchema } from '../Type/JsonSchema';
+import {
+	type TypeOpenApiDocument,
+	type TypeOpenApiInfo,
+	type TypeOpenApiOperation,
+	type TypeOpenApiOperationDefinition,
+	type TypeOpenApiOperationOptions,
+	type TypeOpenApiParameter
+} from '../Type/OpenApi';
+import { createResponseSchema, messageSchema } from '../Type/Response';
+
+/**
+ * OpenApiDocumentBuilder generates an OpenAPI 3.1 document from validated actions, services and tools, reusing the schemas
+ * they already declare. Operations are described the way HttpActionHandler serves them: the payload is the JSON request body,
+ * or the query parameters for GET and DELETE, and the response is the TypeResponse envelope.
+ *
+ * @example
+ * const document = new OpenApiDocumentBuilder({ title: 'Orders API', version: '1.0.0' })
+ *     .addAction('createOrder', createOrderAction, { path: '/orders' })
+ *     .addTool(searchProductsTool)
+ *     .build();
+ */
+export class OpenApiDocumentBuilder
+{
+	private static readonly ERROR_RESPONSE_REFERENCE = '#/components/schemas/ErrorResponse';
+
+	private static readonly JSON_CONTENT_TYPE = 'application/json';
+
+	private readonly operations: TypeOpenApiOperationDefinition[] = [];
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeOpenApiInfo} info - Information about the API
+	 */
+	constructor(private readonly info: TypeOpenApiInfo) {}
+
+	/**
+	 * Adds an operation described by explicit schemas.
+	 *
+	 * @param {TypeOpenApiOperationDefinition} definition - The operation
+	 * @returns {this} - The builder
+	 * @throws {Error} - When the name or the path and method are already used by another operation,
+	 * or when the payload of a GET or DELETE operation is not an object with flat properties
+	 */
+	public addOperation(definition: TypeOpenApiOperationDefinition): this
+	{
+		const path = OpenApiDocumentBuilder.getPath(definition);
+		const method = OpenApiDocumentBuilder.getMethod(definition);
+
+		if (OpenApiDocumentBuilder.isQuery(definition))
+		{
+			OpenApiDocumentBuilder.assertQueryPayload(
+				definition.name,
+				JsonSchemaHelper.fromZodSchema(definition.payloadSchema, EnumJsonSchemaTarget.OPENAPI_3_1)
+			);
+		}
+
+		this.operations.forEach((operation) =>
+		{
+			if (operation.name === definition.name)
+			{
+				throw new Error(`Operation "${definition.name}" is already added`);
+			}
+
+			if (OpenApiDocumentBuilder.getPath(operation) === path && OpenApiDocumentBuilder.getMethod(operation) === method)
+			{
+				throw new Error(`Operation ${method.toUpperCase()} ${path} is already added`);
+			}
+		});
+
+		this.operations.push(definition);
+
+		return this;
+	}
+
+	/**
+	 * Adds an action, the payload and object schemas of the action describe the operation.
+	 *
+	 * @param {string} name - The operation id
+	 * @param {ZodSchemaValidatedAction<any, any>} action - The action
+	 * @param {TypeOpenApiOperationOptions} options - How the operation is exposed
+	 * @returns {this} - The builder
+	 */
+	public addAction(name: string, action: ZodSchemaValidatedAction<any, any>, options: TypeOpenApiOperationOptions = {}): this
+	{
+		return this.addOperation({ ...options, name, payloadSchema: action.payloadSchema, objectSchema: action.objectSchema });
+	}
+
+	/**
+	 * Adds a service, the payload and response schemas of the service describe the operation.
+	 * A ZodSchemaValidatedService answers with its response itself rather than the TypeResponse envelope, and is described that way.
+	 *
+	 * @param {string} name - The operation id
+	 * @param {ZodSchemaValidatedResponseService<any, any> | ZodSchemaValidatedService<any, any>} service - The service
+	 * @param {TypeOpenApiOperationOptions} options - How the operation is exposed
+	 * @returns {this} - The builder
+	 */
+	public addService(
+		name: string,
+		service: ZodSchemaValidatedResponseService<any, any> | ZodSchemaValidatedService<any, any>,
+		options: TypeOpenApiOperationOptions = {}
+	): this
+	{
+		if (service instanceof ZodSchemaValidatedResponseService)
+		{
+			return this.addOperation({ ...options, name, payloadSchema: service.payloadSchema, objectSchema: service.objectSchema });
+		}
+
+		return this.addOperation({ ...options, name, payloadSchema: service.payloadSchema, objectSchema: service.responseSchema, isRawResponse: true });
+	}
+
+	/**
+	 * Adds a tool, its name becomes the operation id and its description the summary.
+	 *
+	 * @param {ActionTool<any, any> | ServiceTool<any, any>} tool - The tool
+	 * @param {TypeOpenApiOperationOptions} options - How the operation is exposed
+	 * @returns {this} - The builder
+	 */
+	public addTool(tool: ActionTool<any, any> | ServiceTool<any, any>, options: TypeOpenApiOperationOptions = {}): this
+	{
+		return this.addOperation({
+			summary: tool.description,
+			...options,
+			name: tool.name,
+			payloadSchema: tool.payloadSchema,
+			objectSchema: tool.objectSchema
+		});
+	}
+
+	/**
+	 * Builds the document.
+	 *
+	 * @returns {TypeOpenApiDocument} - The OpenAPI 3.1 document
+	 */
+	public build(): TypeOpenApiDocument
+	{
+		const paths: TypeOpenApiDocument['paths'] = {};
+
+		this.operations.forEach((definition) =>
+		{
+			const path = OpenApiDocumentBuilder.getPath(definition);
+
+			paths[path] = { ...paths[path], [OpenApiDocumentBuilder.getMethod(definition)]: OpenApiDocumentBuilder.createOperation(definition) };
+		});
+
+		return {
+			openapi: '3.1.0',
+			info: this.info,
+			paths,
+			components: {
+				schemas: {
+					['ErrorResponse']: JsonSchemaHelper.fromZodSchema(
+						z.object({ success: z.literal(false), messages: z.array(messageSchema) }),
+						EnumJsonSchemaTarget.OPENAPI_3_1
+					)
+				}
+			}
+		};
+	}
+
+	/**
+	 * Creates the operation object of a definition.
+	 *
+	 * @param {TypeOpenApiOperationDefinition} definition - The operation
+	 * @returns {TypeOpenApiOperation} - The operation object
+	 */
+	private static createOperation(definition: TypeOpenApiOperationDefinition): TypeOpenApiOperation
+	{
+		const payloadSchema = JsonSchemaHelper.fromZodSchema(definition.payloadSchema, EnumJsonSchemaTarget.OPENAPI_3_1);
+		const errorContent = { [OpenApiDocumentBuilder.JSON_CONTENT_TYPE]: { schema: { ['$ref']: OpenApiDocumentBuilder.ERROR_RESPONSE_REFERENCE } } };
+		return {
+			operationId: definition.name,
+			...(definition.summary !== undefined ? { summary: definition.summary } : {}),
+			...(definition.description !== undefined ? { description: definition.description } : {}),
+			...(definition.tags !== undefined ? { tags: definition.tags } : {}),
+			...(OpenApiDocumentBuilder.isQuery(definition)
+				? { parameters: OpenApiDocumentBuilder.createQueryParameters(payloadSchema) }
+				: { requestBody: { required: true, content: { [OpenApiDocumentBuilder.JSON_CONTENT_TYPE]: { schema: payloadSchema } } } }),
+			responses: {
+				['200']: {
+					description: 'Successful response',
+					content: {
+						[OpenApiDocumentBuilder.JSON_CONTENT_TYPE]: {
+							schema: JsonSchemaHelper.fromZodSchema(
+								definition.isRawResponse ? definition.objectSchema : createResponseSchema(definition.objectSchema),
+								EnumJsonSchemaTarget.OPENAPI_3_1
+							)
+						}
+					}
+				},
+				['422']: { description: 'Invalid payload', content: errorContent },
+				['default']: { description: 'Failed response', content: errorContent }
+			}
+		};
+	}
+
+	/**
+	 * Ensures that the payload of an operation can be sent as query parameters, an object whose properties are values or lists of values.
+	 *
+	 * @param {string} name - The operation id
+	 * @param {TypeJsonSchema} payloadSchema - The JSON Schema of the payload
+	 * @returns {void}
+	 * @throws {Error} - When the payload is not an object or has nested objects or lists
+	 */
+	private static assertQueryPayload(name: string, payloadSchema: TypeJsonSchema): void
+	{
+		if (payloadSchema.type !== 'object')
+		{
+			throw new Error(`Payload of operation "${name}" has to be an object to be sent as query parameters`);
+		}
+
+		Object.entries(payloadSchema.properties ?? {}).forEach(([property, schema]) =>
+		{
+			if (!OpenApiDocumentBuilder.isFlat(schema, true))
+			{
+				throw new Error(`Property "${property}" of operation "${name}" has to be a value or a list of values to be sent as a query parameter`);
+			}
+		});
+	}
+
+	/**
+	 * Returns whether a schema describes no objects, and no lists unless they are allowed, in any of its alternatives.
+	 *
+	 * @param {TypeJsonSchema} schema - The JSON Schema
+	 * @param {boolean} isListAllowed - Whether a list of flat values is allowed
+	 * @returns {boolean} - Whether the schema is flat
+	 */
+	private static isFlat(schema: TypeJsonSchema, isListAllowed: boolean): boolean
+	{
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (types.includes('object') || (types.includes('array') && !isListAllowed))
+		{
+			return false;
+		}
+
+		if (types.includes('array') && typeof schema.items === 'object' && !OpenApiDocumentBuilder.isFlat(schema.items, false))
+		{
+			return false;
+		}
+
+		return [...(schema.anyOf ?? []), ...(schema.allOf ?? [])].every((alternative) => OpenApiDocumentBuilder.isFlat(alternative, isListAllowed));
+	}
+
+	/**
+	 * Creates the query parameters of an operation from the properties of its payload.
+	 *
+	 * @param {TypeJsonSchema} payloadSchema - The JSON Schema of the payload, an object as ensured by assertQueryPayload
+	 * @returns {TypeOpenApiParameter[]} - The query parameters
+	 */
+	private static createQueryParameters(payloadSchema: TypeJsonSchema): TypeOpenApiParameter[]
+	{
+		return Object.entries(payloadSchema.properties ?? {}).map(([property, schema]) => ({
+			name: property,
+			in: 'query',
+			required: (payloadSchema.required ?? []).includes(property),
+			...(schema.description !== undefined ? { description: schema.description } : {}),
+			schema
+		}));
+	}
+
+	/**
+	 * Returns whether the payload of an operation is sent as query parameters, as for GET and DELETE.
+	 *
+	 * @param {TypeOpenApiOperationDefinition} definition - The operation
+	 * @returns {boolean} - Whether the payload is sent as query parameters
+	 */
+	private static isQuery(definition: TypeOpenApiOperationDefinition): boolean
+	{
+		return ['get', 'delete'].includes(OpenApiDocumentBuilder.getMethod(definition));
+	}
+
+	/**
+	 * Returns the path of an operation, /{name} by default.
+	 *
+	 * @param {TypeOpenApiOperationDefinition} definition - The operation
+	 * @returns {string} - The path
+	 */
+	private static getPath(definition: TypeOpenApiOperationDefinition): string
+	{
+		return definition.path ?? `/${definition.name}`;
+	}
+
+	/**
+	 * Returns the lower case method of an operation, post by default.
+	 *
+	 * @param {TypeOpenApiOperationDefinition} definition - The operation
+	 * @returns {string} - The method
+	 */
+	private static getMethod(definition: TypeOpenApiOperationDefinition): string
+	{
+		return (definition.method ?? 'POST').toLowerCase();
+	}
+}
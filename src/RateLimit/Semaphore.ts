@@ -0,0 +1,102 @@
+/**
+ * Semaphore lets up to maxConcurrency holders in at once, others wait in a bounded first in, first out queue.
+ */
+export class Semaphore
+{
+	private activeCount = 0;
+
+	private readonly queue: Array<() => void> = [];
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {number} maxConcurrency - The number of holders allowed at once
+	 * @param {number} maxQueueSize - The number of callers allowed to wait
+	 */
+	constructor(
+		private readonly maxConcurrency: number,
+		private readonly maxQueueSize: number
+	) {}
+
+	/**
+	 * Takes a permit, waiting in the queue when none is available.
+	 *
+	 * @param {number} timeout - The maximum time in milliseconds to wait, unlimited by default
+	 * @param {AbortSignal} signal - Stops waiting when aborted
+	 * @returns {Promise<boolean>} - True when the permit was taken, false when the queue is full, the wait timed out or was aborted
+	 */
+	public acquire(timeout = Infinity, signal?: AbortSignal): Promise<boolean>
+	{
+		if (this.activeCount < this.maxConcurrency && this.queue.length === 0)
+		{
+			this.activeCount++;
+
+			return Promise.resolve(true);
+		}
+
+		if (this.queue.length >= this.maxQueueSize || timeout <= 0 || signal?.aborted)
+		{
+			return Promise.resolve(false);
+		}
+
+		return new Promise((resolve) =>
+		{
+			let timer: ReturnType<typeof setTimeout> | undefined;
+
+			const leave = (): void =>
+			{
+				const index = this.queue.indexOf(enter);
+				if (index !== -1)
+				{
+					this.queue.splice(index, 1);
+				}
+
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', leave);
+				resolve(false);
+			};
+
+			const enter = (): void =>
+			{
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', leave);
+				resolve(true);
+			};
+
+			this.queue.push(enter);
+			signal?.addEventListener('abort', leave);
+			if (timeout !== Infinity)
+			{
+				timer = setTimeout(leave, timeout);
+			}
+		});
+	}
+
+	/**
+	 * Returns a permit, handing it over to the first waiting caller.
+	 *
+	 * @returns {void}
+	 */
+	public release(): void
+	{
+		const next = this.queue.shift();
+		if (next)
+		{
+			next();
+
+			return;
+		}
+
+		this.activeCount = Math.max(0, this.activeCount - 1);
+	}
+
+	/**
+	 * Checks whether no permit is taken and nobody waits.
+	 *
+	 * @returns {boolean} - True when idle
+	 */
+	public isIdle(): boolean
+	{
+		return this.activeCount === 0 && this.queue.length === 0;
+	}
+}
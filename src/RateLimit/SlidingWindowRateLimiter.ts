@@ -0,0 +1,93 @@
+import { type RateLimiterInterface } from '../Interface/RateLimiterInterface';
+import { type TypeRateLimitDecision } from '../Type/RateLimitDecision';
+
+/**
+ * SlidingWindowRateLimiter allows at most limit calls within any window of the given length.
+ */
+export class SlidingWindowRateLimiter implements RateLimiterInterface
+{
+	private readonly calls = new Map<string, number[]>();
+	private sweptAt = 0;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {number} limit - The maximum number of calls within a window
+	 * @param {number} window - The length of the window in milliseconds
+	 */
+	constructor(
+		private readonly limit: number,
+		private readonly window: number
+	) {}
+
+	/**
+	 * Takes a permit for the key when one is available.
+	 *
+	 * @param {string} key - The key the limit is tracked for
+	 * @returns {Promise<TypeRateLimitDecision>} - Whether the call is allowed and otherwise when to retry
+	 */
+	public async tryAcquire(key: string): Promise<TypeRateLimitDecision>
+	{
+		const now = Date.now();
+		this.sweep(now);
+
+		const calls = this.prune(key, now) ?? [];
+		if (calls.length >= this.limit)
+		{
+			return { isAllowed: false, retryAfter: Math.max(0, calls[calls.length - this.limit] + this.window - now) };
+		}
+
+		calls.push(now);
+		this.calls.set(key, calls);
+
+		return { isAllowed: true, retryAfter: 0 };
+	}
+
+	/**
+	 * Forgets the calls of a key that left the window.
+	 *
+	 * @param {string} key - The key
+	 * @param {number} now - The current time
+	 * @returns {number[] | undefined} - The calls within the window, undefined when there are none
+	 */
+	private prune(key: string, now: number): number[] | undefined
+	{
+		const calls = this.calls.get(key);
+		if (!calls)
+		{
+			return undefined;
+		}
+
+		const firstIndex = calls.findIndex((calledAt) => calledAt > now - this.window);
+		if (firstIndex === -1)
+		{
+			this.calls.delete(key);
+
+			return undefined;
+		}
+
+		if (firstIndex > 0)
+		{
+			calls.splice(0, firstIndex);
+		}
+
+		return calls;
+	}
+
+	/**
+	 * Forgets the calls of all keys at most once per window, keeping memory bounded with per caller keys.
+	 *
+	 * @param {number} now - The current time
+	 * @returns {void}
+	 */
+	private sweep(now: number): void
+	{
+		if (now - this.sweptAt < this.window)
+		{
+			return;
+		}
+
+		this.sweptAt = now;
+		this.calls.forEach((_calls, key) => this.prune(key, now));
+	}
+}
@@ -0,0 +1,87 @@
+import { type RateLimiterInterface } from '../Interface/RateLimiterInterface';
+import { type TypeRateLimitDecision } from '../Type/RateLimitDecision';
+
+/**
+ * TokenBucketRateLimiter allows bursts of up to capacity calls and refills permits at a steady rate.
+ */
+export class TokenBucketRateLimiter implements RateLimiterInterface
+{
+	private static readonly SWEEP_THRESHOLD = 1000;
+
+	private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {number} capacity - The maximum number of permits, the size of a burst
+	 * @param {number} refillRate - The number of permits added per second
+	 */
+	constructor(
+		private readonly capacity: number,
+		private readonly refillRate: number
+	) {}
+
+	/**
+	 * Takes a permit for the key when one is available.
+	 *
+	 * @param {string} key - The key the limit is tracked for
+	 * @returns {Promise<TypeRateLimitDecision>} - Whether the call is allowed and otherwise when to retry
+	 */
+	public async tryAcquire(key: string): Promise<TypeRateLimitDecision>
+	{
+		const now = Date.now();
+		const tokens = this.getTokens(key, now);
+
+		if (tokens >= 1)
+		{
+			this.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+			this.sweep(now);
+
+			return { isAllowed: true, retryAfter: 0 };
+		}
+
+		this.buckets.set(key, { tokens, updatedAt: now });
+
+		return { isAllowed: false, retryAfter: Math.ceil(((1 - tokens) / this.refillRate) * 1000) };
+	}
+
+	/**
+	 * Returns the permits of a key after refilling them.
+	 *
+	 * @param {string} key - The key
+	 * @param {number} now - The current time
+	 * @returns {number} - The permits
+	 */
+	private getTokens(key: string, now: number): number
+	{
+		const bucket = this.buckets.get(key);
+		if (!bucket)
+		{
+			return this.capacity;
+		}
+
+		return Math.min(this.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.refillRate);
+	}
+
+	/**
+	 * Forgets buckets that are full again once there are many of them, keeping memory bounded with per caller keys.
+	 *
+	 * @param {number} now - The current time
+	 * @returns {void}
+	 */
+	private sweep(now: number): void
+	{
+		if (this.buckets.size < TokenBucketRateLimiter.SWEEP_THRESHOLD)
+		{
+			return;
+		}
+
+		this.buckets.forEach((_bucket, key) =>
+		{
+			if (this.getTokens(key, now) >= this.capacity)
+			{
+				this.buckets.delete(key);
+			}
+		});
+	}
+}
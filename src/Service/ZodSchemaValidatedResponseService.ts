@@ -0,0 +1,45 @@
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { ZodSchemaValidatedAction } from '../Action/ZodSchemaValidatedAction';
+import { type ServiceInterface } from '../Interface/ServiceInterface';
+import { EnumInstrumentationKind } from '../Type/InstrumentationKind';
+import { type TypeInstrumentationTarget } from '../Type/InstrumentationOptions';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
+
+/**
+ * ZodSchemaValidatedResponseService validates a service like ZodSchemaValidatedService does,
+ * but returns the result in the same TypeResponse envelope actions use. The service is run as an action
+ * by ZodSchemaValidatedAction, so both validate, map exceptions and report calls the same way.
+ */
+export class ZodSchemaValidatedResponseService<TypePayloadSchema extends ZodSchema, TypeResponseSchema extends ZodSchema>
+	extends ZodSchemaValidatedAction<TypePayloadSchema, TypeResponseSchema>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeResponseSchema} responseSchema - The Zod schema for the output data
+	 * @param {ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>} service - The service to wrap
+	 * @param {TypeZodSchemaValidatedOptions} options - The options, such as the mapper of thrown exceptions
+	 */
+	constructor(
+		payloadSchema: TypePayloadSchema,
+		public readonly responseSchema: TypeResponseSchema,
+		private readonly service: ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>,
+		options: TypeZodSchemaValidatedOptions = {}
+	)
+	{
+		super(payloadSchema, responseSchema, {
+			execute: async (payload, context) => ({ success: true, messages: [], data: await service.execute(payload, context) })
+		}, options);
+	}
+
+	/**
+	 * Returns the kind and default name instrumentation events of this service are reported with.
+	 *
+	 * @returns {TypeInstrumentationTarget} - The instrumentation target
+	 */
+	protected getInstrumentationTarget(): TypeInstrumentationTarget
+	{
+		return { kind: EnumInstrumentationKind.SERVICE, name: this.service.constructor.name };
+	}
+}
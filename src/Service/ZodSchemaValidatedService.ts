@@ -1,45 +1,132 @@
-import { type ZodSchema, type infer as Infer, type SafeParseReturnType, ZodObject } from 'zod';
+import { type ZodSchema, type infer as Infer, type SafeParseReturnType, ZodError, ZodIssueCode } from 'zod';
 import { type ServiceInterface } from '../Interface/ServiceInterface';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeMessage } from '../Type/Response';
 import { OptionalFieldStripperHelper } from '../Helper/OptionalFieldStripperHelper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+import { Instrumentation } from '../Observability/Instrumentation';
+import { EnumInstrumentationKind } from '../Type/InstrumentationKind';
+import { type TypeInstrumentationTarget } from '../Type/InstrumentationOptions';
+import { type TypeNormalizationOptions } from '../Type/NormalizationOptions';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
+
+/**
+ * The Zod validation result of a service, failed results also carry the issues as structured messages.
+ */
+export type TypeValidatedServiceResult<TypeObject> = SafeParseReturnType<any, TypeObject> & { messages?: TypeMessage[] };
 
 export class ZodSchemaValidatedService<TypePayloadSchema extends ZodSchema, TypeResponseSchema extends ZodSchema>
-implements ServiceInterface<Infer<TypePayloadSchema>, SafeParseReturnType<any, Infer<TypeResponseSchema>>>
+implements ServiceInterface<Infer<TypePayloadSchema>, TypeValidatedServiceResult<Infer<TypeResponseSchema>>>
 {
+	private readonly errorMapper: ErrorMapperInterface;
+	private readonly normalizationOptions: TypeNormalizationOptions;
+	private readonly messageFormatter?: MessageFormatterInterface;
+	private readonly instrumentation: Instrumentation;
+
 	/**
 	 * Constructor.
 	 *
 	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
 	 * @param {TypeResponseSchema} responseSchema - The Zod schema for the output data
 	 * @param {ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>} service - The service to wrap
+	 * @param {TypeZodSchemaValidatedOptions} options - The options, such as the mapper of thrown exceptions
 	 */
 	constructor(
-		private readonly payloadSchema: TypePayloadSchema,
-		private readonly responseSchema: TypeResponseSchema,
-		private readonly service: ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>
-	) {}
+		public readonly payloadSchema: TypePayloadSchema,
+		public readonly responseSchema: TypeResponseSchema,
+		private readonly service: ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>,
+		options: TypeZodSchemaValidatedOptions = {}
+	)
+	{
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+		this.normalizationOptions = options.normalization ?? {};
+		this.messageFormatter = options.messageFormatter;
+		this.instrumentation = new Instrumentation(options.instrumentation);
+	}
 
 	/**
 	 * Executes the service logic after validating the input payload and the response.
+	 * Exceptions thrown by the service are returned as a failed result with a custom Zod issue and the mapped message,
+	 * calls are reported to the configured instrumentation.
 	 *
 	 * @param {Infer<TypePayloadSchema>} payload - The input payload for the service
-	 * @returns {Promise<SafeParseReturnType<any, Infer<TypeResponseSchema>>>} - The Zod validation result for the response
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped service
+	 * @returns {Promise<TypeValidatedServiceResult<Infer<TypeResponseSchema>>>} - The Zod validation result for the response
+	 */
+	public async execute(payload: Infer<TypePayloadSchema>, context?: TypeExecutionContext): Promise<TypeValidatedServiceResult<Infer<TypeResponseSchema>>>
+	{
+		return this.instrumentation.run(this.getInstrumentationTarget(), payload, context, () => this.executeValidated(payload, context));
+	}
+
+	/**
+	 * Returns the kind and default name instrumentation events of this service are reported with.
+	 *
+	 * @returns {TypeInstrumentationTarget} - The instrumentation target
 	 */
-	public async execute(payload: Infer<TypePayloadSchema>): Promise<SafeParseReturnType<any, Infer<TypeResponseSchema>>>
+	protected getInstrumentationTarget(): TypeInstrumentationTarget
+	{
+		return { kind: EnumInstrumentationKind.SERVICE, name: this.service.constructor.name };
+	}
+
+	/**
+	 * Validates the payload, executes the wrapped service and validates its result.
+	 *
+	 * @param {Infer<TypePayloadSchema>} payload - The input payload
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeValidatedServiceResult<Infer<TypeResponseSchema>>>} - The result
+	 */
+	private async executeValidated(payload: Infer<TypePayloadSchema>, context?: TypeExecutionContext): Promise<TypeValidatedServiceResult<Infer<TypeResponseSchema>>>
 	{
 		// Validate the payload using the input schema
 		const parsedPayload = this.payloadSchema.safeParse(
-			OptionalFieldStripperHelper.stripEmptyStrings(payload, this.payloadSchema as unknown as ZodObject<any>)
+			OptionalFieldStripperHelper.normalize(payload, this.payloadSchema, this.normalizationOptions)
 		);
 		if (!parsedPayload.success)
 		{
-			return parsedPayload;
+			return {
+				...parsedPayload,
+				messages: ValidationMessageHelper.fromZodError(parsedPayload.error, {
+					formatter: this.messageFormatter,
+					schema: this.payloadSchema,
+					locale: context?.locale
+				})
+			};
 		}
 
 		// Execute the wrapped service with the validated payload
-		const response = await this.service.execute(parsedPayload.data);
+		let response: Infer<TypeResponseSchema>;
+		try
+		{
+			response = await this.service.execute(parsedPayload.data, context);
+		}
+		catch (error)
+		{
+			const messages = ResponseHelper.fromError(error, this.errorMapper, { formatter: this.messageFormatter, locale: context?.locale }).messages ?? [];
+
+			return {
+				success: false,
+				error: new ZodError(messages.map((message) => ({ code: ZodIssueCode.custom, path: [], message: message.text }))),
+				messages
+			};
+		}
 
 		// Validate the response using the response schema
 		const parsedResponse = this.responseSchema.safeParse(response);
+		if (!parsedResponse.success)
+		{
+			return {
+				...parsedResponse,
+				messages: ValidationMessageHelper.fromZodError(parsedResponse.error, {
+					formatter: this.messageFormatter,
+					schema: this.responseSchema,
+					locale: context?.locale
+				})
+			};
+		}
 
 		return parsedResponse;
 	}
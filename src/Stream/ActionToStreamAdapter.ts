@@ -0,0 +1,48 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type StreamingActionInterface } from '../Interface/StreamingActionInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+import { EnumStreamEventType, type TypeStreamEvent } from '../Type/StreamEvent';
+
+/**
+ * ActionToStreamAdapter exposes an action as a streaming action whose stream consists of the result event only,
+ * so existing actions can be used wherever a StreamingActionInterface is expected.
+ */
+export class ActionToStreamAdapter<TypePayload, TypeObject> implements StreamingActionInterface<TypePayload, never, TypeObject>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to adapt
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown by the action to messages
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		private readonly errorMapper: ErrorMapperInterface = new ErrorMapper()
+	) {}
+
+	/**
+	 * Executes the action and streams its response as the result event.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the action
+	 * @returns {AsyncIterable<TypeStreamEvent<never, TypeObject>>} - The result event
+	 */
+	public async *stream(payload: TypePayload, context?: TypeExecutionContext): AsyncIterable<TypeStreamEvent<never, TypeObject>>
+	{
+		let response: TypeResponse<TypeObject>;
+		try
+		{
+			response = await this.action.execute(payload, context);
+		}
+		catch (error)
+		{
+			response = ResponseHelper.fromError(error, this.errorMapper);
+		}
+
+		yield { type: EnumStreamEventType.RESULT, response };
+	}
+}
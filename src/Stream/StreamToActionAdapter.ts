@@ -0,0 +1,82 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type StreamingActionInterface } from '../Interface/StreamingActionInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+import { EnumStreamEventType, type TypeStreamEvent } from '../Type/StreamEvent';
+import { type TypeStreamToActionOptions } from '../Type/StreamToActionOptions';
+
+/**
+ * StreamToActionAdapter collapses a streaming action into an action resolving with the final response of the stream,
+ * so it can be used wherever an ActionInterface is expected.
+ */
+export class StreamToActionAdapter<TypePayload, TypeChunk, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly errorMapper: ErrorMapperInterface;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {StreamingActionInterface<TypePayload, TypeChunk, TypeObject>} action - The streaming action to adapt
+	 * @param {TypeStreamToActionOptions<TypeChunk, TypeObject>} options - The options, such as the listener of the events
+	 */
+	constructor(
+		private readonly action: StreamingActionInterface<TypePayload, TypeChunk, TypeObject>,
+		private readonly options: TypeStreamToActionOptions<TypeChunk, TypeObject> = {}
+	)
+	{
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+	}
+
+	/**
+	 * Consumes the stream and returns its final response. Errors never escape, a stream ending without a result fails with EXECUTION_ERROR.
+	 * Exceptions of the listener of the events are ignored.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the streaming action
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The final response of the stream
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		try
+		{
+			for await (const event of this.action.stream(payload, context))
+			{
+				this.notify(event, context);
+
+				if (event.type === EnumStreamEventType.RESULT)
+				{
+					return event.response;
+				}
+			}
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+
+		return ResponseHelper.createErrorResponse(EnumErrorCode.EXECUTION_ERROR, 'Stream ended without a result');
+	}
+
+	/**
+	 * Passes an event to the listener of the events.
+	 *
+	 * @param {TypeStreamEvent<TypeChunk, TypeObject>} event - The event
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {void}
+	 */
+	private notify(event: TypeStreamEvent<TypeChunk, TypeObject>, context?: TypeExecutionContext): void
+	{
+		try
+		{
+			this.options.onEvent?.(event, context);
+		}
+		catch
+		{
+			// The listener failing must not fail the call
+		}
+	}
+}
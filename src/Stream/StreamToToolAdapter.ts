@@ -0,0 +1,34 @@
+import { type ZodSchema } from 'zod';
+import { type StreamingToolInterface } from '../Interface/StreamingToolInterface';
+import { type ToolInterface } from '../Interface/ToolInterface';
+import { type TypeResponse } from '../Type/Response';
+import { type TypeStreamToActionOptions } from '../Type/StreamToActionOptions';
+import { StreamToActionAdapter } from './StreamToActionAdapter';
+
+/**
+ * StreamToToolAdapter collapses a streaming tool into a tool resolving with the final response of the stream,
+ * so it can be registered in a ToolRegistry and served over MCP.
+ */
+export class StreamToToolAdapter<TypePayload, TypeChunk, TypeObject>
+	extends StreamToActionAdapter<TypePayload, TypeChunk, TypeObject>
+	implements ToolInterface<TypePayload, TypeResponse<TypeObject>>
+{
+	public readonly name: string;
+	public readonly description: string;
+	public readonly parameters: ZodSchema<TypePayload>;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {StreamingToolInterface<TypePayload, TypeChunk, TypeObject>} tool - The streaming tool to adapt
+	 * @param {TypeStreamToActionOptions<TypeChunk, TypeObject>} options - The options, such as the listener of the events
+	 */
+	constructor(tool: StreamingToolInterface<TypePayload, TypeChunk, TypeObject>, options: TypeStreamToActionOptions<TypeChunk, TypeObject> = {})
+	{
+		super(tool, options);
+
+		this.name = tool.name;
+		this.description = tool.description;
+		this.parameters = tool.parameters;
+	}
+}
@@ -0,0 +1,34 @@
+import { type ZodSchema } from 'zod';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type StreamingToolInterface } from '../Interface/StreamingToolInterface';
+import { type ToolInterface } from '../Interface/ToolInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type TypeResponse } from '../Type/Response';
+import { ActionToStreamAdapter } from './ActionToStreamAdapter';
+
+/**
+ * ToolToStreamAdapter exposes a tool as a streaming tool whose stream consists of the result event only.
+ */
+export class ToolToStreamAdapter<TypePayload, TypeObject>
+	extends ActionToStreamAdapter<TypePayload, TypeObject>
+	implements StreamingToolInterface<TypePayload, never, TypeObject>
+{
+	public readonly name: string;
+	public readonly description: string;
+	public readonly parameters: ZodSchema<TypePayload>;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ToolInterface<TypePayload, TypeResponse<TypeObject>>} tool - The tool to adapt
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown by the tool to messages
+	 */
+	constructor(tool: ToolInterface<TypePayload, TypeResponse<TypeObject>>, errorMapper: ErrorMapperInterface = new ErrorMapper())
+	{
+		super(tool, errorMapper);
+
+		this.name = tool.name;
+		this.description = tool.description;
+		this.parameters = tool.parameters;
+	}
+}
@@ -0,0 +1,394 @@
+import { type ZodTypeAny, type input as Input, ZodFirstPartyTypeKind } from 'zod';
+import { type TypeFakeDataOptions } from '../Type/FakeDataOptions';
+
+interface TypeCheck
+{
+	kind: string;
+	value?: unknown;
+	inclusive?: boolean;
+}
+
+/**
+ * FakeDataGenerator generates sample data that is valid against a Zod schema, such as payloads for tests.
+ * Generation is deterministic: the same seed and the same sequence of calls generate the same data.
+ *
+ * @example
+ * const payload = new FakeDataGenerator({ seed: 42 }).generate(createOrderPayloadSchema);
+ */
+export class FakeDataGenerator
+{
+	private static readonly MAX_ATTEMPTS = 10;
+
+	private static readonly WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet'];
+
+	private static readonly BASE_DATE = Date.UTC(2024, 0, 1);
+
+	private state: number;
+	private readonly includeOptional: boolean;
+	private readonly maxDepth: number;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeFakeDataOptions} options - The options, such as the seed
+	 */
+	constructor(options: TypeFakeDataOptions = {})
+	{
+		this.state = options.seed ?? 1;
+		this.includeOptional = options.includeOptional ?? true;
+		this.maxDepth = options.maxDepth ?? 5;
+	}
+
+	/**
+	 * Generates data valid against the schema, unions and refinements are satisfied by generating again a few times.
+	 *
+	 * @param {TypeSchema} schema - The schema
+	 * @returns {Input<TypeSchema>} - The data, in the input form of the schema
+	 * @throws {Error} - When the schema has unsupported types or refinements no generated data satisfies
+	 */
+	public generate<TypeSchema extends ZodTypeAny>(schema: TypeSchema): Input<TypeSchema>
+	{
+		let issues = '';
+		for (let attempt = 0; attempt < FakeDataGenerator.MAX_ATTEMPTS; attempt++)
+		{
+			const data = this.generateValue(schema, 0);
+			const parsed = schema.safeParse(data);
+			if (parsed.success)
+			{
+				return data as Input<TypeSchema>;
+			}
+
+			issues = parsed.error.issues.map((issue) => issue.message).join(', ');
+		}
+
+		throw new Error(`Could not generate data matching the schema: ${issues}`);
+	}
+
+	/**
+	 * Generates a value for a schema.
+	 *
+	 * @param {ZodTypeAny} schema - The schema
+	 * @param {number} depth - The nesting depth
+	 * @returns {unknown} - The value
+	 * @throws {Error} - When the type of the schema is not supported
+	 */
+	private generateValue(schema: ZodTypeAny, depth: number): unknown
+	{
+		const def = schema._def;
+
+		switch (def.typeName as ZodFirstPartyTypeKind)
+		{
+			case ZodFirstPartyTypeKind.ZodString:
+				return this.generateString(def.checks);
+			case ZodFirstPartyTypeKind.ZodNumber:
+				return this.generateNumber(def.checks);
+			case ZodFirstPartyTypeKind.ZodBigInt:
+				return BigInt(this.nextInt(0, 1000));
+			case ZodFirstPartyTypeKind.ZodBoolean:
+				return this.next() < 0.5;
+			case ZodFirstPartyTypeKind.ZodDate:
+				return this.generateDate(def.checks);
+			case ZodFirstPartyTypeKind.ZodLiteral:
+				return def.value;
+			case ZodFirstPartyTypeKind.ZodEnum:
+				return this.pick(def.values as unknown[]);
+			case ZodFirstPartyTypeKind.ZodNativeEnum:
+				return this.pick(FakeDataGenerator.getNativeEnumValues(def.values));
+			case ZodFirstPartyTypeKind.ZodNull:
+				return null;
+			case ZodFirstPartyTypeKind.ZodUndefined:
+			case ZodFirstPartyTypeKind.ZodVoid:
+				return undefined;
+			case ZodFirstPartyTypeKind.ZodAny:
+			case ZodFirstPartyTypeKind.ZodUnknown:
+				return this.pick(FakeDataGenerator.WORDS);
+			case ZodFirstPartyTypeKind.ZodNaN:
+				return NaN;
+			case ZodFirstPartyTypeKind.ZodObject:
+				return this.generateObject(def.shape(), depth);
+			case ZodFirstPartyTypeKind.ZodArray:
+				return this.generateItems(def.type, depth, def.exactLength?.value ?? def.minLength?.value, def.exactLength?.value ?? def.maxLength?.value);
+			case ZodFirstPartyTypeKind.ZodSet:
+				return new Set(this.generateItems(def.valueType, depth, def.minSize?.value, def.maxSize?.value));
+			case ZodFirstPartyTypeKind.ZodTuple:
+				return (def.items as ZodTypeAny[]).map((item) => this.generateValue(item, depth + 1));
+			case ZodFirstPartyTypeKind.ZodRecord:
+				return Object.fromEntries([[String(this.generateValue(def.keyType, depth + 1)), this.generateValue(def.valueType, depth + 1)]]);
+			case ZodFirstPartyTypeKind.ZodMap:
+				return new Map([[this.generateValue(def.keyType, depth + 1), this.generateValue(def.valueType, depth + 1)]]);
+			case ZodFirstPartyTypeKind.ZodUnion:
+			case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+				return this.generateUnion(def.options, depth);
+			case ZodFirstPartyTypeKind.ZodIntersection:
+				return FakeDataGenerator.merge(this.generateValue(def.left, depth), this.generateValue(def.right, depth));
+			case ZodFirstPartyTypeKind.ZodOptional:
+				return this.includeOptional && depth < this.maxDepth ? this.generateValue(def.innerType, depth) : undefined;
+			case ZodFirstPartyTypeKind.ZodNullable:
+			case ZodFirstPartyTypeKind.ZodDefault:
+			case ZodFirstPartyTypeKind.ZodCatch:
+			case ZodFirstPartyTypeKind.ZodReadonly:
+				return this.generateValue(def.innerType, depth);
+			case ZodFirstPartyTypeKind.ZodEffects:
+				return this.generateRefined(schema, def.schema, depth);
+			case ZodFirstPartyTypeKind.ZodBranded:
+				return this.generateValue(def.type, depth);
+			case ZodFirstPartyTypeKind.ZodPipeline:
+				return this.generateValue(def.in, depth);
+			case ZodFirstPartyTypeKind.ZodLazy:
+				return this.generateValue(def.getter(), depth + 1);
+			case ZodFirstPartyTypeKind.ZodPromise:
+				return Promise.resolve(this.generateValue(def.type, depth));
+			default:
+				throw new Error(`Cannot generate data for ${String(def.typeName)}`);
+		}
+	}
+
+	/**
+	 * Generates a value for one of the options of a union, starting with a random option and moving on to the next one
+	 * when the value does not match, such as for strings with a pattern.
+	 *
+	 * @param {ZodTypeAny[]} options - The options of the union
+	 * @param {number} depth - The nesting depth
+	 * @returns {unknown} - The value
+	 */
+	private generateUnion(options: ZodTypeAny[], depth: number): unknown
+	{
+		const firstIndex = this.nextInt(0, options.length - 1);
+
+		let value: unknown;
+		for (let index = 0; index < options.length; index++)
+		{
+			const option = options[(firstIndex + index) % options.length];
+			value = this.generateValue(option, depth);
+			if (option.safeParse(value).success)
+			{
+				return value;
+			}
+		}
+
+		return value;
+	}
+
+	/**
+	 * Generates a value for a refined schema, generating again a few times until the refinement is satisfied.
+	 *
+	 * @param {ZodTypeAny} schema - The refined schema
+	 * @param {ZodTypeAny} innerSchema - The schema being refined
+	 * @param {number} depth - The nesting depth
+	 * @returns {unknown} - The value
+	 */
+	private generateRefined(schema: ZodTypeAny, innerSchema: ZodTypeAny, depth: number): unknown
+	{
+		let value: unknown;
+		for (let attempt = 0; attempt < FakeDataGenerator.MAX_ATTEMPTS; attempt++)
+		{
+			value = this.generateValue(innerSchema, depth);
+			if (schema.safeParse(value).success)
+			{
+				return value;
+			}
+		}
+
+		return value;
+	}
+
+	/**
+	 * Generates a string honoring the format and length checks.
+	 *
+	 * @param {TypeCheck[]} checks - The checks of the schema
+	 * @returns {string} - The string
+	 */
+	private generateString(checks: TypeCheck[]): string
+	{
+		const check = (kind: string): TypeCheck | undefined => checks.find((item) => item.kind === kind);
+		const word = this.pick(FakeDataGenerator.WORDS);
+
+		if (check('email'))
+		{
+			return `${word}${this.nextInt(1, 999)}@example.com`;
+		}
+
+		if (check('url'))
+		{
+			return `https://example.com/${word}`;
+		}
+
+		if (check('uuid'))
+		{
+			return this.generateUuid();
+		}
+
+		if (check('datetime'))
+		{
+			return new Date(FakeDataGenerator.BASE_DATE + this.nextInt(0, 365) * 86400000).toISOString();
+		}
+
+		const prefix = String(check('startsWith')?.value ?? '');
+		const suffix = String(check('endsWith')?.value ?? '');
+		const infix = String(check('includes')?.value ?? '');
+		const minLength = Number(check('length')?.value ?? check('min')?.value ?? 0);
+		const maxLength = Number(check('length')?.value ?? check('max')?.value ?? Math.max(minLength, 12));
+
+		let value = `${prefix}${infix}${word}`;
+		while (value.length + suffix.length < minLength)
+		{
+			value += this.pick(FakeDataGenerator.WORDS);
+		}
+
+		return `${value.slice(0, Math.max(prefix.length + infix.length, maxLength - suffix.length))}${suffix}`;
+	}
+
+	/**
+	 * Generates a number honoring the range, integer and multiple checks.
+	 *
+	 * @param {TypeCheck[]} checks - The checks of the schema
+	 * @returns {number} - The number
+	 */
+	private generateNumber(checks: TypeCheck[]): number
+	{
+		const minCheck = checks.find((check) => check.kind === 'min');
+		const maxCheck = checks.find((check) => check.kind === 'max');
+		const multipleOf = Number(checks.find((check) => check.kind === 'multipleOf')?.value ?? (checks.some((check) => check.kind === 'int') ? 1 : 0));
+
+		const step = multipleOf || 0.01;
+		let min = minCheck ? Number(minCheck.value) : Math.min(0, maxCheck ? Number(maxCheck.value) - 1000 : 0);
+		let max = maxCheck ? Number(maxCheck.value) : min + 1000;
+		min = minCheck && !minCheck.inclusive ? min + step : min;
+		max = maxCheck && !maxCheck.inclusive ? max - step : max;
+
+		const value = min + this.next() * (max - min);
+		if (!multipleOf)
+		{
+			return Math.round(value * 100) / 100;
+		}
+
+		const rounded = Math.round(value / multipleOf) * multipleOf;
+
+		return Math.min(Math.max(rounded, Math.ceil(min / multipleOf) * multipleOf), Math.floor(max / multipleOf) * multipleOf);
+	}
+
+	/**
+	 * Generates a date honoring the range checks.
+	 *
+	 * @param {TypeCheck[]} checks - The checks of the schema
+	 * @returns {Date} - The date
+	 */
+	private generateDate(checks: TypeCheck[]): Date
+	{
+		const min = Number(checks.find((check) => check.kind === 'min')?.value ?? FakeDataGenerator.BASE_DATE);
+		const max = Number(checks.find((check) => check.kind === 'max')?.value ?? min + 365 * 86400000);
+
+		return new Date(Math.round(min + this.next() * (max - min)));
+	}
+
+	/**
+	 * Generates an object, optional fields generated as undefined are left out.
+	 *
+	 * @param {Record<string, ZodTypeAny>} shape - The shape of the object
+	 * @param {number} depth - The nesting depth
+	 * @returns {Record<string, unknown>} - The object
+	 */
+	private generateObject(shape: Record<string, ZodTypeAny>, depth: number): Record<string, unknown>
+	{
+		return Object.fromEntries(
+			Object.entries(shape)
+				.map(([key, fieldSchema]) => [key, this.generateValue(fieldSchema, depth + 1)])
+				.filter(([, value]) => value !== undefined)
+		);
+	}
+
+	/**
+	 * Generates the items of an array or a set, recursive schemas past the maximum depth get the fewest items allowed.
+	 *
+	 * @param {ZodTypeAny} itemSchema - The schema of the items
+	 * @param {number} depth - The nesting depth
+	 * @param {number} minLength - The minimum number of items
+	 * @param {number} maxLength - The maximum number of items
+	 * @returns {unknown[]} - The items
+	 */
+	private generateItems(itemSchema: ZodTypeAny, depth: number, minLength = 0, maxLength?: number): unknown[]
+	{
+		const length = depth >= this.maxDepth ? minLength : this.nextInt(Math.max(minLength, 1), Math.max(minLength, Math.min(maxLength ?? minLength + 3, minLength + 3)));
+
+		return Array.from({ length: Math.min(length, maxLength ?? length) }, () => this.generateValue(itemSchema, depth + 1));
+	}
+
+	/**
+	 * Generates a random version 4 UUID.
+	 *
+	 * @returns {string} - The UUID
+	 */
+	private generateUuid(): string
+	{
+		const hex = Array.from({ length: 32 }, () => this.nextInt(0, 15).toString(16));
+		hex[12] = '4';
+		hex[16] = (8 + this.nextInt(0, 3)).toString(16);
+
+		return `${hex.slice(0, 8).join('')}-${hex.slice(8, 12).join('')}-${hex.slice(12, 16).join('')}-${hex.slice(16, 20).join('')}-${hex.slice(20).join('')}`;
+	}
+
+	/**
+	 * Returns the values of a native enum without the reverse mappings of numeric members.
+	 *
+	 * @param {Record<string, string | number>} values - The enum
+	 * @returns {Array<string | number>} - The values
+	 */
+	private static getNativeEnumValues(values: Record<string, string | number>): Array<string | number>
+	{
+		return Object.keys(values)
+			.filter((key) => typeof values[values[key]] !== 'number')
+			.map((key) => values[key]);
+	}
+
+	/**
+	 * Merges the values of both sides of an intersection.
+	 *
+	 * @param {unknown} left - The value of the left side
+	 * @param {unknown} right - The value of the right side
+	 * @returns {unknown} - The merged value
+	 */
+	private static merge(left: unknown, right: unknown): unknown
+	{
+		const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+		return isObject(left) && isObject(right) ? { ...left, ...right } : left;
+	}
+
+	/**
+	 * Picks a random item.
+	 *
+	 * @param {TypeItem[]} items - The items
+	 * @returns {TypeItem} - The item
+	 */
+	private pick<TypeItem>(items: TypeItem[]): TypeItem
+	{
+		return items[this.nextInt(0, items.length - 1)];
+	}
+
+	/**
+	 * Returns a random integer between min and max, both inclusive.
+	 *
+	 * @param {number} min - The minimum
+	 * @param {number} max - The maximum
+	 * @returns {number} - The integer
+	 */
+	private nextInt(min: number, max: number): number
+	{
+		return min + Math.floor(this.next() * (max - min + 1));
+	}
+
+	/**
+	 * Returns the next random number between 0 inclusive and 1 exclusive, using the mulberry32 algorithm.
+	 *
+	 * @returns {number} - The number
+	 */
+	private next(): number
+	{
+		this.state = (this.state + 0x6d2b79f5) | 0;
+
+		let value = Math.imul(this.state ^ (this.state >>> 15), 1 | this.state);
+		value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+
+		return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+	}
+}
@@ -0,0 +1,187 @@
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeMockCall } from '../Type/MockCall';
+import { type TypeMockOptions } from '../Type/MockOptions';
+import { type TypeResponse } from '../Type/Response';
+import { FakeDataGenerator } from './FakeDataGenerator';
+import { MockScript } from './MockScript';
+
+/**
+ * MockAction is an action for tests, scripted with the responses it answers calls with and recording the calls it receives.
+ * Scripted responses are used one per call, the last one keeps answering once the others are used up.
+ *
+ * @example
+ * const action = new MockAction({ objectSchema: orderSchema })
+ *     .willFail(EnumErrorCode.TIMEOUT, 'Timed out')
+ *     .willSucceed({ orderId: 'o1' });
+ *
+ * await new RetryingAction(action).execute(payload);
+ * expect(action.getCallCount()).toBe(2);
+ */
+export class MockAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly script: MockScript<TypePayload, TypeResponse<TypeObject>>;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeMockOptions<TypePayload, TypeObject>} options - The options, such as the schemas of the action
+	 */
+	constructor(private readonly options: TypeMockOptions<TypePayload, TypeObject> = {})
+	{
+		const fakeDataGenerator = new FakeDataGenerator(options.fakeData);
+
+		this.script = new MockScript(() => options.objectSchema
+			? ResponseHelper.createSuccessResponse(options.objectSchema.parse(fakeDataGenerator.generate(options.objectSchema)) as TypeObject)
+			: ResponseHelper.createErrorResponse(EnumErrorCode.EXECUTION_ERROR, 'No response is scripted for the mock action'));
+	}
+
+	/**
+	 * Answers a call with the response.
+	 *
+	 * @param {TypeResponse<TypeObject>} response - The response
+	 * @returns {this} - The mock
+	 * @throws {Error} - When the data of a successful response does not match the object schema
+	 */
+	public willReturn(response: TypeResponse<TypeObject>): this
+	{
+		if (response.success && this.options.objectSchema && !this.options.objectSchema.safeParse(response.data).success)
+		{
+			throw new Error('Scripted data does not match the object schema of the mock action');
+		}
+
+		this.script.add(() => response);
+
+		return this;
+	}
+
+	/**
+	 * Answers a call with a successful response with the data.
+	 *
+	 * @param {TypeObject} data - The data
+	 * @returns {this} - The mock
+	 * @throws {Error} - When the data does not match the object schema
+	 */
+	public willSucceed(data: TypeObject): this
+	{
+		return this.willReturn({ success: true, data });
+	}
+
+	/**
+	 * Answers a call with a failed response.
+	 *
+	 * @param {string} code - The error code
+	 * @param {string} text - The error message
+	 * @returns {this} - The mock
+	 */
+	public willFail(code: string, text: string): this
+	{
+		return this.willReturn(ResponseHelper.createErrorResponse(code, text));
+	}
+
+	/**
+	 * Answers a call by throwing the error.
+	 *
+	 * @param {unknown} error - The error
+	 * @returns {this} - The mock
+	 */
+	public willThrow(error: unknown): this
+	{
+		this.script.add(() =>
+		{
+			throw error;
+		});
+
+		return this;
+	}
+
+	/**
+	 * Answers a call with the response of a handler, such as one depending on the payload.
+	 *
+	 * @param {Function} handler - Returns the response of a call
+	 * @returns {this} - The mock
+	 */
+	public willRespond(handler: (payload: TypePayload, context?: TypeExecutionContext) => TypeResponse<TypeObject> | Promise<TypeResponse<TypeObject>>): this
+	{
+		this.script.add(handler);
+
+		return this;
+	}
+
+	/**
+	 * Records the call and answers it with the next scripted response, calls with an invalid payload fail with VALIDATION_ERROR.
+	 * Without a scripted response, calls succeed with data generated from the object schema or fail with EXECUTION_ERROR.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The scripted response
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		this.script.record(payload, context);
+
+		const parsedPayload = this.options.payloadSchema?.safeParse(payload);
+		if (parsedPayload && !parsedPayload.success)
+		{
+			return ResponseHelper.createErrorsResponse(ValidationMessageHelper.fromZodError(parsedPayload.error));
+		}
+
+		return this.script.run(payload, context);
+	}
+
+	/**
+	 * Returns the calls received so far.
+	 *
+	 * @returns {TypeMockCall<TypePayload>[]} - The calls, oldest first
+	 */
+	public getCalls(): TypeMockCall<TypePayload>[]
+	{
+		return this.script.getCalls();
+	}
+
+	/**
+	 * Returns the number of calls received so far.
+	 *
+	 * @returns {number} - The number of calls
+	 */
+	public getCallCount(): number
+	{
+		return this.script.getCalls().length;
+	}
+
+	/**
+	 * Returns the last call received.
+	 *
+	 * @returns {TypeMockCall<TypePayload> | undefined} - The call, undefined before the first call
+	 */
+	public getLastCall(): TypeMockCall<TypePayload> | undefined
+	{
+		return this.script.getCalls().at(-1);
+	}
+
+	/**
+	 * Checks whether a call was received with a payload equal to the given one.
+	 *
+	 * @param {TypePayload} payload - The payload
+	 * @returns {boolean} - True when such a call was received
+	 */
+	public wasCalledWith(payload: TypePayload): boolean
+	{
+		return this.script.wasCalledWith(payload);
+	}
+
+	/**
+	 * Forgets the scripted responses and the calls.
+	 *
+	 * @returns {this} - The mock
+	 */
+	public reset(): this
+	{
+		this.script.reset();
+
+		return this;
+	}
+}
@@ -0,0 +1,91 @@
+import { CachingAction } from '../Action/CachingAction';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeMockCall } from '../Type/MockCall';
+
+/**
+ * MockScript holds the scripted steps and the call history shared by MockAction and MockService.
+ * Steps are used one per call in the order they were added, the last one keeps answering once the others are used up.
+ */
+export class MockScript<TypePayload, TypeResult>
+{
+	private readonly steps: Array<(payload: TypePayload, context?: TypeExecutionContext) => TypeResult | Promise<TypeResult>> = [];
+	private readonly callHistory: TypeMockCall<TypePayload>[] = [];
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {Function} fallback - Answers calls when no step is scripted
+	 */
+	constructor(private readonly fallback: (payload: TypePayload, context?: TypeExecutionContext) => TypeResult | Promise<TypeResult>) {}
+
+	/**
+	 * Adds a step.
+	 *
+	 * @param {Function} step - Answers a call
+	 * @returns {void}
+	 */
+	public add(step: (payload: TypePayload, context?: TypeExecutionContext) => TypeResult | Promise<TypeResult>): void
+	{
+		this.steps.push(step);
+	}
+
+	/**
+	 * Records a call.
+	 *
+	 * @param {TypePayload} payload - The payload of the call
+	 * @param {TypeExecutionContext} context - The context of the call
+	 * @returns {void}
+	 */
+	public record(payload: TypePayload, context?: TypeExecutionContext): void
+	{
+		this.callHistory.push({ payload, ...(context !== undefined ? { context } : {}) });
+	}
+
+	/**
+	 * Answers a call with the next step.
+	 *
+	 * @param {TypePayload} payload - The payload of the call
+	 * @param {TypeExecutionContext} context - The context of the call
+	 * @returns {Promise<TypeResult>} - The result of the step
+	 */
+	public async run(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResult>
+	{
+		const step = (this.steps.length > 1 ? this.steps.shift() : this.steps[0]) ?? this.fallback;
+
+		return step(payload, context);
+	}
+
+	/**
+	 * Returns the calls received so far.
+	 *
+	 * @returns {TypeMockCall<TypePayload>[]} - The calls, oldest first
+	 */
+	public getCalls(): TypeMockCall<TypePayload>[]
+	{
+		return [...this.callHistory];
+	}
+
+	/**
+	 * Checks whether a call was received with a payload equal to the given one, regardless of the order of object keys.
+	 *
+	 * @param {TypePayload} payload - The payload
+	 * @returns {boolean} - True when such a call was received
+	 */
+	public wasCalledWith(payload: TypePayload): boolean
+	{
+		const key = CachingAction.createKey(payload);
+
+		return this.callHistory.some((call) => CachingAction.createKey(call.payload) === key);
+	}
+
+	/**
+	 * Forgets the scripted steps and the calls.
+	 *
+	 * @returns {void}
+	 */
+	public reset(): void
+	{
+		this.steps.length = 0;
+		this.callHistory.length = 0;
+	}
+}
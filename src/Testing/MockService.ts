@@ -0,0 +1,166 @@
+import { type ServiceInterface } from '../Interface/ServiceInterface';
+import { ValidationError } from '../Error/ValidationError';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeMockCall } from '../Type/MockCall';
+import { type TypeMockOptions } from '../Type/MockOptions';
+import { FakeDataGenerator } from './FakeDataGenerator';
+import { MockScript } from './MockScript';
+
+/**
+ * MockService is a service for tests, scripted with the results it answers calls with and recording the calls it receives.
+ * Scripted results are used one per call, the last one keeps answering once the others are used up.
+ *
+ * @example
+ * const service = new MockService({ objectSchema: quoteSchema })
+ *     .willThrow(new Error('Service unavailable'))
+ *     .willReturn({ price: 10 });
+ */
+export class MockService<TypePayload, TypeObject> implements ServiceInterface<TypePayload, TypeObject>
+{
+	private readonly script: MockScript<TypePayload, TypeObject>;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeMockOptions<TypePayload, TypeObject>} options - The options, such as the schemas of the service
+	 */
+	constructor(private readonly options: TypeMockOptions<TypePayload, TypeObject> = {})
+	{
+		const fakeDataGenerator = new FakeDataGenerator(options.fakeData);
+
+		this.script = new MockScript(() =>
+		{
+			if (!options.objectSchema)
+			{
+				throw new Error('No result is scripted for the mock service');
+			}
+
+			return options.objectSchema.parse(fakeDataGenerator.generate(options.objectSchema)) as TypeObject;
+		});
+	}
+
+	/**
+	 * Answers a call with the result.
+	 *
+	 * @param {TypeObject} result - The result
+	 * @returns {this} - The mock
+	 * @throws {Error} - When the result does not match the object schema
+	 */
+	public willReturn(result: TypeObject): this
+	{
+		if (this.options.objectSchema && !this.options.objectSchema.safeParse(result).success)
+		{
+			throw new Error('Scripted result does not match the object schema of the mock service');
+		}
+
+		this.script.add(() => result);
+
+		return this;
+	}
+
+	/**
+	 * Answers a call by throwing the error.
+	 *
+	 * @param {unknown} error - The error
+	 * @returns {this} - The mock
+	 */
+	public willThrow(error: unknown): this
+	{
+		this.script.add(() =>
+		{
+			throw error;
+		});
+
+		return this;
+	}
+
+	/**
+	 * Answers a call with the result of a handler, such as one depending on the payload.
+	 *
+	 * @param {Function} handler - Returns the result of a call
+	 * @returns {this} - The mock
+	 */
+	public willRespond(handler: (payload: TypePayload, context?: TypeExecutionContext) => TypeObject | Promise<TypeObject>): this
+	{
+		this.script.add(handler);
+
+		return this;
+	}
+
+	/**
+	 * Records the call and answers it with the next scripted result.
+	 * Without a scripted result, calls get data generated from the object schema.
+	 *
+	 * @param {TypePayload} payload - The input payload for the service
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeObject>} - The scripted result
+	 * @throws {ValidationError} - When the payload does not match the payload schema
+	 * @throws {Error} - When no result is scripted and there is no object schema
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeObject>
+	{
+		this.script.record(payload, context);
+
+		const parsedPayload = this.options.payloadSchema?.safeParse(payload);
+		if (parsedPayload && !parsedPayload.success)
+		{
+			throw new ValidationError(ValidationMessageHelper.fromZodError(parsedPayload.error));
+		}
+
+		return this.script.run(payload, context);
+	}
+
+	/**
+	 * Returns the calls received so far.
+	 *
+	 * @returns {TypeMockCall<TypePayload>[]} - The calls, oldest first
+	 */
+	public getCalls(): TypeMockCall<TypePayload>[]
+	{
+		return this.script.getCalls();
+	}
+
+	/**
+	 * Returns the number of calls received so far.
+	 *
+	 * @returns {number} - The number of calls
+	 */
+	public getCallCount(): number
+	{
+		return this.script.getCalls().length;
+	}
+
+	/**
+	 * Returns the last call received.
+	 *
+	 * @returns {TypeMockCall<TypePayload> | undefined} - The call, undefined before the first call
+	 */
+	public getLastCall(): TypeMockCall<TypePayload> | undefined
+	{
+		return this.script.getCalls().at(-1);
+	}
+
+	/**
+	 * Checks whether a call was received with a payload equal to the given one.
+	 *
+	 * @param {TypePayload} payload - The payload
+	 * @returns {boolean} - True when such a call was received
+	 */
+	public wasCalledWith(payload: TypePayload): boolean
+	{
+		return this.script.wasCalledWith(payload);
+	}
+
+	/**
+	 * Forgets the scripted results and the calls.
+	 *
+	 * @returns {this} - The mock
+	 */
+	public reset(): this
+	{
+		this.script.reset();
+
+		return this;
+	}
+}
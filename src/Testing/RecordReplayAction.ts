@@ -0,0 +1,182 @@
+import { CachingAction } from '../Action/CachingAction';
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeRecordedResponses } from '../Type/RecordedResponses';
+import { EnumRecordReplayMode } from '../Type/RecordReplayMode';
+import { type TypeRecordReplayOptions } from '../Type/RecordReplayOptions';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * RecordReplayAction records the responses of a real action, such as one calling an external API, and replays them later
+ * so tests run deterministically without the action. Responses are recorded per payload in the order they were received,
+ * repeated calls with the same payload replay them in the same order and the last one once they are used up.
+ * Responses are recorded as JSON, so a response with values JSON does not preserve, such as a Date, Map, Set or BigInt,
+ * fails with INVALID_RESPONSE instead of being replayed differently later.
+ *
+ * @example
+ * // Record once against the real API and store the fixture
+ * const recorder = new RecordReplayAction(new FetchWeatherAction(), { mode: EnumRecordReplayMode.RECORD });
+ * await recorder.execute({ city: 'Paris' });
+ * writeFileSync('weather.json', recorder.toJson());
+ *
+ * // Replay in tests
+ * const action = new RecordReplayAction(new FetchWeatherAction(), { responses: JSON.parse(readFileSync('weather.json', 'utf8')) });
+ */
+export class RecordReplayAction<TypePayload, TypeObject> implements ActionInterface<TypePayload, TypeObject>
+{
+	private readonly mode: EnumRecordReplayMode;
+	private readonly responses: TypeRecordedResponses<TypeObject>;
+	private readonly keyGenerator: (payload: TypePayload) => string;
+	private readonly errorMapper: ErrorMapperInterface;
+
+	private readonly replayedCounts = new Map<string, number>();
+	private readonly recordedKeys = new Set<string>();
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ActionInterface<TypePayload, TypeObject>} action - The action to record
+	 * @param {TypeRecordReplayOptions<TypePayload, TypeObject>} options - The options, such as the mode and the recorded responses
+	 */
+	constructor(
+		private readonly action: ActionInterface<TypePayload, TypeObject>,
+		options: TypeRecordReplayOptions<TypePayload, TypeObject> = {}
+	)
+	{
+		this.mode = options.mode ?? EnumRecordReplayMode.REPLAY;
+		this.responses = { ...options.responses };
+		this.keyGenerator = options.keyGenerator ?? CachingAction.createKey;
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+	}
+
+	/**
+	 * Replays the recorded response of the payload or calls the action and records its response, depending on the mode.
+	 * Replaying a payload without recorded responses fails with NOT_FOUND.
+	 *
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the wrapped action
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The recorded or the actual response
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		const key = this.keyGenerator(payload);
+		const recordedResponses = this.responses[key] ?? [];
+
+		if (this.mode === EnumRecordReplayMode.RECORD || (this.mode === EnumRecordReplayMode.AUTO && recordedResponses.length === 0))
+		{
+			return this.record(key, payload, context);
+		}
+
+		if (recordedResponses.length === 0)
+		{
+			return ResponseHelper.createErrorResponse(EnumErrorCode.NOT_FOUND, `No response is recorded for payload ${key}`);
+		}
+
+		const replayedCount = this.replayedCounts.get(key) ?? 0;
+		this.replayedCounts.set(key, replayedCount + 1);
+
+		return structuredClone(recordedResponses[Math.min(replayedCount, recordedResponses.length - 1)]);
+	}
+
+	/**
+	 * Returns the recorded responses.
+	 *
+	 * @returns {TypeRecordedResponses<TypeObject>} - The responses by payload key
+	 */
+	public getResponses(): TypeRecordedResponses<TypeObject>
+	{
+		return structuredClone(this.responses);
+	}
+
+	/**
+	 * Returns the recorded responses as JSON, ready to be written to a fixture file.
+	 *
+	 * @returns {string} - The JSON
+	 */
+	public toJson(): string
+	{
+		return JSON.stringify(this.responses, null, '\t');
+	}
+
+	/**
+	 * Calls the action and records its response, the causes of messages are left out since they are not serializable.
+	 * A response with values JSON does not preserve is not recorded and fails with INVALID_RESPONSE.
+	 *
+	 * @param {string} key - The payload key
+	 * @param {TypePayload} payload - The input payload for the action
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The response
+	 */
+	private async record(key: string, payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		let response: TypeResponse<TypeObject>;
+		try
+		{
+			response = await this.action.execute(payload, context);
+		}
+		catch (error)
+		{
+			response = ResponseHelper.fromError(error, this.errorMapper);
+		}
+
+		const serializableResponse = {
+			...response,
+			...(response.messages ? { messages: response.messages.map(({ cause: _cause, ...message }) => message) } : {})
+		};
+		const unserializableValue = RecordReplayAction.findUnserializableValue(serializableResponse, 'response');
+		if (unserializableValue)
+		{
+			return ResponseHelper.createErrorResponse(
+				EnumErrorCode.INVALID_RESPONSE,
+				`Response cannot be recorded since ${unserializableValue}, which JSON does not preserve`
+			);
+		}
+
+		const recordedResponse: TypeResponse<TypeObject> = JSON.parse(JSON.stringify(serializableResponse));
+
+		// The first recording of a payload replaces the responses recorded by earlier runs
+		this.responses[key] = this.recordedKeys.has(key) ? [...this.responses[key], recordedResponse] : [recordedResponse];
+		this.recordedKeys.add(key);
+
+		return response;
+	}
+
+	/**
+	 * Finds the first value that JSON does not preserve, such as a Date, Map, Set, BigInt or function.
+	 *
+	 * @param {unknown} value - The value
+	 * @param {string} path - The path of the value
+	 * @returns {string | undefined} - The description of the value, undefined when the whole value is preserved
+	 */
+	private static findUnserializableValue(value: unknown, path: string): string | undefined
+	{
+		if (typeof value === 'bigint' || typeof value === 'function' || typeof value === 'symbol')
+		{
+			return `${path} is a ${typeof value}`;
+		}
+
+		if (typeof value !== 'object' || value === null)
+		{
+			return undefined;
+		}
+
+		if (Array.isArray(value))
+		{
+			return value.map((item, index) => RecordReplayAction.findUnserializableValue(item, `${path}[${index}]`)).find((item) => item !== undefined);
+		}
+
+		const prototype: unknown = Object.getPrototypeOf(value);
+		if (prototype !== Object.prototype && prototype !== null)
+		{
+			return `${path} is a ${value.constructor.name}`;
+		}
+
+		return Object.entries(value)
+			.map(([key, entryValue]) => RecordReplayAction.findUnserializableValue(entryValue, `${path}.${key}`))
+			.find((item) => item !== undefined);
+	}
+}
@@ -1,5 +1,11 @@
 import { ZodSchema, type infer as Infer } from 'zod';
 import { type ToolInterface } from '../Interface/ToolInterface';
+import { type TypeResponse } from '../Type/Response';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
+import { FunctionDefinitionHelper } from '../Helper/FunctionDefinitionHelper';
+import { EnumFunctionDefinitionFormat, type TypeFunctionDefinitionByFormat } from '../Type/FunctionDefinition';
+import { EnumInstrumentationKind } from '../Type/InstrumentationKind';
+import { type TypeInstrumentationTarget } from '../Type/InstrumentationOptions';
 import { ZodSchemaValidatedAction } from '../Action/ZodSchemaValidatedAction';
 import { type ActionInterface } from '../Interface/ActionInterface';
 
@@ -8,7 +14,7 @@ import { type ActionInterface } from '../Interface/ActionInterface';
  */
 export class ActionTool<TypePayloadSchema extends ZodSchema, TypeResponseSchema extends ZodSchema>
 	extends ZodSchemaValidatedAction<TypePayloadSchema, TypeResponseSchema>
-	implements ToolInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>
+	implements ToolInterface<Infer<TypePayloadSchema>, TypeResponse<Infer<TypeResponseSchema>>>
 {
 	public readonly name: string;
 	public readonly description: string;
@@ -22,19 +28,44 @@ export class ActionTool<TypePayloadSchema extends ZodSchema, TypeResponseSchema
 	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
 	 * @param {TypeResponseSchema} responseSchema - The Zod schema for the output data
 	 * @param {ActionInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>} action - The action to wrap
+	 * @param {TypeZodSchemaValidatedOptions} options - The options, such as the mapper of thrown exceptions
 	 */
 	constructor(
 		name: string,
 		description: string,
 		payloadSchema: TypePayloadSchema,
 		responseSchema: TypeResponseSchema,
-		action: ActionInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>
+		action: ActionInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>,
+		options: TypeZodSchemaValidatedOptions = {}
 	)
 	{
-		super(payloadSchema, responseSchema, action);
+		super(payloadSchema, responseSchema, action, options);
 
 		this.name = name;
 		this.description = description;
 		this.parameters = payloadSchema;
 	}
+
+	/**
+	 * Returns the definition a model provider expects to register this tool for function calling.
+	 *
+	 * @param {TypeFormat} format - The provider format, OpenAI by default
+	 * @returns {TypeFunctionDefinitionByFormat[TypeFormat]} - The tool definition
+	 */
+	public toFunctionDefinition<TypeFormat extends EnumFunctionDefinitionFormat = EnumFunctionDefinitionFormat.OPENAI>(
+		format: TypeFormat = EnumFunctionDefinitionFormat.OPENAI as TypeFormat
+	): TypeFunctionDefinitionByFormat[TypeFormat]
+	{
+		return FunctionDefinitionHelper.toFunctionDefinition(this, format);
+	}
+
+	/**
+	 * Reports instrumentation events with the tool name.
+	 *
+	 * @returns {TypeInstrumentationTarget} - The instrumentation target
+	 */
+	protected getInstrumentationTarget(): TypeInstrumentationTarget
+	{
+		return { kind: EnumInstrumentationKind.TOOL, name: this.name };
+	}
 }
@@ -0,0 +1,287 @@
+import { type ZodSchema } from 'zod';
+import { type ApprovalPolicyInterface } from '../Interface/ApprovalPolicyInterface';
+import { type ApprovalStoreInterface } from '../Interface/ApprovalStoreInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type ToolInterface } from '../Interface/ToolInterface';
+import { AlwaysApprovalPolicy } from '../Approval/AlwaysApprovalPolicy';
+import { InMemoryApprovalStore } from '../Approval/InMemoryApprovalStore';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { FunctionDefinitionHelper } from '../Helper/FunctionDefinitionHelper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+import { type TypeApprovalGateOptions } from '../Type/ApprovalGateOptions';
+import { type TypeApprovalTicket } from '../Type/ApprovalTicket';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { EnumFunctionDefinitionFormat, type TypeFunctionDefinitionByFormat } from '../Type/FunctionDefinition';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * ApprovalGateTool holds back calls of a sensitive tool, such as one sending emails or moving money, until a human approves them.
+ * A call requiring approval under the policy is not executed, it fails with APPROVAL_REQUIRED and the ticket in the params of
+ * the message instead. Approving the ticket later executes the tool with the payload, rejecting it discards the call.
+ *
+ * @example
+ * const transferTool = new ApprovalGateTool(new TransferTool(), { policy: new ThresholdApprovalPolicy((payload) => payload.amount, 1000) });
+ *
+ * const response = await transferTool.execute({ amount: 5000, to: 'acc-1' });
+ * const ticket = ApprovalGateTool.getTicket(response);
+ *
+ * await transferTool.approve(ticket.id);
+ */
+export class ApprovalGateTool<TypePayload, TypeObject> implements ToolInterface<TypePayload, TypeResponse<TypeObject>>
+{
+	public readonly name: string;
+	public readonly description: string;
+	public readonly parameters: ZodSchema<TypePayload>;
+
+	private readonly policy: ApprovalPolicyInterface<TypePayload>;
+	private readonly store: ApprovalStoreInterface;
+	private readonly ticketTtl: number;
+	private readonly idGenerator: () => string;
+	private readonly authorizeApprover: (ticket: TypeApprovalTicket<TypePayload>, context?: TypeExecutionContext) => boolean | Promise<boolean>;
+	private readonly errorMapper: ErrorMapperInterface;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ToolInterface<TypePayload, TypeResponse<TypeObject>>} tool - The tool to guard
+	 * @param {TypeApprovalGateOptions<TypePayload>} options - The options, such as the policy and the store of tickets
+	 */
+	constructor(
+		private readonly tool: ToolInterface<TypePayload, TypeResponse<TypeObject>>,
+		options: TypeApprovalGateOptions<TypePayload> = {}
+	)
+	{
+		this.name = tool.name;
+		this.description = tool.description;
+		this.parameters = tool.parameters;
+		this.policy = options.policy ?? new AlwaysApprovalPolicy();
+		this.store = options.store ?? new InMemoryApprovalStore();
+		this.ticketTtl = options.ticketTtl ?? 86400000;
+		this.idGenerator = options.idGenerator ?? ((): string => crypto.randomUUID());
+		this.authorizeApprover = options.authorizeApprover ?? ApprovalGateTool.isOtherThanRequester;
+		this.errorMapper = options.errorMapper ?? new ErrorMapper();
+	}
+
+	/**
+	 * Returns the ticket of a response asking for approval.
+	 *
+	 * @param {TypeResponse<unknown>} response - The response of the tool
+	 * @returns {TypeApprovalTicket<TypePayload> | undefined} - The ticket, undefined when the call did not require approval
+	 */
+	public static getTicket<TypePayload>(response: TypeResponse<unknown>): TypeApprovalTicket<TypePayload> | undefined
+	{
+		const message = (response.messages ?? []).find((message) => message.code === EnumErrorCode.APPROVAL_REQUIRED);
+
+		return message?.params?.['ticket'] as TypeApprovalTicket<TypePayload> | undefined;
+	}
+
+	/**
+	 * Executes the tool unless the call requires approval, in which case a ticket is stored and returned with APPROVAL_REQUIRED.
+	 * The payload is validated for the policy only, the tool and the ticket get the payload as given, since the tool validates
+	 * and transforms it itself.
+	 *
+	 * @param {TypePayload} payload - The input data for the tool
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the policy and the tool
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the tool or the request for approval
+	 */
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		const parsedPayload = this.parameters.safeParse(payload);
+		if (!parsedPayload.success)
+		{
+			return ResponseHelper.createErrorsResponse(ValidationMessageHelper.fromZodError(parsedPayload.error));
+		}
+
+		try
+		{
+			if (!await this.policy.requiresApproval(parsedPayload.data, context))
+			{
+				return await this.tool.execute(payload, context);
+			}
+
+			const ticket = this.createTicket(payload, context);
+			await this.store.save(ticket);
+
+			return {
+				success: false,
+				messages: [{ code: EnumErrorCode.APPROVAL_REQUIRED, text: `Call of tool "${this.name}" is waiting for approval`, params: { ticket } }]
+			};
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+	}
+
+	/**
+	 * Approves a ticket and executes the tool with its payload, a ticket can be approved only once.
+	 * The tool is executed for the caller who requested it, with the user, tenant and request id of the ticket, and the approver
+	 * is passed in the approvedBy attribute of the context.
+	 *
+	 * @param {string} ticketId - The id of the ticket
+	 * @param {TypeExecutionContext} context - The context of the approver, its signal, deadline and locale are passed to the tool
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the tool, NOT_FOUND when the ticket is unknown or expired
+	 * and UNAUTHORIZED when the approver may not decide it
+	 */
+	public async approve(ticketId: string, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		try
+		{
+			const pendingTicket = await this.findTicket(ticketId);
+			if (pendingTicket && !await this.authorizeApprover(pendingTicket, context))
+			{
+				return ResponseHelper.createErrorResponse(EnumErrorCode.UNAUTHORIZED, `Approver may not decide ticket "${ticketId}"`);
+			}
+
+			const ticket = pendingTicket ? await this.takeTicket(ticketId) : undefined;
+			if (!ticket)
+			{
+				return ResponseHelper.createErrorResponse(EnumErrorCode.NOT_FOUND, `Approval ticket "${ticketId}" is not pending`);
+			}
+
+			return await this.tool.execute(ticket.payload, ApprovalGateTool.createApprovedContext(ticket, context));
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+	}
+
+	/**
+	 * Rejects a ticket, the call is discarded without executing the tool.
+	 *
+	 * @param {string} ticketId - The id of the ticket
+	 * @param {TypeExecutionContext} context - The context of the approver
+	 * @returns {Promise<TypeResponse<TypeApprovalTicket<TypePayload>>>} - The discarded ticket, NOT_FOUND when the ticket is unknown or expired
+	 * and UNAUTHORIZED when the approver may not decide it
+	 */
+	public async reject(ticketId: string, context?: TypeExecutionContext): Promise<TypeResponse<TypeApprovalTicket<TypePayload>>>
+	{
+		try
+		{
+			const pendingTicket = await this.findTicket(ticketId);
+			if (pendingTicket && !await this.authorizeApprover(pendingTicket, context))
+			{
+				return ResponseHelper.createErrorResponse(EnumErrorCode.UNAUTHORIZED, `Approver may not decide ticket "${ticketId}"`);
+			}
+
+			const ticket = pendingTicket ? await this.takeTicket(ticketId) : undefined;
+			if (!ticket)
+			{
+				return ResponseHelper.createErrorResponse(EnumErrorCode.NOT_FOUND, `Approval ticket "${ticketId}" is not pending`);
+			}
+
+			return ResponseHelper.createSuccessResponse(ticket);
+		}
+		catch (error)
+		{
+			return ResponseHelper.fromError(error, this.errorMapper);
+		}
+	}
+
+	/**
+	 * Returns the definition a model provider expects to register this tool for function calling.
+	 *
+	 * @param {TypeFormat} format - The provider format, OpenAI by default
+	 * @returns {TypeFunctionDefinitionByFormat[TypeFormat]} - The tool definition
+	 */
+	public toFunctionDefinition<TypeFormat extends EnumFunctionDefinitionFormat = EnumFunctionDefinitionFormat.OPENAI>(
+		format: TypeFormat = EnumFunctionDefinitionFormat.OPENAI as TypeFormat
+	): TypeFunctionDefinitionByFormat[TypeFormat]
+	{
+		return FunctionDefinitionHelper.toFunctionDefinition(this, format);
+	}
+
+	/**
+	 * Checks that the approver is not the caller who requested the ticket, the default authorization of approvers.
+	 *
+	 * @param {TypeApprovalTicket<unknown>} ticket - The ticket
+	 * @param {TypeExecutionContext} context - The context of the approver
+	 * @returns {boolean} - True unless the approver is the requester
+	 */
+	private static isOtherThanRequester(ticket: TypeApprovalTicket<unknown>, context?: TypeExecutionContext): boolean
+	{
+		return ticket.requestedBy?.userId === undefined || ticket.requestedBy.userId !== context?.userId;
+	}
+
+	/**
+	 * Creates the ticket of a call.
+	 *
+	 * @param {TypePayload} payload - The payload as given by the caller
+	 * @param {TypeExecutionContext} context - The context of the call
+	 * @returns {TypeApprovalTicket<TypePayload>} - The ticket
+	 */
+	private createTicket(payload: TypePayload, context?: TypeExecutionContext): TypeApprovalTicket<TypePayload>
+	{
+		const now = Date.now();
+		const requestedBy = Object.fromEntries(
+			Object.entries({ userId: context?.userId, tenantId: context?.tenantId, requestId: context?.requestId })
+				.filter(([, value]) => value !== undefined)
+		);
+
+		return {
+			id: this.idGenerator(),
+			toolName: this.name,
+			payload,
+			...(Object.keys(requestedBy).length > 0 ? { requestedBy } : {}),
+			createdAt: now,
+			expiresAt: now + this.ticketTtl
+		};
+	}
+
+	/**
+	 * Creates the context an approved call is executed with, the one of the caller who requested it.
+	 *
+	 * @param {TypeApprovalTicket<TypePayload>} ticket - The approved ticket
+	 * @param {TypeExecutionContext} context - The context of the approver
+	 * @returns {TypeExecutionContext} - The context of the call
+	 */
+	private static createApprovedContext<TypePayload>(ticket: TypeApprovalTicket<TypePayload>, context?: TypeExecutionContext): TypeExecutionContext
+	{
+		const approvedBy = Object.fromEntries(
+			Object.entries({ userId: context?.userId, tenantId: context?.tenantId, requestId: context?.requestId })
+				.filter(([, value]) => value !== undefined)
+		);
+
+		return {
+			...ticket.requestedBy,
+			locale: context?.locale,
+			deadline: context?.deadline,
+			signal: context?.signal,
+			attributes: { approvedBy }
+		};
+	}
+
+	/**
+	 * Returns a pending ticket of this tool without removing it.
+	 *
+	 * @param {string} ticketId - The id of the ticket
+	 * @returns {Promise<TypeApprovalTicket<TypePayload> | undefined>} - The ticket, undefined when it is unknown, of another tool or expired
+	 */
+	private async findTicket(ticketId: string): Promise<TypeApprovalTicket<TypePayload> | undefined>
+	{
+		const ticket = await this.store.get(ticketId) as TypeApprovalTicket<TypePayload> | undefined;
+
+		return ticket && ticket.toolName === this.name && (ticket.expiresAt === undefined || ticket.expiresAt > Date.now()) ? ticket : undefined;
+	}
+
+	/**
+	 * Removes a pending ticket of this tool from the store, tickets of other tools sharing the store are left in place.
+	 *
+	 * @param {string} ticketId - The id of the ticket
+	 * @returns {Promise<TypeApprovalTicket<TypePayload> | undefined>} - The ticket, undefined when it is unknown, of another tool or expired
+	 */
+	private async takeTicket(ticketId: string): Promise<TypeApprovalTicket<TypePayload> | undefined>
+	{
+		if (!await this.findTicket(ticketId))
+		{
+			return undefined;
+		}
+
+		const ticket = await this.store.take(ticketId) as TypeApprovalTicket<TypePayload> | undefined;
+
+		return ticket && (ticket.expiresAt === undefined || ticket.expiresAt > Date.now()) ? ticket : undefined;
+	}
+}
@@ -0,0 +1,67 @@
+import { type ZodSchema } from 'zod';
+import { type ActionInterface } from '../Interface/ActionInterface';
+import { type ToolInterface } from '../Interface/ToolInterface';
+import { FunctionDefinitionHelper } from '../Helper/FunctionDefinitionHelper';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { EnumFunctionDefinitionFormat, type TypeFunctionDefinitionByFormat } from '../Type/FunctionDefinition';
+import { type TypeResponse } from '../Type/Response';
+
+/**
+ * DecoratedTool applies action decorators, such as RateLimitedAction or ConcurrencyLimitedAction, to a tool while keeping
+ * its name, description and parameters, so the decorated tool can be registered in place of the original one.
+ *
+ * @example
+ * const searchTool = new DecoratedTool(new SearchTool(), (tool) => new RateLimitedAction(tool, limiter, {
+ *     keyGenerator: () => tool.name
+ * }));
+ */
+export class DecoratedTool<TypePayload, TypeObject> implements ToolInterface<TypePayload, TypeResponse<TypeObject>>
+{
+	public readonly name: string;
+	public readonly description: string;
+	public readonly parameters: ZodSchema<TypePayload>;
+
+	private readonly action: ActionInterface<TypePayload, TypeObject>;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ToolInterface<TypePayload, TypeResponse<TypeObject>>} tool - The tool to decorate
+	 * @param {Function} decorate - Wraps the tool, used as an action, in decorators
+	 */
+	constructor(
+		tool: ToolInterface<TypePayload, TypeResponse<TypeObject>>,
+		decorate: (tool: ToolInterface<TypePayload, TypeResponse<TypeObject>>) => ActionInterface<TypePayload, TypeObject>
+	)
+	{
+		this.name = tool.name;
+		this.description = tool.description;
+		this.parameters = tool.parameters;
+		this.action = decorate(tool);
+	}
+
+	/**
+	 * Executes the decorated tool.
+	 *
+	 * @param {TypePayload} payload - The input data for the tool
+	 * @param {TypeExecutionContext} context - The context of the execution
+	 * @returns {Promise<TypeResponse<TypeObject>>} - The result of the tool
+	 */
+	public execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<TypeObject>>
+	{
+		return this.action.execute(payload, context);
+	}
+
+	/**
+	 * Returns the definition a model provider expects to register this tool for function calling.
+	 *
+	 * @param {TypeFormat} format - The provider format, OpenAI by default
+	 * @returns {TypeFunctionDefinitionByFormat[TypeFormat]} - The tool definition
+	 */
+	public toFunctionDefinition<TypeFormat extends EnumFunctionDefinitionFormat = EnumFunctionDefinitionFormat.OPENAI>(
+		format: TypeFormat = EnumFunctionDefinitionFormat.OPENAI as TypeFormat
+	): TypeFunctionDefinitionByFormat[TypeFormat]
+	{
+		return FunctionDefinitionHelper.toFunctionDefinition(this, format);
+	}
+}
@@ -1,14 +1,21 @@
 import { ZodSchema, type infer as Infer } from 'zod';
 import { type ServiceInterface } from '../Interface/ServiceInterface';
 import { type ToolInterface } from '../Interface/ToolInterface';
-import { ZodSchemaValidatedService } from '../Service/ZodSchemaValidatedService';
+import { type TypeResponse } from '../Type/Response';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
+import { FunctionDefinitionHelper } from '../Helper/FunctionDefinitionHelper';
+import { EnumFunctionDefinitionFormat, type TypeFunctionDefinitionByFormat } from '../Type/FunctionDefinition';
+import { EnumInstrumentationKind } from '../Type/InstrumentationKind';
+import { type TypeInstrumentationTarget } from '../Type/InstrumentationOptions';
+import { ZodSchemaValidatedResponseService } from '../Service/ZodSchemaValidatedResponseService';
 
 /**
  * ServiceTool is a specialized class that will use a given service as a tool.
+ * Like ActionTool, it returns the result of the service wrapped in a TypeResponse.
  */
 export class ServiceTool<TypePayloadSchema extends ZodSchema, TypeResponseSchema extends ZodSchema>
-	extends ZodSchemaValidatedService<TypePayloadSchema, TypeResponseSchema>
-	implements ToolInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>
+	extends ZodSchemaValidatedResponseService<TypePayloadSchema, TypeResponseSchema>
+	implements ToolInterface<Infer<TypePayloadSchema>, TypeResponse<Infer<TypeResponseSchema>>>
 {
 	public readonly name: string;
 	public readonly description: string;
@@ -22,19 +29,44 @@ export class ServiceTool<TypePayloadSchema extends ZodSchema, TypeResponseSchema
 	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
 	 * @param {TypeResponseSchema} responseSchema - The Zod schema for the output data
 	 * @param {ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>} service - The service to wrap
+	 * @param {TypeZodSchemaValidatedOptions} options - The options, such as the mapper of thrown exceptions
 	 */
 	constructor(
 		name: string,
 		description: string,
 		payloadSchema: TypePayloadSchema,
 		responseSchema: TypeResponseSchema,
-		service: ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>
+		service: ServiceInterface<Infer<TypePayloadSchema>, Infer<TypeResponseSchema>>,
+		options: TypeZodSchemaValidatedOptions = {}
 	)
 	{
-		super(payloadSchema, responseSchema, service);
+		super(payloadSchema, responseSchema, service, options);
 
 		this.name = name;
 		this.description = description;
 		this.parameters = payloadSchema;
 	}
+
+	/**
+	 * Returns the definition a model provider expects to register this tool for function calling.
+	 *
+	 * @param {TypeFormat} format - The provider format, OpenAI by default
+	 * @returns {TypeFunctionDefinitionByFormat[TypeFormat]} - The tool definition
+	 */
+	public toFunctionDefinition<TypeFormat extends EnumFunctionDefinitionFormat = EnumFunctionDefinitionFormat.OPENAI>(
+		format: TypeFormat = EnumFunctionDefinitionFormat.OPENAI as TypeFormat
+	): TypeFunctionDefinitionByFormat[TypeFormat]
+	{
+		return FunctionDefinitionHelper.toFunctionDefinition(this, format);
+	}
+
+	/**
+	 * Reports instrumentation events with the tool name.
+	 *
+	 * @returns {TypeInstrumentationTarget} - The instrumentation target
+	 */
+	protected getInstrumentationTarget(): TypeInstrumentationTarget
+	{
+		return { kind: EnumInstrumentationKind.TOOL, name: this.name };
+	}
 }
@@ -0,0 +1,45 @@
+import { ZodSchema, type infer as Infer } from 'zod';
+import { ZodSchemaValidatedStreamingAction } from '../Action/ZodSchemaValidatedStreamingAction';
+import { type StreamingActionInterface } from '../Interface/StreamingActionInterface';
+import { type StreamingToolInterface } from '../Interface/StreamingToolInterface';
+import { type TypeZodSchemaValidatedOptions } from '../Type/ZodSchemaValidatedOptions';
+
+/**
+ * StreamingActionTool is a specialized class that will use a given streaming action as a tool.
+ */
+export class StreamingActionTool<TypePayloadSchema extends ZodSchema, TypeChunkSchema extends ZodSchema, TypeResponseSchema extends ZodSchema>
+	extends ZodSchemaValidatedStreamingAction<TypePayloadSchema, TypeChunkSchema, TypeResponseSchema>
+	implements StreamingToolInterface<Infer<TypePayloadSchema>, Infer<TypeChunkSchema>, Infer<TypeResponseSchema>>
+{
+	public readonly name: string;
+	public readonly description: string;
+	public readonly parameters: TypePayloadSchema;
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {string} name - The name of the tool
+	 * @param {string} description - The description of the tool
+	 * @param {TypePayloadSchema} payloadSchema - The Zod schema for the input data
+	 * @param {TypeChunkSchema} chunkSchema - The Zod schema for the partial data
+	 * @param {TypeResponseSchema} responseSchema - The Zod schema for the output data
+	 * @param {StreamingActionInterface<Infer<TypePayloadSchema>, Infer<TypeChunkSchema>, Infer<TypeResponseSchema>>} action - The action to wrap
+	 * @param {Omit<TypeZodSchemaValidatedOptions, 'instrumentation'>} options - The options, such as the mapper of thrown exceptions
+	 */
+	constructor(
+		name: string,
+		description: string,
+		payloadSchema: TypePayloadSchema,
+		chunkSchema: TypeChunkSchema,
+		responseSchema: TypeResponseSchema,
+		action: StreamingActionInterface<Infer<TypePayloadSchema>, Infer<TypeChunkSchema>, Infer<TypeResponseSchema>>,
+		options: Omit<TypeZodSchemaValidatedOptions, 'instrumentation'> = {}
+	)
+	{
+		super(payloadSchema, chunkSchema, responseSchema, action, options);
+
+		this.name = name;
+		this.description = description;
+		this.parameters = payloadSchema;
+	}
+}
@@ -0,0 +1,165 @@
+import { type ToolInterface } from '../Interface/ToolInterface';
+import { FunctionDefinitionHelper } from '../Helper/FunctionDefinitionHelper';
+import { ResponseHelper } from '../Helper/ResponseHelper';
+import { ErrorMapper } from '../Error/ErrorMapper';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { EnumErrorCode } from '../Type/ErrorCode';
+import { type EnumFunctionDefinitionFormat, type TypeFunctionDefinitionByFormat } from '../Type/FunctionDefinition';
+import { type TypeExecutionContext } from '../Type/ExecutionContext';
+import { type TypeResponse } from '../Type/Response';
+import { type TypeToolCall } from '../Type/ToolCall';
+
+/**
+ * ToolRegistry holds a collection of tools and dispatches the tool calls returned by a model to them by name.
+ */
+export class ToolRegistry
+{
+	private static readonly NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+	private readonly tools = new Map<string, ToolInterface<any, any>>();
+
+	/**
+	 * Constructor.
+	 *
+	 * @param {ToolInterface<any, any>[]} tools - The tools to register
+	 * @param {ErrorMapperInterface} errorMapper - Maps exceptions thrown by tools to messages
+	 */
+	constructor(tools: ToolInterface<any, any>[] = [], private readonly errorMapper: ErrorMapperInterface = new ErrorMapper())
+	{
+		tools.forEach((tool) => this.register(tool));
+	}
+
+	/**
+	 * Registers a tool, the name has to be unique and usable as a function name by model providers.
+	 *
+	 * @param {ToolInterface<any, any>} tool - The tool to register
+	 * @returns {this} - The registry
+	 * @throws {Error} - When the name is invalid or already registered
+	 */
+	public register(tool: ToolInterface<any, any>): this
+	{
+		if (!ToolRegistry.NAME_PATTERN.test(tool.name))
+		{
+			throw new Error(`Invalid tool name "${tool.name}", expected 1 to 64 letters, digits, underscores or dashes`);
+		}
+
+		if (this.tools.has(tool.name))
+		{
+			throw new Error(`Tool "${tool.name}" is already registered`);
+		}
+
+		this.tools.set(tool.name, tool);
+
+		return this;
+	}
+
+	/**
+	 * Returns whether a tool with the given name is registered.
+	 *
+	 * @param {string} name - The tool name
+	 * @returns {boolean} - True when the tool is registered
+	 */
+	public has(name: string): boolean
+	{
+		return this.tools.has(name);
+	}
+
+	/**
+	 * Returns the tool with the given name.
+	 *
+	 * @param {string} name - The tool name
+	 * @returns {ToolInterface<any, any> | undefined} - The tool or undefined when it is not registered
+	 */
+	public get(name: string): ToolInterface<any, any> | undefined
+	{
+		return this.tools.get(name);
+	}
+
+	/**
+	 * Returns all registered tools in registration order.
+	 *
+	 * @returns {ToolInterface<any, any>[]} - The tools
+	 */
+	public getAll(): ToolInterface<any, any>[]
+	{
+		return [...this.tools.values()];
+	}
+
+	/**
+	 * Returns the definitions of all registered tools in the given provider format.
+	 *
+	 * @param {TypeFormat} format - The provider format
+	 * @returns {TypeFunctionDefinitionByFormat[TypeFormat][]} - The tool definitions
+	 */
+	public toFunctionDefinitions<TypeFormat extends EnumFunctionDefinitionFormat>(format: TypeFormat): TypeFunctionDefinitionByFormat[TypeFormat][]
+	{
+		return this.getAll().map((tool) => FunctionDefinitionHelper.toFunctionDefinition(tool, format));
+	}
+
+	/**
+	 * Dispatches a tool call to the registered tool and returns its result as a TypeResponse.
+	 * Errors never escape, they are returned as failed responses instead.
+	 *
+	 * @param {TypeToolCall} toolCall - The tool call returned by the model
+	 * @param {TypeExecutionContext} context - The context of the execution, passed to the tool
+	 * @returns {Promise<TypeResponse<unknown>>} - The result of the tool wrapped in a TypeResponse
+	 */
+	public async dispatch(toolCall: TypeToolCall, context?: TypeExecutionContext): Promise<TypeResponse<unknown>>
+	{
+		const tool = this.tools.get(toolCall.name);
+		if (!tool)
+		{
+			return ResponseHelper.createErrorResponse(EnumErrorCode.TOOL_NOT_FOUND, `Tool "${toolCall.name}" is not registered`);
+		}
+
+		let payload: unknown = toolCall.arguments;
+		if (typeof toolCall.arguments === 'string')
+		{
+			try
+			{
+				payload = toolCall.arguments.trim() === '' ? {} : JSON.parse(toolCall.arguments);
+			}
+			catch (error)
+			{
+				return ResponseHelper.createErrorResponse(
+					EnumErrorCode.INVALID_TOOL_ARGUMENTS,
+					`Arguments of tool "${toolCall.name}" are not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+				);
+			}
+		}
+
+		try
+		{
+			return this.normalizeResponse(await tool.execute(payload, context));
+		}
+		catch (error)
+		{
+			return {
+				success: false,
+				messages: [this.errorMapper.map(error)]
+			};
+		}
+	}
+
+	/**
+	 * Converts the result of a tool into a TypeResponse, tools that do not return one are treated as successful.
+	 *
+	 * @param {unknown} result - The result of the tool
+	 * @returns {TypeResponse<unknown>} - The normalized response
+	 */
+	private normalizeResponse(result: unknown): TypeResponse<unknown>
+	{
+		if (typeof result !== 'object' || result === null || typeof (result as TypeResponse<unknown>).success !== 'boolean')
+		{
+			return { success: true, data: result };
+		}
+
+		const response = result as TypeResponse<unknown>;
+
+		return {
+			success: response.success,
+			...(response.messages !== undefined ? { messages: response.messages } : {}),
+			...(response.data !== undefined ? { data: response.data } : {})
+		};
+	}
+}
@@ -0,0 +1,49 @@
+import { type AsyncTransformerInterface } from '../Interface/AsyncTransformerInterface';
+import { type TransformerInterface } from '../Interface/TransformerInterface';
+import { ValidationError } from '../Error/ValidationError';
+import { EnumErrorCode } from '../Type/ErrorCode';
+
+/**
+ * ArrayAsyncTransformer lifts a transformer of single items to arrays of them, transforming the items concurrently
+ * and keeping the length of the array. An item transformed to undefined is an error, like in ArrayTransformer.
+ */
+export class ArrayAsyncTransformer<InputType, OutputType> implements AsyncTransformerInterface<InputType[], OutputType[]>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TransformerInterface<InputType, OutputType> | AsyncTransformerInterface<InputType, OutputType>} transformer - The transformer of single items
+	 */
+	constructor(private readonly transformer: TransformerInterface<InputType, OutputType> | AsyncTransformerInterface<InputType, OutputType>) {}
+
+	/**
+	 * Transforms every item of the input.
+	 *
+	 * @param {InputType[] | undefined} input - input data to be transformed
+	 * @returns {Promise<OutputType[] | undefined>} - transformed data
+	 * @throws {ValidationError} - When an item is transformed to undefined, with the index of the item as the path of the message
+	 */
+	public async transform(input: InputType[] | undefined): Promise<OutputType[] | undefined>
+	{
+		if (input === undefined)
+		{
+			return undefined;
+		}
+
+		const output = await Promise.all(input.map((item) => this.transformer.transform(item)));
+
+		return output.map((item, index) =>
+		{
+			if (item === undefined)
+			{
+				throw new ValidationError([{
+					code: EnumErrorCode.VALIDATION_ERROR,
+					text: `Item at index ${index} was transformed to undefined`,
+					path: [index]
+				}]);
+			}
+
+			return item;
+		});
+	}
+}
@@ -0,0 +1,47 @@
+import { type TransformerInterface } from '../Interface/TransformerInterface';
+import { ValidationError } from '../Error/ValidationError';
+import { EnumErrorCode } from '../Type/ErrorCode';
+
+/**
+ * ArrayTransformer lifts a transformer of single items to arrays of them, keeping the length of the array.
+ * An item transformed to undefined is an error, since leaving it out would shift the items after it.
+ */
+export class ArrayTransformer<InputType, OutputType> implements TransformerInterface<InputType[], OutputType[]>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TransformerInterface<InputType, OutputType>} transformer - The transformer of single items
+	 */
+	constructor(private readonly transformer: TransformerInterface<InputType, OutputType>) {}
+
+	/**
+	 * Transforms every item of the input.
+	 *
+	 * @param {InputType[] | undefined} input - input data to be transformed
+	 * @returns {OutputType[] | undefined} - transformed data
+	 * @throws {ValidationError} - When an item is transformed to undefined, with the index of the item as the path of the message
+	 */
+	public transform(input: InputType[] | undefined): OutputType[] | undefined
+	{
+		if (input === undefined)
+		{
+			return undefined;
+		}
+
+		return input.map((item, index) =>
+		{
+			const output = this.transformer.transform(item);
+			if (output === undefined)
+			{
+				throw new ValidationError([{
+					code: EnumErrorCode.VALIDATION_ERROR,
+					text: `Item at index ${index} was transformed to undefined`,
+					path: [index]
+				}]);
+			}
+
+			return output;
+		});
+	}
+}
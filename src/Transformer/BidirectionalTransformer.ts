@@ -0,0 +1,51 @@
+import { type BidirectionalTransformerInterface } from '../Interface/BidirectionalTransformerInterface';
+import { type TransformerInterface } from '../Interface/TransformerInterface';
+
+/**
+ * BidirectionalTransformer pairs an encoding transformer with the decoding one that reverses it.
+ */
+export class BidirectionalTransformer<InputType, OutputType> implements BidirectionalTransformerInterface<InputType, OutputType>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TransformerInterface<InputType, OutputType>} encoder - The transformer to the other format
+	 * @param {TransformerInterface<OutputType, InputType>} decoder - The transformer back from the other format
+	 */
+	constructor(
+		private readonly encoder: TransformerInterface<InputType, OutputType>,
+		private readonly decoder: TransformerInterface<OutputType, InputType>
+	) {}
+
+	/**
+	 * Transforms input to the other format.
+	 *
+	 * @param {InputType | undefined} input - input data to be transformed
+	 * @returns {OutputType | undefined} - transformed data
+	 */
+	public transform(input: InputType | undefined): OutputType | undefined
+	{
+		return this.encoder.transform(input);
+	}
+
+	/**
+	 * Transforms output of the other format back.
+	 *
+	 * @param {OutputType | undefined} output - output data to be transformed back
+	 * @returns {InputType | undefined} - transformed data
+	 */
+	public reverseTransform(output: OutputType | undefined): InputType | undefined
+	{
+		return this.decoder.transform(output);
+	}
+
+	/**
+	 * Returns the transformer working in the opposite direction.
+	 *
+	 * @returns {BidirectionalTransformer<OutputType, InputType>} - The inverse transformer
+	 */
+	public inverse(): BidirectionalTransformer<OutputType, InputType>
+	{
+		return new BidirectionalTransformer(this.decoder, this.encoder);
+	}
+}
@@ -0,0 +1,30 @@
+import { type AsyncTransformerInterface } from '../Interface/AsyncTransformerInterface';
+import { type TransformerInterface } from '../Interface/TransformerInterface';
+
+/**
+ * ComposedAsyncTransformer passes the output of the first transformer to the second one, either of them may be async.
+ */
+export class ComposedAsyncTransformer<InputType, IntermediateType, OutputType> implements AsyncTransformerInterface<InputType, OutputType>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TransformerInterface<InputType, IntermediateType> | AsyncTransformerInterface<InputType, IntermediateType>} first - The transformer applied first
+	 * @param {TransformerInterface<IntermediateType, OutputType> | AsyncTransformerInterface<IntermediateType, OutputType>} second - The transformer applied next
+	 */
+	constructor(
+		private readonly first: TransformerInterface<InputType, IntermediateType> | AsyncTransformerInterface<InputType, IntermediateType>,
+		private readonly second: TransformerInterface<IntermediateType, OutputType> | AsyncTransformerInterface<IntermediateType, OutputType>
+	) {}
+
+	/**
+	 * Transforms input with both transformers.
+	 *
+	 * @param {InputType | undefined} input - input data to be transformed
+	 * @returns {Promise<OutputType | undefined>} - transformed data
+	 */
+	public async transform(input: InputType | undefined): Promise<OutputType | undefined>
+	{
+		return this.second.transform(await this.first.transform(input));
+	}
+}
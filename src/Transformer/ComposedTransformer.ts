@@ -0,0 +1,29 @@
+import { type TransformerInterface } from '../Interface/TransformerInterface';
+
+/**
+ * ComposedTransformer passes the output of the first transformer to the second one.
+ */
+export class ComposedTransformer<InputType, IntermediateType, OutputType> implements TransformerInterface<InputType, OutputType>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TransformerInterface<InputType, IntermediateType>} first - The transformer applied first
+	 * @param {TransformerInterface<IntermediateType, OutputType>} second - The transformer applied to the output of the first one
+	 */
+	constructor(
+		private readonly first: TransformerInterface<InputType, IntermediateType>,
+		private readonly second: TransformerInterface<IntermediateType, OutputType>
+	) {}
+
+	/**
+	 * Transforms input with both transformers.
+	 *
+	 * @param {InputType | undefined} input - input data to be transformed
+	 * @returns {OutputType | undefined} - transformed data
+	 */
+	public transform(input: InputType | undefined): OutputType | undefined
+	{
+		return this.second.transform(this.first.transform(input));
+	}
+}
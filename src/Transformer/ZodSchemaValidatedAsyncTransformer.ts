@@ -0,0 +1,39 @@
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { type AsyncTransformerInterface } from '../Interface/AsyncTransformerInterface';
+import { ZodSchemaValidatedTransformer } from './ZodSchemaValidatedTransformer';
+
+/**
+ * ZodSchemaValidatedAsyncTransformer validates the input and the output of an async transformer against Zod schemas.
+ * Undefined input and output are passed through without validation.
+ */
+export class ZodSchemaValidatedAsyncTransformer<TypeInputSchema extends ZodSchema, TypeOutputSchema extends ZodSchema>
+implements AsyncTransformerInterface<Infer<TypeInputSchema>, Infer<TypeOutputSchema>>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeInputSchema} inputSchema - The Zod schema for the input data
+	 * @param {TypeOutputSchema} outputSchema - The Zod schema for the output data
+	 * @param {AsyncTransformerInterface<Infer<TypeInputSchema>, Infer<TypeOutputSchema>>} transformer - The transformer to wrap
+	 */
+	constructor(
+		private readonly inputSchema: TypeInputSchema,
+		private readonly outputSchema: TypeOutputSchema,
+		private readonly transformer: AsyncTransformerInterface<Infer<TypeInputSchema>, Infer<TypeOutputSchema>>
+	) {}
+
+	/**
+	 * Transforms the validated input and validates the output.
+	 *
+	 * @param {Infer<TypeInputSchema> | undefined} input - input data to be transformed
+	 * @returns {Promise<Infer<TypeOutputSchema> | undefined>} - transformed data
+	 * @throws {ValidationError} - When the input or the output does not match its schema
+	 */
+	public async transform(input: Infer<TypeInputSchema> | undefined): Promise<Infer<TypeOutputSchema> | undefined>
+	{
+		return ZodSchemaValidatedTransformer.parse(
+			this.outputSchema,
+			await this.transformer.transform(ZodSchemaValidatedTransformer.parse(this.inputSchema, input))
+		);
+	}
+}
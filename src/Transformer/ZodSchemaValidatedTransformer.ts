@@ -0,0 +1,64 @@
+import { type ZodSchema, type infer as Infer } from 'zod';
+import { type TransformerInterface } from '../Interface/TransformerInterface';
+import { ValidationError } from '../Error/ValidationError';
+import { ValidationMessageHelper } from '../Helper/ValidationMessageHelper';
+
+/**
+ * ZodSchemaValidatedTransformer validates the input and the output of a transformer against Zod schemas.
+ * Undefined input and output are passed through without validation.
+ */
+export class ZodSchemaValidatedTransformer<TypeInputSchema extends ZodSchema, TypeOutputSchema extends ZodSchema>
+implements TransformerInterface<Infer<TypeInputSchema>, Infer<TypeOutputSchema>>
+{
+	/**
+	 * Constructor.
+	 *
+	 * @param {TypeInputSchema} inputSchema - The Zod schema for the input data
+	 * @param {TypeOutputSchema} outputSchema - The Zod schema for the output data
+	 * @param {TransformerInterface<Infer<TypeInputSchema>, Infer<TypeOutputSchema>>} transformer - The transformer to wrap
+	 */
+	constructor(
+		private readonly inputSchema: TypeInputSchema,
+		private readonly outputSchema: TypeOutputSchema,
+		private readonly transformer: TransformerInterface<Infer<TypeInputSchema>, Infer<TypeOutputSchema>>
+	) {}
+
+	/**
+	 * Transforms the validated input and validates the output.
+	 *
+	 * @param {Infer<TypeInputSchema> | undefined} input - input data to be transformed
+	 * @returns {Infer<TypeOutputSchema> | undefined} - transformed data
+	 * @throws {ValidationError} - When the input or the output does not match its schema
+	 */
+	public transform(input: Infer<TypeInputSchema> | undefined): Infer<TypeOutputSchema> | undefined
+	{
+		return ZodSchemaValidatedTransformer.parse(
+			this.outputSchema,
+			this.transformer.transform(ZodSchemaValidatedTransformer.parse(this.inputSchema, input))
+		);
+	}
+
+	/**
+	 * Parses data with a schema unless it is undefined.
+	 *
+	 * @param {TypeSchema} schema - The Zod schema
+	 * @param {unknown} data - The data to parse
+	 * @returns {Infer<TypeSchema> | undefined} - The parsed data
+	 * @throws {ValidationError} - When the data does not match the schema
+	 */
+	public static parse<TypeSchema extends ZodSchema>(schema: TypeSchema, data: unknown): Infer<TypeSchema> | undefined
+	{
+		if (data === undefined)
+		{
+			return undefined;
+		}
+
+		const parsed = schema.safeParse(data);
+		if (!parsed.success)
+		{
+			throw new ValidationError(ValidationMessageHelper.fromZodError(parsed.error));
+		}
+
+		return parsed.data;
+	}
+}
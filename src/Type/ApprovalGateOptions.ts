@@ -0,0 +1,38 @@
+import { type ApprovalPolicyInterface } from '../Interface/ApprovalPolicyInterface';
+import { type ApprovalStoreInterface } from '../Interface/ApprovalStoreInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeApprovalTicket } from './ApprovalTicket';
+import { type TypeExecutionContext } from './ExecutionContext';
+
+export interface TypeApprovalGateOptions<TypePayload>
+{
+	/**
+	 * Decides which calls require approval, AlwaysApprovalPolicy by default.
+	 */
+	policy?: ApprovalPolicyInterface<TypePayload>;
+
+	/**
+	 * Keeps the pending tickets, InMemoryApprovalStore by default.
+	 */
+	store?: ApprovalStoreInterface;
+
+	/**
+	 * The time in milliseconds a ticket can be approved for, one day by default.
+	 */
+	ticketTtl?: number;
+
+	/**
+	 * Generates the ids of tickets, random UUIDs by default.
+	 */
+	idGenerator?: () => string;
+
+	/**
+	 * Checks whether the approver of the context may approve or reject a ticket, by default anyone but the user who requested it.
+	 */
+	authorizeApprover?: (ticket: TypeApprovalTicket<TypePayload>, context?: TypeExecutionContext) => boolean | Promise<boolean>;
+
+	/**
+	 * Maps exceptions thrown by the policy or the store to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+}
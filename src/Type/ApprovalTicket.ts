@@ -0,0 +1,25 @@
+/**
+ * A call waiting for approval, it is serializable so it can be stored outside the process and shown to the approver.
+ */
+export interface TypeApprovalTicket<TypePayload>
+{
+	id: string;
+	toolName: string;
+
+	/**
+	 * The payload as given by the caller, the tool validates it when it is executed once approved.
+	 */
+	payload: TypePayload;
+
+	/**
+	 * The caller who made the call, taken from the execution context.
+	 */
+	requestedBy?: {
+		userId?: string;
+		tenantId?: string;
+		requestId?: string;
+	};
+
+	createdAt: number;
+	expiresAt?: number;
+}
@@ -0,0 +1,9 @@
+/**
+ * A cached value with the times, in epoch milliseconds, until which it is fresh and until which it may still be served stale.
+ */
+export interface TypeCacheEntry<TypeValue>
+{
+	value: TypeValue;
+	freshUntil: number;
+	staleUntil: number;
+}
@@ -0,0 +1,38 @@
+import { type CacheInterface } from '../Interface/CacheInterface';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeExecutionContext } from './ExecutionContext';
+import { type TypeResponse } from './Response';
+
+export interface TypeCachingOptions<TypePayload, TypeObject>
+{
+	/**
+	 * Stores the responses, an InMemoryCache with up to 1000 entries by default.
+	 */
+	cache?: CacheInterface<TypeResponse<TypeObject>>;
+
+	/**
+	 * The time in milliseconds a response is fresh, 60000 by default.
+	 */
+	ttl?: number;
+
+	/**
+	 * The time in milliseconds after the ttl during which a stale response is returned while it is refreshed in the background, 0 by default.
+	 */
+	staleWhileRevalidate?: number;
+
+	/**
+	 * Derives the cache key from the payload and the execution context, by default the key of the tenant, the user and the payload
+	 * created with CachingAction.createKey, so that responses are never shared across tenants or users.
+	 */
+	keyGenerator?: (payload: TypePayload, context?: TypeExecutionContext) => string;
+
+	/**
+	 * Whether failed responses are cached too, false by default.
+	 */
+	cacheFailures?: boolean;
+
+	/**
+	 * Maps exceptions thrown by the action to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+}
@@ -0,0 +1,25 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeResponse } from './Response';
+
+export interface TypeCircuitBreakerOptions<TypeObject>
+{
+	/**
+	 * The number of consecutive failures that opens the circuit, 5 by default.
+	 */
+	failureThreshold?: number;
+
+	/**
+	 * The time in milliseconds the circuit stays open before a trial call is let through, 30000 by default.
+	 */
+	resetTimeout?: number;
+
+	/**
+	 * Decides whether a response counts as a failure, by default responses with EXECUTION_ERROR, TIMEOUT or RATE_LIMITED messages do.
+	 */
+	isFailure?: (response: TypeResponse<TypeObject>) => boolean;
+
+	/**
+	 * Maps exceptions thrown by the action to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+}
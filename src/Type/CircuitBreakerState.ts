@@ -0,0 +1,6 @@
+export enum EnumCircuitBreakerState
+{
+	CLOSED = 'closed',
+	OPEN = 'open',
+	HALF_OPEN = 'half-open',
+}
@@ -0,0 +1,36 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeExecutionContext } from './ExecutionContext';
+
+export interface TypeConcurrencyLimitOptions<TypePayload>
+{
+	/**
+	 * The number of calls executed at once per key, 10 by default.
+	 */
+	maxConcurrency?: number;
+
+	/**
+	 * The number of calls waiting per key, calls beyond it are rejected right away, 100 by default.
+	 */
+	maxQueueSize?: number;
+
+	/**
+	 * The maximum time in milliseconds a call waits in the queue, unlimited by default. The deadline of the context also ends the wait.
+	 */
+	queueTimeout?: number;
+
+	/**
+	 * The retry-after hint in milliseconds of rejected calls, 1000 by default.
+	 */
+	retryAfter?: number;
+
+	/**
+	 * Derives the key the limit is tracked for, one limit shared by all calls by default.
+	 * Return the name of a tool to limit it separately, or the user or tenant of the context to limit every caller separately.
+	 */
+	keyGenerator?: (payload: TypePayload, context?: TypeExecutionContext) => string;
+
+	/**
+	 * Maps exceptions thrown by the action to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+}
@@ -0,0 +1,42 @@
+import { type ZodSchema } from 'zod';
+import { type TypeExecutionContext } from './ExecutionContext';
+import { type TypeFakeDataOptions } from './FakeDataOptions';
+
+export interface TypeContractCheckOptions<TypePayload, TypeObject>
+{
+	/**
+	 * The schema payloads are generated from, calls are made with the given payloads only without it.
+	 */
+	payloadSchema?: ZodSchema<TypePayload>;
+
+	/**
+	 * The schema the data of successful responses has to match.
+	 */
+	objectSchema?: ZodSchema<TypeObject>;
+
+	/**
+	 * The number of payloads generated from the payload schema, 50 by default.
+	 */
+	runs?: number;
+
+	/**
+	 * Payloads called with in addition to the generated ones, such as edge cases found before.
+	 */
+	payloads?: TypePayload[];
+
+	/**
+	 * Whether calls are also made with malformed payloads, such as null or an empty object, which have to be answered
+	 * with failed responses rather than exceptions, false by default.
+	 */
+	includeMalformedPayloads?: boolean;
+
+	/**
+	 * The options of the generator of payloads, such as the seed.
+	 */
+	fakeData?: TypeFakeDataOptions;
+
+	/**
+	 * The context the calls are made with.
+	 */
+	context?: TypeExecutionContext;
+}
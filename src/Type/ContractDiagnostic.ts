@@ -0,0 +1,28 @@
+import { type EnumContractViolation } from './ContractViolation';
+
+/**
+ * A violation of the TypeResponse contract, with the call that caused it.
+ */
+export interface TypeContractDiagnostic
+{
+	violation: EnumContractViolation;
+	message: string;
+	payload?: unknown;
+	response?: unknown;
+	error?: unknown;
+}
+
+/**
+ * The outcome of a conformance check.
+ */
+export interface TypeContractReport
+{
+	isConformant: boolean;
+
+	/**
+	 * The number of calls made.
+	 */
+	runs: number;
+
+	diagnostics: TypeContractDiagnostic[];
+}
@@ -0,0 +1,32 @@
+export enum EnumContractViolation
+{
+	/**
+	 * The value returned is not a TypeResponse.
+	 */
+	INVALID_RESPONSE_SHAPE = 'INVALID_RESPONSE_SHAPE',
+
+	/**
+	 * A successful response has a message of error severity or without a severity.
+	 */
+	SUCCESS_WITH_ERROR_MESSAGE = 'SUCCESS_WITH_ERROR_MESSAGE',
+
+	/**
+	 * A successful response has data that does not match the object schema.
+	 */
+	INVALID_DATA = 'INVALID_DATA',
+
+	/**
+	 * A failed response has data.
+	 */
+	FAILURE_WITH_DATA = 'FAILURE_WITH_DATA',
+
+	/**
+	 * A failed response has no message explaining the failure.
+	 */
+	FAILURE_WITHOUT_MESSAGES = 'FAILURE_WITHOUT_MESSAGES',
+
+	/**
+	 * An exception was thrown instead of a failed response being returned.
+	 */
+	THROWN_EXCEPTION = 'THROWN_EXCEPTION'
+}
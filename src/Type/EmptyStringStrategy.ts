@@ -0,0 +1,9 @@
+/**
+ * What empty strings of optional and nullable fields are normalized to.
+ */
+export enum EnumEmptyStringStrategy
+{
+	UNDEFINED = 'undefined',
+	NULL = 'null',
+	PRESERVE = 'preserve',
+}
@@ -1,4 +1,24 @@
 export enum EnumErrorCode
 {
 	VALIDATION_ERROR = 'VALIDATION_ERROR',
+	EXECUTION_ERROR = 'EXECUTION_ERROR',
+	TIMEOUT = 'TIMEOUT',
+	NOT_FOUND = 'NOT_FOUND',
+	UNAUTHORIZED = 'UNAUTHORIZED',
+	RATE_LIMITED = 'RATE_LIMITED',
+	CIRCUIT_OPEN = 'CIRCUIT_OPEN',
+	TOOL_NOT_FOUND = 'TOOL_NOT_FOUND',
+	INVALID_TOOL_ARGUMENTS = 'INVALID_TOOL_ARGUMENTS',
+	INVALID_RESPONSE = 'INVALID_RESPONSE',
+	APPROVAL_REQUIRED = 'APPROVAL_REQUIRED',
+	CONTRACT_VIOLATION = 'CONTRACT_VIOLATION',
 }
+
+/**
+ * Codes of failures that may succeed when the same call is made again later.
+ */
+export const transientErrorCodes: string[] = [
+	EnumErrorCode.EXECUTION_ERROR,
+	EnumErrorCode.TIMEOUT,
+	EnumErrorCode.RATE_LIMITED
+];
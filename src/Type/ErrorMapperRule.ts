@@ -0,0 +1,9 @@
+/**
+ * Maps exceptions of a class to an error code.
+ */
+export interface TypeErrorMapperRule
+{
+	errorClass: new (...args: any[]) => Error;
+	code: string;
+	text?: (error: Error) => string;
+}
@@ -0,0 +1,40 @@
+/**
+ * Context of an execution passed through nested services, actions and tools next to the payload.
+ */
+export interface TypeExecutionContext
+{
+	/**
+	 * The identifier of the request the execution belongs to, for correlating logs.
+	 */
+	requestId?: string;
+
+	/**
+	 * The tenant the execution is made for.
+	 */
+	tenantId?: string;
+
+	/**
+	 * The identity of the user the execution is made for.
+	 */
+	userId?: string;
+
+	/**
+	 * The locale of the user, for example en-US.
+	 */
+	locale?: string;
+
+	/**
+	 * The time in milliseconds since the epoch by which the execution has to complete.
+	 */
+	deadline?: number;
+
+	/**
+	 * The signal aborted when the result is no longer needed.
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Application specific values.
+	 */
+	attributes?: Record<string, unknown>;
+}
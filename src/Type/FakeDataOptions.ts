@@ -0,0 +1,17 @@
+export interface TypeFakeDataOptions
+{
+	/**
+	 * The seed of the random generator, the same seed generates the same data, 1 by default.
+	 */
+	seed?: number;
+
+	/**
+	 * Whether optional fields are generated, true by default.
+	 */
+	includeOptional?: boolean;
+
+	/**
+	 * The depth after which optional fields and arrays of recursive schemas are left empty, 5 by default.
+	 */
+	maxDepth?: number;
+}
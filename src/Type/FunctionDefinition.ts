@@ -0,0 +1,43 @@
+import { type TypeJsonSchema } from './JsonSchema';
+
+/**
+ * Tool definition formats understood by the model providers.
+ */
+export enum EnumFunctionDefinitionFormat
+{
+	OPENAI = 'openai',
+	ANTHROPIC = 'anthropic',
+	MCP = 'mcp',
+}
+
+export interface TypeOpenAiFunctionDefinition
+{
+	type: 'function';
+	function: {
+		name: string;
+		description: string;
+		parameters: TypeJsonSchema;
+	};
+}
+
+export interface TypeAnthropicToolDefinition
+{
+	name: string;
+	description: string;
+	// eslint-disable-next-line @typescript-eslint/naming-convention -- field name is defined by the Anthropic API
+	input_schema: TypeJsonSchema;
+}
+
+export interface TypeMcpToolDefinition
+{
+	name: string;
+	description: string;
+	inputSchema: TypeJsonSchema;
+}
+
+export interface TypeFunctionDefinitionByFormat
+{
+	[EnumFunctionDefinitionFormat.OPENAI]: TypeOpenAiFunctionDefinition;
+	[EnumFunctionDefinitionFormat.ANTHROPIC]: TypeAnthropicToolDefinition;
+	[EnumFunctionDefinitionFormat.MCP]: TypeMcpToolDefinition;
+}
@@ -0,0 +1,27 @@
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+
+/**
+ * Options of HttpActionClient.
+ */
+export interface TypeHttpActionClientOptions
+{
+	/**
+	 * HTTP method, POST by default. Payloads of GET and DELETE requests are sent as query parameters.
+	 */
+	method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+	/**
+	 * Headers sent with every request, such as authorization.
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * The fetch implementation, the global fetch by default.
+	 */
+	fetch?: typeof fetch;
+
+	/**
+	 * Renders the texts of the messages created by the client, such as of invalid payloads, in the locale of the execution context.
+	 */
+	messageFormatter?: MessageFormatterInterface;
+}
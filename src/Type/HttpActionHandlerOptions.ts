@@ -0,0 +1,40 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+import { type TypeExecutionContext } from './ExecutionContext';
+import { type TypeNormalizationOptions } from './NormalizationOptions';
+
+/**
+ * Options of HttpActionHandler.
+ */
+export interface TypeHttpActionHandlerOptions
+{
+	/**
+	 * HTTP statuses of failed responses by message code, merged over the defaults such as 422 for VALIDATION_ERROR.
+	 */
+	statusCodes?: Record<string, number>;
+
+	/**
+	 * HTTP status of successful responses, 200 by default.
+	 */
+	successStatus?: number;
+
+	/**
+	 * Creates the context of the action from the request, for example with the user authenticated by a token lookup.
+	 */
+	contextFactory?: (request: Request) => TypeExecutionContext | undefined | Promise<TypeExecutionContext | undefined>;
+
+	/**
+	 * Maps exceptions thrown by the action to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+
+	/**
+	 * Rules for normalizing the payload, numeric and boolean strings of form and query input are converted to numbers and booleans by default.
+	 */
+	normalization?: TypeNormalizationOptions;
+
+	/**
+	 * Renders the texts of validation messages in the locale of the context, the Zod message with the path by default.
+	 */
+	messageFormatter?: MessageFormatterInterface;
+}
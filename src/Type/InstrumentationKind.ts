@@ -0,0 +1,9 @@
+/**
+ * The kind of operation an instrumentation event describes.
+ */
+export enum EnumInstrumentationKind
+{
+	ACTION = 'action',
+	SERVICE = 'service',
+	TOOL = 'tool',
+}
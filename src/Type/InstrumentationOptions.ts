@@ -0,0 +1,47 @@
+import { type LoggerInterface } from '../Interface/LoggerInterface';
+import { type MetricsInterface } from '../Interface/MetricsInterface';
+import { type TracerInterface } from '../Interface/TracerInterface';
+import { type EnumInstrumentationKind } from './InstrumentationKind';
+import { type TypeRedactionOptions } from './RedactionOptions';
+
+/**
+ * The operation being instrumented.
+ */
+export interface TypeInstrumentationTarget
+{
+	kind: EnumInstrumentationKind;
+	name: string;
+}
+
+export interface TypeInstrumentationOptions
+{
+	/**
+	 * The name events are reported with, by default the tool name or the class name of the wrapped action or service.
+	 */
+	name?: string;
+
+	/**
+	 * Receives the start and end records.
+	 */
+	logger?: LoggerInterface;
+
+	/**
+	 * Receives the call count, duration and validation failure metrics.
+	 */
+	metrics?: MetricsInterface;
+
+	/**
+	 * Starts a span around every call, such as an OpenTelemetry tracer.
+	 */
+	tracer?: TracerInterface;
+
+	/**
+	 * Whether the payload is added to the start record after redaction, false by default.
+	 */
+	logPayload?: boolean;
+
+	/**
+	 * Rules for redacting secrets and personal data from the logged payload.
+	 */
+	redaction?: TypeRedactionOptions;
+}
@@ -0,0 +1,39 @@
+/**
+ * Standard JSON-RPC 2.0 error codes.
+ */
+export enum EnumJsonRpcErrorCode
+{
+	PARSE_ERROR = -32700,
+	INVALID_REQUEST = -32600,
+	METHOD_NOT_FOUND = -32601,
+	INVALID_PARAMS = -32602,
+	INTERNAL_ERROR = -32603,
+}
+
+export type TypeJsonRpcId = string | number;
+
+/**
+ * A JSON-RPC request, requests without an id are notifications and get no response.
+ */
+export interface TypeJsonRpcRequest
+{
+	jsonrpc: '2.0';
+	id?: TypeJsonRpcId;
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+export interface TypeJsonRpcError
+{
+	code: number;
+	message: string;
+	data?: unknown;
+}
+
+export interface TypeJsonRpcResponse
+{
+	jsonrpc: '2.0';
+	id: TypeJsonRpcId | null;
+	result?: unknown;
+	error?: TypeJsonRpcError;
+}
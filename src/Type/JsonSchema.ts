@@ -0,0 +1,31 @@
+/**
+ * Dialect a JSON Schema is produced for.
+ */
+export enum EnumJsonSchemaTarget
+{
+	DRAFT_2020_12 = 'draft-2020-12',
+	OPENAPI_3_1 = 'openapi-3.1',
+}
+
+/**
+ * A JSON Schema document, keywords that are not listed explicitly (such as $schema) are available through the index signature.
+ */
+export interface TypeJsonSchema
+{
+	[keyword: string]: unknown;
+	type?: string | string[];
+	description?: string;
+	default?: unknown;
+	const?: unknown;
+	enum?: unknown[];
+	format?: string;
+	pattern?: string;
+	properties?: Record<string, TypeJsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean | TypeJsonSchema;
+	items?: boolean | TypeJsonSchema;
+	prefixItems?: TypeJsonSchema[];
+	anyOf?: TypeJsonSchema[];
+	allOf?: TypeJsonSchema[];
+	not?: TypeJsonSchema;
+}
@@ -0,0 +1,17 @@
+export enum EnumLifetime
+{
+	/**
+	 * One instance for the container and all of its scopes.
+	 */
+	SINGLETON = 'singleton',
+
+	/**
+	 * One instance per scope, such as per request.
+	 */
+	SCOPED = 'scoped',
+
+	/**
+	 * A new instance every time it is resolved.
+	 */
+	TRANSIENT = 'transient'
+}
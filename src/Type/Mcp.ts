@@ -0,0 +1,52 @@
+import { type TypeMcpToolDefinition } from './FunctionDefinition';
+
+/**
+ * Name and version a MCP server reports to clients on initialization.
+ */
+export interface TypeMcpServerInfo
+{
+	name: string;
+	version: string;
+}
+
+export interface TypeMcpTextContent
+{
+	type: 'text';
+	text: string;
+}
+
+/**
+ * The result of the MCP initialize request.
+ */
+export interface TypeMcpInitializeResult
+{
+	protocolVersion: string;
+	capabilities: Record<string, unknown>;
+	serverInfo: TypeMcpServerInfo;
+}
+
+/**
+ * The result of the MCP tools/list request.
+ */
+export interface TypeMcpListToolsResult
+{
+	tools: TypeMcpToolDefinition[];
+}
+
+/**
+ * The result of the MCP tools/call request, failed tool responses are reported with isError rather than as protocol errors.
+ */
+export interface TypeMcpCallToolResult
+{
+	content: TypeMcpTextContent[];
+	structuredContent?: Record<string, unknown>;
+	isError: boolean;
+}
+
+/**
+ * The writable side of a stdio transport, such as process.stdout.
+ */
+export interface TypeMcpStdioOutput
+{
+	write(chunk: string): unknown;
+}
@@ -0,0 +1,12 @@
+/**
+ * Options of McpHttpTransport.
+ */
+export interface TypeMcpHttpTransportOptions
+{
+	/**
+	 * Origins browsers may send requests from, such as https://app.example.com, which protects local servers from DNS rebinding.
+	 * Requests with an Origin header not in the list are answered with 403, only the origin of the server itself is allowed by default.
+	 * Requests without an Origin header, such as from non-browser clients, are always allowed.
+	 */
+	allowedOrigins?: string[];
+}
@@ -0,0 +1,38 @@
+/**
+ * The template of a message text, placeholders such as {label} or {minimum} are replaced with the values of the message.
+ * Functions receive the values and return the text, such as for plurals.
+ */
+export type TypeMessageTemplate = string | ((values: Record<string, unknown>) => string);
+
+/**
+ * The texts of a locale.
+ */
+export interface TypeMessageCatalog
+{
+	/**
+	 * Templates by Zod issue code, such as too_small, optionally narrowed by its type, such as too_small.string, or by message code,
+	 * such as NOT_FOUND.
+	 */
+	messages?: Record<string, TypeMessageTemplate>;
+
+	/**
+	 * Translated field labels by the label from the schema description or by the dot separated path.
+	 */
+	labels?: Record<string, string>;
+}
+
+/**
+ * What a message is formatted for.
+ */
+export interface TypeMessageFormatContext
+{
+	/**
+	 * The locale of the text, for example de-CH, the default locale of the formatter when not given.
+	 */
+	locale?: string;
+
+	/**
+	 * The label of the field the message is about, from the description of its schema.
+	 */
+	label?: string;
+}
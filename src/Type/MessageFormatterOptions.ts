@@ -0,0 +1,17 @@
+import { type TypeMessageCatalog } from './MessageCatalog';
+
+/**
+ * Options of MessageFormatter.
+ */
+export interface TypeMessageFormatterOptions
+{
+	/**
+	 * Catalogs by locale, such as en or de-CH. Locales with a region fall back to the catalog of their language.
+	 */
+	catalogs?: Record<string, TypeMessageCatalog>;
+
+	/**
+	 * The locale used when a call has none, en by default.
+	 */
+	defaultLocale?: string;
+}
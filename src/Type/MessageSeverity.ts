@@ -0,0 +1,6 @@
+export enum EnumMessageSeverity
+{
+	ERROR = 'error',
+	WARNING = 'warning',
+	INFO = 'info',
+}
@@ -0,0 +1,23 @@
+import { type TypeExecutionContext } from './ExecutionContext';
+import { type TypeResponse } from './Response';
+
+/**
+ * Continues the pipeline with the given payload and resolves with the response of the rest of it.
+ */
+export type TypeNextHandler<TypePayload, TypeObject> = (payload: TypePayload) => Promise<TypeResponse<TypeObject>>;
+
+/**
+ * Result of a before hook: nothing to continue unchanged, a replaced payload to continue with, or a response to short-circuit with.
+ */
+export type TypeBeforeHookResult<TypePayload, TypeObject> = void | { payload: TypePayload } | { response: TypeResponse<TypeObject> };
+
+export type TypeBeforeHook<TypePayload, TypeObject> = (
+	payload: TypePayload,
+	context?: TypeExecutionContext
+) => TypeBeforeHookResult<TypePayload, TypeObject> | Promise<TypeBeforeHookResult<TypePayload, TypeObject>>;
+
+export type TypeAfterHook<TypePayload, TypeObject> = (
+	response: TypeResponse<TypeObject>,
+	payload: TypePayload,
+	context?: TypeExecutionContext
+) => TypeResponse<TypeObject> | Promise<TypeResponse<TypeObject>>;
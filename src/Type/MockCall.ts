@@ -0,0 +1,10 @@
+import { type TypeExecutionContext } from './ExecutionContext';
+
+/**
+ * A call received by a mock.
+ */
+export interface TypeMockCall<TypePayload>
+{
+	payload: TypePayload;
+	context?: TypeExecutionContext;
+}
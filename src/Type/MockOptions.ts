@@ -0,0 +1,20 @@
+import { type ZodSchema } from 'zod';
+import { type TypeFakeDataOptions } from './FakeDataOptions';
+
+export interface TypeMockOptions<TypePayload, TypeObject>
+{
+	/**
+	 * Calls with a payload failing the schema are answered with VALIDATION_ERROR, as the validated wrappers do.
+	 */
+	payloadSchema?: ZodSchema<TypePayload>;
+
+	/**
+	 * Scripted data is checked against the schema, and calls without a scripted result get data generated from it.
+	 */
+	objectSchema?: ZodSchema<TypeObject>;
+
+	/**
+	 * The options of the generator of data, such as the seed.
+	 */
+	fakeData?: TypeFakeDataOptions;
+}
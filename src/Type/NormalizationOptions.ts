@@ -0,0 +1,30 @@
+import { type EnumEmptyStringStrategy } from './EmptyStringStrategy';
+
+export interface TypeNormalizationOptions
+{
+	/**
+	 * What empty strings of optional and nullable fields become, undefined by default.
+	 * With NULL, fields that are nullable become null and fields that are only optional become undefined.
+	 */
+	emptyString?: EnumEmptyStringStrategy;
+
+	/**
+	 * Whether to trim whitespace of strings, false by default.
+	 */
+	trim?: boolean;
+
+	/**
+	 * Whether to convert numeric strings such as "123" to numbers for number fields, false by default.
+	 */
+	coerceNumbers?: boolean;
+
+	/**
+	 * Whether to convert the strings "true" and "false" to booleans for boolean fields, false by default.
+	 */
+	coerceBooleans?: boolean;
+
+	/**
+	 * Whether to drop empty arrays of optional fields, false by default.
+	 */
+	dropEmptyArrays?: boolean;
+}
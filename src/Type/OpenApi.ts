@@ -0,0 +1,72 @@
+import { type ZodTypeAny } from 'zod';
+import { type TypeJsonSchema } from './JsonSchema';
+
+/**
+ * Information about the API described by an OpenAPI document.
+ */
+export interface TypeOpenApiInfo
+{
+	title: string;
+	version: string;
+	description?: string;
+}
+
+/**
+ * How an operation is exposed, by default as POST /{name}.
+ */
+export interface TypeOpenApiOperationOptions
+{
+	path?: string;
+	method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+	summary?: string;
+	description?: string;
+	tags?: string[];
+}
+
+/**
+ * An operation of an OpenAPI document, described by the schemas of its payload and of the data of its response.
+ * The data is wrapped in the TypeResponse envelope unless isRawResponse is set, as for services that answer with the data itself.
+ */
+export interface TypeOpenApiOperationDefinition extends TypeOpenApiOperationOptions
+{
+	name: string;
+	payloadSchema: ZodTypeAny;
+	objectSchema: ZodTypeAny;
+	isRawResponse?: boolean;
+}
+
+export interface TypeOpenApiMediaType
+{
+	schema: TypeJsonSchema;
+}
+
+export interface TypeOpenApiParameter
+{
+	name: string;
+	in: 'query';
+	required: boolean;
+	description?: string;
+	schema: TypeJsonSchema;
+}
+
+export interface TypeOpenApiOperation
+{
+	operationId: string;
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	parameters?: TypeOpenApiParameter[];
+	requestBody?: { required: boolean; content: Record<string, TypeOpenApiMediaType> };
+	responses: Record<string, { description: string; content: Record<string, TypeOpenApiMediaType> }>;
+}
+
+/**
+ * An OpenAPI 3.1 document.
+ */
+export interface TypeOpenApiDocument
+{
+	openapi: '3.1.0';
+	info: TypeOpenApiInfo;
+	paths: Record<string, Record<string, TypeOpenApiOperation>>;
+	components: { schemas: Record<string, TypeJsonSchema> };
+}
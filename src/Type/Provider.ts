@@ -0,0 +1,19 @@
+import { type Container } from '../Container/Container';
+import { type EnumLifetime } from './Lifetime';
+
+export interface TypeProviderOptions
+{
+	/**
+	 * How long a resolved instance is reused, SINGLETON by default.
+	 */
+	lifetime?: EnumLifetime;
+}
+
+export interface TypeProvider<TypeValue>
+{
+	/**
+	 * Creates the instance, dependencies are resolved from the given container.
+	 */
+	factory: (container: Container) => TypeValue;
+	lifetime: EnumLifetime;
+}
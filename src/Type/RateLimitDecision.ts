@@ -0,0 +1,8 @@
+/**
+ * The decision of a rate limiter, retryAfter is the time in milliseconds until a rejected call may be allowed.
+ */
+export interface TypeRateLimitDecision
+{
+	isAllowed: boolean;
+	retryAfter: number;
+}
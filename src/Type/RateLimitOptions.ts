@@ -0,0 +1,16 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeExecutionContext } from './ExecutionContext';
+
+export interface TypeRateLimitOptions<TypePayload>
+{
+	/**
+	 * Derives the key the limit is tracked for, one limit shared by all calls by default.
+	 * Return the name of a tool to limit it separately, or the user or tenant of the context to limit every caller separately.
+	 */
+	keyGenerator?: (payload: TypePayload, context?: TypeExecutionContext) => string;
+
+	/**
+	 * Maps exceptions thrown by the action or the limiter to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+}
@@ -0,0 +1,17 @@
+export enum EnumRecordReplayMode
+{
+	/**
+	 * Calls the action and records its responses, replacing the responses recorded before for the same payloads.
+	 */
+	RECORD = 'record',
+
+	/**
+	 * Answers from the recorded responses only and never calls the action.
+	 */
+	REPLAY = 'replay',
+
+	/**
+	 * Answers from the recorded responses and calls the action to record the payloads missing from them.
+	 */
+	AUTO = 'auto'
+}
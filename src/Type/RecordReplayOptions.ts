@@ -0,0 +1,26 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeRecordedResponses } from './RecordedResponses';
+import { type EnumRecordReplayMode } from './RecordReplayMode';
+
+export interface TypeRecordReplayOptions<TypePayload, TypeObject>
+{
+	/**
+	 * Whether the action is called or the recorded responses are replayed, REPLAY by default.
+	 */
+	mode?: EnumRecordReplayMode;
+
+	/**
+	 * The responses recorded before, such as loaded from a JSON fixture.
+	 */
+	responses?: TypeRecordedResponses<TypeObject>;
+
+	/**
+	 * Derives the key responses are recorded under, the JSON of the payload with sorted object keys by default.
+	 */
+	keyGenerator?: (payload: TypePayload) => string;
+
+	/**
+	 * Maps exceptions thrown by the action to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+}
@@ -0,0 +1,6 @@
+import { type TypeResponse } from './Response';
+
+/**
+ * Responses recorded by RecordReplayAction, by payload key in the order they were received, ready to be stored as a JSON fixture.
+ */
+export type TypeRecordedResponses<TypeObject> = Record<string, TypeResponse<TypeObject>[]>;
@@ -0,0 +1,13 @@
+export interface TypeRedactionOptions
+{
+	/**
+	 * Keys whose values are redacted in addition to the default ones such as password, token, apiKey or authorization.
+	 * Strings match keys containing them, ignoring case and separators, regular expressions are tested against the key.
+	 */
+	keys?: (string | RegExp)[];
+
+	/**
+	 * The value redacted values are replaced with, "[REDACTED]" by default.
+	 */
+	replacement?: string;
+}
@@ -1,19 +1,43 @@
-import { z } from 'zod';
-import { ZodSchema } from 'zod';
+import { z, type ZodArray, type ZodBoolean, type ZodObject, type ZodOptional, type ZodSchema } from 'zod';
+import { EnumMessageSeverity } from './MessageSeverity';
 
+/**
+ * The schema of a message as it is serialized, without the cause of the message, which stays in process.
+ */
 export const messageSchema = z.object({
 	code: z.string(),
-	text: z.string()
+	text: z.string(),
+	path: z.array(z.union([z.string(), z.number()])).optional(),
+	issueCode: z.string().optional(),
+	expected: z.string().optional(),
+	received: z.string().optional(),
+	params: z.record(z.unknown()).optional(),
+	severity: z.nativeEnum(EnumMessageSeverity).optional()
 });
 
-export const createResponseSchema = <TypeObject extends ZodSchema>(dataSchema: TypeObject): ZodSchema =>
+/**
+ * The schema of a TypeResponse with the data described by the given schema.
+ */
+export type TypeResponseSchema<TypeObject extends ZodSchema> = ZodObject<{
+	success: ZodBoolean;
+	messages: ZodOptional<ZodArray<typeof messageSchema>>;
+	data: ZodOptional<TypeObject>;
+}>;
+
+export const createResponseSchema = <TypeObject extends ZodSchema>(dataSchema: TypeObject): TypeResponseSchema<TypeObject> =>
 	z.object({
 		success: z.boolean(),
 		messages: z.array(messageSchema).optional(),
 		data: dataSchema.optional()
 	});
 
-export interface TypeMessage extends z.infer<typeof messageSchema> {}
+export interface TypeMessage extends z.infer<typeof messageSchema>
+{
+	/**
+	 * The original exception for logging, set by ErrorMapper when includeCause is set and never serialized.
+	 */
+	cause?: unknown;
+}
 
 export interface TypeResponse<TypeObject>
 {
@@ -21,3 +45,13 @@ export interface TypeResponse<TypeObject>
 	messages?: TypeMessage[];
 	data?: TypeObject | undefined;
 }
+
+/**
+ * A successful response with data, narrowed by ResponseHelper.isSuccess.
+ */
+export type TypeSuccessResponse<TypeObject> = TypeResponse<TypeObject> & { success: true; data: TypeObject };
+
+/**
+ * A failed response, narrowed by ResponseHelper.isFailure.
+ */
+export type TypeFailureResponse<TypeObject> = TypeResponse<TypeObject> & { success: false };
@@ -0,0 +1,45 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeResponse } from './Response';
+
+export interface TypeRetryOptions<TypeObject>
+{
+	/**
+	 * The maximum number of attempts including the first one, 3 by default.
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * The delay before the first retry in milliseconds, 100 by default.
+	 */
+	initialDelay?: number;
+
+	/**
+	 * The upper bound of the delay in milliseconds, 10000 by default.
+	 */
+	maxDelay?: number;
+
+	/**
+	 * The factor the delay grows with after every attempt, 2 by default.
+	 */
+	factor?: number;
+
+	/**
+	 * The share of the delay randomized to spread retries of concurrent callers, from 0 to 1, 0.5 by default.
+	 */
+	jitter?: number;
+
+	/**
+	 * Decides whether a failed response is retried, by default responses with EXECUTION_ERROR, TIMEOUT or RATE_LIMITED messages are.
+	 */
+	shouldRetry?: (response: TypeResponse<TypeObject>) => boolean;
+
+	/**
+	 * Maps exceptions thrown by the action to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+
+	/**
+	 * The random number generator used for the jitter, Math.random by default.
+	 */
+	random?: () => number;
+}
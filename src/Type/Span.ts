@@ -0,0 +1,17 @@
+/**
+ * Status codes of spans, the values match the OpenTelemetry SpanStatusCode.
+ */
+export enum EnumSpanStatusCode
+{
+	UNSET = 0,
+	OK = 1,
+	ERROR = 2,
+}
+
+export type TypeSpanAttributes = Record<string, string | number | boolean | string[] | undefined>;
+
+export interface TypeSpanStatus
+{
+	code: EnumSpanStatusCode;
+	message?: string;
+}
@@ -0,0 +1,42 @@
+import { type TypeResponse } from './Response';
+
+export enum EnumStreamEventType
+{
+	PROGRESS = 'progress',
+	CHUNK = 'chunk',
+	RESULT = 'result'
+}
+
+/**
+ * Reports how far a streaming action got, such as 3 of 10 pages crawled.
+ */
+export interface TypeStreamProgressEvent
+{
+	type: EnumStreamEventType.PROGRESS;
+	completed?: number;
+	total?: number;
+	message?: string;
+}
+
+/**
+ * Carries partial data, such as a crawled page or a section of a report.
+ */
+export interface TypeStreamChunkEvent<TypeChunk>
+{
+	type: EnumStreamEventType.CHUNK;
+	data: TypeChunk;
+}
+
+/**
+ * Carries the final response, it is the last event of a stream.
+ */
+export interface TypeStreamResultEvent<TypeObject>
+{
+	type: EnumStreamEventType.RESULT;
+	response: TypeResponse<TypeObject>;
+}
+
+export type TypeStreamEvent<TypeChunk, TypeObject> =
+	| TypeStreamProgressEvent
+	| TypeStreamChunkEvent<TypeChunk>
+	| TypeStreamResultEvent<TypeObject>;
@@ -0,0 +1,16 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeExecutionContext } from './ExecutionContext';
+import { type TypeStreamEvent } from './StreamEvent';
+
+export interface TypeStreamToActionOptions<TypeChunk, TypeObject>
+{
+	/**
+	 * Receives every event of the stream, such as to forward progress to a UI, while the action resolves with the final response only.
+	 */
+	onEvent?: (event: TypeStreamEvent<TypeChunk, TypeObject>, context?: TypeExecutionContext) => void;
+
+	/**
+	 * Maps exceptions thrown by the stream to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+}
@@ -0,0 +1,28 @@
+import { type ZodSchema } from 'zod';
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type TypeContractDiagnostic } from './ContractDiagnostic';
+import { type TypeExecutionContext } from './ExecutionContext';
+
+export interface TypeStrictContractOptions<TypeObject>
+{
+	/**
+	 * The schema the data of successful responses has to match.
+	 */
+	objectSchema?: ZodSchema<TypeObject>;
+
+	/**
+	 * Receives every violation, such as to log it or to fail a test.
+	 */
+	onViolation?: (diagnostic: TypeContractDiagnostic, context?: TypeExecutionContext) => void;
+
+	/**
+	 * Whether responses violating the contract are replaced with CONTRACT_VIOLATION failures, false by default,
+	 * in which case they are passed through after being reported.
+	 */
+	isEnforced?: boolean;
+
+	/**
+	 * Maps exceptions thrown by the action to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+}
@@ -0,0 +1,9 @@
+/**
+ * A tool call as returned by a model, arguments are either the raw JSON string or an already parsed object.
+ */
+export interface TypeToolCall
+{
+	id?: string;
+	name: string;
+	arguments: string | Record<string, unknown>;
+}
@@ -0,0 +1,23 @@
+import { type ZodTypeAny } from 'zod';
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+
+/**
+ * Options of rendering Zod issues as validation messages.
+ */
+export interface TypeValidationMessageOptions
+{
+	/**
+	 * Renders the texts, the Zod message with the path of the issue when not given.
+	 */
+	formatter?: MessageFormatterInterface;
+
+	/**
+	 * The validated schema, the descriptions of its fields become the labels of the messages.
+	 */
+	schema?: ZodTypeAny;
+
+	/**
+	 * The locale of the texts.
+	 */
+	locale?: string;
+}
@@ -0,0 +1,30 @@
+import { type ErrorMapperInterface } from '../Interface/ErrorMapperInterface';
+import { type MessageFormatterInterface } from '../Interface/MessageFormatterInterface';
+import { type TypeInstrumentationOptions } from './InstrumentationOptions';
+import { type TypeNormalizationOptions } from './NormalizationOptions';
+
+/**
+ * Options of the Zod schema validated wrappers.
+ */
+export interface TypeZodSchemaValidatedOptions
+{
+	/**
+	 * Maps exceptions thrown by the wrapped implementation to messages, ErrorMapper by default.
+	 */
+	errorMapper?: ErrorMapperInterface;
+
+	/**
+	 * Rules for normalizing empty values of the payload before it is validated.
+	 */
+	normalization?: TypeNormalizationOptions;
+
+	/**
+	 * Where calls are reported to, such as a logger, metrics and a tracer.
+	 */
+	instrumentation?: TypeInstrumentationOptions;
+
+	/**
+	 * Renders the texts of validation messages in the locale of the execution context, the Zod message with the path by default.
+	 */
+	messageFormatter?: MessageFormatterInterface;
+}
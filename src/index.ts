@@ -1,11 +1,136 @@
+export * from './Action/CachingAction';
+export * from './Action/CircuitBreakerAction';
+export * from './Action/ConcurrencyLimitedAction';
+export * from './Action/FallbackAction';
+export * from './Action/MapAction';
+export * from './Action/ParallelAction';
+export * from './Action/PipelineAction';
+export * from './Action/RateLimitedAction';
+export * from './Action/RetryingAction';
+export * from './Action/SequenceAction';
+export * from './Action/StrictContractAction';
+export * from './Action/TimeoutAction';
 export * from './Action/ZodSchemaValidatedAction';
+export * from './Action/ZodSchemaValidatedStreamingAction';
+export * from './Approval/AlwaysApprovalPolicy';
+export * from './Approval/CallerApprovalPolicy';
+export * from './Approval/InMemoryApprovalStore';
+export * from './Approval/ThresholdApprovalPolicy';
+export * from './Cache/InMemoryCache';
+export * from './Container/Container';
+export * from './Container/InjectionToken';
+export * from './Contract/ContractConformanceChecker';
+export * from './Error/CodedError';
+export * from './Error/ContractViolationError';
+export * from './Error/ErrorMapper';
+export * from './Error/JsonRpcError';
+export * from './Error/ResponseError';
+export * from './Error/ValidationError';
+export * from './Helper/ActionWorkflowHelper';
+export * from './Helper/ContractHelper';
+export * from './Helper/FunctionDefinitionHelper';
+export * from './Helper/JsonSchemaHelper';
+export * from './Helper/OptionalFieldStripperHelper';
+export * from './Helper/RedactionHelper';
 export * from './Helper/ResponseHelper';
+export * from './Helper/TransformerHelper';
+export * from './Helper/ValidationMessageHelper';
+export * from './Http/HttpActionClient';
+export * from './Http/HttpActionHandler';
 export * from './Interface/ActionInterface';
+export * from './Interface/ApprovalPolicyInterface';
+export * from './Interface/ApprovalStoreInterface';
+export * from './Interface/AsyncTransformerInterface';
+export * from './Interface/BidirectionalTransformerInterface';
+export * from './Interface/CacheInterface';
+export * from './Interface/ErrorMapperInterface';
+export * from './Interface/LoggerInterface';
+export * from './Interface/McpClientTransportInterface';
+export * from './Interface/MessageFormatterInterface';
+export * from './Interface/MetricsInterface';
+export * from './Interface/MiddlewareInterface';
+export * from './Interface/RateLimiterInterface';
 export * from './Interface/ServiceInterface';
+export * from './Interface/SpanInterface';
+export * from './Interface/StreamingActionInterface';
+export * from './Interface/StreamingToolInterface';
 export * from './Interface/ToolInterface';
+export * from './Interface/TracerInterface';
 export * from './Interface/TransformerInterface';
+export * from './Localization/MessageFormatter';
+export * from './Mcp/McpClient';
+export * from './Mcp/McpHttpTransport';
+export * from './Mcp/McpInProcessTransport';
+export * from './Mcp/McpServer';
+export * from './Mcp/McpStdioTransport';
+export * from './Middleware/AfterMiddleware';
+export * from './Middleware/BeforeMiddleware';
+export * from './Middleware/MiddlewarePipeline';
+export * from './Middleware/ZodSchemaValidationMiddleware';
+export * from './Observability/Instrumentation';
+export * from './OpenApi/OpenApiDocumentBuilder';
+export * from './RateLimit/Semaphore';
+export * from './RateLimit/SlidingWindowRateLimiter';
+export * from './RateLimit/TokenBucketRateLimiter';
+export * from './Service/ZodSchemaValidatedResponseService';
 export * from './Service/ZodSchemaValidatedService';
+export * from './Stream/ActionToStreamAdapter';
+export * from './Stream/StreamToActionAdapter';
+export * from './Stream/StreamToToolAdapter';
+export * from './Stream/ToolToStreamAdapter';
 export * from './Tool/ActionTool';
+export * from './Tool/ApprovalGateTool';
+export * from './Tool/DecoratedTool';
 export * from './Tool/ServiceTool';
+export * from './Tool/StreamingActionTool';
+export * from './Tool/ToolRegistry';
+export * from './Transformer/ArrayAsyncTransformer';
+export * from './Transformer/ArrayTransformer';
+export * from './Transformer/BidirectionalTransformer';
+export * from './Transformer/ComposedAsyncTransformer';
+export * from './Transformer/ComposedTransformer';
+export * from './Transformer/ZodSchemaValidatedAsyncTransformer';
+export * from './Transformer/ZodSchemaValidatedTransformer';
+export * from './Type/ApprovalGateOptions';
+export * from './Type/ApprovalTicket';
+export * from './Type/CacheEntry';
+export * from './Type/CachingOptions';
+export * from './Type/CircuitBreakerOptions';
+export * from './Type/CircuitBreakerState';
+export * from './Type/ConcurrencyLimitOptions';
+export * from './Type/ContractCheckOptions';
+export * from './Type/ContractDiagnostic';
+export * from './Type/ContractViolation';
+export * from './Type/EmptyStringStrategy';
 export * from './Type/ErrorCode';
+export * from './Type/ErrorMapperRule';
+export * from './Type/ExecutionContext';
+export * from './Type/FunctionDefinition';
+export * from './Type/HttpActionClientOptions';
+export * from './Type/HttpActionHandlerOptions';
+export * from './Type/InstrumentationKind';
+export * from './Type/InstrumentationOptions';
+export * from './Type/JsonRpc';
+export * from './Type/JsonSchema';
+export * from './Type/Lifetime';
+export * from './Type/Mcp';
+export * from './Type/McpHttpTransportOptions';
+export * from './Type/MessageCatalog';
+export * from './Type/MessageFormatterOptions';
+export * from './Type/MessageSeverity';
+export * from './Type/Middleware';
+export * from './Type/NormalizationOptions';
+export * from './Type/OpenApi';
+export * from './Type/Provider';
+export * from './Type/RateLimitDecision';
+export * from './Type/RateLimitOptions';
+export * from './Type/RedactionOptions';
 export * from './Type/Response';
+export * from './Type/RetryOptions';
+export * from './Type/Span';
+export * from './Type/StreamEvent';
+export * from './Type/StreamToActionOptions';
+export * from './Type/StrictContractOptions';
+export * from './Type/ToolCall';
+export * from './Type/ValidationMessageOptions';
+export * from './Type/ZodSchemaValidatedOptions';
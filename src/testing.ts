@@ -0,0 +1,11 @@
+export * from './Testing/FakeDataGenerator';
+export * from './Testing/MockAction';
+export * from './Testing/MockScript';
+export * from './Testing/MockService';
+export * from './Testing/RecordReplayAction';
+export * from './Type/FakeDataOptions';
+export * from './Type/MockCall';
+export * from './Type/MockOptions';
+export * from './Type/RecordedResponses';
+export * from './Type/RecordReplayMode';
+export * from './Type/RecordReplayOptions';
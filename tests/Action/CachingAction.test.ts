@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CachingAction } from '../../src/Action/CachingAction';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock action counting its calls
+class CountingMockAction implements ActionInterface<{ id: number, fields?: string[] }, string>
+{
+	public calls = 0;
+	public isFailing = false;
+
+	public async execute(payload: { id: number }): Promise<TypeResponse<string>>
+	{
+		const call = ++this.calls;
+		await Promise.resolve();
+
+		if (this.isFailing)
+		{
+			return { success: false, messages: [{ code: 'EXECUTION_ERROR', text: 'Service unavailable' }] };
+		}
+
+		return { success: true, data: `item ${payload.id} v${call}` };
+	}
+}
+
+const flushPromises = async (): Promise<void> =>
+{
+	for (let index = 0; index < 10; index++)
+	{
+		await Promise.resolve();
+	}
+};
+
+describe('CachingAction', () =>
+{
+	afterEach(() =>
+	{
+		vi.useRealTimers();
+	});
+
+	it('should cache successful responses by a stable payload key until the ttl passes', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new CountingMockAction();
+		const cachingAction = new CachingAction(action, { ttl: 1000 });
+
+		const first = await cachingAction.execute({ id: 1, fields: ['name'] });
+		const second = await cachingAction.execute({ fields: ['name'], id: 1 } as any);
+		vi.advanceTimersByTime(1000);
+		const third = await cachingAction.execute({ id: 1, fields: ['name'] });
+
+		expect(first.data).toBe('item 1 v1');
+		expect(second.data).toBe('item 1 v1');
+		expect(third.data).toBe('item 1 v2');
+		expect(action.calls).toBe(2);
+	});
+
+	it('should coalesce concurrent identical calls', async () =>
+	{
+		const action = new CountingMockAction();
+		const cachingAction = new CachingAction(action);
+
+		const responses = await Promise.all([cachingAction.execute({ id: 1 }), cachingAction.execute({ id: 1 }), cachingAction.execute({ id: 2 })]);
+
+		expect(responses.map((response) => response.data)).toEqual(['item 1 v1', 'item 1 v1', 'item 2 v2']);
+		expect(action.calls).toBe(2);
+	});
+
+	it('should return stale responses while revalidating in the background', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new CountingMockAction();
+		const cachingAction = new CachingAction(action, { ttl: 1000, staleWhileRevalidate: 5000 });
+
+		await cachingAction.execute({ id: 1 });
+		vi.advanceTimersByTime(2000);
+
+		const stale = await cachingAction.execute({ id: 1 });
+		await flushPromises();
+		const refreshed = await cachingAction.execute({ id: 1 });
+
+		expect(stale.data).toBe('item 1 v1');
+		expect(refreshed.data).toBe('item 1 v2');
+		expect(action.calls).toBe(2);
+	});
+
+	it('should not cache failures unless opted in', async () =>
+	{
+		const action = new CountingMockAction();
+		action.isFailing = true;
+
+		const cachingAction = new CachingAction(action);
+		await cachingAction.execute({ id: 1 });
+		await cachingAction.execute({ id: 1 });
+
+		const failureCachingAction = new CachingAction(action, { cacheFailures: true });
+		await failureCachingAction.execute({ id: 1 });
+		const response = await failureCachingAction.execute({ id: 1 });
+
+		expect(response.success).toBe(false);
+		expect(action.calls).toBe(3);
+	});
+
+	it('should not share responses across tenants and users by default', async () =>
+	{
+		const action = new CountingMockAction();
+		const cachingAction = new CachingAction(action);
+
+		const first = await cachingAction.execute({ id: 1 }, { tenantId: 'acme', userId: 'alice' });
+		const second = await cachingAction.execute({ id: 1 }, { tenantId: 'acme', userId: 'bob' });
+		const third = await cachingAction.execute({ id: 1 }, { tenantId: 'acme', userId: 'alice' });
+
+		expect([first.data, second.data, third.data]).toEqual(['item 1 v1', 'item 1 v2', 'item 1 v1']);
+	});
+
+	it('should stop waiting for an aborted caller without aborting the shared execution', async () =>
+	{
+		const action = new CountingMockAction();
+		const cachingAction = new CachingAction(action);
+		const controller = new AbortController();
+
+		const aborted = cachingAction.execute({ id: 1 }, { signal: controller.signal });
+		const waiting = cachingAction.execute({ id: 1 });
+		controller.abort();
+
+		expect((await aborted).messages?.[0]?.code).toBe('TIMEOUT');
+		expect((await waiting).data).toBe('item 1 v1');
+		expect(action.calls).toBe(1);
+	});
+
+	it('should create distinct keys for BigInts, Maps and Sets', () =>
+	{
+		const keys = [
+			CachingAction.createKey({ value: 1n }),
+			CachingAction.createKey({ value: '1' }),
+			CachingAction.createKey({ value: { ['$bigint']: '1' } }),
+			CachingAction.createKey({ value: new Map([['a', 1]]) }),
+			CachingAction.createKey({ value: new Map([['a', 2]]) }),
+			CachingAction.createKey({ value: new Set(['a']) }),
+			CachingAction.createKey({ value: {} })
+		];
+
+		expect(new Set(keys).size).toBe(keys.length);
+		expect(CachingAction.createKey(new Set([1, 2]))).toBe(CachingAction.createKey(new Set([2, 1])));
+	});
+
+	it('should sort keys by their code units', () =>
+	{
+		expect(CachingAction.createKey({ a: 1, B: 2, ['ä']: 3 })).toBe('{"B":2,"a":1,"ä":3}');
+	});
+
+	it('should return copies of cached responses', async () =>
+	{
+		const action = new CountingMockAction();
+		const cachingAction = new CachingAction(action);
+
+		const first = await cachingAction.execute({ id: 1 });
+		first.data = 'changed';
+		const second = await cachingAction.execute({ id: 1 });
+		second.data = 'changed again';
+		const third = await cachingAction.execute({ id: 1 });
+
+		expect(third.data).toBe('item 1 v1');
+		expect(action.calls).toBe(1);
+	});
+
+	it('should not cache the response of an execution in progress when invalidated', async () =>
+	{
+		const action = new CountingMockAction();
+		let release: () => void = () => undefined;
+		const released = new Promise<void>((resolve) =>
+		{
+			release = resolve;
+		});
+		const cachingAction = new CachingAction<{ id: number }, string>({
+			execute: async (payload) =>
+			{
+				await released;
+
+				return action.execute(payload);
+			}
+		});
+
+		const outdated = cachingAction.execute({ id: 1 });
+		await flushPromises();
+		await cachingAction.invalidate({ id: 1 });
+		const current = cachingAction.execute({ id: 1 });
+		await flushPromises();
+		release();
+
+		expect((await outdated).data).toBe('item 1 v1');
+		expect((await current).data).toBe('item 1 v2');
+		expect((await cachingAction.execute({ id: 1 })).data).toBe('item 1 v2');
+		expect(action.calls).toBe(2);
+	});
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreakerAction } from '../../src/Action/CircuitBreakerAction';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { EnumCircuitBreakerState } from '../../src/Type/CircuitBreakerState';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock action failing while the flag is set
+class FlakyMockAction implements ActionInterface<void, string>
+{
+	public calls = 0;
+	public isFailing = true;
+
+	public async execute(): Promise<TypeResponse<string>>
+	{
+		this.calls++;
+		if (this.isFailing)
+		{
+			throw new Error('Service unavailable');
+		}
+
+		return { success: true, data: 'done' };
+	}
+}
+
+describe('CircuitBreakerAction', () =>
+{
+	afterEach(() =>
+	{
+		vi.useRealTimers();
+	});
+
+	it('should open after the failure threshold and fail fast', async () =>
+	{
+		const action = new FlakyMockAction();
+		const circuitBreaker = new CircuitBreakerAction(action, { failureThreshold: 2 });
+
+		await circuitBreaker.execute();
+		expect(circuitBreaker.getState()).toBe(EnumCircuitBreakerState.CLOSED);
+
+		await circuitBreaker.execute();
+		expect(circuitBreaker.getState()).toBe(EnumCircuitBreakerState.OPEN);
+
+		const response = await circuitBreaker.execute();
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.CIRCUIT_OPEN);
+		expect(action.calls).toBe(2);
+	});
+
+	it('should close after a successful trial call once the reset timeout passed', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new FlakyMockAction();
+		const circuitBreaker = new CircuitBreakerAction(action, { failureThreshold: 1, resetTimeout: 1000 });
+
+		await circuitBreaker.execute();
+		vi.advanceTimersByTime(1000);
+		expect(circuitBreaker.getState()).toBe(EnumCircuitBreakerState.HALF_OPEN);
+
+		action.isFailing = false;
+		const response = await circuitBreaker.execute();
+
+		expect(response.success).toBe(true);
+		expect(circuitBreaker.getState()).toBe(EnumCircuitBreakerState.CLOSED);
+	});
+
+	it('should re-open when the trial call fails', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new FlakyMockAction();
+		const circuitBreaker = new CircuitBreakerAction(action, { failureThreshold: 3, resetTimeout: 1000 });
+
+		await circuitBreaker.execute();
+		await circuitBreaker.execute();
+		await circuitBreaker.execute();
+		vi.advanceTimersByTime(1000);
+
+		await circuitBreaker.execute();
+
+		expect(circuitBreaker.getState()).toBe(EnumCircuitBreakerState.OPEN);
+		expect(action.calls).toBe(4);
+	});
+});
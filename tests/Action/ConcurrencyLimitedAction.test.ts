@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { ConcurrencyLimitedAction } from '../../src/Action/ConcurrencyLimitedAction';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock action whose calls stay in progress until released
+class PendingMockAction implements ActionInterface<string, string>
+{
+	public active = 0;
+	public maxActive = 0;
+
+	private readonly releases: Array<() => void> = [];
+
+	public async execute(payload: string): Promise<TypeResponse<string>>
+	{
+		this.active++;
+		this.maxActive = Math.max(this.maxActive, this.active);
+
+		await new Promise<void>((resolve) => this.releases.push(resolve));
+
+		this.active--;
+
+		return { success: true, data: payload };
+	}
+
+	public releaseAll(): void
+	{
+		this.releases.splice(0).forEach((release) => release());
+	}
+}
+
+const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('ConcurrencyLimitedAction', () =>
+{
+	it('should queue calls beyond the concurrency limit and run them once slots are free', async () =>
+	{
+		const action = new PendingMockAction();
+		const limitedAction = new ConcurrencyLimitedAction(action, { maxConcurrency: 2 });
+
+		const responses = Promise.all(['a', 'b', 'c'].map((payload) => limitedAction.execute(payload)));
+		await flush();
+
+		expect(action.active).toBe(2);
+
+		action.releaseAll();
+		await flush();
+		action.releaseAll();
+
+		expect((await responses).map((response) => response.data)).toEqual(['a', 'b', 'c']);
+		expect(action.maxActive).toBe(2);
+	});
+
+	it('should reject calls when the queue is full', async () =>
+	{
+		const action = new PendingMockAction();
+		const limitedAction = new ConcurrencyLimitedAction(action, { maxConcurrency: 1, maxQueueSize: 0, retryAfter: 500 });
+
+		const first = limitedAction.execute('a');
+		await flush();
+
+		const response = await limitedAction.execute('b');
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.RATE_LIMITED);
+		expect(ResponseHelper.getRetryAfter(response)).toBe(500);
+
+		action.releaseAll();
+		expect((await first).success).toBe(true);
+	});
+
+	it('should reject queued calls once the deadline of the context passed', async () =>
+	{
+		const action = new PendingMockAction();
+		const limitedAction = new ConcurrencyLimitedAction(action, { maxConcurrency: 1 });
+
+		const first = limitedAction.execute('a');
+		await flush();
+
+		const response = await limitedAction.execute('b', { deadline: Date.now() + 10 });
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.RATE_LIMITED);
+
+		action.releaseAll();
+		await first;
+		expect(action.maxActive).toBe(1);
+	});
+
+	it('should fail queued calls with TIMEOUT when the context is aborted', async () =>
+	{
+		const action = new PendingMockAction();
+		const limitedAction = new ConcurrencyLimitedAction(action, { maxConcurrency: 1 });
+		const controller = new AbortController();
+
+		const first = limitedAction.execute('a');
+		await flush();
+
+		const second = limitedAction.execute('b', { signal: controller.signal });
+		controller.abort();
+
+		expect((await second).messages?.[0]?.code).toBe(EnumErrorCode.TIMEOUT);
+
+		action.releaseAll();
+		await first;
+	});
+
+	it('should limit every key separately', async () =>
+	{
+		const action = new PendingMockAction();
+		const limitedAction = new ConcurrencyLimitedAction(action, { maxConcurrency: 1, keyGenerator: (payload) => payload });
+
+		const responses = Promise.all([limitedAction.execute('a'), limitedAction.execute('b')]);
+		await flush();
+
+		expect(action.active).toBe(2);
+
+		action.releaseAll();
+		await responses;
+	});
+
+	it('should return a failed response when the key cannot be generated', async () =>
+	{
+		const limitedAction = new ConcurrencyLimitedAction(new PendingMockAction(), {
+			keyGenerator: () =>
+			{
+				throw new Error('Tenant is missing');
+			}
+		});
+
+		const response = await limitedAction.execute('a');
+
+		expect(response.success).toBe(false);
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.EXECUTION_ERROR);
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimitedAction } from '../../src/Action/RateLimitedAction';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { SlidingWindowRateLimiter } from '../../src/RateLimit/SlidingWindowRateLimiter';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeExecutionContext } from '../../src/Type/ExecutionContext';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock action counting its calls
+class CountingMockAction implements ActionInterface<string, string>
+{
+	public calls = 0;
+
+	public async execute(payload: string): Promise<TypeResponse<string>>
+	{
+		this.calls++;
+
+		return { success: true, data: payload };
+	}
+}
+
+describe('RateLimitedAction', () =>
+{
+	it('should reject calls beyond the limit with RATE_LIMITED and a retry-after hint', async () =>
+	{
+		const action = new CountingMockAction();
+		const rateLimitedAction = new RateLimitedAction(action, new SlidingWindowRateLimiter(1, 60000));
+
+		expect(await rateLimitedAction.execute('first')).toEqual({ success: true, data: 'first' });
+
+		const response = await rateLimitedAction.execute('second');
+
+		expect(response.success).toBe(false);
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.RATE_LIMITED);
+		expect(ResponseHelper.getRetryAfter(response)).toBeGreaterThan(59000);
+		expect(action.calls).toBe(1);
+	});
+
+	it('should limit every caller separately with a key derived from the context', async () =>
+	{
+		const rateLimitedAction = new RateLimitedAction(new CountingMockAction(), new SlidingWindowRateLimiter(1, 60000), {
+			keyGenerator: (_payload, context?: TypeExecutionContext) => context?.userId ?? 'anonymous'
+		});
+
+		expect((await rateLimitedAction.execute('a', { userId: 'alice' })).success).toBe(true);
+		expect((await rateLimitedAction.execute('b', { userId: 'bob' })).success).toBe(true);
+		expect((await rateLimitedAction.execute('c', { userId: 'alice' })).success).toBe(false);
+	});
+
+	it('should share a limit between actions using the same limiter', async () =>
+	{
+		const limiter = new SlidingWindowRateLimiter(1, 60000);
+
+		expect((await new RateLimitedAction(new CountingMockAction(), limiter).execute('a')).success).toBe(true);
+		expect((await new RateLimitedAction(new CountingMockAction(), limiter).execute('b')).success).toBe(false);
+	});
+});
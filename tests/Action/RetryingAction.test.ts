@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RetryingAction } from '../../src/Action/RetryingAction';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock action returning the scripted responses in order
+class ScriptedMockAction implements ActionInterface<void, string>
+{
+	public calls = 0;
+
+	constructor(private readonly responses: Array<TypeResponse<string> | Error>) {}
+
+	public async execute(): Promise<TypeResponse<string>>
+	{
+		const response = this.responses[Math.min(this.calls++, this.responses.length - 1)] as TypeResponse<string> | Error;
+		if (response instanceof Error)
+		{
+			throw response;
+		}
+
+		return response;
+	}
+}
+
+const failure = (code: string): TypeResponse<string> => ({ success: false, messages: [{ code, text: code }] });
+
+const flushPromises = async (): Promise<void> =>
+{
+	for (let i = 0; i < 10; i++)
+	{
+		await Promise.resolve();
+	}
+};
+
+describe('RetryingAction', () =>
+{
+	afterEach(() =>
+	{
+		vi.useRealTimers();
+	});
+
+	it('should retry transient failures with exponential backoff', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new ScriptedMockAction([new Error('Connection reset'), failure(EnumErrorCode.TIMEOUT), { success: true, data: 'done' }]);
+		const retryingAction = new RetryingAction(action, { initialDelay: 100, jitter: 0 });
+
+		const promise = retryingAction.execute();
+
+		await flushPromises();
+		expect(action.calls).toBe(1);
+
+		vi.advanceTimersByTime(100);
+		await flushPromises();
+		expect(action.calls).toBe(2);
+
+		vi.advanceTimersByTime(199);
+		await flushPromises();
+		expect(action.calls).toBe(2);
+
+		vi.advanceTimersByTime(1);
+		await flushPromises();
+
+		expect(await promise).toEqual({ success: true, data: 'done' });
+		expect(action.calls).toBe(3);
+	});
+
+	it('should not retry failures rejected by the predicate', async () =>
+	{
+		const action = new ScriptedMockAction([failure(EnumErrorCode.VALIDATION_ERROR)]);
+
+		const response = await new RetryingAction(action).execute();
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.VALIDATION_ERROR);
+		expect(action.calls).toBe(1);
+	});
+
+	it('should return the last response when attempts are exhausted', async () =>
+	{
+		const action = new ScriptedMockAction([failure(EnumErrorCode.RATE_LIMITED)]);
+
+		const response = await new RetryingAction(action, { maxAttempts: 2, initialDelay: 0 }).execute();
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.RATE_LIMITED);
+		expect(action.calls).toBe(2);
+	});
+
+	it('should apply the jitter to the delay', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new ScriptedMockAction([failure(EnumErrorCode.EXECUTION_ERROR), { success: true }]);
+		const retryingAction = new RetryingAction(action, { initialDelay: 100, jitter: 0.5, random: () => 1 });
+
+		const promise = retryingAction.execute();
+
+		await flushPromises();
+		vi.advanceTimersByTime(50);
+		await flushPromises();
+
+		expect((await promise).success).toBe(true);
+	});
+
+	it('should stop waiting for the next attempt as soon as the signal of the context is aborted', async () =>
+	{
+		vi.useFakeTimers();
+
+		const controller = new AbortController();
+		const action = new ScriptedMockAction([failure(EnumErrorCode.TIMEOUT), { success: true, data: 'done' }]);
+		const promise = new RetryingAction(action, { initialDelay: 10000, jitter: 0 }).execute(undefined, { signal: controller.signal });
+
+		await flushPromises();
+		controller.abort();
+
+		expect(await promise).toEqual(failure(EnumErrorCode.TIMEOUT));
+		expect(action.calls).toBe(1);
+	});
+
+	it('should wait at least the retry-after hint of the response', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new ScriptedMockAction([ResponseHelper.createRateLimitedResponse(5000), { success: true, data: 'done' }]);
+		const promise = new RetryingAction(action, { initialDelay: 100, jitter: 0 }).execute();
+
+		await flushPromises();
+		vi.advanceTimersByTime(4999);
+		await flushPromises();
+		expect(action.calls).toBe(1);
+
+		vi.advanceTimersByTime(1);
+		await flushPromises();
+
+		expect((await promise).data).toBe('done');
+		expect(action.calls).toBe(2);
+	});
+
+	it('should wait at most the maximum delay for the retry-after hint', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new ScriptedMockAction([ResponseHelper.createRateLimitedResponse(60000), { success: true, data: 'done' }]);
+		const promise = new RetryingAction(action, { initialDelay: 100, maxDelay: 2000, jitter: 0 }).execute();
+
+		await flushPromises();
+		vi.advanceTimersByTime(2000);
+		await flushPromises();
+
+		expect((await promise).data).toBe('done');
+		expect(action.calls).toBe(2);
+	});
+
+	it('should return the failure right away when the wait would end after the deadline', async () =>
+	{
+		vi.useFakeTimers();
+
+		const rateLimitedResponse = ResponseHelper.createRateLimitedResponse<string>(5000);
+		const action = new ScriptedMockAction([rateLimitedResponse, { success: true, data: 'done' }]);
+
+		const response = await new RetryingAction(action, { initialDelay: 100, jitter: 0 }).execute(undefined, { deadline: Date.now() + 3000 });
+
+		expect(response).toBe(rateLimitedResponse);
+		expect(action.calls).toBe(1);
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { StrictContractAction } from '../../src/Action/StrictContractAction';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { EnumContractViolation } from '../../src/Type/ContractViolation';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock action returning the given response or throwing the given error
+class ScriptedMockAction implements ActionInterface<{ id: number }, string>
+{
+	constructor(private readonly result: unknown) {}
+
+	public async execute(): Promise<TypeResponse<string>>
+	{
+		if (this.result instanceof Error)
+		{
+			throw this.result;
+		}
+
+		return this.result as TypeResponse<string>;
+	}
+}
+
+describe('StrictContractAction', () =>
+{
+	it('should return conformant responses without reporting them', async () =>
+	{
+		const onViolation = vi.fn();
+		const action = new StrictContractAction(new ScriptedMockAction({ success: true, data: 'ok' }), { objectSchema: z.string(), onViolation });
+
+		const response = await action.execute({ id: 1 });
+
+		expect(response).toEqual({ success: true, data: 'ok' });
+		expect(onViolation).not.toHaveBeenCalled();
+	});
+
+	it('should report violations and return the response unless enforced', async () =>
+	{
+		const onViolation = vi.fn();
+		const context = { requestId: 'r1' };
+		const action = new StrictContractAction(new ScriptedMockAction({ success: false }), { onViolation });
+
+		const response = await action.execute({ id: 1 }, context);
+
+		expect(response).toEqual({ success: false });
+		expect(onViolation).toHaveBeenCalledWith(
+			expect.objectContaining({ violation: EnumContractViolation.FAILURE_WITHOUT_MESSAGES, payload: { id: 1 } }),
+			context
+		);
+	});
+
+	it('should replace violating responses with contract violations when enforced', async () =>
+	{
+		const action = new StrictContractAction(new ScriptedMockAction({ success: true, data: 42 }), {
+			objectSchema: z.string(),
+			isEnforced: true
+		});
+
+		const response = await action.execute({ id: 1 });
+
+		expect(response.success).toBe(false);
+		expect(response.messages?.[0]).toMatchObject({
+			code: 'CONTRACT_VIOLATION',
+			params: { violation: EnumContractViolation.INVALID_DATA }
+		});
+	});
+
+	it('should report thrown exceptions and return them as failed responses', async () =>
+	{
+		const onViolation = vi.fn();
+		const action = new StrictContractAction(new ScriptedMockAction(new Error('Database is down')), { onViolation });
+
+		const response = await action.execute({ id: 1 });
+
+		expect(response.success).toBe(false);
+		expect(response.messages?.[0].text).toBe('An unexpected error occurred');
+		expect(onViolation.mock.calls[0][0].violation).toBe(EnumContractViolation.THROWN_EXCEPTION);
+	});
+
+	it('should treat messages without a severity as errors and ignore exceptions of the listener', async () =>
+	{
+		const onViolation = vi.fn(() =>
+		{
+			throw new Error('Listener failed');
+		});
+		const action = new StrictContractAction(new ScriptedMockAction({ success: true, data: 'ok', messages: [{ code: 'NOT_FOUND', text: 'Missing' }] }), {
+			onViolation
+		});
+
+		const response = await action.execute({ id: 1 });
+
+		expect(response.success).toBe(true);
+		expect(onViolation.mock.calls[0][0].violation).toBe(EnumContractViolation.SUCCESS_WITH_ERROR_MESSAGE);
+	});
+});
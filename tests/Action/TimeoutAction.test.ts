@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TimeoutAction } from '../../src/Action/TimeoutAction';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeExecutionContext } from '../../src/Type/ExecutionContext';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock action completing after the given delay unless aborted
+class SlowMockAction implements ActionInterface<number, string>
+{
+	public context: TypeExecutionContext | undefined;
+
+	public execute(delay: number, context?: TypeExecutionContext): Promise<TypeResponse<string>>
+	{
+		this.context = context;
+
+		return new Promise((resolve) => setTimeout(() => resolve({ success: true, data: 'done' }), delay));
+	}
+}
+
+describe('TimeoutAction', () =>
+{
+	afterEach(() =>
+	{
+		vi.useRealTimers();
+	});
+
+	it('should return the response of an action completing in time', async () =>
+	{
+		vi.useFakeTimers();
+
+		const promise = new TimeoutAction(new SlowMockAction(), 100).execute(50);
+		vi.advanceTimersByTime(50);
+
+		expect(await promise).toEqual({ success: true, data: 'done' });
+	});
+
+	it('should fail with TIMEOUT and abort the signal of a slow action', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new SlowMockAction();
+		const promise = new TimeoutAction(action, 100).execute(500);
+		vi.advanceTimersByTime(100);
+
+		const response = await promise;
+
+		expect(response.success).toBe(false);
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.TIMEOUT);
+		expect(action.context?.signal?.aborted).toBe(true);
+	});
+
+	it('should shorten the timeout to the deadline and keep the rest of the context', async () =>
+	{
+		vi.useFakeTimers();
+
+		const action = new SlowMockAction();
+		const promise = new TimeoutAction(action, 1000).execute(500, { requestId: 'request-1', deadline: Date.now() + 100 });
+		vi.advanceTimersByTime(100);
+
+		const response = await promise;
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.TIMEOUT);
+		expect(action.context?.requestId).toBe('request-1');
+	});
+
+	it('should abort the action when the signal of the context is aborted', async () =>
+	{
+		const action = new SlowMockAction();
+		const controller = new AbortController();
+
+		void new TimeoutAction(action, 1000).execute(10, { signal: controller.signal });
+		controller.abort();
+
+		expect(action.context?.signal?.aborted).toBe(true);
+	});
+
+	it('should fail with TIMEOUT as soon as the signal of the context is aborted without waiting for the action', async () =>
+	{
+		vi.useFakeTimers();
+
+		const controller = new AbortController();
+		const promise = new TimeoutAction(new SlowMockAction(), 1000).execute(500, { signal: controller.signal });
+		controller.abort();
+
+		const response = await promise;
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.TIMEOUT);
+	});
+});
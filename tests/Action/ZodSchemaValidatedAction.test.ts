@@ -1,8 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import { z } from 'zod';
 import { ZodSchemaValidatedAction } from '../../src/Action/ZodSchemaValidatedAction';
+import { CodedError } from '../../src/Error/CodedError';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { MessageFormatter } from '../../src/Localization/MessageFormatter';
 import { type ActionInterface } from '../../src/Interface/ActionInterface';
 import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumMessageSeverity } from '../../src/Type/MessageSeverity';
+import { type TypeExecutionContext } from '../../src/Type/ExecutionContext';
 import { type TypeResponse } from '../../src/Type/Response';
 
 // Mock ActionInterface implementation
@@ -61,7 +66,15 @@ describe('SchemaValidatedAction', () =>
 
 		// Assert that the action failed due to input validation error
 		expect(result.success).toBe(false);
-		expect(result.messages).toEqual([{ code: EnumErrorCode.VALIDATION_ERROR, text: 'Expected string, received number (at name)' }]);
+		expect(result.messages).toEqual([{
+			code: EnumErrorCode.VALIDATION_ERROR,
+			text: 'Expected string, received number (at name)',
+			path: ['name'],
+			issueCode: 'invalid_type',
+			expected: 'string',
+			received: 'number',
+			severity: EnumMessageSeverity.ERROR
+		}]);
 	});
 
 	it('should return validation error for invalid output', async () =>
@@ -96,7 +109,15 @@ describe('SchemaValidatedAction', () =>
 
 		// Assert that the action failed due to output validation error
 		expect(result.success).toBe(false);
-		expect(result.messages).toEqual([{ code: EnumErrorCode.VALIDATION_ERROR, text: 'Expected number, received string (at value)' }]);
+		expect(result.messages).toEqual([{
+			code: EnumErrorCode.VALIDATION_ERROR,
+			text: 'Expected number, received string (at value)',
+			path: ['value'],
+			issueCode: 'invalid_type',
+			expected: 'number',
+			received: 'string',
+			severity: EnumMessageSeverity.ERROR
+		}]);
 	});
 
 	it('should strip extra fields from the response data', async () => {
@@ -157,4 +178,145 @@ describe('SchemaValidatedAction', () =>
 		expect(result.data).toEqual({ id: 1 });
 		expect(result.messages).toEqual([]);
 	});
+
+	it('should keep the nested path and issue parameters of validation errors', async () =>
+	{
+		const inputSchema = z.object({
+			user: z.object({
+				tags: z.array(z.string()).min(2)
+			})
+		});
+		const outputSchema = z.object({
+			id: z.number()
+		});
+
+		const validatedAction = new ZodSchemaValidatedAction(inputSchema, outputSchema, new MockAction() as any);
+
+		const result = await validatedAction.execute({ user: { tags: ['one'] } });
+
+		expect(result.success).toBe(false);
+		expect(result.messages?.[0]).toMatchObject({
+			code: EnumErrorCode.VALIDATION_ERROR,
+			path: ['user', 'tags'],
+			issueCode: 'too_small',
+			params: { minimum: 2, type: 'array', inclusive: true, exact: false }
+		});
+	});
+
+	it('should return a failed response when the action throws', async () =>
+	{
+		const inputSchema = z.object({
+			name: z.string()
+		});
+		const outputSchema = z.object({
+			id: z.number()
+		});
+
+		// Create a mock action that throws
+		class ThrowingMockAction implements ActionInterface<{ name: string }, { id: number }>
+		{
+			public async execute(_payload: { name: string }): Promise<TypeResponse<{ id: number }>>
+			{
+				throw new CodedError(EnumErrorCode.NOT_FOUND, 'User not found');
+			}
+		}
+
+		const validatedAction = new ZodSchemaValidatedAction(inputSchema, outputSchema, new ThrowingMockAction());
+
+		const result = await validatedAction.execute({ name: 'John Doe' });
+
+		expect(result.success).toBe(false);
+		expect(result.messages).toMatchObject([{ code: EnumErrorCode.NOT_FOUND, text: 'User not found' }]);
+	});
+
+	it('should pass the execution context to the wrapped action', async () =>
+	{
+		const inputSchema = z.object({
+			name: z.string()
+		});
+		const outputSchema = z.object({
+			id: z.number()
+		});
+
+		// Create a mock action that records the context
+		class ContextMockAction implements ActionInterface<{ name: string }, { id: number }>
+		{
+			public context: TypeExecutionContext | undefined;
+
+			public async execute(_payload: { name: string }, context?: TypeExecutionContext): Promise<TypeResponse<{ id: number }>>
+			{
+				this.context = context;
+
+				return { success: true, data: { id: 1 } };
+			}
+		}
+
+		const contextMockAction = new ContextMockAction();
+		const validatedAction = new ZodSchemaValidatedAction(inputSchema, outputSchema, contextMockAction);
+
+		await validatedAction.execute({ name: 'John Doe' }, { requestId: 'request-1', tenantId: 'tenant-1' });
+
+		expect(contextMockAction.context).toEqual({ requestId: 'request-1', tenantId: 'tenant-1' });
+	});
+
+	it('should render validation messages in the locale of the execution context', async () =>
+	{
+		const inputSchema = z.object({
+			name: z.string().min(3).describe('Name')
+		});
+		const outputSchema = z.object({
+			id: z.number()
+		});
+		const messageFormatter = new MessageFormatter({
+			catalogs: { fr: { messages: { ['too_small']: '{label} doit contenir au moins {minimum} caractères' } } }
+		});
+
+		const validatedAction = new ZodSchemaValidatedAction(inputSchema, outputSchema, new MockAction(), { messageFormatter });
+
+		const frenchResult = await validatedAction.execute({ name: 'Jo' }, { locale: 'fr-FR' });
+		const defaultResult = await validatedAction.execute({ name: 'Jo' });
+
+		expect(frenchResult.messages?.[0].text).toBe('Name doit contenir au moins 3 caractères');
+		expect(defaultResult.messages?.[0].text).toBe('String must contain at least 3 character(s) (at name)');
+	});
+
+	it('should render the messages of thrown exceptions in the locale of the execution context', async () =>
+	{
+		const throwingAction: ActionInterface<{ name: string }, { id: number }> = {
+			execute: async () =>
+			{
+				throw new CodedError(EnumErrorCode.NOT_FOUND, 'User not found');
+			}
+		};
+		const messageFormatter = new MessageFormatter({ catalogs: { fr: { messages: { [EnumErrorCode.NOT_FOUND]: 'Introuvable' } } } });
+		const validatedAction = new ZodSchemaValidatedAction(z.object({ name: z.string() }), z.object({ id: z.number() }), throwingAction, { messageFormatter });
+
+		expect((await validatedAction.execute({ name: 'Jo' }, { locale: 'fr' })).messages?.[0]).toMatchObject({ code: EnumErrorCode.NOT_FOUND, text: 'Introuvable' });
+		expect((await validatedAction.execute({ name: 'Jo' })).messages?.[0].text).toBe('User not found');
+	});
+
+	it('should return failed responses without data unchanged', async () =>
+	{
+		const inputSchema = z.object({
+			name: z.string()
+		});
+		const outputSchema = z.object({
+			id: z.number()
+		});
+
+		// Create a mock action that is rate limited
+		class RateLimitedMockAction implements ActionInterface<{ name: string }, { id: number }>
+		{
+			public async execute(_payload: { name: string }): Promise<TypeResponse<{ id: number }>>
+			{
+				return ResponseHelper.createRateLimitedResponse(1500);
+			}
+		}
+
+		const validatedAction = new ZodSchemaValidatedAction(inputSchema, outputSchema, new RateLimitedMockAction());
+
+		const result = await validatedAction.execute({ name: 'John Doe' });
+
+		expect(result).toEqual(ResponseHelper.createRateLimitedResponse(1500));
+	});
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ZodSchemaValidatedStreamingAction } from '../../src/Action/ZodSchemaValidatedStreamingAction';
+import { type StreamingActionInterface } from '../../src/Interface/StreamingActionInterface';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumStreamEventType, type TypeStreamEvent } from '../../src/Type/StreamEvent';
+
+const payloadSchema = z.object({ pages: z.number().int().positive() });
+const chunkSchema = z.object({ url: z.string().url() });
+const objectSchema = z.object({ crawled: z.number() });
+
+type TypePayload = z.infer<typeof payloadSchema>;
+type TypeChunk = z.infer<typeof chunkSchema>;
+type TypeObject = z.infer<typeof objectSchema>;
+
+// Mock StreamingActionInterface implementation crawling the given number of pages
+class CrawlMockAction implements StreamingActionInterface<TypePayload, TypeChunk, TypeObject>
+{
+	constructor(private readonly behavior: 'valid' | 'invalidChunk' | 'noResult' | 'throw' = 'valid') {}
+
+	public async *stream(payload: TypePayload): AsyncIterable<TypeStreamEvent<TypeChunk, TypeObject>>
+	{
+		for (let page = 1; page <= payload.pages; page++)
+		{
+			yield { type: EnumStreamEventType.PROGRESS, completed: page - 1, total: payload.pages };
+			yield { type: EnumStreamEventType.CHUNK, data: { url: this.behavior === 'invalidChunk' ? 'not a url' : `https://example.com/${page}` } };
+		}
+
+		if (this.behavior === 'throw')
+		{
+			throw new Error('Connection lost');
+		}
+
+		if (this.behavior !== 'noResult')
+		{
+			yield { type: EnumStreamEventType.RESULT, response: { success: true, data: { crawled: payload.pages } } };
+			yield { type: EnumStreamEventType.PROGRESS, message: 'ignored after the result' };
+		}
+	}
+}
+
+const collect = async <TypeEvent>(stream: AsyncIterable<TypeEvent>): Promise<TypeEvent[]> =>
+{
+	const events: TypeEvent[] = [];
+	for await (const event of stream)
+	{
+		events.push(event);
+	}
+
+	return events;
+};
+
+const createAction = (behavior?: 'valid' | 'invalidChunk' | 'noResult' | 'throw'): ZodSchemaValidatedStreamingAction<typeof payloadSchema, typeof chunkSchema, typeof objectSchema> =>
+	new ZodSchemaValidatedStreamingAction(payloadSchema, chunkSchema, objectSchema, new CrawlMockAction(behavior));
+
+describe('ZodSchemaValidatedStreamingAction', () =>
+{
+	it('should stream progress and chunk events and end with the result', async () =>
+	{
+		const events = await collect(createAction().stream({ pages: 2 }));
+
+		expect(events).toEqual([
+			{ type: EnumStreamEventType.PROGRESS, completed: 0, total: 2 },
+			{ type: EnumStreamEventType.CHUNK, data: { url: 'https://example.com/1' } },
+			{ type: EnumStreamEventType.PROGRESS, completed: 1, total: 2 },
+			{ type: EnumStreamEventType.CHUNK, data: { url: 'https://example.com/2' } },
+			{ type: EnumStreamEventType.RESULT, response: { success: true, data: { crawled: 2 } } }
+		]);
+	});
+
+	it('should end the stream with a validation error for an invalid payload or chunk', async () =>
+	{
+		const invalidPayloadEvents = await collect(createAction().stream({ pages: 0 }));
+		const invalidChunkEvents = await collect(createAction('invalidChunk').stream({ pages: 2 }));
+
+		expect(invalidPayloadEvents).toHaveLength(1);
+		expect(invalidPayloadEvents[0]).toMatchObject({ type: EnumStreamEventType.RESULT, response: { success: false } });
+		expect(invalidChunkEvents).toHaveLength(2);
+		expect(invalidChunkEvents[1]).toMatchObject({
+			type: EnumStreamEventType.RESULT,
+			response: { success: false, messages: [{ code: EnumErrorCode.VALIDATION_ERROR, path: ['url'] }] }
+		});
+	});
+
+	it('should end the stream with a failed result when the action throws or ends without a result', async () =>
+	{
+		const thrownEvents = await collect(createAction('throw').stream({ pages: 1 }));
+		const unfinishedEvents = await collect(createAction('noResult').stream({ pages: 1 }));
+
+		expect(thrownEvents.at(-1)).toMatchObject({ response: { success: false, messages: [{ code: EnumErrorCode.EXECUTION_ERROR, text: 'An unexpected error occurred' }] } });
+		expect(unfinishedEvents.at(-1)).toMatchObject({ response: { success: false, messages: [{ code: EnumErrorCode.EXECUTION_ERROR }] } });
+	});
+});
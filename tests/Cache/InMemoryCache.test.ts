@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryCache } from '../../src/Cache/InMemoryCache';
+
+describe('InMemoryCache', () =>
+{
+	it('should evict the least recently used entries', async () =>
+	{
+		const cache = new InMemoryCache<number>(2);
+		const entry = (value: number): { value: number, freshUntil: number, staleUntil: number } => ({ value, freshUntil: Infinity, staleUntil: Infinity });
+
+		await cache.set('a', entry(1));
+		await cache.set('b', entry(2));
+		await cache.get('a');
+		await cache.set('c', entry(3));
+
+		expect(await cache.get('b')).toBeUndefined();
+		expect((await cache.get('a'))?.value).toBe(1);
+		expect((await cache.get('c'))?.value).toBe(3);
+		expect(cache.getSize()).toBe(2);
+	});
+});
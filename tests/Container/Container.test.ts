@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ZodSchemaValidatedAction } from '../../src/Action/ZodSchemaValidatedAction';
+import { Container } from '../../src/Container/Container';
+import { InjectionToken } from '../../src/Container/InjectionToken';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { ActionTool } from '../../src/Tool/ActionTool';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumLifetime } from '../../src/Type/Lifetime';
+import { type TypeResponse } from '../../src/Type/Response';
+
+const payloadSchema = z.object({ name: z.string() });
+const objectSchema = z.object({ greeting: z.string() });
+
+// Mock repository implementation
+class GreetingRepository
+{
+	constructor(public readonly prefix: string) {}
+}
+
+// Mock ActionInterface implementation
+class GreetAction implements ActionInterface<z.infer<typeof payloadSchema>, z.infer<typeof objectSchema>>
+{
+	constructor(private readonly repository: GreetingRepository) {}
+
+	public async execute(payload: z.infer<typeof payloadSchema>): Promise<TypeResponse<z.infer<typeof objectSchema>>>
+	{
+		return { success: true, data: { greeting: `${this.repository.prefix} ${payload.name}` } };
+	}
+}
+
+const repositoryToken = new InjectionToken<GreetingRepository>('GreetingRepository');
+const greetActionToken = new InjectionToken<ZodSchemaValidatedAction<typeof payloadSchema, typeof objectSchema>>('GreetAction');
+const greetToolToken = new InjectionToken<ActionTool<typeof payloadSchema, typeof objectSchema>>('GreetTool');
+
+describe('Container', () =>
+{
+	it('should create instances lazily and reuse them according to their lifetime', () =>
+	{
+		let created = 0;
+		const singletonToken = new InjectionToken<object>('Singleton');
+		const transientToken = new InjectionToken<object>('Transient');
+		const scopedToken = new InjectionToken<object>('Scoped');
+
+		const container = new Container()
+			.register(singletonToken, () => ({ id: ++created }))
+			.register(transientToken, () => ({}), { lifetime: EnumLifetime.TRANSIENT })
+			.register(scopedToken, () => ({}), { lifetime: EnumLifetime.SCOPED });
+
+		expect(created).toBe(0);
+
+		const scope = container.createScope();
+		const otherScope = container.createScope();
+
+		expect(scope.resolve(singletonToken)).toBe(container.resolve(singletonToken));
+		expect(created).toBe(1);
+		expect(container.resolve(transientToken)).not.toBe(container.resolve(transientToken));
+		expect(scope.resolve(scopedToken)).toBe(scope.resolve(scopedToken));
+		expect(scope.resolve(scopedToken)).not.toBe(otherScope.resolve(scopedToken));
+	});
+
+	it('should resolve actions and tools wrapped with their schemas', async () =>
+	{
+		const container = new Container()
+			.registerValue(repositoryToken, new GreetingRepository('Hello'))
+			.registerAction(greetActionToken, payloadSchema, objectSchema, (container) => new GreetAction(container.resolve(repositoryToken)))
+			.registerTool(greetToolToken, 'greet', 'Greets a person', payloadSchema, objectSchema, (container) => new GreetAction(container.resolve(repositoryToken)));
+
+		const action = container.resolve(greetActionToken);
+		const tool = container.resolve(greetToolToken);
+
+		expect(action).toBeInstanceOf(ZodSchemaValidatedAction);
+		expect(await action.execute({ name: 'Ada' })).toEqual({ success: true, data: { greeting: 'Hello Ada' } });
+		expect(tool.name).toBe('greet');
+		expect((await tool.execute({ name: 1 } as never)).messages?.[0]?.code).toBe(EnumErrorCode.VALIDATION_ERROR);
+	});
+
+	it('should detect circular dependencies and allow breaking them with lazy resolution', () =>
+	{
+		const firstToken = new InjectionToken<{ getSecond: () => unknown }>('First');
+		const secondToken = new InjectionToken<{ first: unknown }>('Second');
+
+		const circularContainer = new Container()
+			.register(firstToken, (container) => ({ getSecond: (): unknown => container.resolve(secondToken), second: container.resolve(secondToken) }))
+			.register(secondToken, (container) => ({ first: container.resolve(firstToken) }));
+
+		expect(() => circularContainer.resolve(firstToken)).toThrow('Circular dependency: First -> Second -> First');
+
+		const lazyContainer = new Container()
+			.register(firstToken, (container) => ({ getSecond: container.lazy(secondToken) }))
+			.register(secondToken, (container) => ({ first: container.resolve(firstToken) }));
+
+		const first = lazyContainer.resolve(firstToken);
+
+		expect(first.getSecond()).toEqual({ first });
+	});
+
+	it('should override registrations in a scope without affecting the container', () =>
+	{
+		const container = new Container().registerValue(repositoryToken, new GreetingRepository('Hello'));
+		const scope = container.createScope().override(repositoryToken, () => new GreetingRepository('Mocked'));
+
+		expect(scope.resolve(repositoryToken).prefix).toBe('Mocked');
+		expect(container.resolve(repositoryToken).prefix).toBe('Hello');
+		expect(() => container.registerValue(repositoryToken, new GreetingRepository('Hi'))).toThrow('already registered');
+		expect(() => container.resolve(greetActionToken)).toThrow('Token "GreetAction" is not registered');
+	});
+
+	it('should reject scoped tokens resolved from the root container or for a singleton', () =>
+	{
+		const scopedToken = new InjectionToken<object>('RequestContext');
+		const singletonToken = new InjectionToken<{ requestContext: object }>('Mailer');
+		const container = new Container()
+			.register(scopedToken, () => ({}), { lifetime: EnumLifetime.SCOPED })
+			.register(singletonToken, (container) => ({ requestContext: container.resolve(scopedToken) }));
+
+		expect(() => container.resolve(scopedToken)).toThrow('Scoped token "RequestContext" cannot be resolved from the root container');
+		expect(() => container.createScope().resolve(singletonToken)).toThrow('Singleton "Mailer" cannot depend on scoped token "RequestContext"');
+	});
+
+	it('should reject overrides of tokens that were already resolved', () =>
+	{
+		const container = new Container()
+			.registerValue(repositoryToken, new GreetingRepository('Hello'))
+			.registerAction(greetActionToken, payloadSchema, objectSchema, (container) => new GreetAction(container.resolve(repositoryToken)));
+
+		container.resolve(greetActionToken);
+
+		expect(() => container.override(repositoryToken, () => new GreetingRepository('Mocked'))).toThrow('Token "GreetingRepository" is already resolved');
+		expect(container.createScope().override(repositoryToken, () => new GreetingRepository('Mocked')).resolve(repositoryToken).prefix).toBe('Mocked');
+	});
+
+	it('should reject overrides of singletons that were resolved from a scope', () =>
+	{
+		const container = new Container().registerValue(repositoryToken, new GreetingRepository('Hello'));
+
+		container.createScope().resolve(repositoryToken);
+
+		expect(() => container.override(repositoryToken, () => new GreetingRepository('Mocked'))).toThrow('Token "GreetingRepository" is already resolved');
+		expect(container.resolve(repositoryToken).prefix).toBe('Hello');
+	});
+});
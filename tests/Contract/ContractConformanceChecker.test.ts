@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ContractConformanceChecker } from '../../src/Contract/ContractConformanceChecker';
+import { ContractViolationError } from '../../src/Error/ContractViolationError';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { EnumContractViolation } from '../../src/Type/ContractViolation';
+import { type TypeResponse } from '../../src/Type/Response';
+
+const payloadSchema = z.object({ quantity: z.number().int().min(0).max(100) });
+const objectSchema = z.object({ total: z.number() });
+
+// Mock action honoring the contract
+class ConformingMockAction implements ActionInterface<{ quantity: number }, { total: number }>
+{
+	public async execute(payload: { quantity: number }): Promise<TypeResponse<{ total: number }>>
+	{
+		if (typeof payload?.quantity !== 'number')
+		{
+			return { success: false, messages: [{ code: 'VALIDATION_ERROR', text: 'Quantity is required' }] };
+		}
+
+		return { success: true, data: { total: payload.quantity * 2 } };
+	}
+}
+
+// Mock action violating the contract for some payloads
+class ViolatingMockAction implements ActionInterface<{ quantity: number }, { total: number }>
+{
+	public async execute(payload: { quantity: number }): Promise<TypeResponse<{ total: number }>>
+	{
+		if (payload.quantity > 50)
+		{
+			throw new Error('Quantity is too large');
+		}
+
+		if (payload.quantity === 0)
+		{
+			return { success: false, data: { total: 0 } } as any;
+		}
+
+		return { success: true, data: { total: String(payload.quantity) } } as any;
+	}
+}
+
+describe('ContractConformanceChecker', () =>
+{
+	it('should report a conformant action after the generated and given runs', async () =>
+	{
+		const checker = new ContractConformanceChecker(new ConformingMockAction(), {
+			payloadSchema,
+			objectSchema,
+			runs: 20,
+			payloads: [{ quantity: 0 }],
+			includeMalformedPayloads: true
+		});
+
+		const report = await checker.check();
+
+		expect(report).toEqual({ isConformant: true, runs: 26, diagnostics: [] });
+	});
+
+	it('should report every violation with the payload causing it', async () =>
+	{
+		const checker = new ContractConformanceChecker(new ViolatingMockAction(), {
+			objectSchema,
+			payloads: [{ quantity: 0 }, { quantity: 10 }, { quantity: 60 }]
+		});
+
+		const report = await checker.check();
+
+		expect(report.isConformant).toBe(false);
+		expect(report.diagnostics.map(({ violation, payload }) => [violation, payload])).toEqual([
+			[EnumContractViolation.FAILURE_WITH_DATA, { quantity: 0 }],
+			[EnumContractViolation.FAILURE_WITHOUT_MESSAGES, { quantity: 0 }],
+			[EnumContractViolation.INVALID_DATA, { quantity: 10 }],
+			[EnumContractViolation.THROWN_EXCEPTION, { quantity: 60 }]
+		]);
+		expect(report.diagnostics[3].error).toBeInstanceOf(Error);
+	});
+
+	it('should report values which are not a TypeResponse and successful responses with error messages', async () =>
+	{
+		const action = {
+			execute: async (payload: number): Promise<any> => payload === 1
+				? { ok: true }
+				: { success: true, messages: [{ code: 'EXECUTION_ERROR', text: 'Partially failed', severity: 'error' }] }
+		};
+
+		const report = await new ContractConformanceChecker(action, { payloads: [1, 2] }).check();
+
+		expect(report.diagnostics.map((diagnostic) => diagnostic.violation)).toEqual([
+			EnumContractViolation.INVALID_RESPONSE_SHAPE,
+			EnumContractViolation.SUCCESS_WITH_ERROR_MESSAGE
+		]);
+	});
+
+	it('should throw the diagnostics when asserting the conformance of a violating action', async () =>
+	{
+		const checker = new ContractConformanceChecker(new ViolatingMockAction(), { payloadSchema, objectSchema, runs: 10 });
+
+		const error = await checker.assertConformance().catch((error: unknown) => error);
+
+		expect(error).toBeInstanceOf(ContractViolationError);
+		expect((error as ContractViolationError).code).toBe('CONTRACT_VIOLATION');
+		expect((error as ContractViolationError).diagnostics.length).toBeGreaterThan(0);
+	});
+});
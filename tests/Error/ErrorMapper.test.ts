@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { CodedError } from '../../src/Error/CodedError';
+import { ErrorMapper } from '../../src/Error/ErrorMapper';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumMessageSeverity } from '../../src/Type/MessageSeverity';
+
+class PaymentDeclinedError extends Error {}
+
+describe('ErrorMapper', () =>
+{
+	it('should map unknown exceptions to EXECUTION_ERROR with a generic text and keep the cause only when asked', () =>
+	{
+		const error = new Error('Connection to db-internal:5432 refused');
+
+		expect(new ErrorMapper().map(error)).toEqual({
+			code: EnumErrorCode.EXECUTION_ERROR,
+			text: 'An unexpected error occurred',
+			severity: EnumMessageSeverity.ERROR
+		});
+		expect(new ErrorMapper([], true).map(error).cause).toBe(error);
+	});
+
+	it('should use the code of a CodedError and map timeouts', () =>
+	{
+		const mapper = new ErrorMapper();
+		const timeoutError = new Error('The operation timed out');
+		timeoutError.name = 'TimeoutError';
+
+		expect(mapper.map(new CodedError(EnumErrorCode.UNAUTHORIZED, 'Invalid token'))).toMatchObject({ code: EnumErrorCode.UNAUTHORIZED, text: 'Invalid token' });
+		expect(mapper.map(timeoutError)).toMatchObject({ code: EnumErrorCode.TIMEOUT, text: 'The operation timed out or was aborted' });
+		expect(mapper.map('plain string').text).toBe('An unexpected error occurred');
+	});
+
+	it('should map custom exception classes using rules', () =>
+	{
+		const mapper = new ErrorMapper([
+			{ errorClass: PaymentDeclinedError, code: 'PAYMENT_DECLINED', text: () => 'The payment was declined' }
+		]);
+
+		expect(mapper.map(new PaymentDeclinedError('Card 4242 declined'))).toEqual({
+			code: 'PAYMENT_DECLINED',
+			text: 'The payment was declined',
+			severity: EnumMessageSeverity.ERROR
+		});
+	});
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { ActionWorkflowHelper } from '../../src/Helper/ActionWorkflowHelper';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumMessageSeverity } from '../../src/Type/MessageSeverity';
+
+const fetchUser: ActionInterface<{ id: number }, { id: number, name: string }> = {
+	execute: async (payload) => ({ success: true, messages: [{ code: 'FETCHED', text: 'Fetched' }], data: { id: payload.id, name: 'John' } })
+};
+const enrichUser: ActionInterface<{ id: number, name: string }, { id: number, name: string, email: string }> = {
+	execute: async (payload) => ({ success: true, data: { ...payload, email: 'john@example.com' } })
+};
+const failingAction: ActionInterface<any, never> = {
+	execute: async () => ResponseHelper.createErrorResponse(EnumErrorCode.NOT_FOUND, 'Not found')
+};
+const throwingAction: ActionInterface<any, never> = {
+	execute: async () =>
+	{
+		throw new Error('Boom');
+	}
+};
+const synchronouslyThrowingAction: ActionInterface<any, never> = {
+	execute: () =>
+	{
+		throw new Error('Boom');
+	}
+};
+
+describe('ActionWorkflowHelper', () =>
+{
+	it('should feed the data of each step into the next one', async () =>
+	{
+		const workflow = ActionWorkflowHelper.sequence(fetchUser, enrichUser);
+
+		expect(await workflow.execute({ id: 1 })).toEqual({
+			success: true,
+			messages: [{ code: 'FETCHED', text: 'Fetched' }],
+			data: { id: 1, name: 'John', email: 'john@example.com' }
+		});
+	});
+
+	it('should stop the sequence at the first failure and keep the messages of executed steps', async () =>
+	{
+		const response = await ActionWorkflowHelper.sequence(fetchUser, failingAction, enrichUser).execute({ id: 1 });
+
+		expect(response.success).toBe(false);
+		expect(response.messages?.map((message) => message.code)).toEqual(['FETCHED', EnumErrorCode.NOT_FOUND]);
+	});
+
+	it('should run branches in parallel and merge their messages', async () =>
+	{
+		const response = await ActionWorkflowHelper.parallel(fetchUser, ActionWorkflowHelper.map(fetchUser, (user) => user.name)).execute({ id: 2 });
+
+		expect(response.data).toEqual([{ id: 2, name: 'John' }, 'John']);
+		expect(response.messages).toHaveLength(2);
+
+		const failedResponse = await ActionWorkflowHelper.parallel(fetchUser, throwingAction).execute({ id: 2 });
+
+		expect(failedResponse.success).toBe(false);
+		expect(failedResponse.data).toBeUndefined();
+		expect(failedResponse.messages?.map((message) => message.code)).toEqual(['FETCHED', EnumErrorCode.EXECUTION_ERROR]);
+	});
+
+	it('should return the first successful alternative with earlier failures as warnings', async () =>
+	{
+		const response = await ActionWorkflowHelper.firstSuccess(failingAction, throwingAction, fetchUser).execute({ id: 3 });
+
+		expect(response.success).toBe(true);
+		expect(response.data).toEqual({ id: 3, name: 'John' });
+		expect(response.messages?.map((message) => [message.code, message.severity])).toEqual([
+			[EnumErrorCode.NOT_FOUND, EnumMessageSeverity.WARNING],
+			[EnumErrorCode.EXECUTION_ERROR, EnumMessageSeverity.WARNING],
+			['FETCHED', undefined]
+		]);
+
+		const failedResponse = await ActionWorkflowHelper.firstSuccess(failingAction, throwingAction).execute({});
+
+		expect(failedResponse.success).toBe(false);
+		expect(failedResponse.messages).toHaveLength(2);
+	});
+
+	it('should turn actions throwing synchronously into failed responses', async () =>
+	{
+		const sequenceResponse = await ActionWorkflowHelper.sequence(fetchUser, synchronouslyThrowingAction).execute({ id: 4 });
+		const parallelResponse = await ActionWorkflowHelper.parallel(synchronouslyThrowingAction, fetchUser).execute({ id: 4 });
+		const firstSuccessResponse = await ActionWorkflowHelper.firstSuccess(synchronouslyThrowingAction, fetchUser).execute({ id: 4 });
+
+		expect(sequenceResponse.messages?.map((message) => message.code)).toEqual(['FETCHED', EnumErrorCode.EXECUTION_ERROR]);
+		expect(parallelResponse.messages?.map((message) => message.code)).toEqual([EnumErrorCode.EXECUTION_ERROR, 'FETCHED']);
+		expect(firstSuccessResponse.data).toEqual({ id: 4, name: 'John' });
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { JsonSchemaHelper } from '../../src/Helper/JsonSchemaHelper';
+import { EnumJsonSchemaTarget } from '../../src/Type/JsonSchema';
+
+describe('JsonSchemaHelper', () =>
+{
+	it('should convert objects with required, optional and default fields', () =>
+	{
+		const schema = z.object({
+			name: z.string().min(1).describe('The name of the user'),
+			email: z.string().email().optional(),
+			age: z.number().int().min(0).default(18)
+		});
+
+		expect(JsonSchemaHelper.fromZodSchema(schema)).toEqual({
+			$schema: 'https://json-schema.org/draft/2020-12/schema',
+			type: 'object',
+			properties: {
+				name: { type: 'string', minLength: 1, description: 'The name of the user' },
+				email: { type: 'string', format: 'email' },
+				age: { type: 'integer', minimum: 0, default: 18 }
+			},
+			required: ['name']
+		});
+	});
+
+	it('should omit the $schema keyword for OpenAPI 3.1', () =>
+	{
+		expect(JsonSchemaHelper.fromZodSchema(z.boolean(), EnumJsonSchemaTarget.OPENAPI_3_1)).toEqual({ type: 'boolean' });
+	});
+
+	it('should convert nullables, enums, unions and arrays', () =>
+	{
+		enum EnumColor
+		{
+			RED = 'red',
+			GREEN = 'green',
+		}
+
+		const schema = z.object({
+			note: z.string().nullable(),
+			status: z.enum(['active', 'inactive']),
+			color: z.nativeEnum(EnumColor),
+			value: z.union([z.string(), z.number()]),
+			tags: z.array(z.string()).max(3),
+			kind: z.literal('user')
+		}).strict();
+
+		expect(JsonSchemaHelper.fromZodSchema(schema, EnumJsonSchemaTarget.OPENAPI_3_1)).toEqual({
+			type: 'object',
+			properties: {
+				note: { type: ['string', 'null'] },
+				status: { type: 'string', enum: ['active', 'inactive'] },
+				color: { type: 'string', enum: ['red', 'green'] },
+				value: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+				tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+				kind: { type: 'string', const: 'user' }
+			},
+			required: ['note', 'status', 'color', 'value', 'tags', 'kind'],
+			additionalProperties: false
+		});
+	});
+
+	it('should use the wrapped schema for refinements and transformations', () =>
+	{
+		const schema = z.string()
+			.refine((value) => value.startsWith('a'), 'Must start with a')
+			.transform((value) => value.length)
+			.describe('Length of the value');
+
+		expect(JsonSchemaHelper.fromZodSchema(schema, EnumJsonSchemaTarget.OPENAPI_3_1)).toEqual({
+			type: 'string',
+			description: 'Length of the value'
+		});
+	});
+
+	it('should stop on recursive lazy schemas', () =>
+	{
+		interface TypeNode { children: TypeNode[] }
+		const nodeSchema: z.ZodType<TypeNode> = z.lazy(() => z.object({ children: z.array(nodeSchema) }));
+
+		expect(JsonSchemaHelper.fromZodSchema(nodeSchema, EnumJsonSchemaTarget.OPENAPI_3_1)).toEqual({
+			type: 'object',
+			properties: { children: { type: 'array', items: {} } },
+			required: ['children']
+		});
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { OptionalFieldStripperHelper } from '../../src/Helper/OptionalFieldStripperHelper';
+import { EnumEmptyStringStrategy } from '../../src/Type/EmptyStringStrategy';
+
+describe('OptionalFieldStripperHelper', () =>
+{
+	it('should strip empty strings of optional top level fields only', () =>
+	{
+		const schema = z.object({ name: z.string(), nickname: z.string().optional() });
+
+		expect(OptionalFieldStripperHelper.stripEmptyStrings({ name: '', nickname: '' }, schema)).toEqual({ name: '', nickname: undefined });
+	});
+
+	it('should normalize nested objects, arrays and wrapped schemas', () =>
+	{
+		const schema = z.object({
+			user: z.object({
+				email: z.string().email().optional(),
+				role: z.string().default('member')
+			}).refine(() => true),
+			tags: z.array(z.object({ label: z.string().nullish() }))
+		});
+
+		const payload = { user: { email: '', role: '' }, tags: [{ label: '' }] };
+		const normalized = OptionalFieldStripperHelper.normalize(payload, schema);
+
+		expect(normalized).toEqual({ user: { email: undefined, role: undefined }, tags: [{ label: undefined }] });
+		expect(payload.user.email).toBe('');
+		expect(schema.parse(normalized).user.role).toBe('member');
+	});
+
+	it('should normalize the option of discriminated unions and unions', () =>
+	{
+		const discriminatedSchema = z.discriminatedUnion('type', [
+			z.object({ type: z.literal('email'), address: z.string().optional() }),
+			z.object({ type: z.literal('phone'), number: z.string().optional() })
+		]);
+		const unionSchema = z.union([z.object({ id: z.number() }), z.object({ name: z.string().optional() })]);
+
+		expect(OptionalFieldStripperHelper.normalize({ type: 'phone', number: '' }, discriminatedSchema)).toEqual({ type: 'phone', number: undefined });
+		expect(OptionalFieldStripperHelper.normalize({ name: '' }, unionSchema)).toEqual({ name: undefined });
+	});
+
+	it('should apply the configured rules', () =>
+	{
+		const schema = z.object({
+			comment: z.string().nullable(),
+			title: z.string().optional(),
+			age: z.number().optional(),
+			items: z.array(z.string()).optional()
+		});
+
+		const normalized = OptionalFieldStripperHelper.normalize(
+			{ comment: '  ', title: ' Hello ', age: ' 42 ', items: [] },
+			schema,
+			{ emptyString: EnumEmptyStringStrategy.NULL, trim: true, coerceNumbers: true, dropEmptyArrays: true }
+		);
+
+		expect(normalized).toEqual({ comment: null, title: 'Hello', age: 42, items: undefined });
+		expect(OptionalFieldStripperHelper.normalize({ title: '' }, schema, { emptyString: EnumEmptyStringStrategy.PRESERVE })).toEqual({ title: '' });
+		expect(OptionalFieldStripperHelper.normalize({ age: 'abc' }, schema, { coerceNumbers: true })).toEqual({ age: 'abc' });
+	});
+});
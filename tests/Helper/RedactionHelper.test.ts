@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { RedactionHelper } from '../../src/Helper/RedactionHelper';
+
+describe('RedactionHelper', () =>
+{
+	it('should redact default and custom keys at any depth', () =>
+	{
+		const payload = {
+			name: 'John',
+			apiKey: 'k1',
+			credentials: { accessToken: 't1', ['X-Authorization']: 'Bearer t2' },
+			cards: [{ cardNumber: '4111', holder: 'John' }],
+			phone: '555'
+		};
+
+		expect(RedactionHelper.redact(payload, { keys: [/^phone$/], replacement: '***' })).toEqual({
+			name: 'John',
+			apiKey: '***',
+			credentials: { accessToken: '***', ['X-Authorization']: '***' },
+			cards: [{ cardNumber: '***', holder: 'John' }],
+			phone: '***'
+		});
+		expect(payload.apiKey).toBe('k1');
+	});
+
+	it('should keep primitives and stop on circular references', () =>
+	{
+		const payload: Record<string, unknown> = { id: 1 };
+		payload.self = payload;
+
+		expect(RedactionHelper.redact('text')).toBe('text');
+		expect(RedactionHelper.redact(payload)).toEqual({ id: 1, self: '[Circular]' });
+	});
+});
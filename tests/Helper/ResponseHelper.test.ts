@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { ResponseError } from '../../src/Error/ResponseError';
+import { MessageFormatter } from '../../src/Localization/MessageFormatter';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { CodedError } from '../../src/Error/CodedError';
+import { EnumMessageSeverity } from '../../src/Type/MessageSeverity';
+import { createResponseSchema, type TypeResponse } from '../../src/Type/Response';
+
+const userSchema = z.object({ id: z.number(), name: z.string() });
+
+describe('ResponseHelper', () =>
+{
+	it('should create a response schema validating the data', () =>
+	{
+		const schema = createResponseSchema(userSchema);
+
+		expect(schema.parse({ success: true, data: { id: 1, name: 'John' } })).toEqual({ success: true, data: { id: 1, name: 'John' } });
+		expect(schema.safeParse({ success: true, data: { id: '1' } }).success).toBe(false);
+	});
+
+	it('should parse untrusted responses into typed responses', () =>
+	{
+		const response = ResponseHelper.parse(userSchema, '{"success":true,"data":{"id":1,"name":"John"}}');
+		const invalidResponse = ResponseHelper.parse(userSchema, { success: true, data: { id: 1 } });
+		const malformedResponse = ResponseHelper.parse(userSchema, '<html>');
+
+		expect(response).toEqual({ success: true, data: { id: 1, name: 'John' } });
+		expect(invalidResponse.success).toBe(false);
+		expect(invalidResponse.messages?.[0]).toMatchObject({ code: EnumErrorCode.INVALID_RESPONSE, path: ['data', 'name'] });
+		expect(malformedResponse.success).toBe(false);
+		expect(malformedResponse.messages?.[0].code).toBe(EnumErrorCode.INVALID_RESPONSE);
+	});
+
+	it('should leave the causes of messages out of parsed responses', () =>
+	{
+		const response = ResponseHelper.parse(userSchema, {
+			success: false,
+			messages: [{ code: EnumErrorCode.EXECUTION_ERROR, text: 'Boom', cause: { stack: 'internal' } }]
+		});
+
+		expect(response).toEqual({ success: false, messages: [{ code: EnumErrorCode.EXECUTION_ERROR, text: 'Boom' }] });
+	});
+
+	it('should unwrap data or throw a response error', () =>
+	{
+		const failedResponse = ResponseHelper.createErrorResponse(EnumErrorCode.NOT_FOUND, 'User not found');
+
+		expect(ResponseHelper.unwrap({ success: true, data: { id: 1 } })).toEqual({ id: 1 });
+		expect(() => ResponseHelper.unwrap(failedResponse)).toThrow(ResponseError);
+
+		try
+		{
+			ResponseHelper.unwrap(failedResponse);
+		}
+		catch (error)
+		{
+			expect(error).toMatchObject({ code: EnumErrorCode.NOT_FOUND, message: 'User not found', messages: failedResponse.messages });
+		}
+	});
+
+	it('should narrow responses with type guards', () =>
+	{
+		const responses: TypeResponse<number>[] = [{ success: true, data: 1 }, { success: false, messages: [] }];
+
+		expect(responses.filter(ResponseHelper.isSuccess).map((response) => response.data)).toEqual([1]);
+		expect(ResponseHelper.isSuccess(ResponseHelper.createSuccessResponse())).toBe(false);
+		expect(() => ResponseHelper.unwrap(ResponseHelper.createSuccessResponse<number>())).toThrow('Successful response has no data');
+		expect(responses.filter(ResponseHelper.isFailure)).toHaveLength(1);
+	});
+
+	it('should build success, warning and multi-error responses', () =>
+	{
+		expect(ResponseHelper.createSuccessResponse({ id: 1 })).toEqual({ success: true, messages: [], data: { id: 1 } });
+		expect(ResponseHelper.createWarningResponse(1, 'PARTIAL', 'Some items were skipped')).toEqual({
+			success: true,
+			messages: [{ code: 'PARTIAL', text: 'Some items were skipped', severity: EnumMessageSeverity.WARNING }],
+			data: 1
+		});
+		expect(ResponseHelper.createErrorsResponse([{ code: 'A', text: 'a' }, { code: 'B', text: 'b' }]).messages).toHaveLength(2);
+	});
+
+	it('should map and chain successful responses and keep failures', async () =>
+	{
+		const warning = ResponseHelper.createWarningResponse(2, 'PARTIAL', 'Partial');
+		const failure = ResponseHelper.createErrorResponse<number>('NOT_FOUND', 'Not found');
+
+		expect(ResponseHelper.map(warning, (data) => data * 2)).toMatchObject({ success: true, data: 4 });
+		expect(ResponseHelper.map(failure, (data) => data * 2)).toEqual(failure);
+		expect(ResponseHelper.flatMap(warning, (data) => ResponseHelper.createSuccessResponse(String(data)))).toEqual({
+			success: true,
+			messages: warning.messages,
+			data: '2'
+		});
+		expect(await ResponseHelper.andThen(Promise.resolve(warning), async (data) => ResponseHelper.createErrorResponse('TOO_SMALL', `${data}`))).toEqual({
+			success: false,
+			messages: [...(warning.messages ?? []), { code: 'TOO_SMALL', text: '2' }]
+		});
+		expect(ResponseHelper.mapError(failure, (message) => ({ ...message, code: 'USER_NOT_FOUND' })).messages?.[0].code).toBe('USER_NOT_FOUND');
+		expect(ResponseHelper.unwrapOr(failure, 0)).toBe(0);
+	});
+
+	it('should merge and combine responses', () =>
+	{
+		const first = ResponseHelper.createSuccessResponse(1);
+		const second = ResponseHelper.createWarningResponse('two', 'PARTIAL', 'Partial');
+		const failure = ResponseHelper.createErrorResponse<number>('NOT_FOUND', 'Not found');
+
+		expect(ResponseHelper.merge([first, ResponseHelper.createSuccessResponse(2)])).toEqual({ success: true, messages: [], data: [1, 2] });
+		expect(ResponseHelper.merge([first, failure])).toEqual({ success: false, messages: failure.messages });
+		expect(ResponseHelper.combine({ first, second })).toEqual({ success: true, messages: second.messages, data: { first: 1, second: 'two' } });
+	});
+
+	it('should convert between responses, promises and exceptions', async () =>
+	{
+		const failure = ResponseHelper.createErrorResponse('NOT_FOUND', 'Not found');
+
+		expect(await ResponseHelper.fromPromise(Promise.resolve(1))).toEqual({ success: true, messages: [], data: 1 });
+		expect(await ResponseHelper.fromPromise(Promise.reject(new CodedError('CONFLICT', 'Already exists')))).toMatchObject({
+			success: false,
+			messages: [{ code: 'CONFLICT', text: 'Already exists' }]
+		});
+		expect(ResponseHelper.toError(failure)).toBeInstanceOf(ResponseError);
+		expect(ResponseHelper.fromError(ResponseHelper.toError(failure))).toEqual(failure);
+	});
+
+	it('should render the texts of messages with a formatter', () =>
+	{
+		const formatter = new MessageFormatter({ catalogs: { es: { messages: { [EnumErrorCode.NOT_FOUND]: 'No encontrado', ['invalid_type']: '{path} es obligatorio' } } } });
+		const failure = ResponseHelper.createErrorResponse(EnumErrorCode.NOT_FOUND, 'Not found');
+		const invalidResponse = ResponseHelper.parse(userSchema, { success: true, data: { id: 1 } }, { formatter, locale: 'es' });
+
+		expect(ResponseHelper.formatMessages(failure, formatter, 'es').messages?.[0]).toEqual({ code: EnumErrorCode.NOT_FOUND, text: 'No encontrado' });
+		expect(ResponseHelper.formatMessages(failure, formatter)).toEqual(failure);
+		expect(invalidResponse.messages?.[0]).toMatchObject({ code: EnumErrorCode.INVALID_RESPONSE, text: 'data.name es obligatorio' });
+		expect(ResponseHelper.createErrorResponse(EnumErrorCode.NOT_FOUND, 'Not found', { formatter, locale: 'es' }).messages?.[0].text).toBe('No encontrado');
+		expect(ResponseHelper.fromError(new CodedError(EnumErrorCode.NOT_FOUND, 'Not found'), undefined, { formatter, locale: 'es' }).messages?.[0].text).toBe('No encontrado');
+	});
+});
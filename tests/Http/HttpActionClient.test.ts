@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { HttpActionClient } from '../../src/Http/HttpActionClient';
+import { HttpActionHandler } from '../../src/Http/HttpActionHandler';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { MessageFormatter } from '../../src/Localization/MessageFormatter';
+import { type TypeResponse } from '../../src/Type/Response';
+
+const payloadSchema = z.object({ query: z.string().min(1), ids: z.array(z.number()).optional() });
+const objectSchema = z.object({ results: z.array(z.string()) });
+
+// Mock ActionInterface implementation
+class MockAction implements ActionInterface<z.infer<typeof payloadSchema>, z.infer<typeof objectSchema>>
+{
+	public async execute(payload: z.infer<typeof payloadSchema>): Promise<TypeResponse<z.infer<typeof objectSchema>>>
+	{
+		return { success: true, data: { results: [payload.query, ...(payload.ids ?? []).map(String)] } };
+	}
+}
+
+const handler = new HttpActionHandler(payloadSchema, objectSchema, new MockAction());
+
+describe('HttpActionClient', () =>
+{
+	it('should call the endpoint and return its typed response', async () =>
+	{
+		const client = new HttpActionClient('http://localhost/search', payloadSchema, objectSchema, { fetch: (request: Request) => handler.handle(request) });
+		const getClient = new HttpActionClient('http://localhost/search', payloadSchema, objectSchema, {
+			method: 'GET',
+			fetch: (request: Request) => handler.handle(request)
+		});
+
+		expect(await client.execute({ query: 'shoes' })).toEqual({ success: true, data: { results: ['shoes'] } });
+		expect((await getClient.execute({ query: 'shoes', ids: [7] })).data).toEqual({ results: ['shoes', '7'] });
+	});
+
+	it('should validate the payload before calling the endpoint', async () =>
+	{
+		let called = false;
+		const client = new HttpActionClient('http://localhost/search', payloadSchema, objectSchema, {
+			fetch: async () =>
+			{
+				called = true;
+
+				return new Response('{}');
+			}
+		});
+
+		const result = await client.execute({ query: '' });
+
+		expect(result.success).toBe(false);
+		expect(result.messages?.[0].code).toBe('VALIDATION_ERROR');
+		expect(called).toBe(false);
+	});
+
+	it('should return execution errors for failed requests and unexpected responses', async () =>
+	{
+		const failingClient = new HttpActionClient('http://localhost/search', payloadSchema, objectSchema, {
+			fetch: async () =>
+			{
+				throw new Error('Network down');
+			}
+		});
+		const unexpectedClient = new HttpActionClient('http://localhost/search', payloadSchema, objectSchema, {
+			fetch: async () => new Response('{"error":"Bad gateway"}', { status: 502 })
+		});
+
+		expect(await failingClient.execute({ query: 'shoes' })).toEqual({
+			success: false,
+			messages: [{ code: 'EXECUTION_ERROR', text: 'Request to http://localhost/search failed: Network down' }]
+		});
+		expect((await unexpectedClient.execute({ query: 'shoes' })).messages?.[0].text).toBe('Unexpected response from http://localhost/search with status 502');
+	});
+
+	it('should send booleans as query parameters and reject nested objects', async () =>
+	{
+		const filterSchema = z.object({ isAvailable: z.boolean(), filter: z.object({ color: z.string() }).optional() });
+		const filterHandler = new HttpActionHandler(filterSchema, z.boolean(), { execute: async (payload) => ({ success: true, data: payload.isAvailable }) });
+		const client = new HttpActionClient('http://localhost/search', filterSchema, z.boolean(), {
+			method: 'GET',
+			fetch: (request: Request) => filterHandler.handle(request)
+		});
+
+		const response = await client.execute({ isAvailable: false });
+		const nestedResponse = await client.execute({ isAvailable: true, filter: { color: 'red' } });
+
+		expect(response).toEqual({ success: true, data: false });
+		expect(nestedResponse.success).toBe(false);
+		expect(nestedResponse.messages?.[0]).toMatchObject({ code: 'VALIDATION_ERROR', text: expect.stringContaining('"filter"') });
+	});
+
+	it('should render the messages of invalid payloads in the locale of the execution context', async () =>
+	{
+		const client = new HttpActionClient('http://localhost/search', payloadSchema, objectSchema, {
+			fetch: (request: Request) => handler.handle(request),
+			messageFormatter: new MessageFormatter({ catalogs: { de: { messages: { ['too_small']: '{path} ist zu kurz' } } } })
+		});
+
+		const result = await client.execute({ query: '' }, { locale: 'de' });
+
+		expect(result.messages?.[0]).toMatchObject({ code: 'VALIDATION_ERROR', text: 'query ist zu kurz' });
+	});
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { HttpActionHandler } from '../../src/Http/HttpActionHandler';
+import { CodedError } from '../../src/Error/CodedError';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { type TypeExecutionContext } from '../../src/Type/ExecutionContext';
+import { type TypeResponse } from '../../src/Type/Response';
+
+const payloadSchema = z.object({ productId: z.string(), quantity: z.number().int().positive(), tags: z.array(z.string()).optional() });
+const objectSchema = z.object({ orderId: z.string(), quantity: z.number(), tags: z.array(z.string()), userId: z.string().optional() });
+
+// Mock ActionInterface implementation
+class MockAction implements ActionInterface<z.infer<typeof payloadSchema>, z.infer<typeof objectSchema>>
+{
+	public async execute(payload: z.infer<typeof payloadSchema>, context?: TypeExecutionContext): Promise<TypeResponse<z.infer<typeof objectSchema>>>
+	{
+		if (payload.productId === 'missing')
+		{
+			throw new CodedError('NOT_FOUND', 'Product not found', new Error('internal details'));
+		}
+
+		if (payload.productId === 'conflict')
+		{
+			throw new CodedError('OUT_OF_STOCK', 'Product is out of stock');
+		}
+
+		if (payload.productId === 'busy')
+		{
+			return ResponseHelper.createRateLimitedResponse(1500);
+		}
+
+		return { success: true, data: { orderId: 'o1', quantity: payload.quantity, tags: payload.tags ?? [], userId: context?.userId } };
+	}
+}
+
+const createHandler = (): HttpActionHandler<typeof payloadSchema, typeof objectSchema> => new HttpActionHandler(payloadSchema, objectSchema, new MockAction(), {
+	statusCodes: { ['OUT_OF_STOCK']: 409 },
+	contextFactory: (request) => ({ userId: request.headers.get('x-user-id') ?? undefined })
+});
+
+describe('HttpActionHandler', () =>
+{
+	it('should execute the action with a JSON body and the request context', async () =>
+	{
+		const response = await createHandler().handle(new Request('http://localhost/orders', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json', 'x-user-id': 'alice' },
+			body: JSON.stringify({ productId: 'p1', quantity: 2 })
+		}));
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ success: true, data: { orderId: 'o1', quantity: 2, tags: [], userId: 'alice' } });
+	});
+
+	it('should read query and form input with numeric strings and repeated fields', async () =>
+	{
+		const form = new URLSearchParams([['quantity', '3'], ['tags', 'a'], ['tags', 'b']]);
+
+		const queryResponse = await createHandler().handle(new Request('http://localhost/orders?productId=p1&quantity=5&tags[]=a'));
+		const formResponse = await createHandler().handle(new Request('http://localhost/orders?productId=p2', { method: 'POST', body: form }));
+
+		expect((await queryResponse.json()).data).toMatchObject({ quantity: 5, tags: ['a'] });
+		expect((await formResponse.json()).data).toMatchObject({ quantity: 3, tags: ['a', 'b'] });
+	});
+
+	it('should map message codes to HTTP statuses', async () =>
+	{
+		const post = (body: string): Request => new Request('http://localhost/orders', { method: 'POST', headers: { 'content-type': 'application/json' }, body });
+
+		const invalidResponse = await createHandler().handle(post('{"productId":"p1","quantity":0}'));
+		const notFoundResponse = await createHandler().handle(post('{"productId":"missing","quantity":1}'));
+		const conflictResponse = await createHandler().handle(post('{"productId":"conflict","quantity":1}'));
+		const malformedResponse = await createHandler().handle(post('{'));
+
+		expect(invalidResponse.status).toBe(422);
+		expect((await invalidResponse.json()).messages[0]).toMatchObject({ code: 'VALIDATION_ERROR', path: ['quantity'] });
+		expect(notFoundResponse.status).toBe(404);
+		expect((await notFoundResponse.json()).messages).toEqual([{ code: 'NOT_FOUND', text: 'Product not found', severity: 'error' }]);
+		expect(conflictResponse.status).toBe(409);
+		expect(malformedResponse.status).toBe(400);
+	});
+
+	it('should answer with 500 when the context cannot be created', async () =>
+	{
+		const handler = new HttpActionHandler(payloadSchema, objectSchema, new MockAction(), {
+			contextFactory: () =>
+			{
+				throw new Error('Token is malformed');
+			}
+		});
+
+		const response = await handler.handle(new Request('http://localhost/orders?productId=p1&quantity=1'));
+
+		expect(response.status).toBe(500);
+		expect((await response.json()).messages[0].code).toBe('EXECUTION_ERROR');
+	});
+
+	it('should answer rate limited calls with 429 and the Retry-After header', async () =>
+	{
+		const response = await createHandler().handle(new Request('http://localhost/orders?productId=busy&quantity=1'));
+
+		expect(response.status).toBe(429);
+		expect(response.headers.get('retry-after')).toBe('2');
+		expect((await response.json()).messages[0].code).toBe('RATE_LIMITED');
+	});
+
+	it('should read field names of the object prototype as plain fields', async () =>
+	{
+		const fieldSchema = z.object({ constructor: z.string(), toString: z.string() });
+		const handler = new HttpActionHandler(fieldSchema, fieldSchema, {
+			execute: async (payload: z.infer<typeof fieldSchema>) => ({ success: true, data: payload })
+		});
+
+		const response = await handler.handle(new Request('http://localhost/fields?constructor=1&toString=a&__proto__=b'));
+
+		expect(response.status).toBe(200);
+		expect((await response.json()).data).toEqual({ constructor: '1', toString: 'a' });
+	});
+
+	it('should await asynchronous context factories', async () =>
+	{
+		const handler = new HttpActionHandler(payloadSchema, objectSchema, new MockAction(), {
+			contextFactory: async (request) => ({ userId: await Promise.resolve(request.headers.get('x-user-id') ?? undefined) })
+		});
+
+		const response = await handler.handle(new Request('http://localhost/orders?productId=p1&quantity=1', { headers: { 'x-user-id': 'alice' } }));
+
+		expect((await response.json()).data.userId).toBe('alice');
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ValidationMessageHelper } from '../../src/Helper/ValidationMessageHelper';
+import { MessageFormatter } from '../../src/Localization/MessageFormatter';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+
+const schema = z.object({
+	name: z.string().min(3).describe('Name'),
+	contact: z.object({
+		email: z.string().email().optional().describe('Email address')
+	}),
+	tags: z.array(z.string().max(2)).optional()
+});
+
+const formatter = new MessageFormatter({
+	catalogs: {
+		de: {
+			messages: {
+				['too_small.string']: '{label} muss mindestens {minimum} Zeichen lang sein',
+				['invalid_string']: (values) => `${String(values['label'])} ist ungültig`,
+				[EnumErrorCode.NOT_FOUND]: 'Nicht gefunden'
+			},
+			labels: { ['Email address']: 'E-Mail-Adresse' }
+		},
+		['de-CH']: {
+			messages: { ['too_small.string']: '{label} braucht {minimum} Zeichen' }
+		}
+	}
+});
+
+describe('MessageFormatter', () =>
+{
+	it('should render validation messages with interpolated limits and labels from schema descriptions', () =>
+	{
+		const error = schema.safeParse({ name: 'Jo', contact: { email: 'john' }, tags: ['abc'] }).error!;
+
+		const messages = ValidationMessageHelper.fromZodError(error, { formatter, schema, locale: 'de' });
+
+		expect(messages.map((message) => message.text)).toEqual([
+			'Name muss mindestens 3 Zeichen lang sein',
+			'E-Mail-Adresse ist ungültig',
+			'String must contain at most 2 character(s) (at tags.0)'
+		]);
+		expect(messages[0]).toMatchObject({ code: EnumErrorCode.VALIDATION_ERROR, issueCode: 'too_small', path: ['name'], params: { minimum: 3 } });
+	});
+
+	it('should fall back from the region to the language and keep the text of unknown locales', () =>
+	{
+		const error = schema.safeParse({ name: 'Jo', contact: {} }).error!;
+
+		expect(ValidationMessageHelper.fromZodError(error, { formatter, schema, locale: 'de-CH' })[0].text).toBe('Name braucht 3 Zeichen');
+		expect(ValidationMessageHelper.fromZodError(error, { formatter, schema, locale: 'de-AT' })[0].text).toBe('Name muss mindestens 3 Zeichen lang sein');
+		expect(ValidationMessageHelper.fromZodError(error, { formatter, schema, locale: 'fr' })).toEqual(ValidationMessageHelper.fromZodError(error));
+	});
+
+	it('should render messages by their code and use the default locale when none is given', () =>
+	{
+		const germanFormatter = new MessageFormatter({ catalogs: { de: { messages: { [EnumErrorCode.NOT_FOUND]: '{path} nicht gefunden' } } }, defaultLocale: 'de' });
+
+		expect(germanFormatter.format({ code: EnumErrorCode.NOT_FOUND, text: 'Not found', path: ['user', 'id'] })).toBe('user.id nicht gefunden');
+		expect(germanFormatter.format({ code: EnumErrorCode.TIMEOUT, text: 'Timed out' })).toBe('Timed out');
+		expect(germanFormatter.format({ code: EnumErrorCode.NOT_FOUND, text: 'Not found' }, { locale: 'en' })).toBe('Not found');
+	});
+});
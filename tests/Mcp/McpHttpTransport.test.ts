@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ServiceTool } from '../../src/Tool/ServiceTool';
+import { ToolRegistry } from '../../src/Tool/ToolRegistry';
+import { McpHttpTransport } from '../../src/Mcp/McpHttpTransport';
+import { McpServer } from '../../src/Mcp/McpServer';
+import { type ServiceInterface } from '../../src/Interface/ServiceInterface';
+import { EnumJsonRpcErrorCode } from '../../src/Type/JsonRpc';
+
+// Mock ServiceInterface implementation
+class MockService implements ServiceInterface<{ a: number, b: number }, { sum: number }>
+{
+	public async execute(payload: { a: number, b: number }): Promise<{ sum: number }>
+	{
+		return { sum: payload.a + payload.b };
+	}
+}
+
+const createServer = (): McpServer => new McpServer(new ToolRegistry([
+	new ServiceTool('add', 'Adds two numbers', z.object({ a: z.number(), b: z.number() }), z.object({ sum: z.number() }), new MockService())
+]));
+
+const callRequest = { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'add', arguments: { a: 1, b: 2 } } };
+
+describe('McpHttpTransport', () =>
+{
+	it('should answer requests with JSON and acknowledge notifications', async () =>
+	{
+		const transport = new McpHttpTransport(createServer());
+		const post = (body: string): Request => new Request('http://localhost/mcp', { method: 'POST', body });
+
+		const response = await transport.handle(post(JSON.stringify(callRequest)));
+		const notificationResponse = await transport.handle(post('{"jsonrpc":"2.0","method":"notifications/initialized"}'));
+		const invalidResponse = await transport.handle(post('{'));
+		const getResponse = await transport.handle(new Request('http://localhost/mcp'));
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toBe('application/json');
+		expect(await response.json()).toMatchObject({ id: 1, result: { structuredContent: { sum: 3 }, isError: false } });
+		expect(notificationResponse.status).toBe(202);
+		expect(invalidResponse.status).toBe(400);
+		expect(await invalidResponse.json()).toMatchObject({ id: null, error: { code: EnumJsonRpcErrorCode.PARSE_ERROR } });
+		expect(getResponse.status).toBe(405);
+	});
+
+	it('should reject requests from origins which are not allowed', async () =>
+	{
+		const post = (origin: string): Request => new Request('http://localhost/mcp', { method: 'POST', headers: { origin }, body: JSON.stringify(callRequest) });
+
+		const sameOriginResponse = await new McpHttpTransport(createServer()).handle(post('http://localhost'));
+		const foreignOriginResponse = await new McpHttpTransport(createServer()).handle(post('http://attacker.example'));
+		const allowedOriginResponse = await new McpHttpTransport(createServer(), undefined, { allowedOrigins: ['https://app.example'] }).handle(post('https://app.example'));
+
+		expect(sameOriginResponse.status).toBe(200);
+		expect(foreignOriginResponse.status).toBe(403);
+		expect(allowedOriginResponse.status).toBe(200);
+	});
+
+	it('should answer with an internal error when the context cannot be created', async () =>
+	{
+		const transport = new McpHttpTransport(createServer(), () =>
+		{
+			throw new Error('Token is malformed');
+		});
+
+		const response = await transport.handle(new Request('http://localhost/mcp', { method: 'POST', body: JSON.stringify(callRequest) }));
+
+		expect(response.status).toBe(500);
+		expect(await response.json()).toMatchObject({ error: { code: EnumJsonRpcErrorCode.INTERNAL_ERROR } });
+	});
+});
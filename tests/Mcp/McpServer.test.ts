@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { CodedError } from '../../src/Error/CodedError';
+import { ActionTool } from '../../src/Tool/ActionTool';
+import { ToolRegistry } from '../../src/Tool/ToolRegistry';
+import { McpClient } from '../../src/Mcp/McpClient';
+import { McpInProcessTransport } from '../../src/Mcp/McpInProcessTransport';
+import { McpServer } from '../../src/Mcp/McpServer';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { type TypeExecutionContext } from '../../src/Type/ExecutionContext';
+import { EnumJsonRpcErrorCode } from '../../src/Type/JsonRpc';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock ActionInterface implementation
+class MockAction implements ActionInterface<{ name: string }, { greeting: string }>
+{
+	public async execute(payload: { name: string }, context?: TypeExecutionContext): Promise<TypeResponse<{ greeting: string }>>
+	{
+		if (payload.name === 'nobody')
+		{
+			throw new CodedError('NOT_FOUND', 'User not found');
+		}
+
+		return { success: true, data: { greeting: `Hello, ${payload.name}${context?.userId ? ` from ${context.userId}` : ''}!` } };
+	}
+}
+
+const createServer = (): McpServer => new McpServer(new ToolRegistry([
+	new ActionTool('greet', 'Greets a user', z.object({ name: z.string().min(1) }), z.object({ greeting: z.string() }), new MockAction())
+]), { name: 'test-server', version: '1.2.3' });
+
+describe('McpServer', () =>
+{
+	it('should initialize and list tools with their input schemas', async () =>
+	{
+		const client = new McpClient(new McpInProcessTransport(createServer()));
+
+		const initializeResult = await client.initialize();
+		const { tools } = await client.listTools();
+
+		expect(initializeResult.protocolVersion).toBe('2025-06-18');
+		expect(initializeResult.serverInfo).toEqual({ name: 'test-server', version: '1.2.3' });
+		expect(tools).toHaveLength(1);
+		expect(tools[0].name).toBe('greet');
+		expect(tools[0].description).toBe('Greets a user');
+		expect(tools[0].inputSchema).toMatchObject({ type: 'object', properties: { name: { type: 'string', minLength: 1 } }, required: ['name'] });
+	});
+
+	it('should return successful tool results as text and structured content', async () =>
+	{
+		const client = new McpClient(new McpInProcessTransport(createServer(), { userId: 'alice' }));
+
+		const result = await client.callTool('greet', { name: 'John' });
+
+		expect(result).toEqual({
+			content: [{ type: 'text', text: '{"greeting":"Hello, John from alice!"}' }],
+			structuredContent: { greeting: 'Hello, John from alice!' },
+			isError: false
+		});
+	});
+
+	it('should report failed tool calls and validation errors with isError', async () =>
+	{
+		const client = new McpClient(new McpInProcessTransport(createServer()));
+
+		const failedResult = await client.callTool('greet', { name: 'nobody' });
+		const invalidResult = await client.callTool('greet', { name: '' });
+
+		expect(failedResult).toEqual({ content: [{ type: 'text', text: 'NOT_FOUND: User not found' }], isError: true });
+		expect(invalidResult.isError).toBe(true);
+		expect(invalidResult.content[0].text).toMatch(/^VALIDATION_ERROR: /);
+	});
+
+	it('should reject unknown tools and methods with protocol errors', async () =>
+	{
+		const server = createServer();
+		const client = new McpClient(new McpInProcessTransport(server));
+
+		await expect(client.callTool('missing')).rejects.toMatchObject({ code: EnumJsonRpcErrorCode.INVALID_PARAMS });
+		expect(await server.handle({ jsonrpc: '2.0', id: 1, method: 'resources/list' })).toMatchObject({
+			id: 1,
+			error: { code: EnumJsonRpcErrorCode.METHOD_NOT_FOUND }
+		});
+		expect(await server.handle({ id: 2 })).toMatchObject({ id: null, error: { code: EnumJsonRpcErrorCode.INVALID_REQUEST } });
+		expect(await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+	});
+});
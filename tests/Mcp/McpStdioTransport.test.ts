@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ServiceTool } from '../../src/Tool/ServiceTool';
+import { ToolRegistry } from '../../src/Tool/ToolRegistry';
+import { McpServer } from '../../src/Mcp/McpServer';
+import { McpStdioTransport } from '../../src/Mcp/McpStdioTransport';
+import { type ServiceInterface } from '../../src/Interface/ServiceInterface';
+import { EnumJsonRpcErrorCode } from '../../src/Type/JsonRpc';
+
+// Mock ServiceInterface implementation
+class MockService implements ServiceInterface<{ a: number, b: number }, { sum: number }>
+{
+	public async execute(payload: { a: number, b: number }): Promise<{ sum: number }>
+	{
+		return { sum: payload.a + payload.b };
+	}
+}
+
+const createServer = (): McpServer => new McpServer(new ToolRegistry([
+	new ServiceTool('add', 'Adds two numbers', z.object({ a: z.number(), b: z.number() }), z.object({ sum: z.number() }), new MockService())
+]));
+
+const callRequest = { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'add', arguments: { a: 1, b: 2 } } };
+
+describe('McpStdioTransport', () =>
+{
+	it('should answer newline delimited messages until the input ends', async () =>
+	{
+		const output: string[] = [];
+		const message = `${JSON.stringify(callRequest)}\n{"jsonrpc":"2.0","method":"notifications/initialized"}\nnot json\n`;
+		const encoded = new TextEncoder().encode(message);
+
+		async function* input(): AsyncGenerator<Uint8Array>
+		{
+			yield encoded.slice(0, 20);
+			yield encoded.slice(20);
+		}
+
+		await new McpStdioTransport(createServer(), input(), { write: (chunk: string) => output.push(chunk) }).listen();
+
+		const responses = output.join('').trim().split('\n').map((line) => JSON.parse(line));
+
+		expect(responses).toHaveLength(2);
+		expect(responses).toContainEqual(expect.objectContaining({ id: 1, result: expect.objectContaining({ structuredContent: { sum: 3 } }) }));
+		expect(responses).toContainEqual(expect.objectContaining({ id: null, error: expect.objectContaining({ code: EnumJsonRpcErrorCode.PARSE_ERROR }) }));
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { MiddlewarePipeline } from '../../src/Middleware/MiddlewarePipeline';
+import { ZodSchemaValidationMiddleware } from '../../src/Middleware/ZodSchemaValidationMiddleware';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { type ServiceInterface } from '../../src/Interface/ServiceInterface';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeResponse } from '../../src/Type/Response';
+
+interface TypePayload { name: string, userId?: string }
+interface TypeUser { name: string, userId: string, secret?: string }
+
+// Mock ActionInterface implementation
+class MockAction implements ActionInterface<TypePayload, TypeUser>
+{
+	public async execute(payload: TypePayload): Promise<TypeResponse<TypeUser>>
+	{
+		return { success: true, data: { name: payload.name, userId: payload.userId ?? 'anonymous', secret: 'password' } };
+	}
+}
+
+describe('MiddlewarePipeline', () =>
+{
+	it('should run before, around and after hooks in order', async () =>
+	{
+		const calls: string[] = [];
+
+		const action = MiddlewarePipeline.forAction(new MockAction())
+			.before((payload) =>
+			{
+				calls.push('before');
+				return { payload: { ...payload, userId: 'user-1' } };
+			})
+			.use({
+				handle: async (payload, next) =>
+				{
+					calls.push('around:start');
+					const response = await next(payload);
+					calls.push('around:end');
+					return response;
+				}
+			})
+			.after((response) =>
+			{
+				calls.push('after');
+				return { ...response, data: response.data && { ...response.data, secret: undefined } };
+			})
+			.build();
+
+		const response = await action.execute({ name: 'John' });
+
+		expect(response.data).toEqual({ name: 'John', userId: 'user-1', secret: undefined });
+		expect(calls).toEqual(['before', 'around:start', 'after', 'around:end']);
+	});
+
+	it('should short-circuit with the response of a before hook', async () =>
+	{
+		const action = MiddlewarePipeline.forAction(new MockAction())
+			.before(() => ({ response: ResponseHelper.createErrorResponse<TypeUser>(EnumErrorCode.UNAUTHORIZED, 'Not signed in') }))
+			.after(() =>
+			{
+				throw new Error('Should not run');
+			})
+			.build();
+
+		const response = await action.execute({ name: 'John' });
+
+		expect(response).toEqual({ success: false, messages: [{ code: EnumErrorCode.UNAUTHORIZED, text: 'Not signed in' }] });
+	});
+
+	it('should validate with the Zod schema middleware', async () =>
+	{
+		const action = MiddlewarePipeline.forAction(new MockAction())
+			.use(new ZodSchemaValidationMiddleware(z.object({ name: z.string().min(1) }), z.object({ name: z.string(), userId: z.string() })))
+			.build();
+
+		const invalidResponse = await action.execute({ name: '' });
+		const validResponse = await action.execute({ name: 'John' });
+
+		expect(invalidResponse.messages?.[0]?.code).toBe(EnumErrorCode.VALIDATION_ERROR);
+		expect(validResponse.data).toEqual({ name: 'John', userId: 'anonymous' });
+	});
+
+	it('should wrap the result of a service and map exceptions', async () =>
+	{
+		const service: ServiceInterface<number, number> = { execute: async (value) => value * 2 };
+		const failingService: ServiceInterface<number, number> = {
+			execute: async () =>
+			{
+				throw new Error('Boom');
+			}
+		};
+
+		expect(await MiddlewarePipeline.forService(service).build().execute(2)).toEqual({ success: true, data: 4 });
+		expect((await MiddlewarePipeline.forService(failingService).build().execute(2)).messages?.[0]?.code).toBe(EnumErrorCode.EXECUTION_ERROR);
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ZodSchemaValidationMiddleware } from '../../src/Middleware/ZodSchemaValidationMiddleware';
+import { ResponseHelper } from '../../src/Helper/ResponseHelper';
+import { MessageFormatter } from '../../src/Localization/MessageFormatter';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeResponse } from '../../src/Type/Response';
+
+const payloadSchema = z.object({ name: z.string().min(3).describe('Name') });
+const objectSchema = z.object({ id: z.number() });
+
+describe('ZodSchemaValidationMiddleware', () =>
+{
+	it('should render validation messages in the locale of the execution context', async () =>
+	{
+		const messageFormatter = new MessageFormatter({
+			catalogs: { fr: { messages: { ['too_small']: '{label} doit contenir au moins {minimum} caractères' } } }
+		});
+		const middleware = new ZodSchemaValidationMiddleware(payloadSchema, objectSchema, { messageFormatter });
+		const next = async (): Promise<TypeResponse<{ id: number }>> => ({ success: true, data: { id: 1 } });
+
+		const frenchResponse = await middleware.handle({ name: 'Jo' }, next, { locale: 'fr-FR' });
+		const defaultResponse = await middleware.handle({ name: 'Jo' }, next);
+
+		expect(frenchResponse.messages?.[0].text).toBe('Name doit contenir au moins 3 caractères');
+		expect(defaultResponse.messages?.[0].text).toBe('String must contain at least 3 character(s) (at name)');
+	});
+
+	it('should validate the data of failed responses', async () =>
+	{
+		const middleware = new ZodSchemaValidationMiddleware(payloadSchema, objectSchema);
+
+		const invalidResponse = await middleware.handle({ name: 'John' }, async () => ({
+			success: false,
+			data: { id: 'one' } as unknown as { id: number },
+			messages: [{ code: EnumErrorCode.EXECUTION_ERROR, text: 'Order exists' }]
+		}));
+		const strippedResponse = await middleware.handle({ name: 'John' }, async () => ({
+			success: false,
+			data: { id: 1, secret: 'password' } as { id: number },
+			messages: [{ code: EnumErrorCode.EXECUTION_ERROR, text: 'Order exists' }]
+		}));
+
+		expect(invalidResponse.success).toBe(false);
+		expect(invalidResponse.messages?.[0]?.code).toBe(EnumErrorCode.VALIDATION_ERROR);
+		expect(strippedResponse).toEqual({
+			success: false,
+			data: { id: 1 },
+			messages: [{ code: EnumErrorCode.EXECUTION_ERROR, text: 'Order exists' }]
+		});
+	});
+
+	it('should return failed responses without data unchanged', async () =>
+	{
+		const middleware = new ZodSchemaValidationMiddleware(payloadSchema, objectSchema);
+
+		const response = await middleware.handle({ name: 'John' }, async () => ResponseHelper.createRateLimitedResponse(1500));
+
+		expect(response).toEqual(ResponseHelper.createRateLimitedResponse(1500));
+	});
+});
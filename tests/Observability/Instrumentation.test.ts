@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ZodSchemaValidatedAction } from '../../src/Action/ZodSchemaValidatedAction';
+import { ServiceTool } from '../../src/Tool/ServiceTool';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { type LoggerInterface } from '../../src/Interface/LoggerInterface';
+import { type MetricsInterface } from '../../src/Interface/MetricsInterface';
+import { type ServiceInterface } from '../../src/Interface/ServiceInterface';
+import { type SpanInterface } from '../../src/Interface/SpanInterface';
+import { type TracerInterface } from '../../src/Interface/TracerInterface';
+import { type TypeResponse } from '../../src/Type/Response';
+import { EnumSpanStatusCode, type TypeSpanAttributes, type TypeSpanStatus } from '../../src/Type/Span';
+
+// Mock LoggerInterface implementation recording the records
+class MockLogger implements LoggerInterface
+{
+	public records: { level: string, message: string, attributes?: Record<string, unknown> }[] = [];
+
+	public debug(message: string, attributes?: Record<string, unknown>): void
+	{
+		this.records.push({ level: 'debug', message, attributes });
+	}
+
+	public info(message: string, attributes?: Record<string, unknown>): void
+	{
+		this.records.push({ level: 'info', message, attributes });
+	}
+
+	public warn(message: string, attributes?: Record<string, unknown>): void
+	{
+		this.records.push({ level: 'warn', message, attributes });
+	}
+
+	public error(message: string, attributes?: Record<string, unknown>): void
+	{
+		this.records.push({ level: 'error', message, attributes });
+	}
+}
+
+// Mock MetricsInterface implementation recording the measurements
+class MockMetrics implements MetricsInterface
+{
+	public measurements: { type: string, name: string, value: number, tags: Record<string, string> }[] = [];
+
+	public increment(name: string, value: number, tags: Record<string, string>): void
+	{
+		this.measurements.push({ type: 'counter', name, value, tags });
+	}
+
+	public histogram(name: string, value: number, tags: Record<string, string>): void
+	{
+		this.measurements.push({ type: 'histogram', name, value, tags });
+	}
+}
+
+// Mock TracerInterface implementation recording the spans
+class MockTracer implements TracerInterface
+{
+	public spans: { name: string, attributes: TypeSpanAttributes, status?: TypeSpanStatus, isEnded: boolean }[] = [];
+
+	public startSpan(name: string, options?: { attributes?: TypeSpanAttributes }): SpanInterface
+	{
+		const span = { name, attributes: { ...options?.attributes }, status: undefined as TypeSpanStatus | undefined, isEnded: false };
+		this.spans.push(span);
+
+		return {
+			setAttributes: (attributes: TypeSpanAttributes): void => void Object.assign(span.attributes, attributes),
+			setStatus: (status: TypeSpanStatus): void => void (span.status = status),
+			end: (): void => void (span.isEnded = true)
+		};
+	}
+}
+
+// Mock ActionInterface implementation
+class SignInAction implements ActionInterface<{ email: string, password: string }, { token: string }>
+{
+	public async execute(): Promise<TypeResponse<{ token: string }>>
+	{
+		return { success: true, data: { token: 'abc' } };
+	}
+}
+
+// Mock ServiceInterface implementation
+class MockService implements ServiceInterface<{ a: number, b: number }, { sum: number }>
+{
+	public async execute(payload: { a: number, b: number }): Promise<{ sum: number }>
+	{
+		return { sum: payload.a + payload.b };
+	}
+}
+
+describe('Instrumentation', () =>
+{
+	it('should log redacted start and end records of actions', async () =>
+	{
+		const logger = new MockLogger();
+		const action = new ZodSchemaValidatedAction(
+			z.object({ email: z.string().email(), password: z.string() }),
+			z.object({ token: z.string() }),
+			new SignInAction(),
+			{ instrumentation: { logger, logPayload: true, redaction: { keys: ['email'] } } }
+		);
+
+		await action.execute({ email: 'john@example.com', password: 'secret' }, { requestId: 'r1' });
+
+		expect(logger.records[0]).toEqual({
+			level: 'debug',
+			message: 'action started',
+			attributes: { kind: 'action', name: 'SignInAction', requestId: 'r1', payload: { email: '[REDACTED]', password: '[REDACTED]' } }
+		});
+		expect(logger.records[1]).toMatchObject({
+			level: 'info',
+			message: 'action finished',
+			attributes: { kind: 'action', name: 'SignInAction', requestId: 'r1', success: true, messageCodes: [], validationErrorCount: 0 }
+		});
+		expect(logger.records[1].attributes?.durationMs).toBeTypeOf('number');
+	});
+
+	it('should report tool calls with validation failures to metrics and spans', async () =>
+	{
+		const logger = new MockLogger();
+		const metrics = new MockMetrics();
+		const tracer = new MockTracer();
+		const tool = new ServiceTool('add', 'Adds two numbers', z.object({ a: z.number(), b: z.number() }), z.object({ sum: z.number() }), new MockService(), {
+			instrumentation: { logger, metrics, tracer }
+		});
+
+		await tool.execute({ a: 'one', b: 'two' } as any);
+
+		const tags = { kind: 'tool', name: 'add', success: 'false' };
+
+		expect(logger.records[1]).toMatchObject({ level: 'warn', attributes: { messageCodes: ['VALIDATION_ERROR', 'VALIDATION_ERROR'], validationErrorCount: 2 } });
+		expect(logger.records[0].attributes).not.toHaveProperty('payload');
+		expect(metrics.measurements).toEqual([
+			{ type: 'counter', name: 'foundation.calls', value: 1, tags },
+			{ type: 'histogram', name: 'foundation.duration', value: expect.any(Number), tags },
+			{ type: 'counter', name: 'foundation.validation_failures', value: 2, tags }
+		]);
+		expect(tracer.spans).toEqual([{
+			name: 'add',
+			attributes: {
+				['foundation.kind']: 'tool',
+				['foundation.name']: 'add',
+				['foundation.request_id']: undefined,
+				['foundation.success']: false,
+				['foundation.message_codes']: ['VALIDATION_ERROR', 'VALIDATION_ERROR'],
+				['foundation.validation_error_count']: 2
+			},
+			status: { code: EnumSpanStatusCode.ERROR, message: 'VALIDATION_ERROR, VALIDATION_ERROR' },
+			isEnded: true
+		}]);
+	});
+
+	it('should return the result and end the span when reporting throws', async () =>
+	{
+		const failing = (): never =>
+		{
+			throw new Error('Exporter unavailable');
+		};
+		const logger = { debug: failing, info: failing, warn: failing, error: failing };
+		const metrics = { increment: failing, histogram: failing };
+		const tracer = new MockTracer();
+		const startSpan = tracer.startSpan.bind(tracer);
+		tracer.startSpan = (name, options): SpanInterface => ({ ...startSpan(name, options), setAttributes: failing, setStatus: failing });
+
+		const action = new ZodSchemaValidatedAction(
+			z.object({ email: z.string().email(), password: z.string() }),
+			z.object({ token: z.string() }),
+			new SignInAction(),
+			{ instrumentation: { logger, metrics, tracer } }
+		);
+
+		const response = await action.execute({ email: 'john@example.com', password: 'secret' });
+
+		expect(response).toEqual({ success: true, data: { token: 'abc' } });
+		expect(tracer.spans[0].isEnded).toBe(true);
+	});
+});
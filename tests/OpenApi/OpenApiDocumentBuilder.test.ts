@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { OpenApiDocumentBuilder } from '../../src/OpenApi/OpenApiDocumentBuilder';
+import { ZodSchemaValidatedAction } from '../../src/Action/ZodSchemaValidatedAction';
+import { ZodSchemaValidatedService } from '../../src/Service/ZodSchemaValidatedService';
+import { ZodSchemaValidatedResponseService } from '../../src/Service/ZodSchemaValidatedResponseService';
+import { ServiceTool } from '../../src/Tool/ServiceTool';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { type ServiceInterface } from '../../src/Interface/ServiceInterface';
+import { type TypeJsonSchema } from '../../src/Type/JsonSchema';
+import { type TypeResponse } from '../../src/Type/Response';
+
+const orderPayloadSchema = z.object({ productId: z.string().describe('The product to order'), quantity: z.number().int() });
+const orderSchema = z.object({ orderId: z.string() });
+const searchPayloadSchema = z.object({ query: z.string(), limit: z.number().optional() });
+const searchSchema = z.array(z.string());
+
+// Mock ActionInterface implementation
+class MockAction implements ActionInterface<z.infer<typeof orderPayloadSchema>, z.infer<typeof orderSchema>>
+{
+	public async execute(): Promise<TypeResponse<z.infer<typeof orderSchema>>>
+	{
+		return { success: true, data: { orderId: 'o1' } };
+	}
+}
+
+// Mock ServiceInterface implementation
+class MockService implements ServiceInterface<z.infer<typeof searchPayloadSchema>, z.infer<typeof searchSchema>>
+{
+	public async execute(): Promise<z.infer<typeof searchSchema>>
+	{
+		return [];
+	}
+}
+
+describe('OpenApiDocumentBuilder', () =>
+{
+	it('should describe actions with the payload as request body and the response envelope', () =>
+	{
+		const document = new OpenApiDocumentBuilder({ title: 'Orders API', version: '1.0.0' })
+			.addAction('createOrder', new ZodSchemaValidatedAction(orderPayloadSchema, orderSchema, new MockAction()), { path: '/orders', tags: ['orders'] })
+			.build();
+
+		const operation = document.paths['/orders'].post;
+
+		expect(document.openapi).toBe('3.1.0');
+		expect(document.info).toEqual({ title: 'Orders API', version: '1.0.0' });
+		expect(operation.operationId).toBe('createOrder');
+		expect(operation.tags).toEqual(['orders']);
+		expect(operation.requestBody?.content['application/json'].schema).toEqual({
+			type: 'object',
+			properties: { productId: { type: 'string', description: 'The product to order' }, quantity: { type: 'integer' } },
+			required: ['productId', 'quantity']
+		});
+		expect(operation.responses['200'].content['application/json'].schema).toMatchObject({
+			type: 'object',
+			properties: { success: { type: 'boolean' }, messages: { type: 'array' }, data: { properties: { orderId: { type: 'string' } } } },
+			required: ['success']
+		});
+		expect(operation.responses.default.content['application/json'].schema).toEqual({ ['$ref']: '#/components/schemas/ErrorResponse' });
+		expect(document.components.schemas.ErrorResponse).toMatchObject({ required: ['success', 'messages'] });
+	});
+
+	it('should describe tools and services with query parameters for GET operations', () =>
+	{
+		const tool = new ServiceTool('searchProducts', 'Searches products', searchPayloadSchema, searchSchema, new MockService());
+
+		const document = new OpenApiDocumentBuilder({ title: 'Shop API', version: '2.0.0' })
+			.addTool(tool, { method: 'GET', path: '/products' })
+			.addService('suggestProducts', new ZodSchemaValidatedResponseService(searchPayloadSchema, searchSchema, new MockService()))
+			.build();
+
+		const operation = document.paths['/products'].get;
+
+		expect(operation.operationId).toBe('searchProducts');
+		expect(operation.summary).toBe('Searches products');
+		expect(operation.requestBody).toBeUndefined();
+		expect(operation.parameters).toEqual([
+			{ name: 'query', in: 'query', required: true, schema: { type: 'string' } },
+			{ name: 'limit', in: 'query', required: false, schema: { type: 'number' } }
+		]);
+		expect(document.paths['/suggestProducts'].post.operationId).toBe('suggestProducts');
+	});
+
+	it('should reject duplicate operations', () =>
+	{
+		const action = new ZodSchemaValidatedAction(orderPayloadSchema, orderSchema, new MockAction());
+		const builder = new OpenApiDocumentBuilder({ title: 'Orders API', version: '1.0.0' }).addAction('createOrder', action);
+
+		expect(() => builder.addAction('createOrder', action, { path: '/orders' })).toThrow('already added');
+		expect(() => builder.addAction('placeOrder', action, { path: '/createOrder' })).toThrow('POST /createOrder is already added');
+	});
+
+	it('should describe the response of plain services without the envelope', () =>
+	{
+		const document = new OpenApiDocumentBuilder({ title: 'Shop API', version: '2.0.0' })
+			.addService('suggestProducts', new ZodSchemaValidatedService(searchPayloadSchema, searchSchema, new MockService()))
+			.build();
+
+		expect(document.paths['/suggestProducts'].post.responses['200'].content['application/json'].schema).toEqual({
+			type: 'array',
+			items: { type: 'string' }
+		});
+	});
+
+	it('should reject query payloads with nested objects or lists when the operation is added', () =>
+	{
+		const builder = new OpenApiDocumentBuilder({ title: 'Shop API', version: '2.0.0' });
+		const add = (payloadSchema: z.ZodTypeAny): OpenApiDocumentBuilder => builder.addOperation({ name: 'search', method: 'GET', payloadSchema, objectSchema: searchSchema });
+
+		expect(() => add(z.string())).toThrow('Payload of operation "search" has to be an object');
+		expect(() => add(z.object({ filter: z.object({ query: z.string() }) }))).toThrow('Property "filter" of operation "search"');
+		expect(() => add(z.object({ tags: z.array(z.array(z.string())) }))).toThrow('Property "tags" of operation "search"');
+		expect(() => add(z.object({ tags: z.array(z.string()), limit: z.number().nullable() }))).not.toThrow();
+	});
+
+	it('should keep the causes of messages out of the error response', () =>
+	{
+		const document = new OpenApiDocumentBuilder({ title: 'Orders API', version: '1.0.0' }).build();
+
+		expect(document.components.schemas.ErrorResponse).toMatchObject({ properties: { messages: { items: { properties: { code: { type: 'string' } } } } } });
+		expect((document.components.schemas.ErrorResponse.properties?.messages.items as TypeJsonSchema).properties).not.toHaveProperty('cause');
+	});
+});
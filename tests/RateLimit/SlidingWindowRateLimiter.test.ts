@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SlidingWindowRateLimiter } from '../../src/RateLimit/SlidingWindowRateLimiter';
+
+describe('SlidingWindowRateLimiter', () =>
+{
+	afterEach(() =>
+	{
+		vi.useRealTimers();
+	});
+
+	it('should reject calls beyond the limit until the oldest call leaves the window', async () =>
+	{
+		vi.useFakeTimers();
+
+		const limiter = new SlidingWindowRateLimiter(2, 1000);
+
+		await limiter.tryAcquire('global');
+		vi.advanceTimersByTime(400);
+		await limiter.tryAcquire('global');
+
+		expect(await limiter.tryAcquire('global')).toEqual({ isAllowed: false, retryAfter: 600 });
+
+		vi.advanceTimersByTime(600);
+
+		expect((await limiter.tryAcquire('global')).isAllowed).toBe(true);
+		expect((await limiter.tryAcquire('global')).isAllowed).toBe(false);
+	});
+
+	it('should track every key separately', async () =>
+	{
+		const limiter = new SlidingWindowRateLimiter(1, 1000);
+
+		expect((await limiter.tryAcquire('alice')).isAllowed).toBe(true);
+		expect((await limiter.tryAcquire('alice')).isAllowed).toBe(false);
+		expect((await limiter.tryAcquire('bob')).isAllowed).toBe(true);
+	});
+
+	it('should forget keys whose calls left the window', async () =>
+	{
+		vi.useFakeTimers();
+
+		const limiter = new SlidingWindowRateLimiter(1, 1000);
+
+		await limiter.tryAcquire('alice');
+		await limiter.tryAcquire('bob');
+		vi.advanceTimersByTime(1000);
+
+		expect((await limiter.tryAcquire('alice')).isAllowed).toBe(true);
+		expect([...limiter['calls'].keys()]).toEqual(['alice']);
+	});
+});
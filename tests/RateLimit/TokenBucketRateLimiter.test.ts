@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TokenBucketRateLimiter } from '../../src/RateLimit/TokenBucketRateLimiter';
+
+describe('TokenBucketRateLimiter', () =>
+{
+	afterEach(() =>
+	{
+		vi.useRealTimers();
+	});
+
+	it('should allow a burst up to the capacity and hint when the next permit is refilled', async () =>
+	{
+		vi.useFakeTimers();
+
+		const limiter = new TokenBucketRateLimiter(2, 1);
+
+		expect((await limiter.tryAcquire('global')).isAllowed).toBe(true);
+		expect((await limiter.tryAcquire('global')).isAllowed).toBe(true);
+		expect(await limiter.tryAcquire('global')).toEqual({ isAllowed: false, retryAfter: 1000 });
+
+		vi.advanceTimersByTime(1000);
+
+		expect((await limiter.tryAcquire('global')).isAllowed).toBe(true);
+	});
+
+	it('should track every key separately', async () =>
+	{
+		const limiter = new TokenBucketRateLimiter(1, 1);
+
+		expect((await limiter.tryAcquire('alice')).isAllowed).toBe(true);
+		expect((await limiter.tryAcquire('alice')).isAllowed).toBe(false);
+		expect((await limiter.tryAcquire('bob')).isAllowed).toBe(true);
+	});
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ZodSchemaValidatedResponseService } from '../../src/Service/ZodSchemaValidatedResponseService';
+import { type ServiceInterface } from '../../src/Interface/ServiceInterface';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+
+// Mock ServiceInterface implementation
+class MockService implements ServiceInterface<{ name: string }, { id: number }>
+{
+	public async execute(_payload: { name: string }): Promise<{ id: number }>
+	{
+		return { id: 1 };
+	}
+}
+
+describe('ZodSchemaValidatedResponseService', () =>
+{
+	const inputSchema = z.object({
+		name: z.string()
+	});
+	const outputSchema = z.object({
+		id: z.number()
+	});
+
+	it('should return the service result wrapped in a TypeResponse', async () =>
+	{
+		const validatedService = new ZodSchemaValidatedResponseService(inputSchema, outputSchema, new MockService());
+
+		const result = await validatedService.execute({ name: 'John Doe' });
+
+		expect(result).toEqual({ success: true, messages: [], data: { id: 1 } });
+	});
+
+	it('should return validation error for invalid input', async () =>
+	{
+		const validatedService = new ZodSchemaValidatedResponseService(inputSchema, outputSchema, new MockService());
+
+		const result = await validatedService.execute({ name: 123 } as any);
+
+		expect(result.success).toBe(false);
+		expect(result.data).toBeUndefined();
+		expect(result.messages?.map((message) => [message.code, message.text])).toEqual([
+			[EnumErrorCode.VALIDATION_ERROR, 'Expected string, received number (at name)']
+		]);
+	});
+
+	it('should return validation error for invalid output', async () =>
+	{
+		// Create a mock service that returns invalid output
+		class InvalidOutputMockService implements ServiceInterface<{ name: string }, { id: any }>
+		{
+			public async execute(_payload: { name: string }): Promise<{ id: any }>
+			{
+				return { id: 'invalid' }; // Invalid output according to the schema
+			}
+		}
+
+		const validatedService = new ZodSchemaValidatedResponseService(inputSchema, outputSchema, new InvalidOutputMockService());
+
+		const result = await validatedService.execute({ name: 'John Doe' });
+
+		expect(result.success).toBe(false);
+		expect(result.messages?.map((message) => [message.code, message.text])).toEqual([
+			[EnumErrorCode.VALIDATION_ERROR, 'Expected number, received string (at id)']
+		]);
+	});
+});
@@ -2,6 +2,8 @@ import { describe, it, expect } from 'vitest';
 import { z } from 'zod';
 import { ZodSchemaValidatedService } from '../../src/Service/ZodSchemaValidatedService';
 import { type ServiceInterface } from '../../src/Interface/ServiceInterface';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumMessageSeverity } from '../../src/Type/MessageSeverity';
 
 // Mock ServiceInterface implementation
 class MockService implements ServiceInterface<{ name: string }, { id: number }>
@@ -103,4 +105,58 @@ describe('ZodSchemaValidatedService', () =>
 			}
 		]);
 	});
+
+	it('should return validation errors as structured messages', async () =>
+	{
+		const inputSchema = z.object({
+			name: z.string()
+		});
+		const outputSchema = z.object({
+			id: z.number()
+		});
+
+		const validatedService = new ZodSchemaValidatedService(inputSchema, outputSchema, new MockService());
+
+		const result = await validatedService.execute({} as any);
+
+		expect(result.success).toBe(false);
+		expect(result.messages).toEqual([
+			{
+				code: EnumErrorCode.VALIDATION_ERROR,
+				text: 'Required (at name)',
+				path: ['name'],
+				issueCode: 'invalid_type',
+				expected: 'string',
+				received: 'undefined',
+				severity: EnumMessageSeverity.ERROR
+			}
+		]);
+	});
+
+	it('should return a failed result when the service throws', async () =>
+	{
+		const inputSchema = z.object({
+			name: z.string()
+		});
+		const outputSchema = z.object({
+			id: z.number()
+		});
+
+		// Create a mock service that throws
+		class ThrowingMockService implements ServiceInterface<{ name: string }, { id: number }>
+		{
+			public async execute(_payload: { name: string }): Promise<{ id: number }>
+			{
+				throw new Error('Connection refused');
+			}
+		}
+
+		const validatedService = new ZodSchemaValidatedService(inputSchema, outputSchema, new ThrowingMockService());
+
+		const result = await validatedService.execute({ name: 'John Doe' });
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues[0]?.message).toBe('An unexpected error occurred');
+		expect(result.messages).toMatchObject([{ code: EnumErrorCode.EXECUTION_ERROR, text: 'An unexpected error occurred' }]);
+	});
 });
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { ActionToStreamAdapter } from '../../src/Stream/ActionToStreamAdapter';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumStreamEventType, type TypeStreamEvent } from '../../src/Type/StreamEvent';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock ActionInterface implementation
+class DoubleMockAction implements ActionInterface<number, number>
+{
+	public async execute(payload: number): Promise<TypeResponse<number>>
+	{
+		if (payload < 0)
+		{
+			throw new Error('Negative input');
+		}
+
+		return { success: true, data: payload * 2 };
+	}
+}
+
+const collect = async (stream: AsyncIterable<TypeStreamEvent<never, number>>): Promise<TypeStreamEvent<never, number>[]> =>
+{
+	const events: TypeStreamEvent<never, number>[] = [];
+	for await (const event of stream)
+	{
+		events.push(event);
+	}
+
+	return events;
+};
+
+describe('ActionToStreamAdapter', () =>
+{
+	it('should stream the response of the action as the result event', async () =>
+	{
+		expect(await collect(new ActionToStreamAdapter(new DoubleMockAction()).stream(2))).toEqual([
+			{ type: EnumStreamEventType.RESULT, response: { success: true, data: 4 } }
+		]);
+	});
+
+	it('should stream exceptions of the action as a failed result', async () =>
+	{
+		const [event] = await collect(new ActionToStreamAdapter(new DoubleMockAction()).stream(-1));
+
+		expect(event).toMatchObject({ type: EnumStreamEventType.RESULT, response: { success: false, messages: [{ code: EnumErrorCode.EXECUTION_ERROR }] } });
+	});
+});
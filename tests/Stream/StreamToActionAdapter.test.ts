@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { type StreamingToolInterface } from '../../src/Interface/StreamingToolInterface';
+import { StreamToActionAdapter } from '../../src/Stream/StreamToActionAdapter';
+import { StreamToToolAdapter } from '../../src/Stream/StreamToToolAdapter';
+import { ToolRegistry } from '../../src/Tool/ToolRegistry';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumStreamEventType, type TypeStreamEvent } from '../../src/Type/StreamEvent';
+
+// Mock StreamingToolInterface implementation generating a report in sections
+class ReportMockTool implements StreamingToolInterface<{ sections: number }, string, string>
+{
+	public readonly name = 'generateReport';
+	public readonly description = 'Generates a report';
+	public readonly parameters = z.object({ sections: z.number() });
+
+	public async *stream(payload: { sections: number }): AsyncIterable<TypeStreamEvent<string, string>>
+	{
+		if (payload.sections === 0)
+		{
+			return;
+		}
+
+		const sections: string[] = [];
+		for (let section = 1; section <= payload.sections; section++)
+		{
+			sections.push(`Section ${section}`);
+			yield { type: EnumStreamEventType.CHUNK, data: `Section ${section}` };
+		}
+
+		yield { type: EnumStreamEventType.RESULT, response: { success: true, data: sections.join('\n') } };
+	}
+}
+
+describe('StreamToActionAdapter', () =>
+{
+	it('should resolve with the final response and pass every event to the listener', async () =>
+	{
+		const events: TypeStreamEvent<string, string>[] = [];
+		const action = new StreamToActionAdapter(new ReportMockTool(), { onEvent: (event) => events.push(event) });
+
+		expect(await action.execute({ sections: 2 })).toEqual({ success: true, data: 'Section 1\nSection 2' });
+		expect(events.map((event) => event.type)).toEqual([EnumStreamEventType.CHUNK, EnumStreamEventType.CHUNK, EnumStreamEventType.RESULT]);
+	});
+
+	it('should ignore exceptions of the listener', async () =>
+	{
+		const action = new StreamToActionAdapter(new ReportMockTool(), {
+			onEvent: () =>
+			{
+				throw new Error('Listener failed');
+			}
+		});
+
+		expect(await action.execute({ sections: 2 })).toEqual({ success: true, data: 'Section 1\nSection 2' });
+	});
+
+	it('should fail when the stream ends without a result', async () =>
+	{
+		const response = await new StreamToActionAdapter(new ReportMockTool()).execute({ sections: 0 });
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.EXECUTION_ERROR);
+	});
+
+	it('should let a streaming tool be dispatched by a tool registry', async () =>
+	{
+		const registry = new ToolRegistry([new StreamToToolAdapter(new ReportMockTool())]);
+
+		expect(await registry.dispatch({ name: 'generateReport', arguments: { sections: 1 } })).toEqual({ success: true, data: 'Section 1' });
+	});
+});
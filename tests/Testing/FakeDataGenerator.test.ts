@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { FakeDataGenerator } from '../../src/Testing/FakeDataGenerator';
+
+enum EnumStatus
+{
+	ACTIVE = 'active',
+	BLOCKED = 'blocked'
+}
+
+const payloadSchema = z.object({
+	id: z.string().uuid(),
+	email: z.string().email(),
+	website: z.string().url().optional(),
+	name: z.string().min(3).max(20),
+	code: z.string().length(6).startsWith('AB'),
+	age: z.number().int().min(18).max(99),
+	price: z.number().positive().multipleOf(0.5),
+	isAdmin: z.boolean(),
+	role: z.enum(['admin', 'editor']),
+	status: z.nativeEnum(EnumStatus),
+	createdAt: z.date(),
+	publishedAt: z.string().datetime().nullable(),
+	tags: z.array(z.string()).min(1).max(3),
+	address: z.object({ city: z.string(), zip: z.string().regex(/^\d+$/).or(z.literal('n/a')) }),
+	coordinates: z.tuple([z.number(), z.number()]),
+	metadata: z.record(z.number()),
+	contact: z.discriminatedUnion('type', [
+		z.object({ type: z.literal('phone'), number: z.string() }),
+		z.object({ type: z.literal('email'), address: z.string().email() })
+	]),
+	quantity: z.number().int().positive().default(1),
+	even: z.number().int().refine((value) => value % 2 === 0)
+});
+
+describe('FakeDataGenerator', () =>
+{
+	it('should generate data valid against the schema', () =>
+	{
+		const generator = new FakeDataGenerator({ seed: 7 });
+
+		for (let index = 0; index < 20; index++)
+		{
+			expect(payloadSchema.safeParse(generator.generate(payloadSchema)).success).toBe(true);
+		}
+	});
+
+	it('should generate the same data for the same seed', () =>
+	{
+		const first = new FakeDataGenerator({ seed: 42 }).generate(payloadSchema);
+		const second = new FakeDataGenerator({ seed: 42 }).generate(payloadSchema);
+
+		expect(first).toEqual(second);
+	});
+
+	it('should leave out optional fields when asked to and stop recursive schemas', () =>
+	{
+		type TypeCategory = { name: string; children: TypeCategory[] };
+		const categorySchema: z.ZodType<TypeCategory> = z.lazy(() => z.object({ name: z.string(), children: z.array(categorySchema) }));
+
+		expect(new FakeDataGenerator({ includeOptional: false }).generate(z.object({ note: z.string().optional() }))).toEqual({});
+		expect(categorySchema.safeParse(new FakeDataGenerator({ maxDepth: 3 }).generate(categorySchema)).success).toBe(true);
+	});
+
+	it('should throw when no generated data satisfies the schema', () =>
+	{
+		expect(() => new FakeDataGenerator().generate(z.string().refine(() => false, 'Never valid'))).toThrow('Never valid');
+	});
+});
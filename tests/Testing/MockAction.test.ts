@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { RetryingAction } from '../../src/Action/RetryingAction';
+import { MockAction } from '../../src/Testing/MockAction';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+
+const payloadSchema = z.object({ productId: z.string() });
+const objectSchema = z.object({ orderId: z.string(), total: z.number().nonnegative() });
+
+describe('MockAction', () =>
+{
+	it('should answer calls with the scripted responses in order and repeat the last one', async () =>
+	{
+		const action = new MockAction({ payloadSchema, objectSchema })
+			.willFail(EnumErrorCode.TIMEOUT, 'Timed out')
+			.willThrow(new Error('Connection reset'))
+			.willSucceed({ orderId: 'o1', total: 10 });
+
+		const response = await new RetryingAction(action, { maxAttempts: 3, initialDelay: 0 }).execute({ productId: 'p1' });
+
+		expect(response).toEqual({ success: true, data: { orderId: 'o1', total: 10 } });
+		expect((await action.execute({ productId: 'p2' })).data).toEqual({ orderId: 'o1', total: 10 });
+		expect(action.getCallCount()).toBe(4);
+		expect(action.getLastCall()).toEqual({ payload: { productId: 'p2' } });
+		expect(action.wasCalledWith({ productId: 'p1' })).toBe(true);
+		expect(action.wasCalledWith({ productId: 'p3' })).toBe(false);
+	});
+
+	it('should check payloads and scripted data against the schemas', async () =>
+	{
+		const action = new MockAction({ payloadSchema, objectSchema });
+
+		expect(() => action.willSucceed({ orderId: 'o1', total: -1 })).toThrow('does not match the object schema');
+		expect((await action.execute({ productId: 1 } as never)).messages?.[0]?.code).toBe(EnumErrorCode.VALIDATION_ERROR);
+		expect(action.getCallCount()).toBe(1);
+	});
+
+	it('should generate data from the object schema when nothing is scripted', async () =>
+	{
+		const response = await new MockAction({ objectSchema, fakeData: { seed: 3 } }).execute({ productId: 'p1' });
+
+		expect(response.success).toBe(true);
+		expect(objectSchema.safeParse(response.data).success).toBe(true);
+		expect((await new MockAction().execute({})).messages?.[0]?.code).toBe(EnumErrorCode.EXECUTION_ERROR);
+	});
+
+	it('should answer with handlers and forget everything on reset', async () =>
+	{
+		const action = new MockAction<{ productId: string }, string>().willRespond((payload) => ({ success: true, data: payload.productId }));
+
+		expect((await action.execute({ productId: 'p1' })).data).toBe('p1');
+
+		action.reset();
+
+		expect(action.getCalls()).toEqual([]);
+		expect((await action.execute({ productId: 'p1' })).success).toBe(false);
+	});
+});
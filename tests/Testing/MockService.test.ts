@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ValidationError } from '../../src/Error/ValidationError';
+import { ZodSchemaValidatedResponseService } from '../../src/Service/ZodSchemaValidatedResponseService';
+import { MockService } from '../../src/Testing/MockService';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+
+const payloadSchema = z.object({ productId: z.string() });
+const objectSchema = z.object({ price: z.number() });
+
+describe('MockService', () =>
+{
+	it('should answer calls with the scripted results in order', async () =>
+	{
+		const service = new MockService({ payloadSchema, objectSchema })
+			.willThrow(new Error('Service unavailable'))
+			.willReturn({ price: 10 });
+		const validatedService = new ZodSchemaValidatedResponseService(payloadSchema, objectSchema, service);
+
+		expect((await validatedService.execute({ productId: 'p1' })).messages?.[0]?.code).toBe(EnumErrorCode.EXECUTION_ERROR);
+		expect(await validatedService.execute({ productId: 'p1' })).toEqual({ success: true, data: { price: 10 }, messages: [] });
+		expect(service.getCallCount()).toBe(2);
+	});
+
+	it('should reject invalid payloads and generate results from the object schema', async () =>
+	{
+		const service = new MockService({ payloadSchema, objectSchema });
+
+		await expect(service.execute({ productId: 1 } as never)).rejects.toBeInstanceOf(ValidationError);
+		expect(objectSchema.safeParse(await service.execute({ productId: 'p1' })).success).toBe(true);
+		await expect(new MockService().execute({})).rejects.toThrow('No result is scripted');
+	});
+});
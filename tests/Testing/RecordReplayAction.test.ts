@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { RecordReplayAction } from '../../src/Testing/RecordReplayAction';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumRecordReplayMode } from '../../src/Type/RecordReplayMode';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock action returning a different temperature on every call, like a live API
+class WeatherMockAction implements ActionInterface<{ city: string; units?: string }, { temperature: number }>
+{
+	public calls = 0;
+
+	public async execute(payload: { city: string }): Promise<TypeResponse<{ temperature: number }>>
+	{
+		this.calls++;
+		if (payload.city === 'Atlantis')
+		{
+			throw new Error('City not found');
+		}
+
+		return { success: true, data: { temperature: 20 + this.calls } };
+	}
+}
+
+describe('RecordReplayAction', () =>
+{
+	it('should record responses to JSON and replay them in order without calling the action', async () =>
+	{
+		const recorder = new RecordReplayAction(new WeatherMockAction(), { mode: EnumRecordReplayMode.RECORD });
+		await recorder.execute({ city: 'Paris', units: 'metric' });
+		await recorder.execute({ units: 'metric', city: 'Paris' });
+		await recorder.execute({ city: 'Atlantis' });
+
+		const action = new WeatherMockAction();
+		const player = new RecordReplayAction(action, { responses: JSON.parse(recorder.toJson()) });
+
+		expect((await player.execute({ city: 'Paris', units: 'metric' })).data).toEqual({ temperature: 21 });
+		expect((await player.execute({ city: 'Paris', units: 'metric' })).data).toEqual({ temperature: 22 });
+		expect((await player.execute({ city: 'Paris', units: 'metric' })).data).toEqual({ temperature: 22 });
+		expect(await player.execute({ city: 'Atlantis' })).toEqual({
+			success: false,
+			messages: [{ code: EnumErrorCode.EXECUTION_ERROR, text: 'An unexpected error occurred', severity: 'error' }]
+		});
+		expect((await player.execute({ city: 'Rome' })).messages?.[0]?.code).toBe(EnumErrorCode.NOT_FOUND);
+		expect(action.calls).toBe(0);
+	});
+
+	it('should record only missing payloads in auto mode', async () =>
+	{
+		const action = new WeatherMockAction();
+		const autoAction = new RecordReplayAction(action, {
+			mode: EnumRecordReplayMode.AUTO,
+			responses: { [JSON.stringify({ city: 'Paris' })]: [{ success: true, data: { temperature: 15 } }] }
+		});
+
+		expect((await autoAction.execute({ city: 'Paris' })).data).toEqual({ temperature: 15 });
+		expect((await autoAction.execute({ city: 'Rome' })).data).toEqual({ temperature: 21 });
+		expect((await autoAction.execute({ city: 'Rome' })).data).toEqual({ temperature: 21 });
+		expect(Object.keys(autoAction.getResponses())).toHaveLength(2);
+		expect(action.calls).toBe(1);
+	});
+
+	it('should not record responses with values JSON does not preserve', async () =>
+	{
+		const action: ActionInterface<{ id: number }, { createdAt: Date }> = {
+			execute: async () => ({ success: true, data: { createdAt: new Date(0) } })
+		};
+		const recorder = new RecordReplayAction(action, { mode: EnumRecordReplayMode.RECORD });
+
+		const response = await recorder.execute({ id: 1 });
+
+		expect(response.messages?.[0]).toMatchObject({
+			code: EnumErrorCode.INVALID_RESPONSE,
+			text: 'Response cannot be recorded since response.data.createdAt is a Date, which JSON does not preserve'
+		});
+		expect(recorder.getResponses()).toEqual({});
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ActionTool } from '../../src/Tool/ActionTool';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { EnumFunctionDefinitionFormat } from '../../src/Type/FunctionDefinition';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock ActionInterface implementation
+class MockAction implements ActionInterface<{ city: string }, { temperature: number }>
+{
+	public async execute(_payload: { city: string }): Promise<TypeResponse<{ temperature: number }>>
+	{
+		return { success: true, data: { temperature: 20 } };
+	}
+}
+
+describe('ActionTool', () =>
+{
+	const tool = new ActionTool(
+		'get_weather',
+		'Returns the current weather for a city',
+		z.object({ city: z.string().describe('The city name') }),
+		z.object({ temperature: z.number() }),
+		new MockAction()
+	);
+	const parameters = {
+		type: 'object',
+		properties: { city: { type: 'string', description: 'The city name' } },
+		required: ['city']
+	};
+
+	it('should create an OpenAI function definition by default', () =>
+	{
+		expect(tool.toFunctionDefinition()).toEqual({
+			type: 'function',
+			function: { name: 'get_weather', description: 'Returns the current weather for a city', parameters }
+		});
+	});
+
+	it('should create Anthropic and MCP tool definitions', () =>
+	{
+		expect(tool.toFunctionDefinition(EnumFunctionDefinitionFormat.ANTHROPIC)).toEqual({
+			name: 'get_weather',
+			description: 'Returns the current weather for a city',
+			input_schema: parameters
+		});
+		expect(tool.toFunctionDefinition(EnumFunctionDefinitionFormat.MCP)).toEqual({
+			name: 'get_weather',
+			description: 'Returns the current weather for a city',
+			inputSchema: parameters
+		});
+	});
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { CallerApprovalPolicy } from '../../src/Approval/CallerApprovalPolicy';
+import { InMemoryApprovalStore } from '../../src/Approval/InMemoryApprovalStore';
+import { ThresholdApprovalPolicy } from '../../src/Approval/ThresholdApprovalPolicy';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { ActionTool } from '../../src/Tool/ActionTool';
+import { ApprovalGateTool } from '../../src/Tool/ApprovalGateTool';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeExecutionContext } from '../../src/Type/ExecutionContext';
+import { type TypeResponse } from '../../src/Type/Response';
+
+const payloadSchema = z.object({ to: z.string(), amount: z.number().positive() });
+const objectSchema = z.object({ transferId: z.string() });
+
+type TypePayload = z.infer<typeof payloadSchema>;
+
+// Mock ActionInterface implementation recording the transfers it made
+class TransferMockAction implements ActionInterface<TypePayload, z.infer<typeof objectSchema>>
+{
+	public transfers: TypePayload[] = [];
+	public contexts: Array<TypeExecutionContext | undefined> = [];
+
+	public async execute(payload: TypePayload, context?: TypeExecutionContext): Promise<TypeResponse<z.infer<typeof objectSchema>>>
+	{
+		this.transfers.push(payload);
+		this.contexts.push(context);
+
+		return { success: true, data: { transferId: `t${this.transfers.length}` } };
+	}
+}
+
+const createTool = (action: TransferMockAction): ActionTool<typeof payloadSchema, typeof objectSchema> =>
+	new ActionTool('transfer', 'Transfers money', payloadSchema, objectSchema, action);
+
+describe('ApprovalGateTool', () =>
+{
+	it('should hold back the call with a ticket and execute it once approved', async () =>
+	{
+		const action = new TransferMockAction();
+		const store = new InMemoryApprovalStore();
+		const gate = new ApprovalGateTool(createTool(action), { store, idGenerator: () => 'ticket-1' });
+
+		const response = await gate.execute({ to: 'acc-1', amount: 100 }, { userId: 'agent' });
+		const ticket = ApprovalGateTool.getTicket<TypePayload>(response);
+
+		expect(response.success).toBe(false);
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.APPROVAL_REQUIRED);
+		expect(ticket).toMatchObject({ id: 'ticket-1', toolName: 'transfer', payload: { to: 'acc-1', amount: 100 }, requestedBy: { userId: 'agent' } });
+		expect(JSON.parse(JSON.stringify(ticket))).toEqual(ticket);
+		expect(await store.list()).toHaveLength(1);
+		expect(action.transfers).toHaveLength(0);
+
+		expect(await gate.approve('ticket-1')).toEqual({ success: true, data: { transferId: 't1' } });
+		expect((await gate.approve('ticket-1')).messages?.[0]?.code).toBe(EnumErrorCode.NOT_FOUND);
+		expect(action.transfers).toEqual([{ to: 'acc-1', amount: 100 }]);
+	});
+
+	it('should discard rejected calls', async () =>
+	{
+		const action = new TransferMockAction();
+		const gate = new ApprovalGateTool(createTool(action));
+
+		const ticket = ApprovalGateTool.getTicket<TypePayload>(await gate.execute({ to: 'acc-1', amount: 100 }));
+		const rejectResponse = await gate.reject(ticket?.id ?? '');
+
+		expect(rejectResponse).toMatchObject({ success: true, data: { payload: { to: 'acc-1', amount: 100 } } });
+		expect((await gate.approve(ticket?.id ?? '')).success).toBe(false);
+		expect(action.transfers).toHaveLength(0);
+	});
+
+	it('should validate the payload before creating a ticket', async () =>
+	{
+		const store = new InMemoryApprovalStore();
+		const response = await new ApprovalGateTool(createTool(new TransferMockAction()), { store }).execute({ to: 'acc-1', amount: -1 });
+
+		expect(response.messages?.[0]?.code).toBe(EnumErrorCode.VALIDATION_ERROR);
+		expect(await store.list()).toHaveLength(0);
+	});
+
+	it('should execute calls right away when the policy does not require approval', async () =>
+	{
+		const action = new TransferMockAction();
+		const gate = new ApprovalGateTool(createTool(action), {
+			policy: new CallerApprovalPolicy(
+				(context) => context?.attributes?.['role'] === 'admin',
+				new ThresholdApprovalPolicy((payload: TypePayload) => payload.amount, 1000)
+			)
+		});
+
+		expect((await gate.execute({ to: 'acc-1', amount: 500 })).success).toBe(true);
+		expect((await gate.execute({ to: 'acc-1', amount: 5000 }, { attributes: { role: 'admin' } })).success).toBe(true);
+		expect((await gate.execute({ to: 'acc-1', amount: 5000 })).messages?.[0]?.code).toBe(EnumErrorCode.APPROVAL_REQUIRED);
+		expect(action.transfers).toHaveLength(2);
+	});
+
+	it('should not approve expired tickets', async () =>
+	{
+		const gate = new ApprovalGateTool(createTool(new TransferMockAction()), { ticketTtl: 0 });
+		const ticket = ApprovalGateTool.getTicket<TypePayload>(await gate.execute({ to: 'acc-1', amount: 100 }));
+
+		expect((await gate.approve(ticket?.id ?? '')).messages?.[0]?.code).toBe(EnumErrorCode.NOT_FOUND);
+	});
+
+	it('should execute approved calls for the requester and let the approver be authorized', async () =>
+	{
+		const action = new TransferMockAction();
+		const gate = new ApprovalGateTool(createTool(action), {
+			idGenerator: () => 'ticket-1',
+			authorizeApprover: (ticket, context) => context?.userId !== undefined && context.userId !== ticket.requestedBy?.userId
+		});
+
+		await gate.execute({ to: 'acc-1', amount: 100 }, { userId: 'agent', tenantId: 'acme' });
+
+		expect((await gate.approve('ticket-1', { userId: 'agent', tenantId: 'acme' })).messages?.[0]?.code).toBe(EnumErrorCode.UNAUTHORIZED);
+		expect((await gate.approve('ticket-1', { userId: 'manager', tenantId: 'acme' })).success).toBe(true);
+		expect(action.contexts[0]).toMatchObject({ userId: 'agent', tenantId: 'acme', attributes: { approvedBy: { userId: 'manager', tenantId: 'acme' } } });
+	});
+
+	it('should pass the payload as given to the tool so its transforms run once', async () =>
+	{
+		const centsSchema = z.object({ amount: z.number().transform((amount) => amount * 100) });
+		const tool = new ActionTool('charge', 'Charges an amount', centsSchema, z.object({ cents: z.number() }), {
+			execute: async (payload: z.infer<typeof centsSchema>) => ({ success: true, data: { cents: payload.amount } })
+		});
+		const gate = new ApprovalGateTool(tool, { idGenerator: () => 'ticket-1' });
+
+		await gate.execute({ amount: 5 }, { userId: 'agent' });
+
+		expect((await gate.approve('ticket-1', { userId: 'manager' })).data).toEqual({ cents: 500 });
+	});
+
+	it('should refuse approvals and rejections by the requester by default', async () =>
+	{
+		const gate = new ApprovalGateTool(createTool(new TransferMockAction()), { idGenerator: () => 'ticket-1' });
+
+		await gate.execute({ to: 'acc-1', amount: 100 }, { userId: 'agent' });
+
+		expect((await gate.approve('ticket-1', { userId: 'agent' })).messages?.[0]?.code).toBe(EnumErrorCode.UNAUTHORIZED);
+		expect((await gate.reject('ticket-1', { userId: 'agent' })).messages?.[0]?.code).toBe(EnumErrorCode.UNAUTHORIZED);
+		expect((await gate.reject('ticket-1', { userId: 'manager' })).success).toBe(true);
+	});
+});
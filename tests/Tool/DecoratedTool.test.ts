@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { RateLimitedAction } from '../../src/Action/RateLimitedAction';
+import { ActionTool } from '../../src/Tool/ActionTool';
+import { DecoratedTool } from '../../src/Tool/DecoratedTool';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { SlidingWindowRateLimiter } from '../../src/RateLimit/SlidingWindowRateLimiter';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { type TypeExecutionContext } from '../../src/Type/ExecutionContext';
+import { EnumFunctionDefinitionFormat } from '../../src/Type/FunctionDefinition';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock ActionInterface implementation
+class MockAction implements ActionInterface<{ city: string }, { temperature: number }>
+{
+	public contexts: (TypeExecutionContext | undefined)[] = [];
+
+	public async execute(_payload: { city: string }, context?: TypeExecutionContext): Promise<TypeResponse<{ temperature: number }>>
+	{
+		this.contexts.push(context);
+
+		return { success: true, data: { temperature: 20 } };
+	}
+}
+
+describe('DecoratedTool', () =>
+{
+	const parameters = z.object({ city: z.string().describe('The city name') });
+	const result = z.object({ temperature: z.number() });
+	const createTool = (action: MockAction = new MockAction()): ActionTool<typeof parameters, typeof result> => new ActionTool(
+		'get_weather',
+		'Returns the current weather for a city',
+		parameters,
+		result,
+		action
+	);
+
+	it('should keep the name, description and parameters of the tool', () =>
+	{
+		const tool = createTool();
+		const decoratedTool = new DecoratedTool(tool, (action) => new RateLimitedAction(action, new SlidingWindowRateLimiter(1, 1000)));
+
+		expect(decoratedTool.name).toBe('get_weather');
+		expect(decoratedTool.description).toBe('Returns the current weather for a city');
+		expect(decoratedTool.parameters).toBe(tool.parameters);
+		expect(decoratedTool.toFunctionDefinition(EnumFunctionDefinitionFormat.ANTHROPIC)).toEqual(tool.toFunctionDefinition(EnumFunctionDefinitionFormat.ANTHROPIC));
+	});
+
+	it('should execute the tool through its decorators', async () =>
+	{
+		const action = new MockAction();
+		const decoratedTool = new DecoratedTool(createTool(action), (tool) => new RateLimitedAction(tool, new SlidingWindowRateLimiter(1, 1000)));
+		const context = { userId: 'alice' };
+
+		expect(await decoratedTool.execute({ city: 'Berlin' }, context)).toEqual({ success: true, data: { temperature: 20 } });
+		expect(await decoratedTool.execute({ city: 'Berlin' }, context)).toMatchObject({
+			success: false,
+			messages: [{ code: EnumErrorCode.RATE_LIMITED }]
+		});
+		expect(action.contexts).toEqual([context]);
+	});
+});
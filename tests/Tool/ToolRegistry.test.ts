@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ActionTool } from '../../src/Tool/ActionTool';
+import { ServiceTool } from '../../src/Tool/ServiceTool';
+import { ToolRegistry } from '../../src/Tool/ToolRegistry';
+import { type ActionInterface } from '../../src/Interface/ActionInterface';
+import { type ServiceInterface } from '../../src/Interface/ServiceInterface';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { EnumFunctionDefinitionFormat } from '../../src/Type/FunctionDefinition';
+import { type TypeResponse } from '../../src/Type/Response';
+
+// Mock ActionInterface implementation
+class MockAction implements ActionInterface<{ name: string }, { greeting: string }>
+{
+	public async execute(payload: { name: string }): Promise<TypeResponse<{ greeting: string }>>
+	{
+		if (payload.name === 'throw')
+		{
+			throw new Error('Something went wrong');
+		}
+
+		return { success: true, data: { greeting: `Hello, ${payload.name}!` } };
+	}
+}
+
+// Mock ServiceInterface implementation
+class MockService implements ServiceInterface<{ a: number, b: number }, { sum: number }>
+{
+	public async execute(payload: { a: number, b: number }): Promise<{ sum: number }>
+	{
+		return { sum: payload.a + payload.b };
+	}
+}
+
+const createRegistry = (): ToolRegistry => new ToolRegistry([
+	new ActionTool('greet', 'Greets a user', z.object({ name: z.string() }), z.object({ greeting: z.string() }), new MockAction()),
+	new ServiceTool('add', 'Adds two numbers', z.object({ a: z.number(), b: z.number() }), z.object({ sum: z.number() }), new MockService())
+]);
+
+describe('ToolRegistry', () =>
+{
+	it('should reject duplicate and invalid names', () =>
+	{
+		const registry = createRegistry();
+		const schema = z.object({});
+
+		expect(() => registry.register(new ActionTool('greet', '', schema, schema, new MockAction() as any))).toThrow('already registered');
+		expect(() => registry.register(new ActionTool('greet user', '', schema, schema, new MockAction() as any))).toThrow('Invalid tool name');
+	});
+
+	it('should dispatch tool calls with JSON string and object arguments', async () =>
+	{
+		const registry = createRegistry();
+
+		expect(await registry.dispatch({ name: 'greet', arguments: '{"name":"John"}' })).toEqual({
+			success: true,
+			data: { greeting: 'Hello, John!' }
+		});
+		expect(await registry.dispatch({ name: 'add', arguments: { a: 1, b: 2 } })).toEqual({
+			success: true,
+			messages: [],
+			data: { sum: 3 }
+		});
+	});
+
+	it('should return validation errors of service tools as messages', async () =>
+	{
+		const result = await createRegistry().dispatch({ name: 'add', arguments: { a: 1 } });
+
+		expect(result.success).toBe(false);
+		expect(result.messages?.[0]?.code).toBe(EnumErrorCode.VALIDATION_ERROR);
+	});
+
+	it('should return dedicated error codes for unknown tools, malformed JSON and exceptions', async () =>
+	{
+		const registry = createRegistry();
+
+		const unknownResult = await registry.dispatch({ name: 'unknown', arguments: {} });
+		const malformedResult = await registry.dispatch({ name: 'greet', arguments: '{"name":' });
+		const exceptionResult = await registry.dispatch({ name: 'greet', arguments: { name: 'throw' } });
+
+		expect(unknownResult.messages?.[0]?.code).toBe(EnumErrorCode.TOOL_NOT_FOUND);
+		expect(malformedResult.messages?.[0]?.code).toBe(EnumErrorCode.INVALID_TOOL_ARGUMENTS);
+		expect(exceptionResult.messages).toMatchObject([{ code: EnumErrorCode.EXECUTION_ERROR, text: 'An unexpected error occurred' }]);
+	});
+
+	it('should list definitions of all registered tools', () =>
+	{
+		const definitions = createRegistry().toFunctionDefinitions(EnumFunctionDefinitionFormat.MCP);
+
+		expect(definitions.map((definition) => definition.name)).toEqual(['greet', 'add']);
+	});
+});
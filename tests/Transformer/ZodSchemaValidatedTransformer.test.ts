@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ValidationError } from '../../src/Error/ValidationError';
+import { EnumErrorCode } from '../../src/Type/ErrorCode';
+import { TransformerHelper } from '../../src/Helper/TransformerHelper';
+import { type AsyncTransformerInterface } from '../../src/Interface/AsyncTransformerInterface';
+import { type TransformerInterface } from '../../src/Interface/TransformerInterface';
+import { BidirectionalTransformer } from '../../src/Transformer/BidirectionalTransformer';
+import { ZodSchemaValidatedAsyncTransformer } from '../../src/Transformer/ZodSchemaValidatedAsyncTransformer';
+import { ZodSchemaValidatedTransformer } from '../../src/Transformer/ZodSchemaValidatedTransformer';
+
+interface TypeUser { firstName: string, lastName: string }
+
+// Mock transformers
+class FullNameTransformer implements TransformerInterface<TypeUser, string>
+{
+	public transform(input: TypeUser | undefined): string | undefined
+	{
+		return input && `${input.firstName} ${input.lastName}`;
+	}
+}
+
+class UpperCaseTransformer implements TransformerInterface<string, string>
+{
+	public transform(input: string | undefined): string | undefined
+	{
+		return input?.toUpperCase();
+	}
+}
+
+describe('ZodSchemaValidatedTransformer', () =>
+{
+	const userSchema = z.object({ firstName: z.string().min(1), lastName: z.string() });
+
+	it('should transform valid input', () =>
+	{
+		const transformer = new ZodSchemaValidatedTransformer(userSchema, z.string(), new FullNameTransformer());
+
+		expect(transformer.transform({ firstName: 'John', lastName: 'Doe' })).toBe('John Doe');
+		expect(transformer.transform(undefined)).toBeUndefined();
+	});
+
+	it('should throw a ValidationError for invalid input and output', () =>
+	{
+		const transformer = new ZodSchemaValidatedTransformer(userSchema, z.string().max(5), new FullNameTransformer());
+
+		expect(() => transformer.transform({ firstName: '', lastName: 'Doe' })).toThrow(ValidationError);
+		expect(() => transformer.transform({ firstName: 'John', lastName: 'Doe' })).toThrow('String must contain at most 5 character(s) (at )');
+	});
+
+	it('should validate async transformers', async () =>
+	{
+		const asyncTransformer: AsyncTransformerInterface<TypeUser, string> = {
+			transform: async (input) => new FullNameTransformer().transform(input)
+		};
+		const transformer = new ZodSchemaValidatedAsyncTransformer(userSchema, z.string(), asyncTransformer);
+
+		await expect(transformer.transform({ firstName: 'John', lastName: 'Doe' })).resolves.toBe('John Doe');
+		await expect(transformer.transform({ firstName: 1 } as any)).rejects.toBeInstanceOf(ValidationError);
+	});
+
+	it('should compose transformers and lift them to arrays', async () =>
+	{
+		const transformer = TransformerHelper.compose(new FullNameTransformer(), new UpperCaseTransformer());
+		const arrayTransformer = TransformerHelper.array(transformer);
+		const asyncTransformer = TransformerHelper.arrayAsync(TransformerHelper.composeAsync(transformer, new UpperCaseTransformer()));
+
+		expect(arrayTransformer.transform([{ firstName: 'John', lastName: 'Doe' }, { firstName: 'Jane', lastName: 'Roe' }])).toEqual(['JOHN DOE', 'JANE ROE']);
+		await expect(asyncTransformer.transform([{ firstName: 'John', lastName: 'Doe' }])).resolves.toEqual(['JOHN DOE']);
+	});
+
+	it('should fail instead of dropping array items transformed to undefined', async () =>
+	{
+		const transformer: TransformerInterface<number, number> = { transform: (input) => (input === 0 ? undefined : input) };
+
+		expect(() => TransformerHelper.array(transformer).transform([1, 0, 2])).toThrow('Item at index 1 was transformed to undefined');
+		expect(() => TransformerHelper.array(transformer).transform([0])).toThrow(ValidationError);
+		await expect(TransformerHelper.arrayAsync({ transform: async (input: number | undefined) => transformer.transform(input) }).transform([1, 0]))
+			.rejects.toMatchObject({ messages: [{ code: EnumErrorCode.VALIDATION_ERROR, path: [1] }] });
+	});
+
+	it('should transform in both directions', () =>
+	{
+		const transformer = new BidirectionalTransformer<Record<string, number>, string>(
+			{ transform: (input) => input && JSON.stringify(input) },
+			{ transform: (output) => output && JSON.parse(output) }
+		);
+
+		expect(transformer.transform({ a: 1 })).toBe('{"a":1}');
+		expect(transformer.reverseTransform('{"a":1}')).toEqual({ a: 1 });
+		expect(transformer.inverse().transform('{"b":2}')).toEqual({ b: 2 });
+	});
+});